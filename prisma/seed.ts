@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, type Prisma } from "@prisma/client";
 import { createHash } from "crypto";
 
 const prisma = new PrismaClient();
@@ -371,65 +371,67 @@ async function main() {
 
   console.log(`Created ${projects.length} projects`);
 
-  // Create example beneficiaries
-  const beneficiaries = await Promise.all([
+  // One example person per call, enrolled in each project given and known by
+  // the details of the first enrollment
+  function createPerson(...enrollments: Omit<Prisma.BeneficiaryUncheckedCreateInput, "personId">[]) {
+    const { firstName, lastName, gender, age, phone, regionId } = enrollments[0]!;
+    return prisma.person.create({
+      data: { firstName, lastName, gender, age, phone, regionId, enrollments: { create: enrollments } },
+      include: { enrollments: true },
+    });
+  }
+
+  // Create example people and their enrollments
+  const people = await Promise.all([
     // Project 1 - APJE Bamako
-    prisma.beneficiary.create({
-      data: {
-        firstName: "Adama",
-        lastName: "Sangare",
-        gender: "MALE",
-        age: 26,
-        phone: "+223 76 11 11 11",
-        regionId: regions[0].id,
-        sectorId: sectors[5].id,
-        projectId: projects[0].id,
-        accompanimentStatus: "ACTIVE",
-      },
-    }),
-    prisma.beneficiary.create({
-      data: {
-        firstName: "Mariam",
-        lastName: "Diallo",
-        gender: "FEMALE",
-        age: 24,
-        phone: "+223 66 22 22 22",
-        regionId: regions[0].id,
-        sectorId: sectors[5].id,
-        projectId: projects[0].id,
-        accompanimentStatus: "ACTIVE",
-      },
+    createPerson({
+      firstName: "Adama",
+      lastName: "Sangare",
+      gender: "MALE",
+      age: 26,
+      phone: "+223 76 11 11 11",
+      regionId: regions[0].id,
+      sectorId: sectors[5].id,
+      projectId: projects[0].id,
+      accompanimentStatus: "ACTIVE",
+    }),
+    createPerson({
+      firstName: "Mariam",
+      lastName: "Diallo",
+      gender: "FEMALE",
+      age: 24,
+      phone: "+223 66 22 22 22",
+      regionId: regions[0].id,
+      sectorId: sectors[5].id,
+      projectId: projects[0].id,
+      accompanimentStatus: "ACTIVE",
     }),
     // Project 2 - FIER Sikasso
-    prisma.beneficiary.create({
-      data: {
-        firstName: "Sekou",
-        lastName: "Traore",
-        gender: "MALE",
-        age: 35,
-        phone: "+223 70 33 33 33",
-        regionId: regions[3].id,
-        sectorId: sectors[0].id,
-        projectId: projects[1].id,
-        accompanimentStatus: "ACTIVE",
-      },
-    }),
-    prisma.beneficiary.create({
-      data: {
-        firstName: "Kadiatou",
-        lastName: "Keita",
-        gender: "FEMALE",
-        age: 28,
-        phone: "+223 65 44 44 44",
-        regionId: regions[3].id,
-        sectorId: sectors[0].id,
-        projectId: projects[1].id,
-        accompanimentStatus: "COMPLETED",
-      },
-    }),
-    // Project 3 - ONEF Technologie
-    prisma.beneficiary.create({
-      data: {
+    createPerson({
+      firstName: "Sekou",
+      lastName: "Traore",
+      gender: "MALE",
+      age: 35,
+      phone: "+223 70 33 33 33",
+      regionId: regions[3].id,
+      sectorId: sectors[0].id,
+      projectId: projects[1].id,
+      accompanimentStatus: "ACTIVE",
+    }),
+    createPerson({
+      firstName: "Kadiatou",
+      lastName: "Keita",
+      gender: "FEMALE",
+      age: 28,
+      phone: "+223 65 44 44 44",
+      regionId: regions[3].id,
+      sectorId: sectors[0].id,
+      projectId: projects[1].id,
+      accompanimentStatus: "COMPLETED",
+    }),
+    // Project 3 - ONEF Technologie, then financed by Project 1 - APJE Bamako
+    createPerson(
+      {
         firstName: "Boubacar",
         lastName: "Kone",
         gender: "MALE",
@@ -439,52 +441,62 @@ async function main() {
         sectorId: sectors[6].id,
         projectId: projects[2].id,
         accompanimentStatus: "COMPLETED",
+        startDate: new Date("2024-02-01"),
+        endDate: new Date("2024-07-31"),
+        outcome: "SELF_EMPLOYED",
       },
-    }),
-    // Project 4 - Artisanat Mopti
-    prisma.beneficiary.create({
-      data: {
-        firstName: "Aissata",
-        lastName: "Cisse",
-        gender: "FEMALE",
-        age: 32,
-        phone: "+223 66 66 66 66",
-        regionId: regions[5].id,
-        sectorId: sectors[2].id,
-        projectId: projects[3].id,
+      {
+        firstName: "Boubacar",
+        lastName: "Kone",
+        gender: "MALE",
+        age: 29,
+        phone: "+223 77 55 55 55",
+        regionId: regions[0].id,
+        sectorId: sectors[6].id,
+        projectId: projects[0].id,
         accompanimentStatus: "ACTIVE",
-      },
-    }),
-    prisma.beneficiary.create({
-      data: {
-        firstName: "Oumou",
-        lastName: "Ba",
-        gender: "FEMALE",
-        age: 27,
-        phone: "+223 70 77 77 77",
-        regionId: regions[5].id,
-        sectorId: sectors[2].id,
-        projectId: projects[3].id,
-        accompanimentStatus: "SUSPENDED",
-      },
+        startDate: new Date("2024-09-01"),
+      }
+    ),
+    // Project 4 - Artisanat Mopti
+    createPerson({
+      firstName: "Aissata",
+      lastName: "Cisse",
+      gender: "FEMALE",
+      age: 32,
+      phone: "+223 66 66 66 66",
+      regionId: regions[5].id,
+      sectorId: sectors[2].id,
+      projectId: projects[3].id,
+      accompanimentStatus: "ACTIVE",
+    }),
+    createPerson({
+      firstName: "Oumou",
+      lastName: "Ba",
+      gender: "FEMALE",
+      age: 27,
+      phone: "+223 70 77 77 77",
+      regionId: regions[5].id,
+      sectorId: sectors[2].id,
+      projectId: projects[3].id,
+      accompanimentStatus: "SUSPENDED",
     }),
     // Project 5 - Transport Kayes
-    prisma.beneficiary.create({
-      data: {
-        firstName: "Mamadou",
-        lastName: "Sissoko",
-        gender: "MALE",
-        age: 31,
-        phone: "+223 76 88 88 88",
-        regionId: regions[1].id,
-        sectorId: sectors[9].id,
-        projectId: projects[4].id,
-        accompanimentStatus: "ACTIVE",
-      },
+    createPerson({
+      firstName: "Mamadou",
+      lastName: "Sissoko",
+      gender: "MALE",
+      age: 31,
+      phone: "+223 76 88 88 88",
+      regionId: regions[1].id,
+      sectorId: sectors[9].id,
+      projectId: projects[4].id,
+      accompanimentStatus: "ACTIVE",
     }),
   ]);
 
-  console.log(`Created ${beneficiaries.length} beneficiaries`);
+  const enrollments = people.reduce((total, person) => total + person.enrollments.length, 0);
+  console.log(`Created ${people.length} people with ${enrollments} enrollments`);
 
   // Create example news
   const news = await Promise.all([
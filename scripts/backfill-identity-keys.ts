@@ -0,0 +1,29 @@
+import { repositories } from "../src/repositories";
+import { identityKeys } from "../src/beneficiary-duplicates";
+
+// Sets the duplicate detection keys (name_key, phone_key) of people registered
+// before they were stored, or after the way they are computed changed.
+// Runs against the configured DATA_BACKEND and can be run again safely:
+//   bun run scripts/backfill-identity-keys.ts
+
+async function main() {
+  const { data: people, error } = await repositories.people.list();
+  if (error) throw new Error(error.message);
+
+  let updated = 0;
+  for (const person of people ?? []) {
+    const keys = identityKeys(person);
+    if (keys.name_key === person.name_key && keys.phone_key === person.phone_key) continue;
+
+    const { error: updateError } = await repositories.people.update(person.id, keys);
+    if (updateError) throw new Error(`${person.id}: ${updateError.message}`);
+    updated++;
+  }
+
+  console.log(`[OK] ${updated} personne(s) mise(s) a jour sur ${people?.length ?? 0}`);
+}
+
+main().catch((e) => {
+  console.error("Backfill error:", e);
+  process.exit(1);
+});
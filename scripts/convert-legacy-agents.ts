@@ -0,0 +1,65 @@
+import { repositories } from "../src/repositories";
+import { diffRows } from "../src/audit";
+
+// Gives the AGENT role to field agents created before it existed. POST
+// /api/agents used to create them as ADMIN_DEPARTMENT, recognizable by the
+// email it generates from their phone number. Each one is first assigned every
+// project of their department, the access they had so far, then loses the
+// department admin rights. Assignments can be narrowed afterwards through
+// PUT /api/agents/:id/projects.
+// Runs against the configured DATA_BACKEND and can be run again safely:
+//   bun run scripts/convert-legacy-agents.ts
+
+const LEGACY_AGENT_EMAIL = /^agent_[^@]+@gouv\.ml$/;
+
+async function main() {
+  const { data: admins, error } = await repositories.users.list({ role: "ADMIN_DEPARTMENT" });
+  if (error) throw new Error(error.message);
+
+  const agents = (admins ?? []).filter((user) => LEGACY_AGENT_EMAIL.test(user.email));
+
+  for (const agent of agents) {
+    const projectIds = new Set<string>();
+
+    const { data: assignments, error: assignmentsError } = await repositories.projectAssignments.listByUser(agent.id);
+    if (assignmentsError) throw new Error(`${agent.id}: ${assignmentsError.message}`);
+    for (const assignment of assignments ?? []) projectIds.add(assignment.project_id);
+
+    if (agent.department_id) {
+      const { data: projects, error: projectsError } = await repositories.projects.list({ departmentId: agent.department_id });
+      if (projectsError) throw new Error(`${agent.id}: ${projectsError.message}`);
+      for (const project of projects ?? []) projectIds.add(project.id);
+    }
+
+    const { error: assignError } = await repositories.projectAssignments.replaceForUser(agent.id, [...projectIds], null);
+    if (assignError) throw new Error(`${agent.id}: ${assignError.message}`);
+
+    const { data: updated, error: updateError } = await repositories.users.update(agent.id, {
+      role: "AGENT",
+      updated_at: new Date().toISOString(),
+    });
+    if (updateError) throw new Error(`${agent.id}: ${updateError.message}`);
+
+    const { error: auditError } = await repositories.auditLogs.create({
+      actor_id: null,
+      actor_name: null,
+      on_behalf_of_id: null,
+      on_behalf_of_name: null,
+      action: "UPDATE",
+      entity_type: "USER",
+      entity_id: agent.id,
+      changes: JSON.stringify(diffRows(agent, updated)),
+      ip_address: "script",
+    });
+    if (auditError) console.error(`[Audit] ${agent.id}:`, auditError);
+
+    console.log(`[OK] ${agent.email}: AGENT, ${projectIds.size} projet(s) assigne(s)`);
+  }
+
+  console.log(`[OK] ${agents.length} agent(s) converti(s)`);
+}
+
+main().catch((e) => {
+  console.error("Conversion error:", e);
+  process.exit(1);
+});
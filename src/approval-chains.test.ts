@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import {
+  approvalAmount,
+  approvalChainFor,
+  canDecideStep,
+  currentStepRole,
+  escalatedApprovalChain,
+  requestedBudget,
+  storedApprovalChain,
+} from "./approval-chains";
+
+// The default chains apply: APPROVAL_CHAINS is not set for tests
+const project = { budget: 200_000_000 };
+
+describe("approvalAmount", () => {
+  test("is the increase asked for on budget increases", () => {
+    expect(approvalAmount("BUDGET_INCREASE", project, { newBudget: 350_000_000 })).toBe(150_000_000);
+    expect(approvalAmount("BUDGET_INCREASE", { budget: null }, { newBudget: 50_000_000 })).toBe(50_000_000);
+  });
+
+  test("is never negative for a budget cut", () => {
+    expect(approvalAmount("BUDGET_INCREASE", project, { newBudget: 100_000_000 })).toBe(0);
+  });
+
+  test("is infinite when the budget asked for is unreadable, so the longest chain applies", () => {
+    for (const metadata of [{ newBudget: "999999999" }, { newBudget: -1 }, {}, null, undefined]) {
+      expect(approvalAmount("BUDGET_INCREASE", project, metadata)).toBe(Number.POSITIVE_INFINITY);
+    }
+  });
+
+  test("is the project budget for the other types", () => {
+    expect(approvalAmount("PROJECT_APPROVAL", project, { newBudget: 1 })).toBe(200_000_000);
+    expect(approvalAmount("STATUS_CHANGE", { budget: null }, null)).toBe(0);
+  });
+});
+
+describe("requestedBudget", () => {
+  test("only reads a positive number", () => {
+    expect(requestedBudget({ newBudget: 1_000 })).toBe(1_000);
+    expect(requestedBudget({ newBudget: "1000" })).toBeNull();
+    expect(requestedBudget(null)).toBeNull();
+  });
+});
+
+describe("approvalChainFor", () => {
+  test("uses the base chain up to the first threshold, included", () => {
+    expect(approvalChainFor("BUDGET_INCREASE", 0)).toEqual(["MINISTER"]);
+    expect(approvalChainFor("BUDGET_INCREASE", 100_000_000)).toEqual(["MINISTER"]);
+  });
+
+  test("uses the chain of the highest threshold passed", () => {
+    expect(approvalChainFor("BUDGET_INCREASE", 100_000_001)).toEqual(["MINISTER", "PRIMATURE"]);
+    expect(approvalChainFor("BUDGET_INCREASE", 500_000_001)).toEqual(["MINISTER", "PRIMATURE", "PRESIDENCY"]);
+    expect(approvalChainFor("BUDGET_INCREASE", Number.POSITIVE_INFINITY)).toEqual(["MINISTER", "PRIMATURE", "PRESIDENCY"]);
+    expect(approvalChainFor("PROJECT_APPROVAL", 600_000_000)).toEqual(["MINISTER", "PRIMATURE", "PRESIDENCY"]);
+  });
+
+  test("has a single level for types without thresholds", () => {
+    expect(approvalChainFor("UNBLOCK_REQUEST", Number.POSITIVE_INFINITY)).toEqual(["MINISTER"]);
+  });
+
+  test("returns a copy the caller may change", () => {
+    approvalChainFor("STATUS_CHANGE", 0).push("PRESIDENCY");
+    expect(approvalChainFor("STATUS_CHANGE", 0)).toEqual(["MINISTER"]);
+  });
+});
+
+describe("stored chains", () => {
+  const request = { approval_chain: JSON.stringify(["MINISTER", "PRIMATURE"]), current_step: 1 };
+
+  test("read the role of the current step", () => {
+    expect(storedApprovalChain(request)).toEqual(["MINISTER", "PRIMATURE"]);
+    expect(currentStepRole(request)).toBe("PRIMATURE");
+  });
+
+  test("leave requests without a readable chain to any approver", () => {
+    expect(currentStepRole({ approval_chain: null, current_step: 0 })).toBeNull();
+    expect(currentStepRole({ approval_chain: '["CHEF"]', current_step: 0 })).toBeNull();
+    expect(canDecideStep({ role: "MINISTER" }, null)).toBe(true);
+  });
+
+  test("let only the expected role or a super admin decide a step", () => {
+    expect(canDecideStep({ role: "MINISTER" }, "PRIMATURE")).toBe(false);
+    expect(canDecideStep({ role: "PRIMATURE" }, "PRIMATURE")).toBe(true);
+    expect(canDecideStep({ role: "SUPER_ADMIN" }, "PRESIDENCY")).toBe(true);
+  });
+});
+
+describe("escalatedApprovalChain", () => {
+  test("hands the current step to the next level, merging it with the following step", () => {
+    expect(escalatedApprovalChain({ approval_chain: '["MINISTER"]', current_step: 0 })).toEqual(["PRIMATURE"]);
+    expect(escalatedApprovalChain({ approval_chain: '["MINISTER","PRIMATURE","PRESIDENCY"]', current_step: 0 })).toEqual([
+      "PRIMATURE",
+      "PRESIDENCY",
+    ]);
+  });
+
+  test("stops at the top of the hierarchy", () => {
+    expect(escalatedApprovalChain({ approval_chain: '["PRESIDENCY"]', current_step: 0 })).toBeNull();
+    expect(escalatedApprovalChain({ approval_chain: null, current_step: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+import { z } from "zod";
+import type { UserRow, ValidationRequestRow } from "./repositories";
+import { usersWithPermission } from "./permissions";
+import {
+  BudgetIncreaseMetadataSchema,
+  UserRoleEnum,
+  ValidationRequestTypeEnum,
+  type UserRole,
+  type ValidationRequestType,
+} from "./types";
+
+/**
+ * Who approves a validation request, in order. Each type has a base chain and
+ * optional longer chains for amounts above a threshold (FCFA): the budget
+ * increase for BUDGET_INCREASE, the project budget otherwise. The chain is
+ * copied onto the request when it is created, so later configuration changes
+ * never affect requests already in flight.
+ *
+ * Overridable with APPROVAL_CHAINS, a JSON object using the same shape.
+ */
+const ApprovalChainSchema = z.object({
+  steps: z.array(UserRoleEnum).min(1),
+  thresholds: z
+    .array(z.object({ above: z.number().min(0), steps: z.array(UserRoleEnum).min(1) }))
+    .optional(),
+});
+
+const ApprovalChainsSchema = z.partialRecord(ValidationRequestTypeEnum, ApprovalChainSchema);
+
+type ApprovalChains = z.infer<typeof ApprovalChainsSchema>;
+
+const DEFAULT_APPROVAL_CHAINS: ApprovalChains = {
+  PROJECT_APPROVAL: {
+    steps: ["MINISTER"],
+    thresholds: [{ above: 500_000_000, steps: ["MINISTER", "PRIMATURE", "PRESIDENCY"] }],
+  },
+  BUDGET_INCREASE: {
+    steps: ["MINISTER"],
+    thresholds: [
+      { above: 100_000_000, steps: ["MINISTER", "PRIMATURE"] },
+      { above: 500_000_000, steps: ["MINISTER", "PRIMATURE", "PRESIDENCY"] },
+    ],
+  },
+  STATUS_CHANGE: { steps: ["MINISTER"] },
+  UNBLOCK_REQUEST: { steps: ["MINISTER"] },
+};
+
+let configuredChains: ApprovalChains | null = null;
+
+function approvalChains(): ApprovalChains {
+  if (configuredChains) return configuredChains;
+
+  configuredChains = DEFAULT_APPROVAL_CHAINS;
+  if (process.env.APPROVAL_CHAINS) {
+    try {
+      configuredChains = {
+        ...DEFAULT_APPROVAL_CHAINS,
+        ...ApprovalChainsSchema.parse(JSON.parse(process.env.APPROVAL_CHAINS)),
+      };
+    } catch (error) {
+      console.error("[ApprovalChains] Invalid APPROVAL_CHAINS, using the defaults:", error);
+    }
+  }
+  return configuredChains;
+}
+
+// Budget a BUDGET_INCREASE request asks for, or null when its metadata does
+// not hold a valid one. Both the chain and the approved change read it here.
+export function requestedBudget(metadata: unknown): number | null {
+  const parsed = BudgetIncreaseMetadataSchema.safeParse(metadata);
+  return parsed.success ? parsed.data.newBudget : null;
+}
+
+// Amount the thresholds are compared with. An unreadable budget increase gets
+// the longest chain rather than the shortest.
+export function approvalAmount(type: string, project: { budget: number | null }, metadata: unknown): number {
+  if (type === "BUDGET_INCREASE") {
+    const newBudget = requestedBudget(metadata);
+    return newBudget === null ? Number.POSITIVE_INFINITY : Math.max(0, newBudget - (project.budget ?? 0));
+  }
+  return project.budget ?? 0;
+}
+
+export function approvalChainFor(type: ValidationRequestType, amount: number): UserRole[] {
+  const chain = approvalChains()[type] ?? { steps: ["MINISTER" as const] };
+
+  let steps = chain.steps;
+  let reached = -1;
+  for (const threshold of chain.thresholds ?? []) {
+    if (amount > threshold.above && threshold.above > reached) {
+      steps = threshold.steps;
+      reached = threshold.above;
+    }
+  }
+  return [...steps];
+}
+
+// Chain stored on the request. Requests created before chains existed have
+// none: any approver may decide them in a single step.
+export function storedApprovalChain(validation: Pick<ValidationRequestRow, "approval_chain">): UserRole[] | null {
+  if (!validation.approval_chain) return null;
+  try {
+    const parsed = z.array(UserRoleEnum).safeParse(JSON.parse(validation.approval_chain));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Role expected to decide the current step, or null when any approver may
+export function currentStepRole(
+  validation: Pick<ValidationRequestRow, "approval_chain" | "current_step">
+): UserRole | null {
+  return storedApprovalChain(validation)?.[validation.current_step] ?? null;
+}
+
+export function isFinalStep(validation: Pick<ValidationRequestRow, "approval_chain" | "current_step">): boolean {
+  const chain = storedApprovalChain(validation);
+  return !chain || validation.current_step >= chain.length - 1;
+}
+
+// Super admins may decide any step on behalf of the expected role
+export function canDecideStep(user: { role: string }, stepRole: UserRole | null): boolean {
+  return stepRole === null || user.role === stepRole || user.role === "SUPER_ADMIN";
+}
+
+// Hierarchy an overdue step climbs, one level per escalation
+const ESCALATION_ORDER: readonly UserRole[] = ["MINISTER", "PRIMATURE", "PRESIDENCY"];
+
+/**
+ * Chain after handing the current step to the next level of the hierarchy, or
+ * null when it cannot climb further. When that level also decides the
+ * following step, the two steps merge.
+ */
+export function escalatedApprovalChain(
+  validation: Pick<ValidationRequestRow, "approval_chain" | "current_step">
+): UserRole[] | null {
+  const chain = storedApprovalChain(validation);
+  const role = chain?.[validation.current_step];
+  if (!chain || !role || !ESCALATION_ORDER.includes(role)) return null;
+
+  const next = ESCALATION_ORDER[ESCALATION_ORDER.indexOf(role) + 1];
+  if (!next) return null;
+
+  const escalated = [...chain];
+  escalated[validation.current_step] = next;
+  if (escalated[validation.current_step + 1] === next) {
+    escalated.splice(validation.current_step + 1, 1);
+  }
+  return escalated;
+}
+
+// Users to notify when a request reaches a step
+export async function stepApprovers(stepRole: UserRole | null): Promise<UserRow[]> {
+  const approvers = await usersWithPermission("validation:approve");
+  return stepRole === null ? approvers : approvers.filter((approver) => approver.role === stepRole);
+}
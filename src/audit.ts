@@ -0,0 +1,119 @@
+import type { Context } from "hono";
+import { repositories, type AuditLogInsert } from "./repositories";
+import { getClientIp, type AuthEnv } from "./middleware/auth";
+
+export const AUDIT_ACTIONS = ["CREATE", "UPDATE", "DELETE"] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ENTITY_TYPES = [
+  "PROJECT",
+  "DISBURSEMENT",
+  "MILESTONE",
+  "BENEFICIARY",
+  "PERSON",
+  "USER",
+  "VALIDATION_REQUEST",
+  "DOCUMENT",
+  "DELEGATION",
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(["created_at", "updated_at", "last_used_at"]);
+
+// Secrets are never copied into the log, only the fact that they changed
+const REDACTED_FIELDS = new Set(["password_hash", "token", "refresh_token", "code_hash"]);
+const REDACTED = "[masque]";
+
+type Snapshot = Record<string, unknown> | null | undefined;
+
+// Own columns of a row: joined relations (nested objects) are left out
+function columns(row: Snapshot): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(row ?? {})) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (value !== null && typeof value === "object") continue;
+    result[field] = value;
+  }
+  return result;
+}
+
+// Field-level diff of two row snapshots; a missing side is recorded as null
+export function diffRows(before: Snapshot, after: Snapshot): AuditChanges {
+  const previous = columns(before);
+  const next = columns(after);
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    const from = before ? previous[field] ?? null : null;
+    const to = after ? next[field] ?? null : null;
+    if (from === to) continue;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: from === null ? null : REDACTED, after: to === null ? null : REDACTED }
+      : { before: from, after: to };
+  }
+
+  return changes;
+}
+
+interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: Snapshot;
+  after?: Snapshot;
+  // Delegator whose authority the caller used, see src/delegations.ts
+  onBehalfOf?: { id: string; name: string } | null;
+}
+
+// Log row of an entry, or null for an update that changes nothing
+function auditInsert<E extends AuthEnv>(c: Context<E, any, any>, entry: AuditEntry): AuditLogInsert | null {
+  const changes = diffRows(entry.before, entry.after);
+  if (entry.action === "UPDATE" && Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  const actor = c.get("user");
+
+  return {
+    actor_id: actor?.id ?? null,
+    actor_name: actor?.name ?? null,
+    on_behalf_of_id: entry.onBehalfOf?.id ?? null,
+    on_behalf_of_name: entry.onBehalfOf?.name ?? null,
+    action: entry.action,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId,
+    changes: JSON.stringify(changes),
+    ip_address: getClientIp(c),
+  };
+}
+
+/**
+ * Records a change made by the current caller. Updates that change nothing are
+ * skipped. Failures are logged and never fail the request that made the change.
+ */
+export async function recordAudit<E extends AuthEnv>(c: Context<E, any, any>, entry: AuditEntry): Promise<void> {
+  const input = auditInsert(c, entry);
+  if (!input) return;
+
+  const { error } = await repositories.auditLogs.create(input);
+
+  if (error) {
+    console.error("[Audit] Failed to record entry:", error);
+  }
+}
+
+// Same as recordAudit for the changes of a bulk operation, in one write
+export async function recordAuditMany<E extends AuthEnv>(c: Context<E, any, any>, entries: AuditEntry[]): Promise<void> {
+  const inputs = entries.map((entry) => auditInsert(c, entry)).filter((input) => input !== null);
+  if (inputs.length === 0) return;
+
+  const { error } = await repositories.auditLogs.createMany(inputs);
+
+  if (error) {
+    console.error("[Audit] Failed to record entries:", error);
+  }
+}
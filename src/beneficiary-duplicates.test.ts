@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import { candidateKeys, createIdentityIndex, findDuplicatePairs, identityKeys, type Identity } from "./beneficiary-duplicates";
+
+function person(id: string, fields: Partial<Identity> = {}): Identity {
+  return {
+    id,
+    first_name: "Moussa",
+    last_name: "Traore",
+    gender: "MALE",
+    age: 24,
+    phone: "76 12 34 56",
+    region_id: "bamako",
+    ...fields,
+  };
+}
+
+describe("identityKeys", () => {
+  test("ignores accents, case and word order in the name key", () => {
+    expect(identityKeys(person("a", { first_name: "TRAORÉ", last_name: "moussa" }))).toEqual(identityKeys(person("b")));
+  });
+
+  test("normalizes the phone key and drops numbers too short to compare", () => {
+    expect(identityKeys(person("a")).phone_key).toBe("+22376123456");
+    expect(identityKeys(person("b", { phone: "00223 76 12 34 56" })).phone_key).toBe(identityKeys(person("c", { phone: "76123456" })).phone_key);
+    expect(identityKeys(person("d", { phone: "1234" })).phone_key).toBeNull();
+  });
+
+  test("collects the distinct keys of several identities", () => {
+    expect(candidateKeys([person("a"), person("b"), person("c", { phone: null })])).toEqual({
+      nameKeys: ["MALE:mo|tr"],
+      phoneKeys: ["+22376123456"],
+    });
+  });
+});
+
+describe("createIdentityIndex", () => {
+  test("scores a full match at 100 with every reason", () => {
+    const index = createIdentityIndex([person("a", { first_name: "TRAORÉ", last_name: "Moussa", age: 25 })]);
+
+    expect(index.matches(person("b"))).toEqual([
+      { record: expect.objectContaining({ id: "a" }), score: 100, reasons: ["NAME", "PHONE", "AGE", "REGION"] },
+    ]);
+  });
+
+  test("never matches the identity with itself", () => {
+    expect(createIdentityIndex([person("a")]).matches(person("a"))).toEqual([]);
+  });
+
+  test("leaves out other genders and distant names", () => {
+    const index = createIdentityIndex([person("a", { gender: "FEMALE" }), person("b", { first_name: "Mohamed" })]);
+
+    expect(index.matches(person("c"))).toEqual([]);
+  });
+
+  test("needs more than a similar name to reach the threshold", () => {
+    const index = createIdentityIndex([person("a", { first_name: "Mousa", phone: null })]);
+
+    expect(index.matches(person("b", { phone: null }))).toEqual([]);
+    expect(index.matches(person("b", { phone: null }), 30)).toEqual([
+      { record: expect.objectContaining({ id: "a" }), score: 50, reasons: ["SIMILAR_NAME", "AGE", "REGION"] },
+    ]);
+  });
+
+  test("lowers the score for a different phone and a distant age", () => {
+    const index = createIdentityIndex([person("a", { phone: "66 00 00 00", age: 40 })]);
+
+    expect(index.matches(person("b"), 0)).toEqual([
+      { record: expect.objectContaining({ id: "a" }), score: 15, reasons: ["NAME", "REGION"] },
+    ]);
+  });
+
+  test("finds spellings with other initials through the phone number", () => {
+    const index = createIdentityIndex([person("a", { first_name: "Ousmane", last_name: "Diarra" })]);
+
+    expect(index.matches(person("b", { first_name: "Usmane", last_name: "Diarra" }))).toEqual([
+      { record: expect.objectContaining({ id: "a" }), score: 90, reasons: ["SIMILAR_NAME", "PHONE", "AGE", "REGION"] },
+    ]);
+  });
+
+  test("ranks the best match first and sees records added later", () => {
+    const index = createIdentityIndex([person("a", { phone: null })]);
+    index.add(person("b"));
+
+    expect(index.matches(person("c")).map((m) => [m.record.id, m.score])).toEqual([
+      ["b", 100],
+      ["a", 60],
+    ]);
+  });
+});
+
+describe("findDuplicatePairs", () => {
+  test("reports each pair once", () => {
+    const pairs = findDuplicatePairs([person("a"), person("b"), person("c", { first_name: "Awa", gender: "FEMALE" })]);
+
+    expect(pairs.map((p) => p.records.map((r) => r.id))).toEqual([["a", "b"]]);
+  });
+});
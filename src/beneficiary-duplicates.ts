@@ -0,0 +1,187 @@
+import { normalizeSearchText, type PersonIdentityKeys, type PersonRow } from "./repositories";
+import { normalizeMaliPhoneNumber } from "./routes/sms";
+import type { DuplicateReason } from "./types";
+
+/**
+ * Detection of people registered more than once, e.g. by two projects under
+ * slightly different spellings. People of the same gender are compared on
+ * their names, accents, case and word order ignored, and only when these are
+ * close do phone, age and region count. To keep the comparison cheap, people
+ * are only compared when they share a phone number or the first two letters
+ * of each name. Both are stored as keys on each person, so candidates are
+ * looked up in the database rather than among everyone.
+ */
+export const DUPLICATE_THRESHOLD = 60;
+
+// Least edit-distance similarity for two names to be a possible match
+const NAME_SIMILARITY = 0.85;
+
+export type Identity = Pick<PersonRow, "id" | "first_name" | "last_name" | "gender" | "age" | "phone" | "region_id">;
+
+export interface IdentityMatch<T extends Identity = Identity> {
+  record: T;
+  // 0-100; DUPLICATE_THRESHOLD and above is a probable duplicate
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+interface Indexed<T extends Identity> {
+  record: T;
+  name: string;
+  phone: string | null;
+  keys: string[];
+}
+
+// Name words in normalized form and alphabetical order, so "TRAORÉ Moussa" is "moussa traore"
+function nameWords(identity: Pick<Identity, "first_name" | "last_name">): string[] {
+  return normalizeSearchText(`${identity.first_name} ${identity.last_name}`)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .sort();
+}
+
+function phoneKey(phone: string | null): string | null {
+  if (!phone) return null;
+  const normalized = normalizeMaliPhoneNumber(phone);
+  return normalized.replace(/\D/g, "").length >= 8 ? normalized : null;
+}
+
+// Gender and the first two letters of each name word
+function nameKey(identity: Pick<Identity, "first_name" | "last_name" | "gender">, words = nameWords(identity)): string {
+  return `${identity.gender}:${words.map((word) => word.slice(0, 2)).join("|")}`;
+}
+
+// Keys stored on a person, to be kept in step with the names, gender and phone
+export function identityKeys(
+  identity: Pick<Identity, "first_name" | "last_name" | "gender" | "phone">
+): { name_key: string; phone_key: string | null } {
+  return { name_key: nameKey(identity), phone_key: phoneKey(identity.phone) };
+}
+
+// Keys of all the identities, to look their candidates up with
+export function candidateKeys(identities: Pick<Identity, "first_name" | "last_name" | "gender" | "phone">[]): PersonIdentityKeys {
+  const keys = identities.map(identityKeys);
+  return {
+    nameKeys: [...new Set(keys.map((k) => k.name_key))],
+    phoneKeys: [...new Set(keys.flatMap((k) => k.phone_key ?? []))],
+  };
+}
+
+function indexed<T extends Identity>(record: T): Indexed<T> {
+  const words = nameWords(record);
+  const phone = phoneKey(record.phone);
+  const keys = [`name:${nameKey(record, words)}`];
+  if (phone) keys.push(`phone:${phone}`);
+  return { record, name: words.join(" "), phone, keys };
+}
+
+// Levenshtein distance over the longer length: 1 for equal strings
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length]! / Math.max(a.length, b.length);
+}
+
+function compare<T extends Identity>(a: Indexed<Identity>, b: Indexed<T>): IdentityMatch<T> | null {
+  if (a.record.gender !== b.record.gender) return null;
+
+  const nameSimilarity = similarity(a.name, b.name);
+  if (nameSimilarity < NAME_SIMILARITY) return null;
+
+  const reasons: DuplicateReason[] = [nameSimilarity === 1 ? "NAME" : "SIMILAR_NAME"];
+  let score = nameSimilarity === 1 ? 40 : 30;
+
+  if (a.phone && b.phone) {
+    if (a.phone === b.phone) {
+      score += 40;
+      reasons.push("PHONE");
+    } else {
+      score -= 10;
+    }
+  }
+
+  if (a.record.age !== null && b.record.age !== null) {
+    const gap = Math.abs(a.record.age - b.record.age);
+    if (gap <= 1) {
+      score += 10;
+      reasons.push("AGE");
+    } else if (gap > 3) {
+      score -= 25;
+    }
+  }
+
+  if (a.record.region_id === b.record.region_id) {
+    score += 10;
+    reasons.push("REGION");
+  }
+
+  return { record: b.record, score: Math.max(0, Math.min(100, score)), reasons };
+}
+
+export function createIdentityIndex<T extends Identity>(records: T[] = []) {
+  const buckets = new Map<string, Indexed<T>[]>();
+
+  function add(record: T) {
+    const entry = indexed(record);
+    for (const key of entry.keys) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(entry);
+      else buckets.set(key, [entry]);
+    }
+  }
+
+  // Indexed records close enough to the identity, best first
+  function matches(identity: Identity, threshold = DUPLICATE_THRESHOLD): IdentityMatch<T>[] {
+    const entry = indexed(identity);
+    const seen = new Set<string>([identity.id]);
+    const found: IdentityMatch<T>[] = [];
+
+    for (const key of entry.keys) {
+      for (const candidate of buckets.get(key) ?? []) {
+        if (seen.has(candidate.record.id)) continue;
+        seen.add(candidate.record.id);
+
+        const match = compare(entry, candidate);
+        if (match && match.score >= threshold) found.push(match);
+      }
+    }
+
+    return found.sort((a, b) => b.score - a.score);
+  }
+
+  for (const record of records) add(record);
+
+  return { add, matches };
+}
+
+export interface DuplicatePairMatch<T extends Identity> {
+  records: [T, T];
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+// Every pair of probable duplicates among the records, each pair once
+export function findDuplicatePairs<T extends Identity>(records: T[], threshold = DUPLICATE_THRESHOLD): DuplicatePairMatch<T>[] {
+  const index = createIdentityIndex<T>();
+  const pairs: DuplicatePairMatch<T>[] = [];
+
+  for (const record of records) {
+    for (const match of index.matches(record, threshold)) {
+      pairs.push({ records: [match.record, record], score: match.score, reasons: match.reasons });
+    }
+    index.add(record);
+  }
+
+  return pairs;
+}
@@ -0,0 +1,371 @@
+import {
+  normalizeSearchText,
+  type PersonIdentityKeys,
+  type ProjectWithRelationsRow,
+  type RegionRow,
+  type SectorRow,
+} from "./repositories";
+import type { SheetRows, SpreadsheetLimits } from "./spreadsheets";
+import { candidateKeys, createIdentityIndex, type Identity, type IdentityMatch } from "./beneficiary-duplicates";
+import {
+  BeneficiaryImportFieldEnum,
+  ImportedBeneficiarySchema,
+  type AccompanimentStatus,
+  type BeneficiaryImportError,
+  type BeneficiaryImportField,
+  type BeneficiaryImportMapping,
+  type BeneficiaryImportRow,
+  type Gender,
+} from "./types";
+
+/**
+ * Validation of beneficiary import files. Columns are recognized by their
+ * header in French or English, case and accents ignored, unless the caller
+ * maps them; region, sector and project cells are matched on name, code or
+ * id. Blank region and sector cells fall back to the import defaults, then to
+ * the row's project. Each problem is reported with the line it is on, and
+ * rows that look already registered are reported with their matches.
+ */
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+// Files are read up to the header line and MAX_IMPORT_ROWS lines of data
+export const IMPORT_SHEET_LIMITS: SpreadsheetLimits = { maxRows: MAX_IMPORT_ROWS + 1, maxColumns: 100 };
+
+type Field = BeneficiaryImportField;
+type Ref = { id: string; name: string };
+
+const HEADER_ALIASES: Record<Field, string[]> = {
+  firstName: ["prenom", "prenoms", "firstname"],
+  lastName: ["nom", "nomdefamille", "lastname", "surname"],
+  gender: ["sexe", "genre", "gender", "sex"],
+  age: ["age"],
+  phone: ["telephone", "tel", "phone", "contact", "numerodetelephone"],
+  region: ["region", "regionid"],
+  sector: ["secteur", "sector", "filiere", "sectorid"],
+  project: ["projet", "project", "projectid"],
+  accompanimentStatus: ["statut", "status", "accompagnement", "statutdaccompagnement", "accompanimentstatus"],
+};
+
+const GENDERS: Record<string, Gender> = {
+  m: "MALE",
+  h: "MALE",
+  homme: "MALE",
+  masculin: "MALE",
+  male: "MALE",
+  f: "FEMALE",
+  femme: "FEMALE",
+  feminin: "FEMALE",
+  female: "FEMALE",
+};
+
+const STATUSES: Record<string, AccompanimentStatus> = {
+  actif: "ACTIVE",
+  active: "ACTIVE",
+  encours: "ACTIVE",
+  termine: "COMPLETED",
+  acheve: "COMPLETED",
+  completed: "COMPLETED",
+  suspendu: "SUSPENDED",
+  suspended: "SUSPENDED",
+};
+
+// Schema path of a create payload field, back to the import column it came from
+const SCHEMA_FIELDS: Record<string, Field> = { regionId: "region", sectorId: "sector", projectId: "project" };
+
+const NO_MATCH = { region: "Aucune region", sector: "Aucun secteur", project: "Aucun projet" } as const;
+
+// Lowercase letters and digits only, e.g. "Téléphone (+223)" -> "telephone223"
+function key(text: string): string {
+  return normalizeSearchText(text).replace(/[^a-z0-9]/g, "");
+}
+
+function isBlank(cells: string[] | undefined): boolean {
+  return !cells || cells.every((cell) => cell.trim() === "");
+}
+
+// ==================== COLUMNS ====================
+
+type Columns = Partial<Record<Field, number>>;
+
+// Column index of each field: the caller's mapping first, then known headers
+function mapColumns(header: string[], mapping: BeneficiaryImportMapping): { columns: Columns } | { error: string } {
+  const keys = header.map(key);
+  const columns: Columns = {};
+
+  for (const [field, name] of Object.entries(mapping) as [Field, string][]) {
+    const index = keys.indexOf(key(name));
+    if (index === -1) {
+      return { error: `Colonne "${name}" introuvable dans le fichier` };
+    }
+    columns[field] = index;
+  }
+
+  for (const field of BeneficiaryImportFieldEnum.options) {
+    if (columns[field] !== undefined) continue;
+    const index = keys.findIndex((k) => HEADER_ALIASES[field].includes(k));
+    if (index !== -1) columns[field] = index;
+  }
+
+  return { columns };
+}
+
+// ==================== REFERENCES ====================
+
+export interface ImportReferences {
+  regions: RegionRow[];
+  sectors: SectorRow[];
+  projects: ProjectWithRelationsRow[];
+}
+
+// Lookup on id, name and code; null marks a name shared by several rows
+function referenceIndex<T extends { id: string; name: string; code?: string }>(rows: T[]): Map<string, T | null> {
+  const index = new Map<string, T | null>();
+  for (const row of rows) {
+    index.set(row.id, row);
+    for (const name of [row.name, row.code]) {
+      if (!name) continue;
+      const k = key(name);
+      index.set(k, index.has(k) && index.get(k)?.id !== row.id ? null : row);
+    }
+  }
+  return index;
+}
+
+function lookup<T>(index: Map<string, T | null>, value: string): T | null | undefined {
+  return index.has(value) ? index.get(value) : index.get(key(value));
+}
+
+export interface ImportDefaults {
+  regionId?: string;
+  sectorId?: string;
+  projectId?: string;
+}
+
+// ==================== ROWS ====================
+
+export interface PreparedImport {
+  // Header of the file column read for each field
+  columns: Partial<Record<Field, string>>;
+  totalRows: number;
+  rows: BeneficiaryImportRow[];
+  errors: BeneficiaryImportError[];
+}
+
+interface PrepareOptions {
+  mapping: BeneficiaryImportMapping;
+  references: ImportReferences;
+  defaults: ImportDefaults;
+  // Whether the caller may add beneficiaries to the project
+  canUseProject: (project: ProjectWithRelationsRow) => Promise<boolean>;
+}
+
+/**
+ * Checks every row of a sheet, whose first non-blank line is the header. File
+ * level problems (no data, unknown columns, bad defaults) are returned as an
+ * error; row problems are collected so the whole file is reported at once.
+ */
+export async function prepareImport(
+  sheet: SheetRows,
+  { mapping, references, defaults, canUseProject }: PrepareOptions
+): Promise<PreparedImport | { error: string }> {
+  const headerIndex = sheet.findIndex((cells) => !isBlank(cells));
+  if (headerIndex === -1) {
+    return { error: "Le fichier est vide" };
+  }
+
+  const header = sheet[headerIndex]!;
+  const mapped = mapColumns(header, mapping);
+  if ("error" in mapped) return mapped;
+  const { columns } = mapped;
+
+  const indexes = {
+    region: referenceIndex(references.regions),
+    sector: referenceIndex(references.sectors),
+    project: referenceIndex(references.projects),
+  };
+
+  const fallback = {
+    region: defaults.regionId ? indexes.region.get(defaults.regionId) : undefined,
+    sector: defaults.sectorId ? indexes.sector.get(defaults.sectorId) : undefined,
+    project: defaults.projectId ? indexes.project.get(defaults.projectId) : undefined,
+  };
+  if (defaults.regionId && !fallback.region) return { error: "Region par defaut non trouvee" };
+  if (defaults.sectorId && !fallback.sector) return { error: "Secteur par defaut non trouve" };
+  if (defaults.projectId && !fallback.project) return { error: "Projet par defaut non trouve" };
+
+  for (const field of ["firstName", "lastName", "gender"] as const) {
+    if (columns[field] === undefined) {
+      return { error: `Colonne obligatoire manquante: ${HEADER_ALIASES[field][0]}` };
+    }
+  }
+  if (columns.project === undefined && !fallback.project) {
+    return { error: "Colonne obligatoire manquante: projet (ou projet par defaut)" };
+  }
+
+  const dataRows = sheet
+    .map((cells, i) => ({ line: i + 1, cells }))
+    .slice(headerIndex + 1)
+    .filter(({ cells }) => !isBlank(cells));
+
+  if (dataRows.length === 0) {
+    return { error: "Le fichier ne contient aucune ligne de donnees" };
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return { error: `Le fichier depasse ${MAX_IMPORT_ROWS} lignes` };
+  }
+
+  const allowed = new Map<string, boolean>();
+  const rows: BeneficiaryImportRow[] = [];
+  const errors: BeneficiaryImportError[] = [];
+
+  for (const { line, cells } of dataRows) {
+    const rowErrors: BeneficiaryImportError[] = [];
+    const fail = (field: Field, message: string) => rowErrors.push({ row: line, field, message });
+    const cell = (field: Field) => {
+      const column = columns[field];
+      return column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+
+    // References: the cell, else the import default; region and sector then
+    // fall back to those of the project
+    const resolve = <T extends Ref>(field: "region" | "sector" | "project", index: Map<string, T | null>) => {
+      const value = cell(field);
+      if (!value) return (fallback[field] as T | null | undefined) ?? undefined;
+
+      const found = lookup(index, value);
+      if (found === null) {
+        fail(field, `Plusieurs correspondances pour "${value}", utilisez l'identifiant`);
+      } else if (!found) {
+        fail(field, `${NO_MATCH[field]} ne correspond a "${value}"`);
+      }
+      return found ?? null;
+    };
+
+    const project = resolve("project", indexes.project);
+    const regionCell = resolve("region", indexes.region);
+    const sectorCell = resolve("sector", indexes.sector);
+    const region = regionCell === undefined ? project?.region ?? undefined : regionCell;
+    const sector = sectorCell === undefined ? project?.sector ?? undefined : sectorCell;
+
+    if (project === undefined) fail("project", "Le projet est requis");
+    if (region === undefined && project !== null) fail("region", "La region est requise");
+    if (sector === undefined && project !== null) fail("sector", "Le secteur est requis");
+
+    const genderValue = cell("gender");
+    const gender = GENDERS[key(genderValue)];
+    if (!genderValue) fail("gender", "Le sexe est requis");
+    else if (!gender) fail("gender", `Sexe "${genderValue}" non reconnu (attendu: M ou F)`);
+
+    const statusValue = cell("accompanimentStatus");
+    const accompanimentStatus = statusValue ? STATUSES[key(statusValue)] : undefined;
+    if (statusValue && !accompanimentStatus) {
+      fail("accompanimentStatus", `Statut "${statusValue}" non reconnu (attendu: actif, termine ou suspendu)`);
+    }
+
+    const ageValue = cell("age");
+    const age = ageValue ? Number(ageValue.replace(",", ".")) : undefined;
+    if (age !== undefined && !Number.isInteger(age)) {
+      fail("age", `Age "${ageValue}" invalide`);
+    }
+
+    const parsed = ImportedBeneficiarySchema.safeParse({
+      firstName: cell("firstName"),
+      lastName: cell("lastName"),
+      gender,
+      age,
+      phone: cell("phone") || undefined,
+      regionId: region?.id ?? "",
+      sectorId: sector?.id ?? "",
+      projectId: project?.id ?? "",
+      accompanimentStatus,
+    });
+
+    // Fields already reported above are not reported twice
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const path = String(issue.path[0]);
+        const field = SCHEMA_FIELDS[path] ?? (path as Field);
+        if (!rowErrors.some((error) => error.field === field)) fail(field, issue.message);
+      }
+    }
+
+    if (project) {
+      if (!allowed.has(project.id)) allowed.set(project.id, await canUseProject(project));
+      if (!allowed.get(project.id)) fail("project", `Projet "${project.name}" hors de votre perimetre`);
+    }
+
+    if (rowErrors.length > 0 || !parsed.success || !project || !region || !sector) {
+      errors.push(...rowErrors);
+      continue;
+    }
+
+    rows.push({
+      row: line,
+      firstName: parsed.data.firstName,
+      lastName: parsed.data.lastName,
+      gender: parsed.data.gender,
+      age: parsed.data.age ?? null,
+      phone: parsed.data.phone ?? null,
+      accompanimentStatus: parsed.data.accompanimentStatus ?? "ACTIVE",
+      region: { id: region.id, name: region.name },
+      sector: { id: sector.id, name: sector.name },
+      project: { id: project.id, name: project.name },
+    });
+  }
+
+  const columnNames: Partial<Record<Field, string>> = {};
+  for (const [field, index] of Object.entries(columns) as [Field, number][]) {
+    columnNames[field] = header[index] ?? "";
+  }
+
+  return { columns: columnNames, totalRows: dataRows.length, rows, errors };
+}
+
+// ==================== DUPLICATES ====================
+
+export interface ImportDuplicates<T extends Identity> {
+  // Rows repeating an earlier row of the file
+  errors: BeneficiaryImportError[];
+  // Rows matching people already registered
+  existing: { row: number; matches: IdentityMatch<T>[] }[];
+}
+
+function rowIdentity(row: BeneficiaryImportRow): Identity {
+  return {
+    id: String(row.row),
+    first_name: row.firstName,
+    last_name: row.lastName,
+    gender: row.gender,
+    age: row.age,
+    phone: row.phone,
+    region_id: row.region.id,
+  };
+}
+
+// Keys of the registered people the rows may duplicate
+export function importCandidateKeys(rows: BeneficiaryImportRow[]): PersonIdentityKeys {
+  return candidateKeys(rows.map(rowIdentity));
+}
+
+export function findImportDuplicates<T extends Identity>(rows: BeneficiaryImportRow[], registered: T[]): ImportDuplicates<T> {
+  const registeredIndex = createIdentityIndex(registered);
+  const earlierRows = createIdentityIndex<Identity>();
+  const duplicates: ImportDuplicates<T> = { errors: [], existing: [] };
+
+  for (const row of rows) {
+    const identity = rowIdentity(row);
+
+    const [earlier] = earlierRows.matches(identity);
+    if (earlier) {
+      duplicates.errors.push({ row: row.row, field: null, message: `Doublon probable de la ligne ${earlier.record.id}` });
+      continue;
+    }
+    earlierRows.add(identity);
+
+    const matches = registeredIndex.matches(identity);
+    if (matches.length > 0) duplicates.existing.push({ row: row.row, matches });
+  }
+
+  return duplicates;
+}
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { createId } from "@paralleldrive/cuid2";
+import { repositories, type CommentWithAuthorRow, type UserRow } from "./repositories";
+import type { Comment, CommentEntityType, UserRole } from "./types";
+
+/**
+ * Discussion threads on validation requests and document submissions. Each
+ * router describes its entity as a CommentTarget; mentioned users and the
+ * thread's followers are notified of new comments.
+ */
+export interface CommentTarget {
+  entityType: CommentEntityType;
+  entityId: string;
+  link: string;
+  // Used in notifications, e.g. `la demande de type "X" pour le projet "Y"`
+  label: string;
+  // Notified of every comment besides the participants, e.g. the requester
+  followerIds: string[];
+  // Whether a user may read the entity, and so be mentioned in its thread
+  canView: (user: UserRow) => Promise<boolean> | boolean;
+}
+
+export function mentionedIds(comment: Pick<CommentWithAuthorRow, "mentions">): string[] {
+  try {
+    const parsed = z.array(z.string()).safeParse(JSON.parse(comment.mentions));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function formatComment(comment: CommentWithAuthorRow): Comment {
+  return {
+    id: comment.id,
+    entityType: comment.entity_type as CommentEntityType,
+    entityId: comment.entity_id,
+    body: comment.body,
+    mentionIds: mentionedIds(comment),
+    author: comment.author
+      ? { id: comment.author.id, name: comment.author.name, role: comment.author.role as UserRole }
+      : null,
+    createdAt: comment.created_at,
+    updatedAt: comment.updated_at,
+  };
+}
+
+// Mentioned users, and the ids that cannot be mentioned: unknown, inactive or
+// without access to the entity
+export async function resolveMentions(
+  mentionIds: string[],
+  target: CommentTarget
+): Promise<{ users: UserRow[]; rejected: string[] }> {
+  const users: UserRow[] = [];
+  const rejected: string[] = [];
+
+  for (const id of new Set(mentionIds)) {
+    const { data: user } = await repositories.users.findById(id);
+    if (user && user.is_active && (await target.canView(user))) {
+      users.push(user);
+    } else {
+      rejected.push(id);
+    }
+  }
+
+  return { users, rejected };
+}
+
+function excerpt(body: string): string {
+  return body.length > 140 ? `${body.slice(0, 137)}...` : body;
+}
+
+// Mentioned users get a MENTION, followers and earlier participants a COMMENT
+export async function notifyComment(
+  comment: CommentWithAuthorRow,
+  target: CommentTarget,
+  mentioned: UserRow[]
+): Promise<void> {
+  const authorId = comment.author_id;
+  const authorName = comment.author?.name ?? "Un utilisateur";
+  const now = new Date().toISOString();
+
+  const { data: thread } = await repositories.comments.listByEntity(target.entityType, target.entityId);
+  const mentionedSet = new Set(mentioned.map((user) => user.id));
+  const followers = new Set(
+    [...target.followerIds, ...(thread || []).map((c) => c.author_id)].filter(
+      (id): id is string => !!id && id !== authorId && !mentionedSet.has(id)
+    )
+  );
+
+  const notifications = [
+    ...[...mentionedSet].filter((id) => id !== authorId).map((userId) => ({
+      id: createId(),
+      type: "MENTION",
+      title: "Vous avez ete mentionne",
+      message: `${authorName} vous a mentionne dans ${target.label}: "${excerpt(comment.body)}"`,
+      user_id: userId,
+      link: target.link,
+      is_read: false,
+      created_at: now,
+    })),
+    ...[...followers].map((userId) => ({
+      id: createId(),
+      type: "COMMENT",
+      title: "Nouveau commentaire",
+      message: `${authorName} a commente ${target.label}: "${excerpt(comment.body)}"`,
+      user_id: userId,
+      link: target.link,
+      is_read: false,
+      created_at: now,
+    })),
+  ];
+
+  if (notifications.length === 0) return;
+
+  const { error } = await repositories.notifications.createMany(notifications);
+  if (error) {
+    console.error("[Comments] Failed to notify:", error);
+  }
+}
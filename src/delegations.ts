@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { repositories, type ApprovalDelegationRow, type ApprovalDelegationWithUsersRow } from "./repositories";
+import { hasPermission, type Permission } from "./permissions";
+import { DelegationScopeEnum, type DelegationScope } from "./types";
+
+/**
+ * A delegation lets the delegate act with the delegator's approval authority
+ * for the request types in its scopes, between its start and end. The
+ * delegator must still hold the permission themselves: a delegation never
+ * grants more than the delegator has.
+ */
+export type Delegator = NonNullable<ApprovalDelegationWithUsersRow["delegator"]>;
+
+export interface ActiveDelegation {
+  delegator: Delegator;
+  scopes: DelegationScope[];
+}
+
+export function delegationScopes(delegation: Pick<ApprovalDelegationRow, "scopes">): DelegationScope[] {
+  try {
+    const parsed = z.array(DelegationScopeEnum).safeParse(JSON.parse(delegation.scopes));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function isDelegationActive(
+  delegation: Pick<ApprovalDelegationRow, "starts_at" | "ends_at" | "revoked_at">,
+  at: Date = new Date()
+): boolean {
+  return !delegation.revoked_at && new Date(delegation.starts_at) <= at && new Date(delegation.ends_at) > at;
+}
+
+// Delegations in force for the delegate whose delegator holds `permission`
+export async function activeDelegations(delegateId: string, permission: Permission): Promise<ActiveDelegation[]> {
+  const { data, error } = await repositories.approvalDelegations.list({
+    delegateId,
+    activeAt: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error("[Delegations] Failed to load delegations:", error);
+    return [];
+  }
+
+  const result: ActiveDelegation[] = [];
+  for (const delegation of data ?? []) {
+    const delegator = delegation.delegator;
+    if (!delegator?.is_active || !(await hasPermission(delegator, permission))) continue;
+    result.push({ delegator, scopes: delegationScopes(delegation) });
+  }
+  return result;
+}
+
+// First delegator lending `scope` whose authority allows the action
+export function delegatorFor(
+  delegations: ActiveDelegation[],
+  scope: DelegationScope,
+  allows: (delegator: Delegator) => boolean
+): Delegator | null {
+  return delegations.find((d) => d.scopes.includes(scope) && allows(d.delegator))?.delegator ?? null;
+}
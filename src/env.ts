@@ -10,6 +10,31 @@ const envSchema = z.object({
   NODE_ENV: z.string().optional(),
   RAILWAY_ENVIRONMENT: z.string().optional(), // Set by Railway automatically
   BACKEND_URL: z.string().optional().default("http://localhost:3000"), // Set via the Vibecode enviroment at run-time
+
+  // Authentication
+  SUPABASE_URL: z.string().optional(),
+  SUPABASE_JWT_SECRET: z.string().optional(), // HS256 secret from the Supabase project settings
+  SUPABASE_JWKS_URL: z.string().optional(), // Defaults to <SUPABASE_URL>/auth/v1/.well-known/jwks.json
+  SUPABASE_JWT_AUDIENCE: z.string().optional(), // Defaults to "authenticated"
+  SUPABASE_JWT_ISSUER: z.string().optional(), // Defaults to <SUPABASE_URL>/auth/v1
+  ALLOW_EMAIL_HEADER_AUTH: z.enum(["true", "false"]).optional(), // Defaults to true only in development
+
+  // Password policy
+  PASSWORD_MIN_LENGTH: z.string().optional(), // Defaults to 8
+  PASSWORD_REQUIRE_UPPERCASE: z.enum(["true", "false"]).optional(), // Defaults to true
+  PASSWORD_REQUIRE_LOWERCASE: z.enum(["true", "false"]).optional(), // Defaults to true
+  PASSWORD_REQUIRE_DIGIT: z.enum(["true", "false"]).optional(), // Defaults to true
+  PASSWORD_REQUIRE_SYMBOL: z.enum(["true", "false"]).optional(), // Defaults to false
+  PASSWORD_HISTORY_SIZE: z.string().optional(), // Previous passwords that cannot be reused, defaults to 5
+  PASSWORD_MAX_AGE_DAYS: z.string().optional(), // Forced rotation, 0 (default) disables it
+
+  // Validation workflow
+  APPROVAL_CHAINS: z.string().optional(), // JSON approval chains per request type, see src/approval-chains.ts
+  VALIDATION_SLA_HOURS: z.string().optional(), // JSON hours per request type each step has, see src/validation-sla.ts
+  VALIDATION_REMINDER_HOURS: z.string().optional(), // Reminder lead before a step's deadline, defaults to 12
+
+  // Data layer
+  DATA_BACKEND: z.enum(["supabase", "prisma"]).optional().default("supabase"), // prisma = local SQLite database
 });
 
 /**
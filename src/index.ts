@@ -20,6 +20,7 @@ import { authRouter } from "./routes/auth";
 import { departmentsRouter } from "./routes/departments";
 import { projectsRouter } from "./routes/projects";
 import { beneficiariesRouter } from "./routes/beneficiaries";
+import { peopleRouter } from "./routes/people";
 import { newsRouter } from "./routes/news";
 import { alertsRouter } from "./routes/alerts";
 import { statsRouter } from "./routes/stats";
@@ -35,6 +36,12 @@ import { validationsRouter } from "./routes/validations";
 import { notificationsRouter } from "./routes/notifications";
 import { smsRouter } from "./routes/sms";
 import { agentsRouter } from "./routes/agents";
+import { auditRouter } from "./routes/audit";
+import { delegationsRouter } from "./routes/delegations";
+import { searchRouter } from "./routes/search";
+import { authenticate } from "./middleware/auth";
+import { startSessionCleanup } from "./jobs/session-cleanup";
+import { startValidationDeadlines } from "./jobs/validation-deadlines";
 
 const app = new Hono();
 
@@ -110,11 +117,15 @@ if (!isRailway) {
   app.delete("/api/files/:id", (c) => c.json({ error: { message: "File delete not available in production" } }, 501));
 }
 
+// Resolve the caller once per request; routers guard with requireAuth/requireRole
+app.use("/api/*", authenticate);
+
 // Mount routes
 app.route("/api/auth", authRouter);
 app.route("/api/departments", departmentsRouter);
 app.route("/api/projects", projectsRouter);
 app.route("/api/beneficiaries", beneficiariesRouter);
+app.route("/api/people", peopleRouter);
 app.route("/api/news", newsRouter);
 app.route("/api/alerts", alertsRouter);
 app.route("/api/stats", statsRouter);
@@ -130,6 +141,13 @@ app.route("/api/validations", validationsRouter);
 app.route("/api/notifications", notificationsRouter);
 app.route("/api/sms", smsRouter);
 app.route("/api/agents", agentsRouter);
+app.route("/api/audit", auditRouter);
+app.route("/api/delegations", delegationsRouter);
+app.route("/api/search", searchRouter);
+
+// Background jobs
+startSessionCleanup();
+startValidationDeadlines();
 
 const port = Number(process.env.PORT) || 3000;
 
@@ -0,0 +1,21 @@
+import { repositories } from "../repositories";
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+async function purgeExpiredSessions(): Promise<void> {
+  const { data: removed, error } = await repositories.sessions.deleteExpired();
+
+  if (error) {
+    console.error("[Sessions] Cleanup failed:", error);
+    return;
+  }
+  if (removed) {
+    console.log(`[Sessions] Removed ${removed} expired session(s)`);
+  }
+}
+
+// Purges sessions that can no longer be used or refreshed, once at startup and then hourly
+export function startSessionCleanup(): void {
+  void purgeExpiredSessions();
+  setInterval(purgeExpiredSessions, CLEANUP_INTERVAL_MS).unref?.();
+}
@@ -0,0 +1,141 @@
+import { createId } from "@paralleldrive/cuid2";
+import { repositories, DB_CONFLICT_CODE, type ValidationRequestWithRelationsRow } from "../repositories";
+import { currentStepRole, escalatedApprovalChain, stepApprovers } from "../approval-chains";
+import { currentDueAt, reminderAt, stepDueAt } from "../validation-sla";
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+async function notify(userIds: string[], title: string, message: string, validationId: string): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const now = new Date().toISOString();
+  const { error } = await repositories.notifications.createMany(
+    userIds.map((userId) => ({
+      id: createId(),
+      type: "VALIDATION_REQUEST",
+      title,
+      message,
+      user_id: userId,
+      link: `/validations/${validationId}`,
+      is_read: false,
+      created_at: now,
+    }))
+  );
+
+  if (error) {
+    console.error("[ValidationDeadlines] Failed to notify:", error);
+  }
+}
+
+async function notifyStepApprovers(validation: ValidationRequestWithRelationsRow, title: string, message: string) {
+  const approvers = await stepApprovers(currentStepRole(validation));
+  await notify(approvers.map((approver) => approver.id), title, message, validation.id);
+}
+
+function describe(validation: ValidationRequestWithRelationsRow): string {
+  return `la demande de type "${validation.type}" pour le projet "${validation.project?.name ?? ""}"`;
+}
+
+async function sendReminder(validation: ValidationRequestWithRelationsRow, now: Date): Promise<void> {
+  const { error } = await repositories.validationRequests.update(validation.id, { reminder_sent_at: now.toISOString() });
+  if (error) {
+    console.error("[ValidationDeadlines] Failed to record reminder:", error);
+    return;
+  }
+
+  await notifyStepApprovers(
+    validation,
+    "Rappel: demande de validation en attente",
+    `Le delai pour examiner ${describe(validation)} expire le ${currentDueAt(validation).toISOString()}`
+  );
+}
+
+// Hands the overdue step to the next level of the hierarchy
+async function escalate(validation: ValidationRequestWithRelationsRow, now: Date): Promise<void> {
+  const overdueRole = currentStepRole(validation);
+  const chain = escalatedApprovalChain(validation);
+
+  // Top of the hierarchy or a single-step legacy request: remind again each period
+  if (!overdueRole || !chain) {
+    const { error } = await repositories.validationRequests.update(validation.id, {
+      due_at: stepDueAt(validation.type, now),
+      reminder_sent_at: now.toISOString(),
+    });
+    if (error) {
+      console.error("[ValidationDeadlines] Failed to extend deadline:", error);
+      return;
+    }
+    await notifyStepApprovers(validation, "Demande de validation en retard", `Le delai pour examiner ${describe(validation)} est depasse`);
+    return;
+  }
+
+  const { data: result, error } = await repositories.validationRequests.decide(validation.id, {
+    expectedStep: validation.current_step,
+    expectedUpdatedAt: validation.updated_at,
+    step: {
+      role: overdueRole,
+      approver_id: null,
+      decision: "ESCALATED",
+      comment: `Delai depasse, transmis au role ${chain[validation.current_step]}`,
+    },
+    patch: {
+      approval_chain: JSON.stringify(chain),
+      due_at: stepDueAt(validation.type, now),
+      reminder_sent_at: null,
+      escalation_count: validation.escalation_count + 1,
+      updated_at: now.toISOString(),
+    },
+  });
+
+  if (error || !result) {
+    // A decision taken meanwhile wins over the escalation
+    if (error?.code !== DB_CONFLICT_CODE) {
+      console.error("[ValidationDeadlines] Failed to escalate:", error);
+    }
+    return;
+  }
+
+  const escalated = result.validation;
+  await notifyStepApprovers(
+    escalated,
+    "Demande de validation escaladee",
+    `Le role ${overdueRole} n'a pas examine ${describe(escalated)} dans les delais, elle vous est transmise`
+  );
+  await notify(
+    [escalated.requester_id],
+    "Demande de validation escaladee",
+    `Votre demande de type "${escalated.type}" pour le projet "${escalated.project?.name ?? ""}" a ete transmise au role ${currentStepRole(escalated)} apres depassement du delai`,
+    escalated.id
+  );
+}
+
+async function checkDeadlines(): Promise<void> {
+  const { data: pending, error } = await repositories.validationRequests.list({ status: "PENDING" });
+
+  if (error) {
+    console.error("[ValidationDeadlines] Check failed:", error);
+    return;
+  }
+
+  const now = new Date();
+  let overdue = 0;
+
+  for (const validation of pending || []) {
+    if (currentDueAt(validation) <= now) {
+      await escalate(validation, now);
+      overdue++;
+    } else if (!validation.reminder_sent_at && reminderAt(validation) <= now) {
+      await sendReminder(validation, now);
+    }
+  }
+
+  if (overdue) {
+    console.log(`[ValidationDeadlines] Processed ${overdue} overdue request(s)`);
+  }
+}
+
+// Reminds approvers of approaching deadlines and escalates overdue requests, at startup and every 15 minutes
+export function startValidationDeadlines(): void {
+  void checkDeadlines();
+  setInterval(checkDeadlines, CHECK_INTERVAL_MS).unref?.();
+}
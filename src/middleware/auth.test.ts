@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { getClientIp } from "./auth";
+
+const app = new Hono().get("/", (c) => c.text(getClientIp(c)));
+
+async function clientIp(headers: Record<string, string>): Promise<string> {
+  return await (await app.request("/", { headers })).text();
+}
+
+describe("getClientIp", () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  test("takes the hop appended by the proxy, not the ones the client sent", async () => {
+    expect(await clientIp({ "X-Forwarded-For": "1.2.3.4" })).toBe("1.2.3.4");
+    expect(await clientIp({ "X-Forwarded-For": "6.6.6.6, 7.7.7.7, 1.2.3.4" })).toBe("1.2.3.4");
+  });
+
+  test("counts back TRUSTED_PROXY_HOPS hops", async () => {
+    process.env.TRUSTED_PROXY_HOPS = "2";
+
+    expect(await clientIp({ "X-Forwarded-For": "6.6.6.6, 1.2.3.4, 10.0.0.1" })).toBe("1.2.3.4");
+    expect(await clientIp({ "X-Forwarded-For": "1.2.3.4" })).toBe("1.2.3.4");
+  });
+
+  test("falls back to one hop on an invalid TRUSTED_PROXY_HOPS", async () => {
+    process.env.TRUSTED_PROXY_HOPS = "abc";
+
+    expect(await clientIp({ "X-Forwarded-For": "6.6.6.6, 1.2.3.4" })).toBe("1.2.3.4");
+  });
+
+  test("uses X-Real-IP without X-Forwarded-For", async () => {
+    expect(await clientIp({ "X-Real-IP": "1.2.3.4" })).toBe("1.2.3.4");
+    expect(await clientIp({})).toBe("unknown");
+  });
+});
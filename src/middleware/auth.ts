@@ -0,0 +1,230 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { repositories, type UserWithDepartmentRow } from "../repositories";
+import type { UserRole, UserWithDepartment } from "../types";
+import { verifySupabaseToken } from "./jwt";
+import { resolvePermissions, type Permission } from "../permissions";
+
+export type AuthUser = UserWithDepartment;
+
+// Context variables set by `authenticate`. `user` is null for anonymous
+// requests; the guards below narrow it to a resolved user for the handler.
+// `departmentScope` is the only department a department-bound role may touch
+// (null for national roles). `sessionId` is set for local session tokens only.
+// `permissions` holds the caller's role permissions after department overrides.
+export type AuthEnv = {
+  Variables: {
+    user: AuthUser | null;
+    departmentScope: string | null;
+    sessionId: string | null;
+    permissions: ReadonlySet<Permission>;
+  };
+};
+
+type AuthenticatedEnv = {
+  Variables: {
+    user: AuthUser;
+    permissions: ReadonlySet<Permission>;
+  };
+};
+
+// `last_used_at` is written at most this often per session
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Roles that only ever act on their own department
+const DEPARTMENT_BOUND_ROLES: UserRole[] = ["ADMIN_DEPARTMENT", "AGENT"];
+
+// Roles that only act on the projects assigned to them (see `project_assignments`)
+const ASSIGNMENT_BOUND_ROLES: UserRole[] = ["AGENT"];
+
+export function formatAuthUser(user: UserWithDepartmentRow): AuthUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role as UserRole,
+    departmentId: user.department_id,
+    isActive: user.is_active,
+    phone: user.phone,
+    department: user.department ? {
+      id: user.department.id,
+      name: user.department.name,
+      code: user.department.code,
+    } : null,
+    createdAt: user.created_at,
+    updatedAt: user.updated_at,
+  };
+}
+
+export function getBearerToken(c: Context): string | null {
+  const authHeader = c.req.header("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return null;
+  }
+  return authHeader.slice(7);
+}
+
+// Proxies in front of the app, each appending the address it received the
+// request from to X-Forwarded-For; only the Railway proxy by default
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops > 0 ? hops : 1;
+}
+
+// X-Forwarded-For hop appended by the outermost trusted proxy. Earlier hops
+// come from the client and can be forged.
+export function getClientIp(c: Context): string {
+  const forwarded = c.req.header("X-Forwarded-For");
+  if (forwarded) {
+    const hops = forwarded.split(",").map((hop) => hop.trim());
+    return hops[Math.max(hops.length - trustedProxyHops(), 0)] || "unknown";
+  }
+  return c.req.header("X-Real-IP") ?? "unknown";
+}
+
+// X-User-Email lets a client act as any user, so it is only honored in
+// development unless explicitly enabled with ALLOW_EMAIL_HEADER_AUTH
+function emailHeaderAuthEnabled(): boolean {
+  const flag = process.env.ALLOW_EMAIL_HEADER_AUTH;
+  if (flag !== undefined) {
+    return flag === "true";
+  }
+  return process.env.NODE_ENV === "development";
+}
+
+type ResolvedCaller = { user: UserWithDepartmentRow | null; sessionId: string | null };
+
+// Supports X-User-Email, local session tokens and verified Supabase JWTs
+async function resolveUser(c: Context): Promise<ResolvedCaller> {
+  // First check X-User-Email header (for database-only auth from frontend)
+  const userEmail = emailHeaderAuthEnabled() ? c.req.header("X-User-Email") : undefined;
+  if (userEmail) {
+    const { data: user } = await repositories.users.findByEmail(userEmail);
+    if (user) {
+      return { user, sessionId: null };
+    }
+  }
+
+  const token = getBearerToken(c);
+  if (!token) {
+    return { user: null, sessionId: null };
+  }
+
+  // Local session lookup
+  const { data: session } = await repositories.sessions.findByToken(token);
+
+  if (session && new Date(session.expires_at) >= new Date()) {
+    if (Date.now() - new Date(session.last_used_at).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      await repositories.sessions.update(session.id, { last_used_at: new Date().toISOString() });
+    }
+    return { user: session.user, sessionId: session.id };
+  }
+
+  // If no local session found, try a Supabase auth token
+  const claims = await verifySupabaseToken(token);
+  if (claims && typeof claims.email === "string") {
+    const { data: user } = await repositories.users.findByEmail(claims.email);
+    return { user, sessionId: null };
+  }
+
+  return { user: null, sessionId: null };
+}
+
+// Resolves the caller once per request. Never rejects: routes opt in to
+// authentication with the guards below.
+export const authenticate: MiddlewareHandler<AuthEnv> = async (c, next) => {
+  const { user: row, sessionId } = await resolveUser(c);
+  const user = row && row.is_active ? formatAuthUser(row) : null;
+
+  c.set("user", user);
+  c.set("sessionId", user ? sessionId : null);
+  c.set("permissions", user ? await resolvePermissions(user.role, user.departmentId) : new Set());
+  c.set("departmentScope", user && DEPARTMENT_BOUND_ROLES.includes(user.role) ? user.departmentId : null);
+  await next();
+};
+
+function unauthorized(c: Context) {
+  return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+}
+
+function forbidden(c: Context) {
+  return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+}
+
+export const requireAuth: MiddlewareHandler<AuthenticatedEnv> = async (c, next) => {
+  if (!c.get("user")) {
+    return unauthorized(c);
+  }
+  await next();
+};
+
+// Requires every listed permission
+export function requirePermission(...permissions: Permission[]): MiddlewareHandler<AuthenticatedEnv> {
+  return async (c, next) => {
+    const user = c.get("user");
+
+    if (!user) {
+      return unauthorized(c);
+    }
+    const granted = c.get("permissions");
+    if (!permissions.every((permission) => granted.has(permission))) {
+      return forbidden(c);
+    }
+    await next();
+  };
+}
+
+// True when the caller holds the permission
+export function can<E extends AuthEnv>(c: Context<E, any, any>, permission: Permission): boolean {
+  return c.get("permissions").has(permission);
+}
+
+// Pins department-bound roles to their own department: they must belong to
+// one, and a `departmentId` route param or query string outside of it is
+// rejected before the handler runs.
+export function requireDepartmentScope(): MiddlewareHandler<AuthenticatedEnv> {
+  return async (c, next) => {
+    const user = c.get("user");
+
+    if (!user) {
+      return unauthorized(c);
+    }
+
+    if (DEPARTMENT_BOUND_ROLES.includes(user.role)) {
+      const requested = c.req.param("departmentId") ?? c.req.query("departmentId");
+
+      if (!user.departmentId || (requested && requested !== user.departmentId)) {
+        return forbidden(c);
+      }
+    }
+
+    await next();
+  };
+}
+
+// True when the department is within the caller's scope. A department-bound
+// user without a department has no scope at all.
+export function inDepartmentScope<E extends AuthEnv>(c: Context<E, any, any>, departmentId: string | null | undefined): boolean {
+  const user = c.get("user");
+  if (user && DEPARTMENT_BOUND_ROLES.includes(user.role)) {
+    return !!user.departmentId && user.departmentId === departmentId;
+  }
+  return true;
+}
+
+// True when the project is within the caller's scope: its department, and for
+// assignment-bound roles an explicit assignment to the project.
+export async function inProjectScope<E extends AuthEnv>(
+  c: Context<E, any, any>,
+  project: { id: string; department_id: string | null | undefined }
+): Promise<boolean> {
+  if (!inDepartmentScope(c, project.department_id)) {
+    return false;
+  }
+
+  const user = c.get("user");
+  if (user && ASSIGNMENT_BOUND_ROLES.includes(user.role)) {
+    const { data: assigned } = await repositories.projectAssignments.exists(user.id, project.id);
+    return !!assigned;
+  }
+  return true;
+}
@@ -0,0 +1,107 @@
+import { decode, verify } from "hono/jwt";
+import type { SignatureAlgorithm } from "hono/utils/jwt/jwa";
+import type { SignatureKey } from "hono/utils/jwt/jws";
+import type { JWTPayload } from "hono/utils/jwt/types";
+
+// Asymmetric algorithms accepted from the Supabase JWKS endpoint
+const JWKS_ALGORITHMS: SignatureAlgorithm[] = ["RS256", "ES256"];
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+type Jwk = Exclude<SignatureKey, string> & { kid?: string };
+
+let jwksCache: { keys: Jwk[]; fetchedAt: number } | null = null;
+
+function supabaseAuthUrl(): string | null {
+  const url = process.env.SUPABASE_URL;
+  return url ? `${url.replace(/\/$/, "")}/auth/v1` : null;
+}
+
+function jwksUrl(): string | null {
+  if (process.env.SUPABASE_JWKS_URL) return process.env.SUPABASE_JWKS_URL;
+  const authUrl = supabaseAuthUrl();
+  return authUrl ? `${authUrl}/.well-known/jwks.json` : null;
+}
+
+async function fetchJwks(forceRefresh: boolean): Promise<Jwk[]> {
+  if (!forceRefresh && jwksCache && Date.now() - jwksCache.fetchedAt < JWKS_CACHE_TTL_MS) {
+    return jwksCache.keys;
+  }
+
+  const url = jwksUrl();
+  if (!url) return [];
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(`[JWT] JWKS fetch failed: ${response.status}`);
+      return jwksCache?.keys ?? [];
+    }
+    const body = (await response.json()) as { keys?: Jwk[] };
+    jwksCache = { keys: body.keys ?? [], fetchedAt: Date.now() };
+    return jwksCache.keys;
+  } catch (error) {
+    console.error("[JWT] JWKS fetch error:", error);
+    return jwksCache?.keys ?? [];
+  }
+}
+
+// Looks the key up by `kid`, refreshing the cache once for keys rotated in
+// since the last fetch
+async function findSigningKey(kid: string | undefined): Promise<Jwk | null> {
+  const match = (keys: Jwk[]) => keys.find((k) => (kid ? k.kid === kid : true)) ?? null;
+
+  const key = match(await fetchJwks(false));
+  if (key || !kid) return key;
+
+  return match(await fetchJwks(true));
+}
+
+function hasAudience(payload: JWTPayload, audience: string): boolean {
+  const aud = payload.aud;
+  if (Array.isArray(aud)) return aud.includes(audience);
+  return aud === audience;
+}
+
+/**
+ * Verifies a Supabase access token and returns its claims, or null when the
+ * token is not trusted. HS256 tokens are checked against SUPABASE_JWT_SECRET,
+ * RS256/ES256 tokens against the project JWKS. Expiry is enforced by the
+ * verifier; audience and issuer are checked here.
+ */
+export async function verifySupabaseToken(token: string): Promise<JWTPayload | null> {
+  let header: { alg?: string; kid?: string };
+  try {
+    header = decode(token).header as { alg?: string; kid?: string };
+  } catch {
+    return null;
+  }
+
+  let payload: JWTPayload;
+  try {
+    if (header.alg === "HS256") {
+      const secret = process.env.SUPABASE_JWT_SECRET;
+      if (!secret) return null;
+      payload = await verify(token, secret, "HS256");
+    } else if (JWKS_ALGORITHMS.includes(header.alg as SignatureAlgorithm)) {
+      const key = await findSigningKey(header.kid);
+      if (!key) return null;
+      payload = await verify(token, key, header.alg as SignatureAlgorithm);
+    } else {
+      return null;
+    }
+  } catch {
+    // Bad signature, expired, not yet valid or malformed
+    return null;
+  }
+
+  // Tokens without an expiry are never accepted
+  if (typeof payload.exp !== "number") return null;
+
+  const audience = process.env.SUPABASE_JWT_AUDIENCE || "authenticated";
+  if (!hasAudience(payload, audience)) return null;
+
+  const issuer = process.env.SUPABASE_JWT_ISSUER || supabaseAuthUrl();
+  if (issuer && payload.iss !== issuer) return null;
+
+  return payload;
+}
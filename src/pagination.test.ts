@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { decodeCursor, encodeCursor, pageOptions, toPage } from "./pagination";
+import type { ListQuery } from "./types";
+
+function listQuery(fields: Partial<ListQuery> = {}): ListQuery {
+  return { limit: 2, offset: 0, sort: { field: "createdAt", column: "created_at", direction: "desc" }, ...fields };
+}
+
+describe("encodeCursor / decodeCursor", () => {
+  test("round-trip the sort value and id", () => {
+    for (const value of ["2026-10-18T10:00:00.000Z", 42, false, null]) {
+      expect(decodeCursor(encodeCursor("createdAt", value, "p1"), "createdAt")).toEqual({ value, id: "p1" });
+    }
+  });
+
+  test("refuse a cursor made under another sort", () => {
+    expect(decodeCursor(encodeCursor("name", "Projet", "p1"), "createdAt")).toBeNull();
+  });
+
+  test("refuse malformed cursors", () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    expect(decodeCursor("pas un curseur", "createdAt")).toBeNull();
+    expect(decodeCursor(encode({ field: "createdAt" }), "createdAt")).toBeNull();
+    expect(decodeCursor(encode(["createdAt", "x"]), "createdAt")).toBeNull();
+    expect(decodeCursor(encode(["createdAt", "x", 1]), "createdAt")).toBeNull();
+    expect(decodeCursor(encode(["createdAt", { $gt: "" }, "p1"]), "createdAt")).toBeNull();
+  });
+});
+
+describe("pageOptions", () => {
+  test("asks for one row more than the limit", () => {
+    expect(pageOptions(listQuery({ offset: 4 }))).toEqual({ sortBy: "created_at", sortDirection: "desc", limit: 3, offset: 4 });
+  });
+
+  test("carries the cursor, or fails on an invalid one", () => {
+    const cursor = encodeCursor("createdAt", null, "p1");
+
+    expect(pageOptions(listQuery({ cursor }))?.after).toEqual({ value: null, id: "p1" });
+    expect(pageOptions(listQuery({ cursor: "invalide" }))).toBeNull();
+  });
+});
+
+describe("toPage", () => {
+  const items = [
+    { id: "p1", createdAt: "2026-10-18T12:00:00.000Z", name: "A" },
+    { id: "p2", createdAt: null, name: "B" },
+    { id: "p3", createdAt: null, name: "C" },
+  ];
+
+  test("trims the extra row and points the next cursor at the last row kept", () => {
+    const page = toPage(items, listQuery(), 10);
+
+    expect(page.data.map((item) => item.id)).toEqual(["p1", "p2"]);
+    expect(page.pagination).toEqual({
+      total: 10,
+      limit: 2,
+      offset: 0,
+      nextCursor: encodeCursor("createdAt", null, "p2"),
+    });
+  });
+
+  test("has no next cursor on the last page", () => {
+    expect(toPage(items.slice(0, 2), listQuery(), 2).pagination.nextCursor).toBeNull();
+  });
+
+  test("keeps only the requested fields", () => {
+    expect(toPage(items, listQuery({ fields: ["id", "name"] }), 3).data).toEqual([
+      { id: "p1", name: "A" },
+      { id: "p2", name: "B" },
+    ]);
+  });
+});
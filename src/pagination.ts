@@ -0,0 +1,78 @@
+import type { PageOptions } from "./repositories";
+import type { ListQuery, Pagination } from "./types";
+
+/**
+ * Paging of list endpoints. A cursor carries the sort field with the sort value
+ * and id of the last item of a page, so it is only valid under the same sort;
+ * a null sort value is carried as is.
+ * Repositories are asked for one row more than the limit to tell whether
+ * another page follows.
+ */
+type CursorValue = NonNullable<PageOptions["after"]>["value"];
+
+export function encodeCursor(field: string, value: CursorValue, id: string): string {
+  return Buffer.from(JSON.stringify([field, value, id])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, field: string): PageOptions["after"] | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null;
+
+    const [cursorField, value, id] = decoded;
+    if (cursorField !== field || typeof id !== "string") return null;
+    if (value !== null && !["string", "number", "boolean"].includes(typeof value)) return null;
+
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+// Repository page for a list query, or null when its cursor is invalid
+export function pageOptions(query: ListQuery): PageOptions | null {
+  const page: PageOptions = {
+    sortBy: query.sort.column,
+    sortDirection: query.sort.direction,
+    limit: query.limit + 1,
+    offset: query.offset,
+  };
+
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, query.sort.field);
+    if (!after) return null;
+    page.after = after;
+  }
+
+  return page;
+}
+
+function selectFields<T extends object>(item: T, fields: string[]): Partial<T> {
+  return Object.fromEntries(Object.entries(item).filter(([key]) => fields.includes(key))) as Partial<T>;
+}
+
+// The formatted rows of a page, trimmed to the requested fields, and its pagination block
+export function toPage<T extends { id: string }>(
+  items: T[],
+  query: ListQuery,
+  total: number
+): { data: Partial<T>[]; pagination: Pagination } {
+  const page = items.slice(0, query.limit);
+  const last = page[page.length - 1];
+  const lastValue = last ? (last as Record<string, unknown>)[query.sort.field] : undefined;
+
+  const nextCursor =
+    items.length > query.limit && last && lastValue !== undefined
+      ? encodeCursor(query.sort.field, lastValue as CursorValue, last.id)
+      : null;
+
+  return {
+    data: query.fields ? page.map((item) => selectFields(item, query.fields!)) : page,
+    pagination: {
+      total,
+      limit: query.limit,
+      offset: query.cursor ? null : query.offset,
+      nextCursor,
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import bcrypt from "bcryptjs";
+import { createHash, randomInt } from "crypto";
+import { repositories, type UserRow } from "./repositories";
+
+const BCRYPT_ROUNDS = 10;
+
+// Secure password hashing using bcrypt
+export function hashPassword(password: string): string {
+  return bcrypt.hashSync(password, BCRYPT_ROUNDS);
+}
+
+// Verify password against hash (supports both bcrypt and legacy SHA-256)
+export function verifyPassword(password: string, hash: string): boolean {
+  // Check if it's a bcrypt hash (starts with $2a$, $2b$, or $2y$)
+  if (hash.startsWith("$2")) {
+    return bcrypt.compareSync(password, hash);
+  }
+  // Legacy SHA-256 support for existing users - migrated on next login
+  return createHash("sha256").update(password).digest("hex") === hash;
+}
+
+// Passwords refused whatever the policy, compared case-insensitively.
+// Includes the historical agent PIN and the seed scripts' default.
+const COMMON_PASSWORDS = new Set([
+  "1234", "12345", "123456", "1234567", "12345678", "123456789", "1234567890",
+  "0000", "000000", "1111", "111111", "123123", "654321", "112233",
+  "password", "password1", "password123", "motdepasse", "motdepasse1",
+  "azerty", "azerty123", "azertyuiop", "qwerty", "qwerty123", "abc123",
+  "admin", "admin123", "administrateur", "bienvenue", "bienvenue1", "soleil",
+  "welcome", "welcome1", "letmein", "iloveyou", "secret", "changeme",
+  "mali", "mali123", "mali2023", "mali2024", "mali2024!", "mali2025", "bamako", "bamako123",
+]);
+
+export type PasswordPolicy = {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  // Number of previous passwords that cannot be reused (0 disables the check)
+  historySize: number;
+  // Days after which a password must be changed (0 disables rotation)
+  maxAgeDays: number;
+};
+
+function envFlag(value: string | undefined, fallback: boolean): boolean {
+  return value === undefined ? fallback : value === "true";
+}
+
+function envInt(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : Number.parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: envInt(process.env.PASSWORD_MIN_LENGTH, 8),
+    requireUppercase: envFlag(process.env.PASSWORD_REQUIRE_UPPERCASE, true),
+    requireLowercase: envFlag(process.env.PASSWORD_REQUIRE_LOWERCASE, true),
+    requireDigit: envFlag(process.env.PASSWORD_REQUIRE_DIGIT, true),
+    requireSymbol: envFlag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+    historySize: envInt(process.env.PASSWORD_HISTORY_SIZE, 5),
+    maxAgeDays: envInt(process.env.PASSWORD_MAX_AGE_DAYS, 0),
+  };
+}
+
+type PasswordOwner = Pick<UserRow, "email" | "name" | "phone">;
+
+// Returns every rule the password breaks, as French messages
+export function checkPasswordPolicy(password: string, owner?: PasswordOwner): string[] {
+  const policy = getPasswordPolicy();
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`au moins ${policy.minLength} caracteres`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push("une lettre majuscule");
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push("une lettre minuscule");
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push("un chiffre");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push("un caractere special");
+  }
+
+  const messages = violations.length > 0
+    ? [`Le mot de passe doit contenir ${violations.join(", ")}`]
+    : [];
+
+  const lowered = password.toLowerCase();
+  if (COMMON_PASSWORDS.has(lowered)) {
+    messages.push("Ce mot de passe est trop courant");
+  }
+
+  if (owner) {
+    const personal = [owner.email.split("@")[0], owner.name, owner.phone?.replace(/\D/g, "")]
+      .filter((value): value is string => !!value && value.length >= 4)
+      .map((value) => value.toLowerCase());
+    if (personal.some((value) => lowered.includes(value))) {
+      messages.push("Le mot de passe ne doit pas contenir votre nom, email ou telephone");
+    }
+  }
+
+  return messages;
+}
+
+// True when the password matches the current one or one of the last
+// `historySize` passwords of the user
+export async function isPasswordReused(user: Pick<UserRow, "id" | "password_hash">, password: string): Promise<boolean> {
+  const { historySize } = getPasswordPolicy();
+  if (historySize === 0) return false;
+
+  if (verifyPassword(password, user.password_hash)) return true;
+
+  const { data: history } = await repositories.passwordHistory.listRecent(user.id, historySize);
+  return (history || []).some((entry) => verifyPassword(password, entry.password_hash));
+}
+
+/**
+ * Checks a new password against the policy and, for an existing user, the
+ * password history. Returns the message to send back, or null when accepted.
+ */
+export async function validateNewPassword(
+  password: string,
+  owner: PasswordOwner & Partial<Pick<UserRow, "id" | "password_hash">>
+): Promise<string | null> {
+  const violations = checkPasswordPolicy(password, owner);
+  if (violations.length > 0) {
+    return violations.join(". ");
+  }
+
+  if (owner.id && owner.password_hash && (await isPasswordReused({ id: owner.id, password_hash: owner.password_hash }, password))) {
+    const { historySize } = getPasswordPolicy();
+    return `Le mot de passe ne doit pas etre identique a l'un des ${historySize} derniers mots de passe`;
+  }
+
+  return null;
+}
+
+// Call after a user's password hash has been set so it cannot be reused
+export async function recordPasswordHistory(userId: string, passwordHash: string): Promise<void> {
+  const { error } = await repositories.passwordHistory.create({ user_id: userId, password_hash: passwordHash });
+  if (error) {
+    console.error("Error recording password history:", error);
+  }
+}
+
+// True when forced rotation is enabled and the password is older than allowed
+export function isPasswordExpired(user: Pick<UserRow, "password_changed_at" | "created_at">): boolean {
+  const { maxAgeDays } = getPasswordPolicy();
+  if (maxAgeDays === 0) return false;
+
+  const changedAt = new Date(user.password_changed_at ?? user.created_at).getTime();
+  return Date.now() - changedAt > maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+// Random password satisfying the policy, handed out on admin resets
+export function generateTemporaryPassword(): string {
+  const policy = getPasswordPolicy();
+  const upper = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+  const lower = "abcdefghijkmnopqrstuvwxyz";
+  const digits = "23456789";
+  const symbols = "!@#$%&*?";
+  const pick = (chars: string) => chars[randomInt(0, chars.length)];
+
+  // One of each class, then fill up with letters and digits
+  const chars = [pick(upper), pick(lower), pick(digits)];
+  if (policy.requireSymbol) chars.push(pick(symbols));
+  while (chars.length < Math.max(policy.minLength, 10)) {
+    chars.push(pick(upper + lower + digits));
+  }
+
+  // Fisher-Yates shuffle so the class order is not predictable
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomInt(0, i + 1);
+    [chars[i], chars[j]] = [chars[j]!, chars[i]!];
+  }
+
+  return chars.join("");
+}
@@ -0,0 +1,118 @@
+import type { Context } from "hono";
+import { repositories, type BeneficiaryWithRelationsRow, type PersonWithRegionRow } from "./repositories";
+import { inDepartmentScope, inProjectScope, type AuthEnv } from "./middleware/auth";
+import type { IdentityMatch } from "./beneficiary-duplicates";
+import type { BeneficiaryWithRelations, Person, PersonDetail, PersonMatch } from "./types";
+
+/**
+ * People and their enrollments. A person is registered along with a first
+ * enrollment and then enrolled in other projects; each beneficiary row is one
+ * enrollment and keeps the details the project registered, while the person
+ * has the latest known ones.
+ */
+export function formatBeneficiary(b: BeneficiaryWithRelationsRow): BeneficiaryWithRelations {
+  return {
+    id: b.id,
+    personId: b.person_id,
+    firstName: b.first_name,
+    lastName: b.last_name,
+    gender: b.gender as BeneficiaryWithRelations["gender"],
+    age: b.age,
+    phone: b.phone,
+    regionId: b.region_id,
+    sectorId: b.sector_id,
+    projectId: b.project_id,
+    accompanimentStatus: b.accompaniment_status as BeneficiaryWithRelations["accompanimentStatus"],
+    startDate: b.start_date,
+    endDate: b.end_date,
+    outcome: b.outcome as BeneficiaryWithRelations["outcome"],
+    createdAt: b.created_at,
+    updatedAt: b.updated_at,
+    region: {
+      id: b.region?.id ?? b.region_id,
+      name: b.region?.name ?? "",
+    },
+    sector: {
+      id: b.sector?.id ?? b.sector_id,
+      name: b.sector?.name ?? "",
+    },
+    project: {
+      id: b.project?.id ?? b.project_id,
+      name: b.project?.name ?? "",
+    },
+  };
+}
+
+export function formatPerson(p: PersonWithRegionRow): Person {
+  return {
+    id: p.id,
+    firstName: p.first_name,
+    lastName: p.last_name,
+    gender: p.gender as Person["gender"],
+    age: p.age,
+    phone: p.phone,
+    regionId: p.region_id,
+    region: {
+      id: p.region?.id ?? p.region_id,
+      name: p.region?.name ?? "",
+    },
+    createdAt: p.created_at,
+    updatedAt: p.updated_at,
+  };
+}
+
+export function formatPersonMatch(match: IdentityMatch<PersonWithRegionRow>): PersonMatch {
+  return { person: formatPerson(match.record), score: match.score, reasons: match.reasons };
+}
+
+// Enrollments by person id, earliest first
+export function enrollmentsByPerson(enrollments: BeneficiaryWithRelationsRow[]): Map<string, BeneficiaryWithRelationsRow[]> {
+  const byPerson = new Map<string, BeneficiaryWithRelationsRow[]>();
+  const since = (b: BeneficiaryWithRelationsRow) => b.start_date ?? b.created_at;
+
+  for (const enrollment of [...enrollments].sort((a, b) => since(a).localeCompare(since(b)))) {
+    const list = byPerson.get(enrollment.person_id);
+    if (list) list.push(enrollment);
+    else byPerson.set(enrollment.person_id, [enrollment]);
+  }
+
+  return byPerson;
+}
+
+export function formatPersonDetail(person: PersonWithRegionRow, enrollments: BeneficiaryWithRelationsRow[]): PersonDetail {
+  return { ...formatPerson(person), enrollments: enrollments.map(formatBeneficiary) };
+}
+
+// The person with their enrollments, or null when these cannot be read
+export async function withEnrollments(person: PersonWithRegionRow): Promise<PersonDetail | null> {
+  const { data: enrollments, error } = await repositories.beneficiaries.list({ personId: person.id });
+  if (error) return null;
+  return formatPersonDetail(person, enrollmentsByPerson(enrollments ?? []).get(person.id) ?? []);
+}
+
+// Whether the caller may act on an enrollment, decided once per project, and
+// on a person: when one of their enrollments is in scope
+export function enrollmentScope<E extends AuthEnv>(c: Context<E, any, any>) {
+  const byProject = new Map<string, Promise<boolean>>();
+
+  function enrollment(b: BeneficiaryWithRelationsRow) {
+    let allowed = byProject.get(b.project_id);
+    if (!allowed) {
+      allowed = inProjectScope(c, { id: b.project_id, department_id: b.project?.department_id });
+      byProject.set(b.project_id, allowed);
+    }
+    return allowed;
+  }
+
+  async function person(enrollments: BeneficiaryWithRelationsRow[]) {
+    // People without enrollments are left to roles not bound to a department
+    if (enrollments.length === 0) return inDepartmentScope(c, null);
+
+    for (const b of enrollments) {
+      if (await enrollment(b)) return true;
+    }
+    return false;
+  }
+
+  return { enrollment, person };
+}
@@ -0,0 +1,236 @@
+import { repositories, type DepartmentPermissionRow, type UserRow } from "./repositories";
+import { UserRoleEnum, type UserRole } from "./types";
+
+/**
+ * Every action that is gated on more than being logged in. Routes check these
+ * instead of role names; the role defaults below can be overridden per
+ * department (see `department_permissions`).
+ */
+export const PERMISSIONS = [
+  "project:create",
+  "project:update",
+  "project:delete",
+  "project:report_progress",
+  "project:upload_photos",
+  "beneficiary:create",
+  "beneficiary:update",
+  "milestone:create",
+  "milestone:update",
+  "milestone:delete",
+  "disbursement:create",
+  "disbursement:update",
+  "disbursement:delete",
+  "document:upload",
+  "document:update", // Documents of other users within the department scope
+  "document:delete", // Documents of other users within the department scope
+  "document:read_all", // Private documents of every department
+  "document:submit_validation", // Documents of other users within the department scope
+  "document:validate",
+  "document:validate_any", // Validations assigned to someone else
+  "validation:request",
+  "validation:read_all", // Requests made by other users
+  "validation:approve",
+  "news:create",
+  "news:delete",
+  "alert:send",
+  "message:read_all",
+  "message:delete_any",
+  "sms:send",
+  "department:create",
+  "department:update",
+  "department:delete",
+  "region:create",
+  "sector:create",
+  "user:manage",
+  "login_attempt:read",
+  "agent:manage",
+  "permission:manage",
+  "audit:read",
+  "delegation:manage", // Delegations between other users
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Shared by the national roles (ministers, primature, presidency)
+const NATIONAL_PERMISSIONS: Permission[] = [
+  "project:create",
+  "project:update",
+  "project:report_progress",
+  "project:upload_photos",
+  "beneficiary:create",
+  "beneficiary:update",
+  "milestone:create",
+  "milestone:update",
+  "milestone:delete",
+  "disbursement:create",
+  "disbursement:update",
+  "disbursement:delete",
+  "document:upload",
+  "document:update",
+  "document:delete",
+  "document:read_all",
+  "document:validate",
+  "validation:request",
+  "validation:read_all",
+  "validation:approve",
+  "news:create",
+  "news:delete",
+  "alert:send",
+  "message:read_all",
+  "message:delete_any",
+  "agent:manage",
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  SUPER_ADMIN: PERMISSIONS,
+  ADMIN_DEPARTMENT: [
+    "project:create",
+    "project:update",
+    "project:delete",
+    "project:report_progress",
+    "project:upload_photos",
+    "beneficiary:create",
+    "beneficiary:update",
+    "milestone:create",
+    "milestone:update",
+    "milestone:delete",
+    "disbursement:create",
+    "disbursement:update",
+    "disbursement:delete",
+    "document:upload",
+    "document:update",
+    "document:delete",
+    "document:submit_validation",
+    "validation:request",
+    "news:create",
+    "news:delete",
+    "sms:send",
+    "department:update",
+    "user:manage",
+    "agent:manage",
+  ],
+  MINISTER: NATIONAL_PERMISSIONS,
+  PRIMATURE: NATIONAL_PERMISSIONS,
+  PRESIDENCY: [...NATIONAL_PERMISSIONS, "audit:read"],
+  // Field agents, further limited to the projects assigned to them
+  AGENT: [
+    "project:report_progress",
+    "project:upload_photos",
+    "beneficiary:create",
+  ],
+};
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+// Seniority of the roles, lowest first. Account managers never grant a role
+// above their own, nor manage an account holding one.
+const ROLE_RANKS: readonly UserRole[] = ["AGENT", "ADMIN_DEPARTMENT", "MINISTER", "PRIMATURE", "PRESIDENCY", "SUPER_ADMIN"];
+
+export function canGrantRole(manager: { role: string }, role: string): boolean {
+  const managerRank = ROLE_RANKS.indexOf(manager.role as UserRole);
+  const rank = ROLE_RANKS.indexOf(role as UserRole);
+  return managerRank >= 0 && rank >= 0 && rank <= managerRank;
+}
+
+// Overrides change rarely and are read on every authenticated request
+const OVERRIDES_CACHE_TTL_MS = 60 * 1000;
+
+let overridesCache: { rows: DepartmentPermissionRow[]; fetchedAt: number } | null = null;
+
+async function loadOverrides(): Promise<DepartmentPermissionRow[]> {
+  if (overridesCache && Date.now() - overridesCache.fetchedAt < OVERRIDES_CACHE_TTL_MS) {
+    return overridesCache.rows;
+  }
+
+  const { data, error } = await repositories.departmentPermissions.list();
+  if (error) {
+    console.error("[Permissions] Failed to load department overrides:", error);
+    return overridesCache?.rows ?? [];
+  }
+
+  overridesCache = { rows: data ?? [], fetchedAt: Date.now() };
+  return overridesCache.rows;
+}
+
+// Call after writing overrides so the next request sees them
+export function invalidatePermissionOverrides(): void {
+  overridesCache = null;
+}
+
+// Role defaults with the department's overrides applied
+export async function resolvePermissions(
+  role: UserRole,
+  departmentId: string | null
+): Promise<Set<Permission>> {
+  const permissions = new Set<Permission>(ROLE_PERMISSIONS[role] ?? []);
+  if (!departmentId) return permissions;
+
+  for (const override of await loadOverrides()) {
+    if (override.department_id !== departmentId || override.role !== role || !isPermission(override.permission)) {
+      continue;
+    }
+    if (override.granted) {
+      permissions.add(override.permission);
+    } else {
+      permissions.delete(override.permission);
+    }
+  }
+
+  return permissions;
+}
+
+export async function hasPermission(
+  user: { role: string; department_id?: string | null; departmentId?: string | null },
+  permission: Permission
+): Promise<boolean> {
+  const role = UserRoleEnum.safeParse(user.role);
+  if (!role.success) return false;
+
+  const permissions = await resolvePermissions(role.data, user.departmentId ?? user.department_id ?? null);
+  return permissions.has(permission);
+}
+
+// Roles holding the permission by default or through any department override,
+// e.g. to find who should be notified of a request
+export async function rolesWithPermission(permission: Permission): Promise<UserRole[]> {
+  const roles = new Set(UserRoleEnum.options.filter((role) => ROLE_PERMISSIONS[role].includes(permission)));
+
+  for (const override of await loadOverrides()) {
+    if (override.permission === permission && override.granted) {
+      const role = UserRoleEnum.safeParse(override.role);
+      if (role.success) roles.add(role.data);
+    }
+  }
+
+  return [...roles];
+}
+
+// Active users holding the permission, honoring their department's overrides
+export async function usersWithPermission(permission: Permission): Promise<UserRow[]> {
+  const { data: candidates, error } = await repositories.users.list({
+    roles: await rolesWithPermission(permission),
+    isActive: true,
+  });
+
+  if (error) {
+    console.error("[Permissions] Failed to list users:", error);
+    return [];
+  }
+
+  const holders: UserRow[] = [];
+  for (const user of candidates ?? []) {
+    if (await hasPermission(user, permission)) holders.push(user);
+  }
+  return holders;
+}
+
+// Effective matrix for one department: role -> sorted permissions
+export async function departmentPermissionMatrix(departmentId: string): Promise<Record<UserRole, Permission[]>> {
+  const matrix = {} as Record<UserRole, Permission[]>;
+  for (const role of UserRoleEnum.options) {
+    matrix[role] = [...(await resolvePermissions(role, departmentId))].sort();
+  }
+  return matrix;
+}
@@ -0,0 +1,41 @@
+import type { Context } from "hono";
+import { repositories, type ProjectRow } from "./repositories";
+import type { AuthEnv } from "./middleware/auth";
+import { diffRows } from "./audit";
+
+export type ProjectRevisionSource = "CREATE" | "UPDATE" | "VALIDATION";
+
+interface ProjectRevisionEntry {
+  source: ProjectRevisionSource;
+  before?: ProjectRow | null;
+  after: ProjectRow;
+  validationRequestId?: string;
+}
+
+/**
+ * Appends a revision to the project's history. Writes that change nothing are
+ * skipped; failures are logged and never fail the request.
+ */
+export async function recordProjectRevision<E extends AuthEnv>(
+  c: Context<E, any, any>,
+  entry: ProjectRevisionEntry
+): Promise<void> {
+  const changes = diffRows(entry.before, entry.after);
+  if (entry.source !== "CREATE" && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  const { error } = await repositories.projectRevisions.create({
+    project_id: entry.after.id,
+    changed_by_id: c.get("user")?.id ?? null,
+    source: entry.source,
+    validation_request_id: entry.validationRequestId ?? null,
+    changes: JSON.stringify(changes),
+    progress: entry.after.progress,
+    status: entry.after.status,
+  });
+
+  if (error) {
+    console.error("[ProjectHistory] Failed to record revision:", error);
+  }
+}
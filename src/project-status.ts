@@ -0,0 +1,90 @@
+import type { ProjectStatus, UserRole, ValidationRequestType } from "./types";
+
+/**
+ * Declared project lifecycle. Each allowed move lists the roles that may apply
+ * it directly; when `approval` is set, other roles holding project:update can
+ * still request it and a validation request of that type is opened instead.
+ * Moves missing from the graph are illegal for everyone.
+ */
+interface TransitionRule {
+  direct: readonly UserRole[];
+  approval?: ValidationRequestType;
+}
+
+const NATIONAL_ROLES: readonly UserRole[] = ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"];
+const MANAGING_ROLES: readonly UserRole[] = [...NATIONAL_ROLES, "ADMIN_DEPARTMENT"];
+
+export const PROJECT_STATUS_TRANSITIONS: Record<ProjectStatus, Partial<Record<ProjectStatus, TransitionRule>>> = {
+  PENDING_VALIDATION: {
+    IN_PROGRESS: { direct: NATIONAL_ROLES, approval: "PROJECT_APPROVAL" },
+  },
+  IN_PROGRESS: {
+    DELAYED: { direct: MANAGING_ROLES },
+    BLOCKED: { direct: MANAGING_ROLES },
+    SUSPENDED: { direct: NATIONAL_ROLES, approval: "STATUS_CHANGE" },
+    COMPLETED: { direct: NATIONAL_ROLES, approval: "STATUS_CHANGE" },
+  },
+  DELAYED: {
+    IN_PROGRESS: { direct: MANAGING_ROLES },
+    BLOCKED: { direct: MANAGING_ROLES },
+    SUSPENDED: { direct: NATIONAL_ROLES, approval: "STATUS_CHANGE" },
+    COMPLETED: { direct: NATIONAL_ROLES, approval: "STATUS_CHANGE" },
+  },
+  BLOCKED: {
+    IN_PROGRESS: { direct: NATIONAL_ROLES, approval: "UNBLOCK_REQUEST" },
+  },
+  SUSPENDED: {
+    IN_PROGRESS: { direct: NATIONAL_ROLES, approval: "STATUS_CHANGE" },
+  },
+  COMPLETED: {
+    IN_PROGRESS: { direct: ["SUPER_ADMIN"] },
+  },
+};
+
+// Status a new project starts in unless a national role sets it explicitly
+export const INITIAL_PROJECT_STATUS: ProjectStatus = "PENDING_VALIDATION";
+
+export type StatusTransitionCheck =
+  | { outcome: "unchanged" }
+  | { outcome: "allowed" }
+  | { outcome: "requires_approval"; validationType: ValidationRequestType }
+  | { outcome: "illegal"; message: string };
+
+export function isKnownTransition(from: string, to: string): boolean {
+  return !!PROJECT_STATUS_TRANSITIONS[from as ProjectStatus]?.[to as ProjectStatus];
+}
+
+// What happens when `role` moves a project from `from` to `to`
+export function checkStatusTransition(from: string, to: string, role: UserRole): StatusTransitionCheck {
+  if (from === to) {
+    return { outcome: "unchanged" };
+  }
+
+  const rule = PROJECT_STATUS_TRANSITIONS[from as ProjectStatus]?.[to as ProjectStatus];
+  if (!rule) {
+    return { outcome: "illegal", message: `Transition de statut impossible: ${from} vers ${to}` };
+  }
+  if (rule.direct.includes(role)) {
+    return { outcome: "allowed" };
+  }
+  if (rule.approval) {
+    return { outcome: "requires_approval", validationType: rule.approval };
+  }
+  return { outcome: "illegal", message: `Votre role ne permet pas de passer de ${from} a ${to}` };
+}
+
+// Moves available to `role` from `from`, for clients building status pickers
+export function availableTransitions(from: string, role: UserRole) {
+  return Object.entries(PROJECT_STATUS_TRANSITIONS[from as ProjectStatus] ?? {})
+    .filter(([, rule]) => rule.direct.includes(role) || !!rule.approval)
+    .map(([status, rule]) => ({
+      status: status as ProjectStatus,
+      requiresApproval: !rule.direct.includes(role),
+      validationType: rule.direct.includes(role) ? null : rule.approval ?? null,
+    }));
+}
+
+// Whether `role` may create a project in a status other than the initial one
+export function canSetInitialStatus(status: string, role: UserRole): boolean {
+  return status === INITIAL_PROJECT_STATUS || NATIONAL_ROLES.includes(role);
+}
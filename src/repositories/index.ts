@@ -0,0 +1,22 @@
+import type { Repositories } from "./types";
+
+export * from "./types";
+
+/**
+ * Data access for every router.
+ * DATA_BACKEND selects the implementation: Supabase (default) or the local Prisma/SQLite database.
+ */
+function createRepositories(): Repositories {
+  if (process.env.DATA_BACKEND === "prisma") {
+    const { prisma } = require("../db");
+    const { createPrismaRepositories } = require("./prisma");
+    return createPrismaRepositories(prisma);
+  }
+
+  // Loaded lazily: the Supabase client throws when its credentials are missing
+  const { supabase } = require("../supabase");
+  const { createSupabaseRepositories } = require("./supabase");
+  return createSupabaseRepositories(supabase);
+}
+
+export const repositories: Repositories = createRepositories();
@@ -0,0 +1,50 @@
+import type { PrismaClient } from "@prisma/client";
+import type { AlertRow, AlertWithRelationsRow, AlertsRepository } from "../types";
+import { ALERT_COLUMNS, run, toData, toDepartmentRef, toRow, toUserRef } from "./mappers";
+
+const include = {
+  fromUser: { select: { id: true, name: true, email: true } },
+  toDepartment: { select: { id: true, name: true, code: true } },
+};
+
+function toAlertWithRelations(a: any): AlertWithRelationsRow {
+  return {
+    ...toRow<AlertRow>(a, ALERT_COLUMNS),
+    from_user: toUserRef(a.fromUser),
+    to_department: toDepartmentRef(a.toDepartment),
+  };
+}
+
+export function createAlertsRepository(prisma: PrismaClient): AlertsRepository {
+  return {
+    list: (filters = {}) =>
+      run(async () => {
+        const alerts = await prisma.alert.findMany({
+          where: {
+            OR: filters.departmentScope
+              ? [{ toDepartmentId: filters.departmentScope }, { toDepartmentId: null }]
+              : undefined,
+            type: filters.type,
+            isRead: filters.isRead,
+          },
+          include,
+          orderBy: { createdAt: "desc" },
+        });
+        return alerts.map(toAlertWithRelations);
+      }),
+
+    findById: (id) =>
+      run(async () => {
+        const alert = await prisma.alert.findUnique({ where: { id }, include });
+        return alert ? toAlertWithRelations(alert) : null;
+      }),
+
+    create: (input) =>
+      run(async () => toAlertWithRelations(await prisma.alert.create({ data: toData(input, ALERT_COLUMNS), include }))),
+
+    update: (id, patch) =>
+      run(async () =>
+        toAlertWithRelations(await prisma.alert.update({ where: { id }, data: toData(patch, ALERT_COLUMNS), include }))
+      ),
+  };
+}
@@ -0,0 +1,78 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type {
+  ApprovalDelegationFilters,
+  ApprovalDelegationRow,
+  ApprovalDelegationWithUsersRow,
+  ApprovalDelegationsRepository,
+} from "../types";
+import { APPROVAL_DELEGATION_COLUMNS, run, toData, toRow } from "./mappers";
+
+const include = {
+  delegator: { select: { id: true, name: true, email: true, role: true, departmentId: true, isActive: true } },
+  delegate: { select: { id: true, name: true, email: true, role: true } },
+};
+
+function toDelegationWithUsers(d: any): ApprovalDelegationWithUsersRow {
+  return {
+    ...toRow<ApprovalDelegationRow>(d, APPROVAL_DELEGATION_COLUMNS),
+    delegator: d.delegator
+      ? {
+          id: d.delegator.id,
+          name: d.delegator.name,
+          email: d.delegator.email,
+          role: d.delegator.role,
+          department_id: d.delegator.departmentId,
+          is_active: d.delegator.isActive,
+        }
+      : null,
+    delegate: d.delegate ?? null,
+  };
+}
+
+function where(filters: ApprovalDelegationFilters): Prisma.ApprovalDelegationWhereInput {
+  const at = filters.activeAt ? new Date(filters.activeAt) : null;
+  return {
+    delegatorId: filters.delegatorId,
+    delegateId: filters.delegateId,
+    OR: filters.userId ? [{ delegatorId: filters.userId }, { delegateId: filters.userId }] : undefined,
+    ...(at ? { startsAt: { lte: at }, endsAt: { gt: at }, revokedAt: null } : {}),
+  };
+}
+
+export function createApprovalDelegationsRepository(prisma: PrismaClient): ApprovalDelegationsRepository {
+  return {
+    list: (filters = {}) =>
+      run(async () => {
+        const delegations = await prisma.approvalDelegation.findMany({
+          where: where(filters),
+          include,
+          orderBy: { createdAt: "desc" },
+        });
+        return delegations.map(toDelegationWithUsers);
+      }),
+
+    findById: (id) =>
+      run(async () => {
+        const delegation = await prisma.approvalDelegation.findUnique({ where: { id }, include });
+        return delegation ? toDelegationWithUsers(delegation) : null;
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toDelegationWithUsers(
+          await prisma.approvalDelegation.create({ data: toData(input, APPROVAL_DELEGATION_COLUMNS), include })
+        )
+      ),
+
+    update: (id, patch) =>
+      run(async () =>
+        toDelegationWithUsers(
+          await prisma.approvalDelegation.update({
+            where: { id },
+            data: toData(patch, APPROVAL_DELEGATION_COLUMNS),
+            include,
+          })
+        )
+      ),
+  };
+}
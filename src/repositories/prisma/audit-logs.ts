@@ -0,0 +1,53 @@
+import type { PrismaClient } from "@prisma/client";
+import type { AuditLogFilters, AuditLogRow, AuditLogsRepository } from "../types";
+import { AUDIT_LOG_COLUMNS, run, toData, toRow, toUserRef } from "./mappers";
+
+function where(filters: AuditLogFilters) {
+  return {
+    actorId: filters.actorId,
+    action: filters.action,
+    entityType: filters.entityType,
+    entityId: filters.entityId,
+    createdAt: filters.since || filters.until
+      ? {
+          gte: filters.since ? new Date(filters.since) : undefined,
+          lte: filters.until ? new Date(filters.until) : undefined,
+        }
+      : undefined,
+  };
+}
+
+export function createAuditLogsRepository(prisma: PrismaClient): AuditLogsRepository {
+  return {
+    list: (filters = {}) =>
+      run(async () => {
+        const entries = await prisma.auditLog.findMany({
+          where: where(filters),
+          include: { actor: { select: { id: true, name: true, email: true } } },
+          orderBy: { createdAt: "desc" },
+          take: filters.limit,
+          skip: filters.limit ? filters.offset : undefined,
+        });
+        return entries.map((e) => ({
+          ...toRow<AuditLogRow>(e, AUDIT_LOG_COLUMNS),
+          actor: toUserRef(e.actor),
+        }));
+      }),
+
+    count: (filters = {}) => run(() => prisma.auditLog.count({ where: where(filters) })),
+
+    create: (input) =>
+      run(async () =>
+        toRow<AuditLogRow>(
+          await prisma.auditLog.create({ data: toData(input, AUDIT_LOG_COLUMNS) }),
+          AUDIT_LOG_COLUMNS
+        )
+      ),
+
+    createMany: (inputs) =>
+      run(async () => {
+        await prisma.auditLog.createMany({ data: inputs.map((input) => toData(input, AUDIT_LOG_COLUMNS)) });
+        return null;
+      }),
+  };
+}
@@ -0,0 +1,105 @@
+import type { PrismaClient } from "@prisma/client";
+import type {
+  BeneficiariesRepository,
+  BeneficiaryFilters,
+  BeneficiaryRow,
+  BeneficiaryWithRelationsRow,
+} from "../types";
+import { BENEFICIARY_COLUMNS, PERSON_COLUMNS, run, toData, toPageArgs, toProjectRef, toRow } from "./mappers";
+
+const include = {
+  region: { select: { id: true, name: true } },
+  sector: { select: { id: true, name: true } },
+  project: { select: { id: true, name: true, departmentId: true } },
+};
+
+function toBeneficiaryWithRelations(b: any): BeneficiaryWithRelationsRow {
+  return {
+    ...toRow<BeneficiaryRow>(b, BENEFICIARY_COLUMNS),
+    region: b.region ? { id: b.region.id, name: b.region.name } : null,
+    sector: b.sector ? { id: b.sector.id, name: b.sector.name } : null,
+    project: toProjectRef(b.project),
+  };
+}
+
+function where(filters: BeneficiaryFilters) {
+  return {
+    regionId: filters.regionId,
+    sectorId: filters.sectorId,
+    projectId: filters.projectId,
+    personId: filters.personIds ? { in: filters.personIds } : filters.personId,
+    gender: filters.gender,
+    accompanimentStatus: filters.accompanimentStatus,
+    OR: filters.search
+      ? [
+          { firstName: { contains: filters.search } },
+          { lastName: { contains: filters.search } },
+          { phone: { contains: filters.search } },
+        ]
+      : undefined,
+  };
+}
+
+export function createBeneficiariesRepository(prisma: PrismaClient): BeneficiariesRepository {
+  return {
+    list: (filters = {}, page) =>
+      run(async () => {
+        const { after, ...window } = toPageArgs(page, BENEFICIARY_COLUMNS, "Beneficiary");
+        const beneficiaries = await prisma.beneficiary.findMany({
+          where: { AND: [where(filters), after] },
+          include,
+          ...window,
+        });
+        return beneficiaries.map(toBeneficiaryWithRelations);
+      }),
+
+    count: (filters = {}) => run(() => prisma.beneficiary.count({ where: where(filters) })),
+
+    countByProject: (projectIds) =>
+      run(async () => {
+        const groups = await prisma.beneficiary.groupBy({
+          by: ["projectId"],
+          where: { projectId: { in: projectIds } },
+          _count: { _all: true },
+        });
+        return Object.fromEntries(groups.map((g) => [g.projectId, g._count._all]));
+      }),
+
+    findById: (id) =>
+      run(async () => {
+        const beneficiary = await prisma.beneficiary.findUnique({ where: { id }, include });
+        return beneficiary ? toBeneficiaryWithRelations(beneficiary) : null;
+      }),
+
+    create: (input, person) =>
+      run(async () => {
+        const beneficiary = await prisma.$transaction(async (tx) => {
+          if (person) await tx.person.create({ data: toData(person, PERSON_COLUMNS) });
+          return tx.beneficiary.create({ data: toData(input, BENEFICIARY_COLUMNS), include });
+        });
+        return toBeneficiaryWithRelations(beneficiary);
+      }),
+
+    createMany: (inputs, people = []) =>
+      run(async () => {
+        const [, { count }] = await prisma.$transaction([
+          prisma.person.createMany({ data: people.map((person) => toData(person, PERSON_COLUMNS)) }),
+          prisma.beneficiary.createMany({ data: inputs.map((input) => toData(input, BENEFICIARY_COLUMNS)) }),
+        ]);
+        return count;
+      }),
+
+    update: (id, patch) =>
+      run(async () =>
+        toBeneficiaryWithRelations(
+          await prisma.beneficiary.update({ where: { id }, data: toData(patch, BENEFICIARY_COLUMNS), include })
+        )
+      ),
+
+    deleteByProject: (projectId) =>
+      run(async () => {
+        await prisma.beneficiary.deleteMany({ where: { projectId } });
+        return null;
+      }),
+  };
+}
@@ -0,0 +1,43 @@
+import type { PrismaClient } from "@prisma/client";
+import type { CommentRow, CommentWithAuthorRow, CommentsRepository } from "../types";
+import { COMMENT_COLUMNS, run, toData, toRow } from "./mappers";
+
+const include = { author: { select: { id: true, name: true, email: true, role: true } } };
+
+function toCommentWithAuthor(comment: any): CommentWithAuthorRow {
+  return {
+    ...toRow<CommentRow>(comment, COMMENT_COLUMNS),
+    author: comment.author ?? null,
+  };
+}
+
+export function createCommentsRepository(prisma: PrismaClient): CommentsRepository {
+  return {
+    listByEntity: (entityType, entityId) =>
+      run(async () => {
+        const comments = await prisma.comment.findMany({
+          where: { entityType, entityId },
+          include,
+          orderBy: { createdAt: "asc" },
+        });
+        return comments.map(toCommentWithAuthor);
+      }),
+
+    findById: (id) =>
+      run(async () => {
+        const comment = await prisma.comment.findUnique({ where: { id }, include });
+        return comment ? toCommentWithAuthor(comment) : null;
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toCommentWithAuthor(await prisma.comment.create({ data: toData(input, COMMENT_COLUMNS), include }))
+      ),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.comment.delete({ where: { id } });
+        return null;
+      }),
+  };
+}
@@ -0,0 +1,30 @@
+import type { PrismaClient } from "@prisma/client";
+import type { DepartmentPermissionRow, DepartmentPermissionsRepository } from "../types";
+import { DEPARTMENT_PERMISSION_COLUMNS, run, toRow } from "./mappers";
+
+export function createDepartmentPermissionsRepository(prisma: PrismaClient): DepartmentPermissionsRepository {
+  return {
+    list: () =>
+      run(async () => {
+        const overrides = await prisma.departmentPermission.findMany();
+        return overrides.map((o) => toRow<DepartmentPermissionRow>(o, DEPARTMENT_PERMISSION_COLUMNS));
+      }),
+
+    upsert: (input) =>
+      run(async () => {
+        const key = { departmentId: input.department_id, role: input.role, permission: input.permission };
+        const override = await prisma.departmentPermission.upsert({
+          where: { departmentId_role_permission: key },
+          create: { ...key, granted: input.granted },
+          update: { granted: input.granted },
+        });
+        return toRow<DepartmentPermissionRow>(override, DEPARTMENT_PERMISSION_COLUMNS);
+      }),
+
+    delete: (departmentId, role, permission) =>
+      run(async () => {
+        await prisma.departmentPermission.deleteMany({ where: { departmentId, role, permission } });
+        return null;
+      }),
+  };
+}
@@ -0,0 +1,38 @@
+import type { PrismaClient } from "@prisma/client";
+import type { DepartmentRow, DepartmentsRepository } from "../types";
+import { DEPARTMENT_COLUMNS, run, toData, toRow } from "./mappers";
+
+const toDepartmentRow = (d: any) => toRow<DepartmentRow>(d, DEPARTMENT_COLUMNS);
+
+export function createDepartmentsRepository(prisma: PrismaClient): DepartmentsRepository {
+  return {
+    list: () =>
+      run(async () => (await prisma.department.findMany({ orderBy: { name: "asc" } })).map(toDepartmentRow)),
+
+    findById: (id) =>
+      run(async () => {
+        const department = await prisma.department.findUnique({ where: { id } });
+        return department ? toDepartmentRow(department) : null;
+      }),
+
+    findByCode: (code) =>
+      run(async () => {
+        const department = await prisma.department.findUnique({ where: { code } });
+        return department ? toDepartmentRow(department) : null;
+      }),
+
+    create: (input) =>
+      run(async () => toDepartmentRow(await prisma.department.create({ data: toData(input, DEPARTMENT_COLUMNS) }))),
+
+    update: (id, patch) =>
+      run(async () =>
+        toDepartmentRow(await prisma.department.update({ where: { id }, data: toData(patch, DEPARTMENT_COLUMNS) }))
+      ),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.department.delete({ where: { id } });
+        return null;
+      }),
+  };
+}
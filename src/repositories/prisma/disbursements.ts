@@ -0,0 +1,56 @@
+import type { PrismaClient } from "@prisma/client";
+import type { DisbursementRow, DisbursementWithRelationsRow, DisbursementsRepository } from "../types";
+import { DISBURSEMENT_COLUMNS, run, toData, toProjectRef, toRow, toUserRef } from "./mappers";
+
+const include = {
+  project: { select: { id: true, name: true, departmentId: true } },
+  createdBy: { select: { id: true, name: true, email: true } },
+};
+
+function toDisbursementWithRelations(d: any): DisbursementWithRelationsRow {
+  return {
+    ...toRow<DisbursementRow>(d, DISBURSEMENT_COLUMNS),
+    project: toProjectRef(d.project),
+    created_by: toUserRef(d.createdBy),
+  };
+}
+
+export function createDisbursementsRepository(prisma: PrismaClient): DisbursementsRepository {
+  return {
+    listByProject: (projectId) =>
+      run(async () => {
+        const disbursements = await prisma.disbursement.findMany({
+          where: { projectId },
+          include,
+          orderBy: { date: "desc" },
+        });
+        return disbursements.map(toDisbursementWithRelations);
+      }),
+
+    findById: (id) =>
+      run(async () => {
+        const disbursement = await prisma.disbursement.findUnique({ where: { id }, include });
+        return disbursement ? toDisbursementWithRelations(disbursement) : null;
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toDisbursementWithRelations(
+          await prisma.disbursement.create({ data: toData(input, DISBURSEMENT_COLUMNS), include })
+        )
+      ),
+
+    update: (id, patch) =>
+      run(async () =>
+        toDisbursementWithRelations(
+          await prisma.disbursement.update({ where: { id }, data: toData(patch, DISBURSEMENT_COLUMNS), include })
+        )
+      ),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.disbursement.delete({ where: { id } });
+        return null;
+      }),
+  };
+}
@@ -0,0 +1,81 @@
+import type { PrismaClient } from "@prisma/client";
+import type { DocumentFilters, DocumentRow, DocumentWithRelationsRow, DocumentsRepository } from "../types";
+import { DOCUMENT_COLUMNS, run, toData, toDepartmentRef, toPageArgs, toRow, toUserRef } from "./mappers";
+
+const include = {
+  department: { select: { id: true, name: true, code: true } },
+  uploadedBy: { select: { id: true, name: true, email: true } },
+  validatedBy: { select: { id: true, name: true, email: true } },
+  project: { select: { id: true, name: true } },
+};
+
+function toDocumentWithRelations(d: any): DocumentWithRelationsRow {
+  return {
+    ...toRow<DocumentRow>(d, DOCUMENT_COLUMNS),
+    department: toDepartmentRef(d.department),
+    uploaded_by: toUserRef(d.uploadedBy),
+    validated_by: toUserRef(d.validatedBy),
+    project: d.project ? { id: d.project.id, name: d.project.name } : null,
+  };
+}
+
+function where(filters: DocumentFilters) {
+  const and = [];
+  if (filters.visibleToDepartmentId) {
+    and.push({ OR: [{ departmentId: filters.visibleToDepartmentId }, { isPublic: true }] });
+  }
+  if (filters.search) {
+    and.push({ OR: [{ title: { contains: filters.search } }, { description: { contains: filters.search } }] });
+  }
+
+  return {
+    AND: and,
+    departmentId: filters.departmentId,
+    projectId: filters.projectId,
+    type: filters.type,
+    isPublic: filters.isPublic,
+    validationStatus: filters.validationStatus,
+    validationRequestedTo: filters.validationRequestedTo,
+  };
+}
+
+export function createDocumentsRepository(prisma: PrismaClient): DocumentsRepository {
+  return {
+    list: (filters = {}, page) =>
+      run(async () => {
+        const { after, ...window } = toPageArgs(page, DOCUMENT_COLUMNS, "Document");
+        const documents = await prisma.document.findMany({
+          where: { AND: [where(filters), after] },
+          include,
+          ...window,
+        });
+        return documents.map(toDocumentWithRelations);
+      }),
+
+    count: (filters = {}) => run(() => prisma.document.count({ where: where(filters) })),
+
+    findById: (id) =>
+      run(async () => {
+        const document = await prisma.document.findUnique({ where: { id }, include });
+        return document ? toDocumentWithRelations(document) : null;
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toDocumentWithRelations(await prisma.document.create({ data: toData(input, DOCUMENT_COLUMNS), include }))
+      ),
+
+    update: (id, patch) =>
+      run(async () =>
+        toDocumentWithRelations(
+          await prisma.document.update({ where: { id }, data: toData(patch, DOCUMENT_COLUMNS), include })
+        )
+      ),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.document.delete({ where: { id } });
+        return null;
+      }),
+  };
+}
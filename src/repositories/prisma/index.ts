@@ -0,0 +1,63 @@
+import type { PrismaClient } from "@prisma/client";
+import type { Repositories } from "../types";
+import { createUsersRepository } from "./users";
+import { createSessionsRepository } from "./sessions";
+import { createDepartmentsRepository } from "./departments";
+import { createRegionsRepository } from "./regions";
+import { createSectorsRepository } from "./sectors";
+import { createProjectsRepository } from "./projects";
+import { createPeopleRepository } from "./people";
+import { createBeneficiariesRepository } from "./beneficiaries";
+import { createNewsRepository } from "./news";
+import { createAlertsRepository } from "./alerts";
+import { createMessagesRepository } from "./messages";
+import { createDocumentsRepository } from "./documents";
+import { createMilestonesRepository } from "./milestones";
+import { createDisbursementsRepository } from "./disbursements";
+import { createValidationRequestsRepository } from "./validation-requests";
+import { createNotificationsRepository } from "./notifications";
+import { createLoginAttemptsRepository } from "./login-attempts";
+import { createOtpCodesRepository } from "./otp-codes";
+import { createPasswordHistoryRepository } from "./password-history";
+import { createDepartmentPermissionsRepository } from "./department-permissions";
+import { createProjectAssignmentsRepository } from "./project-assignments";
+import { createAuditLogsRepository } from "./audit-logs";
+import { createProjectRevisionsRepository } from "./project-revisions";
+import { createValidationStepsRepository } from "./validation-steps";
+import { createApprovalDelegationsRepository } from "./approval-delegations";
+import { createCommentsRepository } from "./comments";
+import { createSearchRepository } from "./search";
+import { createPersonDuplicateDismissalsRepository } from "./person-duplicate-dismissals";
+
+export function createPrismaRepositories(prisma: PrismaClient): Repositories {
+  return {
+    users: createUsersRepository(prisma),
+    sessions: createSessionsRepository(prisma),
+    departments: createDepartmentsRepository(prisma),
+    regions: createRegionsRepository(prisma),
+    sectors: createSectorsRepository(prisma),
+    projects: createProjectsRepository(prisma),
+    people: createPeopleRepository(prisma),
+    beneficiaries: createBeneficiariesRepository(prisma),
+    news: createNewsRepository(prisma),
+    alerts: createAlertsRepository(prisma),
+    messages: createMessagesRepository(prisma),
+    documents: createDocumentsRepository(prisma),
+    milestones: createMilestonesRepository(prisma),
+    disbursements: createDisbursementsRepository(prisma),
+    validationRequests: createValidationRequestsRepository(prisma),
+    notifications: createNotificationsRepository(prisma),
+    loginAttempts: createLoginAttemptsRepository(prisma),
+    otpCodes: createOtpCodesRepository(prisma),
+    passwordHistory: createPasswordHistoryRepository(prisma),
+    departmentPermissions: createDepartmentPermissionsRepository(prisma),
+    projectAssignments: createProjectAssignmentsRepository(prisma),
+    auditLogs: createAuditLogsRepository(prisma),
+    projectRevisions: createProjectRevisionsRepository(prisma),
+    validationSteps: createValidationStepsRepository(prisma),
+    approvalDelegations: createApprovalDelegationsRepository(prisma),
+    comments: createCommentsRepository(prisma),
+    search: createSearchRepository(prisma),
+    personDuplicateDismissals: createPersonDuplicateDismissalsRepository(prisma),
+  };
+}
@@ -0,0 +1,39 @@
+import type { PrismaClient } from "@prisma/client";
+import type { LoginAttemptFilters, LoginAttemptRow, LoginAttemptsRepository } from "../types";
+import { LOGIN_ATTEMPT_COLUMNS, run, toData, toRow, toUserRef } from "./mappers";
+
+function where(filters: LoginAttemptFilters) {
+  return {
+    userId: filters.userId,
+    ipAddress: filters.ipAddress,
+    createdAt: filters.since ? { gte: new Date(filters.since) } : undefined,
+  };
+}
+
+export function createLoginAttemptsRepository(prisma: PrismaClient): LoginAttemptsRepository {
+  return {
+    list: (filters = {}) =>
+      run(async () => {
+        const attempts = await prisma.loginAttempt.findMany({
+          where: where(filters),
+          include: { user: { select: { id: true, name: true, email: true } } },
+          orderBy: { createdAt: "desc" },
+          take: filters.limit,
+        });
+        return attempts.map((a) => ({
+          ...toRow<LoginAttemptRow>(a, LOGIN_ATTEMPT_COLUMNS),
+          user: toUserRef(a.user),
+        }));
+      }),
+
+    count: (filters = {}) => run(() => prisma.loginAttempt.count({ where: where(filters) })),
+
+    create: (input) =>
+      run(async () =>
+        toRow<LoginAttemptRow>(
+          await prisma.loginAttempt.create({ data: toData(input, LOGIN_ATTEMPT_COLUMNS) }),
+          LOGIN_ATTEMPT_COLUMNS
+        )
+      ),
+  };
+}
@@ -0,0 +1,445 @@
+import { Prisma } from "@prisma/client";
+import { DB_CONFLICT_CODE, type DbError, type DbResult, type PageOptions } from "../types";
+
+// Column name (snake_case, as in Supabase) -> Prisma field name (camelCase)
+export type ColumnMap = Record<string, string>;
+
+export const USER_COLUMNS: ColumnMap = {
+  id: "id",
+  email: "email",
+  password_hash: "password",
+  name: "name",
+  role: "role",
+  department_id: "departmentId",
+  is_active: "isActive",
+  phone: "phone",
+  must_change_password: "mustChangePassword",
+  failed_login_attempts: "failedLoginAttempts",
+  locked_until: "lockedUntil",
+  password_changed_at: "passwordChangedAt",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const SESSION_COLUMNS: ColumnMap = {
+  id: "id",
+  user_id: "userId",
+  token: "token",
+  expires_at: "expiresAt",
+  refresh_token: "refreshToken",
+  refresh_expires_at: "refreshExpiresAt",
+  ip_address: "ipAddress",
+  user_agent: "userAgent",
+  last_used_at: "lastUsedAt",
+  created_at: "createdAt",
+};
+
+export const DEPARTMENT_COLUMNS: ColumnMap = {
+  id: "id",
+  name: "name",
+  code: "code",
+  description: "description",
+  logo_url: "logoUrl",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const REGION_COLUMNS: ColumnMap = {
+  id: "id",
+  name: "name",
+  code: "code",
+  coordinates: "coordinates",
+};
+
+export const SECTOR_COLUMNS: ColumnMap = {
+  id: "id",
+  name: "name",
+  description: "description",
+};
+
+export const PROJECT_COLUMNS: ColumnMap = {
+  id: "id",
+  name: "name",
+  description: "description",
+  department_id: "departmentId",
+  region_id: "regionId",
+  sector_id: "sectorId",
+  budget: "budget",
+  planned_budget: "plannedBudget",
+  start_date: "startDate",
+  end_date: "endDate",
+  progress: "progress",
+  status: "status",
+  responsible_name: "responsibleName",
+  responsible_phone: "responsiblePhone",
+  documents: "documents",
+  photos: "photos",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const PERSON_COLUMNS: ColumnMap = {
+  id: "id",
+  first_name: "firstName",
+  last_name: "lastName",
+  gender: "gender",
+  age: "age",
+  phone: "phone",
+  region_id: "regionId",
+  name_key: "nameKey",
+  phone_key: "phoneKey",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const BENEFICIARY_COLUMNS: ColumnMap = {
+  id: "id",
+  person_id: "personId",
+  first_name: "firstName",
+  last_name: "lastName",
+  gender: "gender",
+  age: "age",
+  phone: "phone",
+  region_id: "regionId",
+  sector_id: "sectorId",
+  project_id: "projectId",
+  accompaniment_status: "accompanimentStatus",
+  start_date: "startDate",
+  end_date: "endDate",
+  outcome: "outcome",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const PERSON_DUPLICATE_DISMISSAL_COLUMNS: ColumnMap = {
+  id: "id",
+  person_id: "personId",
+  other_id: "otherId",
+  dismissed_by_id: "dismissedById",
+  created_at: "createdAt",
+};
+
+export const NEWS_COLUMNS: ColumnMap = {
+  id: "id",
+  title: "title",
+  content: "content",
+  image_url: "imageUrl",
+  department_id: "departmentId",
+  type: "type",
+  published_at: "publishedAt",
+  created_at: "createdAt",
+};
+
+export const ALERT_COLUMNS: ColumnMap = {
+  id: "id",
+  title: "title",
+  message: "message",
+  from_user_id: "fromUserId",
+  to_department_id: "toDepartmentId",
+  type: "type",
+  is_read: "isRead",
+  read_at: "readAt",
+  created_at: "createdAt",
+};
+
+export const MESSAGE_COLUMNS: ColumnMap = {
+  id: "id",
+  subject: "subject",
+  content: "content",
+  from_user_id: "fromUserId",
+  to_user_id: "toUserId",
+  to_department_id: "toDepartmentId",
+  is_read: "isRead",
+  read_at: "readAt",
+  parent_id: "parentId",
+  attachments: "attachments",
+  created_at: "createdAt",
+};
+
+export const DOCUMENT_COLUMNS: ColumnMap = {
+  id: "id",
+  title: "title",
+  description: "description",
+  file_url: "fileUrl",
+  file_type: "fileType",
+  file_size: "fileSize",
+  type: "type",
+  department_id: "departmentId",
+  uploaded_by_id: "uploadedById",
+  project_id: "projectId",
+  is_public: "isPublic",
+  validation_status: "validationStatus",
+  validation_requested_to: "validationRequestedTo",
+  validation_comment: "validationComment",
+  validated_by_id: "validatedById",
+  validated_at: "validatedAt",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const MILESTONE_COLUMNS: ColumnMap = {
+  id: "id",
+  title: "title",
+  description: "description",
+  due_date: "dueDate",
+  completed_date: "completedDate",
+  status: "status",
+  project_id: "projectId",
+  order: "order",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const DISBURSEMENT_COLUMNS: ColumnMap = {
+  id: "id",
+  amount: "amount",
+  description: "description",
+  date: "date",
+  category: "category",
+  project_id: "projectId",
+  created_by_id: "createdById",
+  receipt_url: "receiptUrl",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const VALIDATION_REQUEST_COLUMNS: ColumnMap = {
+  id: "id",
+  type: "type",
+  status: "status",
+  project_id: "projectId",
+  requester_id: "requesterId",
+  approver_id: "approverId",
+  comment: "comment",
+  response_comment: "responseComment",
+  metadata: "metadata",
+  approval_chain: "approvalChain",
+  current_step: "currentStep",
+  due_at: "dueAt",
+  reminder_sent_at: "reminderSentAt",
+  escalation_count: "escalationCount",
+  previous_request_id: "previousRequestId",
+  thread_id: "threadId",
+  revision: "revision",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+  responded_at: "respondedAt",
+};
+
+export const VALIDATION_STEP_COLUMNS: ColumnMap = {
+  id: "id",
+  validation_request_id: "validationRequestId",
+  step: "step",
+  role: "role",
+  approver_id: "approverId",
+  on_behalf_of_id: "onBehalfOfId",
+  decision: "decision",
+  comment: "comment",
+  created_at: "createdAt",
+};
+
+export const NOTIFICATION_COLUMNS: ColumnMap = {
+  id: "id",
+  type: "type",
+  title: "title",
+  message: "message",
+  user_id: "userId",
+  is_read: "isRead",
+  link: "link",
+  created_at: "createdAt",
+};
+
+export const LOGIN_ATTEMPT_COLUMNS: ColumnMap = {
+  id: "id",
+  identifier: "identifier",
+  user_id: "userId",
+  ip_address: "ipAddress",
+  reason: "reason",
+  created_at: "createdAt",
+};
+
+export const PROJECT_REVISION_COLUMNS: ColumnMap = {
+  id: "id",
+  project_id: "projectId",
+  changed_by_id: "changedById",
+  source: "source",
+  validation_request_id: "validationRequestId",
+  changes: "changes",
+  progress: "progress",
+  status: "status",
+  created_at: "createdAt",
+};
+
+export const AUDIT_LOG_COLUMNS: ColumnMap = {
+  id: "id",
+  actor_id: "actorId",
+  actor_name: "actorName",
+  on_behalf_of_id: "onBehalfOfId",
+  on_behalf_of_name: "onBehalfOfName",
+  action: "action",
+  entity_type: "entityType",
+  entity_id: "entityId",
+  changes: "changes",
+  ip_address: "ipAddress",
+  created_at: "createdAt",
+};
+
+export const COMMENT_COLUMNS: ColumnMap = {
+  id: "id",
+  entity_type: "entityType",
+  entity_id: "entityId",
+  author_id: "authorId",
+  body: "body",
+  mentions: "mentions",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const APPROVAL_DELEGATION_COLUMNS: ColumnMap = {
+  id: "id",
+  delegator_id: "delegatorId",
+  delegate_id: "delegateId",
+  scopes: "scopes",
+  reason: "reason",
+  starts_at: "startsAt",
+  ends_at: "endsAt",
+  revoked_at: "revokedAt",
+  created_at: "createdAt",
+};
+
+export const PROJECT_ASSIGNMENT_COLUMNS: ColumnMap = {
+  id: "id",
+  project_id: "projectId",
+  user_id: "userId",
+  assigned_by_id: "assignedById",
+  created_at: "createdAt",
+};
+
+export const DEPARTMENT_PERMISSION_COLUMNS: ColumnMap = {
+  id: "id",
+  department_id: "departmentId",
+  role: "role",
+  permission: "permission",
+  granted: "granted",
+  created_at: "createdAt",
+  updated_at: "updatedAt",
+};
+
+export const PASSWORD_HISTORY_COLUMNS: ColumnMap = {
+  id: "id",
+  user_id: "userId",
+  password_hash: "passwordHash",
+  created_at: "createdAt",
+};
+
+export const OTP_CODE_COLUMNS: ColumnMap = {
+  id: "id",
+  user_id: "userId",
+  purpose: "purpose",
+  code_hash: "codeHash",
+  attempts: "attempts",
+  expires_at: "expiresAt",
+  consumed_at: "consumedAt",
+  created_at: "createdAt",
+};
+
+// Timestamps (`*_at`) and dates (`*date`) are ISO strings in rows and Date objects in Prisma
+function isDateColumn(column: string): boolean {
+  return column.endsWith("_at") || column.endsWith("date");
+}
+
+// Prisma model -> snake_case row
+export function toRow<T>(model: any, columns: ColumnMap): T {
+  const row: Record<string, unknown> = {};
+  for (const [column, field] of Object.entries(columns)) {
+    const value = model[field];
+    row[column] = value instanceof Date ? value.toISOString() : value ?? null;
+  }
+  return row as T;
+}
+
+// snake_case insert/update payload -> Prisma data, skipping undefined values
+export function toData(input: Record<string, unknown>, columns: ColumnMap): any {
+  const data: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(input)) {
+    const field = columns[column];
+    if (!field || value === undefined) continue;
+    data[field] = isDateColumn(column) && typeof value === "string" ? new Date(value) : value;
+  }
+  return data;
+}
+
+// Prisma only accepts null comparisons on fields that may hold null
+function isNullable(model: Prisma.ModelName, field: string): boolean {
+  const fields = Prisma.dmmf.datamodel.models.find((m) => m.name === model)?.fields ?? [];
+  return fields.some((f) => f.name === field && !f.isRequired);
+}
+
+// Page -> findMany ordering and window. `after` is ANDed with the list filters:
+// rows past the cursor in the sort order, the id breaking ties. SQLite already
+// ranks nulls below every value, which the cursor follows.
+export function toPageArgs(
+  page: PageOptions = {},
+  columns: ColumnMap,
+  model: Prisma.ModelName
+): { after: any; orderBy: any; take?: number; skip?: number } {
+  const column = page.sortBy ?? "created_at";
+  const field = columns[column] ?? "createdAt";
+  const direction = page.sortDirection ?? "desc";
+  const op = direction === "desc" ? "lt" : "gt";
+
+  let after = {};
+  if (page.after) {
+    const { id } = page.after;
+    const value = isDateColumn(column) && typeof page.after.value === "string" ? new Date(page.after.value) : page.after.value;
+
+    if (value === null) {
+      const nulls = { [field]: null, id: { [op]: id } };
+      after = { OR: direction === "asc" ? [nulls, { [field]: { not: null } }] : [nulls] };
+    } else {
+      const values = [{ [field]: { [op]: value } }, { [field]: value, id: { [op]: id } }];
+      after = { OR: direction === "asc" || !isNullable(model, field) ? values : [...values, { [field]: null }] };
+    }
+  }
+
+  return {
+    after,
+    orderBy: [{ [field]: direction }, { id: direction }],
+    take: page.limit,
+    skip: page.after ? undefined : page.offset,
+  };
+}
+
+export function toDepartmentRef(d: any) {
+  return d ? { id: d.id, name: d.name, code: d.code } : null;
+}
+
+export function toUserRef(u: any) {
+  return u ? { id: u.id, name: u.name, email: u.email } : null;
+}
+
+export function toProjectRef(p: any) {
+  return p ? { id: p.id, name: p.name, department_id: p.departmentId } : null;
+}
+
+// Thrown inside a transaction when the rows changed since they were read
+export class ConflictError extends Error {}
+
+function toDbError(error: unknown): DbError {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    return { message: error.message, code: error.code };
+  }
+  if (error instanceof ConflictError) {
+    return { message: error.message, code: DB_CONFLICT_CODE };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+// Runs a Prisma call and reports failures as `{ data: null, error }` like the Supabase client
+export async function run<T>(fn: () => Promise<T | null>): Promise<DbResult<T>> {
+  try {
+    return { data: await fn(), error: null };
+  } catch (error) {
+    return { data: null, error: toDbError(error) };
+  }
+}
@@ -0,0 +1,100 @@
+import type { PrismaClient } from "@prisma/client";
+import type { MessageFilters, MessageRow, MessageWithRelationsRow, MessagesRepository } from "../types";
+import { MESSAGE_COLUMNS, run, toData, toDepartmentRef, toPageArgs, toRow, toUserRef } from "./mappers";
+
+const include = {
+  fromUser: { select: { id: true, name: true, email: true } },
+  toUser: { select: { id: true, name: true, email: true } },
+  toDepartment: { select: { id: true, name: true, code: true } },
+};
+
+function toMessageWithRelations(m: any): MessageWithRelationsRow {
+  return {
+    ...toRow<MessageRow>(m, MESSAGE_COLUMNS),
+    from_user: toUserRef(m.fromUser),
+    to_user: toUserRef(m.toUser),
+    to_department: toDepartmentRef(m.toDepartment),
+  };
+}
+
+// SQLite stores attachments as a JSON string
+function toMessageData(input: Record<string, unknown>) {
+  const data = toData(input, MESSAGE_COLUMNS);
+  if (Array.isArray(data.attachments)) data.attachments = JSON.stringify(data.attachments);
+  return data;
+}
+
+function where(filters: MessageFilters) {
+  let recipient;
+  if (filters.recipientUserId) {
+    recipient = filters.recipientDepartmentId
+      ? { OR: [{ toUserId: filters.recipientUserId }, { toDepartmentId: filters.recipientDepartmentId }] }
+      : { toUserId: filters.recipientUserId };
+  }
+
+  return {
+    ...recipient,
+    fromUserId: filters.fromUserId,
+    isRead: filters.isRead,
+    parentId: filters.parentId,
+  };
+}
+
+export function createMessagesRepository(prisma: PrismaClient): MessagesRepository {
+  return {
+    list: (filters = {}, page) =>
+      run(async () => {
+        const { after, ...window } = toPageArgs(page, MESSAGE_COLUMNS, "Message");
+        const messages = await prisma.message.findMany({
+          where: { AND: [where(filters), after] },
+          include,
+          ...window,
+        });
+        return messages.map(toMessageWithRelations);
+      }),
+
+    count: (filters = {}) => run(() => prisma.message.count({ where: where(filters) })),
+
+    listReplies: (parentId) =>
+      run(async () => {
+        const replies = await prisma.message.findMany({ where: { parentId }, include, orderBy: { createdAt: "asc" } });
+        return replies.map(toMessageWithRelations);
+      }),
+
+    countReplies: (parentIds) =>
+      run(async () => {
+        const groups = await prisma.message.groupBy({
+          by: ["parentId"],
+          where: { parentId: { in: parentIds } },
+          _count: { _all: true },
+        });
+        return Object.fromEntries(groups.map((g) => [g.parentId as string, g._count._all]));
+      }),
+
+    findById: (id) =>
+      run(async () => {
+        const message = await prisma.message.findUnique({ where: { id }, include });
+        return message ? toMessageWithRelations(message) : null;
+      }),
+
+    create: (input) =>
+      run(async () => toMessageWithRelations(await prisma.message.create({ data: toMessageData(input), include }))),
+
+    update: (id, patch) =>
+      run(async () =>
+        toMessageWithRelations(await prisma.message.update({ where: { id }, data: toMessageData(patch), include }))
+      ),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.message.delete({ where: { id } });
+        return null;
+      }),
+
+    deleteReplies: (parentId) =>
+      run(async () => {
+        await prisma.message.deleteMany({ where: { parentId } });
+        return null;
+      }),
+  };
+}
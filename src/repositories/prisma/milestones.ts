@@ -0,0 +1,37 @@
+import type { PrismaClient } from "@prisma/client";
+import type { MilestoneRow, MilestonesRepository } from "../types";
+import { MILESTONE_COLUMNS, run, toData, toProjectRef, toRow } from "./mappers";
+
+const toMilestoneRow = (m: any) => toRow<MilestoneRow>(m, MILESTONE_COLUMNS);
+
+export function createMilestonesRepository(prisma: PrismaClient): MilestonesRepository {
+  return {
+    listByProject: (projectId) =>
+      run(async () =>
+        (await prisma.milestone.findMany({ where: { projectId }, orderBy: { order: "asc" } })).map(toMilestoneRow)
+      ),
+
+    findById: (id) =>
+      run(async () => {
+        const milestone = await prisma.milestone.findUnique({
+          where: { id },
+          include: { project: { select: { id: true, name: true, departmentId: true } } },
+        });
+        return milestone ? { ...toMilestoneRow(milestone), project: toProjectRef(milestone.project) } : null;
+      }),
+
+    create: (input) =>
+      run(async () => toMilestoneRow(await prisma.milestone.create({ data: toData(input, MILESTONE_COLUMNS) }))),
+
+    update: (id, patch) =>
+      run(async () =>
+        toMilestoneRow(await prisma.milestone.update({ where: { id }, data: toData(patch, MILESTONE_COLUMNS) }))
+      ),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.milestone.delete({ where: { id } });
+        return null;
+      }),
+  };
+}
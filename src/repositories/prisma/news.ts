@@ -0,0 +1,45 @@
+import type { PrismaClient } from "@prisma/client";
+import type { NewsFilters, NewsRepository, NewsRow, NewsWithDepartmentRow } from "../types";
+import { NEWS_COLUMNS, run, toData, toDepartmentRef, toRow } from "./mappers";
+
+const include = { department: { select: { id: true, name: true, code: true } } };
+
+function toNewsWithDepartment(n: any): NewsWithDepartmentRow {
+  return { ...toRow<NewsRow>(n, NEWS_COLUMNS), department: toDepartmentRef(n.department) };
+}
+
+function where(filters: NewsFilters) {
+  return { departmentId: filters.departmentId, type: filters.type };
+}
+
+export function createNewsRepository(prisma: PrismaClient): NewsRepository {
+  return {
+    list: (filters = {}) =>
+      run(async () => {
+        const news = await prisma.news.findMany({
+          where: where(filters),
+          include,
+          orderBy: { publishedAt: "desc" },
+          take: filters.limit,
+        });
+        return news.map(toNewsWithDepartment);
+      }),
+
+    count: (filters = {}) => run(() => prisma.news.count({ where: where(filters) })),
+
+    findById: (id) =>
+      run(async () => {
+        const newsItem = await prisma.news.findUnique({ where: { id }, include });
+        return newsItem ? toNewsWithDepartment(newsItem) : null;
+      }),
+
+    create: (input) =>
+      run(async () => toNewsWithDepartment(await prisma.news.create({ data: toData(input, NEWS_COLUMNS), include }))),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.news.delete({ where: { id } });
+        return null;
+      }),
+  };
+}
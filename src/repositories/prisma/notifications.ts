@@ -0,0 +1,50 @@
+import type { PrismaClient } from "@prisma/client";
+import type { NotificationRow, NotificationsRepository } from "../types";
+import { NOTIFICATION_COLUMNS, run, toData, toPageArgs, toRow } from "./mappers";
+
+const toNotificationRow = (n: any) => toRow<NotificationRow>(n, NOTIFICATION_COLUMNS);
+
+export function createNotificationsRepository(prisma: PrismaClient): NotificationsRepository {
+  return {
+    listByUser: (userId, page) =>
+      run(async () => {
+        const { after, ...window } = toPageArgs(page, NOTIFICATION_COLUMNS, "Notification");
+        const notifications = await prisma.notification.findMany({ where: { AND: [{ userId }, after] }, ...window });
+        return notifications.map(toNotificationRow);
+      }),
+
+    countByUser: (userId) => run(() => prisma.notification.count({ where: { userId } })),
+
+    countUnread: (userId) => run(() => prisma.notification.count({ where: { userId, isRead: false } })),
+
+    findById: (id) =>
+      run(async () => {
+        const notification = await prisma.notification.findUnique({ where: { id } });
+        return notification ? toNotificationRow(notification) : null;
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toNotificationRow(await prisma.notification.create({ data: toData(input, NOTIFICATION_COLUMNS) }))
+      ),
+
+    createMany: (inputs) =>
+      run(async () => {
+        await prisma.notification.createMany({ data: inputs.map((n) => toData(n, NOTIFICATION_COLUMNS)) });
+        return null;
+      }),
+
+    update: (id, patch) =>
+      run(async () =>
+        toNotificationRow(
+          await prisma.notification.update({ where: { id }, data: toData(patch, NOTIFICATION_COLUMNS) })
+        )
+      ),
+
+    markAllRead: (userId) =>
+      run(async () => {
+        await prisma.notification.updateMany({ where: { userId, isRead: false }, data: { isRead: true } });
+        return null;
+      }),
+  };
+}
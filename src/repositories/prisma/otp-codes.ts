@@ -0,0 +1,57 @@
+import type { PrismaClient } from "@prisma/client";
+import type { OtpCodeRow, OtpCodesRepository } from "../types";
+import { OTP_CODE_COLUMNS, run, toData, toRow } from "./mappers";
+
+export function createOtpCodesRepository(prisma: PrismaClient): OtpCodesRepository {
+  return {
+    findLatest: (userId, purpose) =>
+      run(async () => {
+        const code = await prisma.otpCode.findFirst({
+          where: { userId, purpose },
+          orderBy: { createdAt: "desc" },
+        });
+        return code ? toRow<OtpCodeRow>(code, OTP_CODE_COLUMNS) : null;
+      }),
+
+    countSince: (userId, since) =>
+      run(() => prisma.otpCode.count({ where: { userId, createdAt: { gte: new Date(since) } } })),
+
+    create: (input) =>
+      run(async () =>
+        toRow<OtpCodeRow>(
+          await prisma.otpCode.create({ data: toData(input, OTP_CODE_COLUMNS) }),
+          OTP_CODE_COLUMNS
+        )
+      ),
+
+    update: (id, patch) =>
+      run(async () =>
+        toRow<OtpCodeRow>(
+          await prisma.otpCode.update({ where: { id }, data: toData(patch, OTP_CODE_COLUMNS) }),
+          OTP_CODE_COLUMNS
+        )
+      ),
+
+    countAttempt: (id, attempts) =>
+      run(async () => {
+        const { count } = await prisma.otpCode.updateMany({
+          where: { id, attempts, consumedAt: null },
+          data: { attempts: attempts + 1 },
+        });
+        if (count === 0) return null;
+        const code = await prisma.otpCode.findUnique({ where: { id } });
+        return code ? toRow<OtpCodeRow>(code, OTP_CODE_COLUMNS) : null;
+      }),
+
+    consume: (id) =>
+      run(async () => {
+        const { count } = await prisma.otpCode.updateMany({
+          where: { id, consumedAt: null },
+          data: { consumedAt: new Date() },
+        });
+        if (count === 0) return null;
+        const code = await prisma.otpCode.findUnique({ where: { id } });
+        return code ? toRow<OtpCodeRow>(code, OTP_CODE_COLUMNS) : null;
+      }),
+  };
+}
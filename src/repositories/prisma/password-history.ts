@@ -0,0 +1,25 @@
+import type { PrismaClient } from "@prisma/client";
+import type { PasswordHistoryRepository, PasswordHistoryRow } from "../types";
+import { PASSWORD_HISTORY_COLUMNS, run, toData, toRow } from "./mappers";
+
+export function createPasswordHistoryRepository(prisma: PrismaClient): PasswordHistoryRepository {
+  return {
+    listRecent: (userId, limit) =>
+      run(async () => {
+        const entries = await prisma.passwordHistory.findMany({
+          where: { userId },
+          orderBy: { createdAt: "desc" },
+          take: limit,
+        });
+        return entries.map((e) => toRow<PasswordHistoryRow>(e, PASSWORD_HISTORY_COLUMNS));
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toRow<PasswordHistoryRow>(
+          await prisma.passwordHistory.create({ data: toData(input, PASSWORD_HISTORY_COLUMNS) }),
+          PASSWORD_HISTORY_COLUMNS
+        )
+      ),
+  };
+}
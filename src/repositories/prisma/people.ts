@@ -0,0 +1,104 @@
+import type { PrismaClient } from "@prisma/client";
+import type { PeopleRepository, PersonFilters, PersonRow, PersonWithRegionRow } from "../types";
+import { ConflictError, PERSON_COLUMNS, run, toData, toPageArgs, toRow } from "./mappers";
+
+const include = {
+  region: { select: { id: true, name: true } },
+};
+
+function toPersonWithRegion(p: any): PersonWithRegionRow {
+  return {
+    ...toRow<PersonRow>(p, PERSON_COLUMNS),
+    region: p.region ? { id: p.region.id, name: p.region.name } : null,
+  };
+}
+
+function where(filters: PersonFilters) {
+  return {
+    regionId: filters.regionId,
+    gender: filters.gender,
+    OR: filters.search
+      ? [
+          { firstName: { contains: filters.search } },
+          { lastName: { contains: filters.search } },
+          { phone: { contains: filters.search } },
+        ]
+      : undefined,
+  };
+}
+
+export function createPeopleRepository(prisma: PrismaClient): PeopleRepository {
+  return {
+    list: (filters = {}, page) =>
+      run(async () => {
+        const { after, ...window } = toPageArgs(page, PERSON_COLUMNS, "Person");
+        const people = await prisma.person.findMany({
+          where: { AND: [where(filters), after] },
+          include,
+          ...window,
+        });
+        return people.map(toPersonWithRegion);
+      }),
+
+    count: (filters = {}) => run(() => prisma.person.count({ where: where(filters) })),
+
+    listByIdentityKeys: ({ nameKeys, phoneKeys }) =>
+      run(async () => {
+        const people = await prisma.person.findMany({
+          where: { OR: [{ nameKey: { in: nameKeys } }, { phoneKey: { in: phoneKeys } }] },
+          include,
+        });
+        return people.map(toPersonWithRegion);
+      }),
+
+    listSharingIdentityKeys: () =>
+      run(async () => {
+        const [names, phones] = await Promise.all([
+          prisma.person.groupBy({ by: ["nameKey"], having: { nameKey: { _count: { gt: 1 } } } }),
+          prisma.person.groupBy({ by: ["phoneKey"], where: { phoneKey: { not: null } }, having: { phoneKey: { _count: { gt: 1 } } } }),
+        ]);
+        const people = await prisma.person.findMany({
+          where: {
+            OR: [
+              { nameKey: { in: names.flatMap((g) => g.nameKey ?? []) } },
+              { phoneKey: { in: phones.flatMap((g) => g.phoneKey ?? []) } },
+            ],
+          },
+          include,
+        });
+        return people.map(toPersonWithRegion);
+      }),
+
+    findById: (id) =>
+      run(async () => {
+        const person = await prisma.person.findUnique({ where: { id }, include });
+        return person ? toPersonWithRegion(person) : null;
+      }),
+
+    update: (id, patch) =>
+      run(async () =>
+        toPersonWithRegion(await prisma.person.update({ where: { id }, data: toData(patch, PERSON_COLUMNS), include }))
+      ),
+
+    merge: ({ survivorId, duplicateId, patch }) =>
+      run(() =>
+        prisma.$transaction(async (tx) => {
+          // Both must still exist
+          const found = await tx.person.count({ where: { id: { in: [survivorId, duplicateId] } } });
+          if (found !== 2) {
+            throw new ConflictError("Une des personnes a deja ete fusionnee");
+          }
+
+          await tx.beneficiary.updateMany({
+            where: { personId: duplicateId },
+            data: { personId: survivorId, updatedAt: new Date() },
+          });
+          await tx.person.delete({ where: { id: duplicateId } });
+
+          return toPersonWithRegion(
+            await tx.person.update({ where: { id: survivorId }, data: toData(patch, PERSON_COLUMNS), include })
+          );
+        })
+      ),
+  };
+}
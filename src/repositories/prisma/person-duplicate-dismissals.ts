@@ -0,0 +1,23 @@
+import type { PrismaClient } from "@prisma/client";
+import type { PersonDuplicateDismissalRow, PersonDuplicateDismissalsRepository } from "../types";
+import { PERSON_DUPLICATE_DISMISSAL_COLUMNS, run, toData, toRow } from "./mappers";
+
+export function createPersonDuplicateDismissalsRepository(prisma: PrismaClient): PersonDuplicateDismissalsRepository {
+  return {
+    list: () =>
+      run(async () => {
+        const dismissals = await prisma.personDuplicateDismissal.findMany();
+        return dismissals.map((d) => toRow<PersonDuplicateDismissalRow>(d, PERSON_DUPLICATE_DISMISSAL_COLUMNS));
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toRow<PersonDuplicateDismissalRow>(
+          await prisma.personDuplicateDismissal.create({
+            data: toData(input, PERSON_DUPLICATE_DISMISSAL_COLUMNS),
+          }),
+          PERSON_DUPLICATE_DISMISSAL_COLUMNS
+        )
+      ),
+  };
+}
@@ -0,0 +1,41 @@
+import type { PrismaClient } from "@prisma/client";
+import type { ProjectAssignmentRow, ProjectAssignmentsRepository } from "../types";
+import { PROJECT_ASSIGNMENT_COLUMNS, run, toProjectRef, toRow } from "./mappers";
+
+export function createProjectAssignmentsRepository(prisma: PrismaClient): ProjectAssignmentsRepository {
+  return {
+    listByUser: (userId) =>
+      run(async () => {
+        const assignments = await prisma.projectAssignment.findMany({
+          where: { userId },
+          include: { project: { select: { id: true, name: true, departmentId: true } } },
+          orderBy: { createdAt: "desc" },
+        });
+        return assignments.map((a) => ({
+          ...toRow<ProjectAssignmentRow>(a, PROJECT_ASSIGNMENT_COLUMNS),
+          project: toProjectRef(a.project),
+        }));
+      }),
+
+    exists: (userId, projectId) =>
+      run(async () => (await prisma.projectAssignment.count({ where: { userId, projectId } })) > 0),
+
+    replaceForUser: (userId, projectIds, assignedById) =>
+      run(async () => {
+        await prisma.$transaction(async (tx) => {
+          await tx.projectAssignment.deleteMany({ where: { userId, projectId: { notIn: projectIds } } });
+
+          const existing = await tx.projectAssignment.findMany({ where: { userId }, select: { projectId: true } });
+          const assigned = new Set(existing.map((a) => a.projectId));
+          const added = projectIds.filter((projectId) => !assigned.has(projectId));
+
+          if (added.length > 0) {
+            await tx.projectAssignment.createMany({
+              data: added.map((projectId) => ({ projectId, userId, assignedById })),
+            });
+          }
+        });
+        return null;
+      }),
+  };
+}
@@ -0,0 +1,28 @@
+import type { PrismaClient } from "@prisma/client";
+import type { ProjectRevisionRow, ProjectRevisionsRepository } from "../types";
+import { PROJECT_REVISION_COLUMNS, run, toData, toRow, toUserRef } from "./mappers";
+
+export function createProjectRevisionsRepository(prisma: PrismaClient): ProjectRevisionsRepository {
+  return {
+    listByProject: (projectId) =>
+      run(async () => {
+        const revisions = await prisma.projectRevision.findMany({
+          where: { projectId },
+          include: { changedBy: { select: { id: true, name: true, email: true } } },
+          orderBy: { createdAt: "asc" },
+        });
+        return revisions.map((r) => ({
+          ...toRow<ProjectRevisionRow>(r, PROJECT_REVISION_COLUMNS),
+          changed_by: toUserRef(r.changedBy),
+        }));
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toRow<ProjectRevisionRow>(
+          await prisma.projectRevision.create({ data: toData(input, PROJECT_REVISION_COLUMNS) }),
+          PROJECT_REVISION_COLUMNS
+        )
+      ),
+  };
+}
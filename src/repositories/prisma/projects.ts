@@ -0,0 +1,71 @@
+import type { PrismaClient } from "@prisma/client";
+import type { ProjectFilters, ProjectRow, ProjectWithRelationsRow, ProjectsRepository } from "../types";
+import { PROJECT_COLUMNS, run, toData, toDepartmentRef, toPageArgs, toRow } from "./mappers";
+
+const include = {
+  department: { select: { id: true, name: true, code: true } },
+  region: { select: { id: true, name: true, code: true } },
+  sector: { select: { id: true, name: true } },
+};
+
+function toProjectWithRelations(p: any): ProjectWithRelationsRow {
+  return {
+    ...toRow<ProjectRow>(p, PROJECT_COLUMNS),
+    department: toDepartmentRef(p.department),
+    region: p.region ? { id: p.region.id, name: p.region.name, code: p.region.code } : null,
+    sector: p.sector ? { id: p.sector.id, name: p.sector.name } : null,
+  };
+}
+
+function where(filters: ProjectFilters) {
+  return {
+    departmentId: filters.departmentId,
+    regionId: filters.regionId,
+    sectorId: filters.sectorId,
+    status: filters.status,
+    OR: filters.search
+      ? [
+          { name: { contains: filters.search } },
+          { description: { contains: filters.search } },
+          { responsibleName: { contains: filters.search } },
+        ]
+      : undefined,
+  };
+}
+
+export function createProjectsRepository(prisma: PrismaClient): ProjectsRepository {
+  return {
+    list: (filters = {}, page) =>
+      run(async () => {
+        const { after, ...window } = toPageArgs(page, PROJECT_COLUMNS, "Project");
+        const projects = await prisma.project.findMany({ where: { AND: [where(filters), after] }, include, ...window });
+        return projects.map(toProjectWithRelations);
+      }),
+
+    count: (filters = {}) => run(() => prisma.project.count({ where: where(filters) })),
+
+    findById: (id) =>
+      run(async () => {
+        const project = await prisma.project.findUnique({ where: { id }, include });
+        return project ? toProjectWithRelations(project) : null;
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toProjectWithRelations(await prisma.project.create({ data: toData(input, PROJECT_COLUMNS), include }))
+      ),
+
+    update: (id, patch) =>
+      run(async () =>
+        toProjectWithRelations(
+          await prisma.project.update({ where: { id }, data: toData(patch, PROJECT_COLUMNS), include })
+        )
+      ),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.project.delete({ where: { id } });
+        return null;
+      }),
+  };
+}
@@ -0,0 +1,31 @@
+import type { PrismaClient } from "@prisma/client";
+import type { RegionRow, RegionsRepository } from "../types";
+import { REGION_COLUMNS, run, toData, toRow } from "./mappers";
+
+const toRegionRow = (r: any) => toRow<RegionRow>(r, REGION_COLUMNS);
+
+export function createRegionsRepository(prisma: PrismaClient): RegionsRepository {
+  return {
+    list: () => run(async () => (await prisma.region.findMany({ orderBy: { name: "asc" } })).map(toRegionRow)),
+
+    findById: (id) =>
+      run(async () => {
+        const region = await prisma.region.findUnique({ where: { id } });
+        return region ? toRegionRow(region) : null;
+      }),
+
+    findByCode: (code) =>
+      run(async () => {
+        const region = await prisma.region.findUnique({ where: { code } });
+        return region ? toRegionRow(region) : null;
+      }),
+
+    findByName: (name) =>
+      run(async () => {
+        const region = await prisma.region.findUnique({ where: { name } });
+        return region ? toRegionRow(region) : null;
+      }),
+
+    create: (input) => run(async () => toRegionRow(await prisma.region.create({ data: toData(input, REGION_COLUMNS) }))),
+  };
+}
@@ -0,0 +1,103 @@
+import type { PrismaClient } from "@prisma/client";
+import { normalizeSearchText, type SearchHitRow, type SearchRepository, type SearchScope } from "../types";
+import { run } from "./mappers";
+
+// SQLite has neither unaccent nor a Unicode-aware LOWER: visible rows are
+// loaded with the fields searched and matched here instead of in the query,
+// newest first and a batch at a time, until enough of them match.
+const BATCH_SIZE = 500;
+
+function documentsWhere(scope: SearchScope) {
+  if (scope.readAllDocuments) return {};
+
+  const visible: object[] = [{ isPublic: true }, { validationRequestedTo: scope.userId }];
+  if (scope.departmentId) visible.push({ departmentId: scope.departmentId });
+  return { OR: visible };
+}
+
+function messagesWhere(scope: SearchScope) {
+  if (scope.readAllMessages) return {};
+
+  const visible: object[] = [{ fromUserId: scope.userId }, { toUserId: scope.userId }];
+  if (scope.departmentId) visible.push({ toDepartmentId: scope.departmentId });
+  return { OR: visible };
+}
+
+function hit(entityType: string, id: string, title: string, body: (string | null)[], createdAt: Date): SearchHitRow {
+  const text = body.filter((part): part is string => !!part).join(" ");
+  return { entity_type: entityType, id, title, body: text || null, created_at: createdAt.toISOString() };
+}
+
+export function createSearchRepository(prisma: PrismaClient): SearchRepository {
+  async function candidates(type: string, scope: SearchScope, skip: number): Promise<SearchHitRow[]> {
+    const page = { orderBy: [{ createdAt: "desc" as const }, { id: "desc" as const }], skip, take: BATCH_SIZE };
+
+    switch (type) {
+      case "PROJECT": {
+        const projects = await prisma.project.findMany({
+          ...page,
+          select: { id: true, name: true, description: true, responsibleName: true, createdAt: true },
+        });
+        return projects.map((p) => hit(type, p.id, p.name, [p.description, p.responsibleName], p.createdAt));
+      }
+      case "BENEFICIARY": {
+        const beneficiaries = await prisma.beneficiary.findMany({
+          ...page,
+          select: { id: true, firstName: true, lastName: true, phone: true, createdAt: true },
+        });
+        return beneficiaries.map((b) => hit(type, b.id, `${b.firstName} ${b.lastName}`, [b.phone], b.createdAt));
+      }
+      case "DOCUMENT": {
+        const documents = await prisma.document.findMany({
+          ...page,
+          where: documentsWhere(scope),
+          select: { id: true, title: true, description: true, createdAt: true },
+        });
+        return documents.map((d) => hit(type, d.id, d.title, [d.description], d.createdAt));
+      }
+      case "NEWS": {
+        const news = await prisma.news.findMany({
+          ...page,
+          select: { id: true, title: true, content: true, createdAt: true },
+        });
+        return news.map((n) => hit(type, n.id, n.title, [n.content], n.createdAt));
+      }
+      case "MESSAGE": {
+        const messages = await prisma.message.findMany({
+          ...page,
+          where: messagesWhere(scope),
+          select: { id: true, subject: true, content: true, createdAt: true },
+        });
+        return messages.map((m) => hit(type, m.id, m.subject, [m.content], m.createdAt));
+      }
+      default:
+        return [];
+    }
+  }
+
+  return {
+    search: (terms, scope, perType) =>
+      run(async () => {
+        const hits: SearchHitRow[] = [];
+
+        for (const type of scope.types) {
+          const matching: SearchHitRow[] = [];
+
+          for (let skip = 0; matching.length < perType; skip += BATCH_SIZE) {
+            const batch = await candidates(type, scope, skip);
+            matching.push(
+              ...batch.filter((row) => {
+                const text = normalizeSearchText(`${row.title} ${row.body ?? ""}`);
+                return terms.every((term) => text.includes(term));
+              })
+            );
+            if (batch.length < BATCH_SIZE) break;
+          }
+
+          hits.push(...matching.slice(0, perType));
+        }
+
+        return hits;
+      }),
+  };
+}
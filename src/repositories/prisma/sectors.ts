@@ -0,0 +1,25 @@
+import type { PrismaClient } from "@prisma/client";
+import type { SectorRow, SectorsRepository } from "../types";
+import { SECTOR_COLUMNS, run, toData, toRow } from "./mappers";
+
+const toSectorRow = (s: any) => toRow<SectorRow>(s, SECTOR_COLUMNS);
+
+export function createSectorsRepository(prisma: PrismaClient): SectorsRepository {
+  return {
+    list: () => run(async () => (await prisma.sector.findMany({ orderBy: { name: "asc" } })).map(toSectorRow)),
+
+    findById: (id) =>
+      run(async () => {
+        const sector = await prisma.sector.findUnique({ where: { id } });
+        return sector ? toSectorRow(sector) : null;
+      }),
+
+    findByName: (name) =>
+      run(async () => {
+        const sector = await prisma.sector.findUnique({ where: { name } });
+        return sector ? toSectorRow(sector) : null;
+      }),
+
+    create: (input) => run(async () => toSectorRow(await prisma.sector.create({ data: toData(input, SECTOR_COLUMNS) }))),
+  };
+}
@@ -0,0 +1,89 @@
+import type { PrismaClient } from "@prisma/client";
+import type { SessionRow, SessionsRepository, UserRow } from "../types";
+import { SESSION_COLUMNS, USER_COLUMNS, run, toData, toDepartmentRef, toRow } from "./mappers";
+
+export function createSessionsRepository(prisma: PrismaClient): SessionsRepository {
+  return {
+    findById: (id) =>
+      run(async () => {
+        const session = await prisma.session.findUnique({ where: { id } });
+        return session ? toRow<SessionRow>(session, SESSION_COLUMNS) : null;
+      }),
+
+    findByToken: (token) =>
+      run(async () => {
+        const session = await prisma.session.findUnique({
+          where: { token },
+          include: { user: { include: { department: true } } },
+        });
+        if (!session) return null;
+
+        return {
+          ...toRow<SessionRow>(session, SESSION_COLUMNS),
+          user: {
+            ...toRow<UserRow>(session.user, USER_COLUMNS),
+            department: toDepartmentRef(session.user.department),
+          },
+        };
+      }),
+
+    findByRefreshToken: (refreshToken) =>
+      run(async () => {
+        const session = await prisma.session.findUnique({ where: { refreshToken } });
+        return session ? toRow<SessionRow>(session, SESSION_COLUMNS) : null;
+      }),
+
+    listActiveByUser: (userId) =>
+      run(async () => {
+        const now = new Date();
+        const sessions = await prisma.session.findMany({
+          where: { userId, OR: [{ expiresAt: { gt: now } }, { refreshExpiresAt: { gt: now } }] },
+          orderBy: { lastUsedAt: "desc" },
+        });
+        return sessions.map((s) => toRow<SessionRow>(s, SESSION_COLUMNS));
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toRow<SessionRow>(await prisma.session.create({ data: toData(input, SESSION_COLUMNS) }), SESSION_COLUMNS)
+      ),
+
+    update: (id, patch) =>
+      run(async () =>
+        toRow<SessionRow>(
+          await prisma.session.update({ where: { id }, data: toData(patch, SESSION_COLUMNS) }),
+          SESSION_COLUMNS
+        )
+      ),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.session.deleteMany({ where: { id } });
+        return null;
+      }),
+
+    deleteByToken: (token) =>
+      run(async () => {
+        await prisma.session.deleteMany({ where: { token } });
+        return null;
+      }),
+
+    deleteByUserId: (userId) =>
+      run(async () => {
+        await prisma.session.deleteMany({ where: { userId } });
+        return null;
+      }),
+
+    deleteExpired: () =>
+      run(async () => {
+        const now = new Date();
+        const { count } = await prisma.session.deleteMany({
+          where: {
+            expiresAt: { lt: now },
+            OR: [{ refreshExpiresAt: null }, { refreshExpiresAt: { lt: now } }],
+          },
+        });
+        return count;
+      }),
+  };
+}
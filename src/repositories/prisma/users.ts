@@ -0,0 +1,78 @@
+import type { PrismaClient } from "@prisma/client";
+import type { UserFilters, UserRow, UserWithDepartmentRow, UsersRepository } from "../types";
+import { USER_COLUMNS, run, toData, toDepartmentRef, toPageArgs, toRow } from "./mappers";
+
+const include = { department: { select: { id: true, name: true, code: true } } };
+
+function toUserWithDepartment(u: any): UserWithDepartmentRow {
+  return { ...toRow<UserRow>(u, USER_COLUMNS), department: toDepartmentRef(u.department) };
+}
+
+function where(filters: UserFilters) {
+  return {
+    role: filters.role ?? (filters.roles ? { in: filters.roles } : undefined),
+    departmentId: filters.departmentId,
+    isActive: filters.isActive,
+  };
+}
+
+export function createUsersRepository(prisma: PrismaClient): UsersRepository {
+  return {
+    list: (filters = {}, page) =>
+      run(async () => {
+        const { after, ...window } = toPageArgs(page, USER_COLUMNS, "User");
+        const users = await prisma.user.findMany({ where: { AND: [where(filters), after] }, include, ...window });
+        return users.map(toUserWithDepartment);
+      }),
+
+    count: (filters = {}) => run(() => prisma.user.count({ where: where(filters) })),
+
+    findById: (id) =>
+      run(async () => {
+        const user = await prisma.user.findUnique({ where: { id }, include });
+        return user ? toUserWithDepartment(user) : null;
+      }),
+
+    findByEmail: (email) =>
+      run(async () => {
+        const user = await prisma.user.findUnique({ where: { email }, include });
+        return user ? toUserWithDepartment(user) : null;
+      }),
+
+    findByPhone: (phone) =>
+      run(async () => {
+        const user = await prisma.user.findUnique({ where: { phone }, include });
+        return user ? toUserWithDepartment(user) : null;
+      }),
+
+    findByIds: (ids) =>
+      run(async () => {
+        const users = await prisma.user.findMany({ where: { id: { in: ids } } });
+        return users.map((u) => toRow<UserRow>(u, USER_COLUMNS));
+      }),
+
+    create: (input) =>
+      run(async () => toUserWithDepartment(await prisma.user.create({ data: toData(input, USER_COLUMNS), include }))),
+
+    update: (id, patch) =>
+      run(async () =>
+        toUserWithDepartment(await prisma.user.update({ where: { id }, data: toData(patch, USER_COLUMNS), include }))
+      ),
+
+    incrementFailedLogins: (id) =>
+      run(async () => {
+        const user = await prisma.user.update({
+          where: { id },
+          data: { failedLoginAttempts: { increment: 1 } },
+          select: { failedLoginAttempts: true },
+        });
+        return user.failedLoginAttempts;
+      }),
+
+    delete: (id) =>
+      run(async () => {
+        await prisma.user.delete({ where: { id } });
+        return null;
+      }),
+  };
+}
@@ -0,0 +1,161 @@
+import type { PrismaClient } from "@prisma/client";
+import type {
+  ProjectRow,
+  ValidationRequestRow,
+  ValidationRequestWithRelationsRow,
+  ValidationRequestsRepository,
+} from "../types";
+import {
+  ConflictError,
+  PROJECT_COLUMNS,
+  VALIDATION_REQUEST_COLUMNS,
+  VALIDATION_STEP_COLUMNS,
+  run,
+  toData,
+  toDepartmentRef,
+  toRow,
+} from "./mappers";
+
+const userSelect = { select: { id: true, name: true, email: true, role: true } };
+
+const include = {
+  project: {
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      department: { select: { id: true, name: true, code: true } },
+    },
+  },
+  requester: userSelect,
+  approver: userSelect,
+};
+
+function toValidationRequestWithRelations(v: any): ValidationRequestWithRelationsRow {
+  return {
+    ...toRow<ValidationRequestRow>(v, VALIDATION_REQUEST_COLUMNS),
+    project: v.project
+      ? {
+          id: v.project.id,
+          name: v.project.name,
+          status: v.project.status,
+          department: toDepartmentRef(v.project.department),
+        }
+      : null,
+    requester: v.requester ?? null,
+    approver: v.approver ?? null,
+  };
+}
+
+export function createValidationRequestsRepository(prisma: PrismaClient): ValidationRequestsRepository {
+  return {
+    list: (filters = {}) =>
+      run(async () => {
+        const validations = await prisma.validationRequest.findMany({
+          where: {
+            status: filters.status,
+            type: filters.type,
+            projectId: filters.projectId,
+            requesterId: filters.requesterId,
+            previousRequestId: filters.previousRequestId,
+            OR: filters.threadId ? [{ id: filters.threadId }, { threadId: filters.threadId }] : undefined,
+            createdAt: filters.since || filters.until
+              ? {
+                  gte: filters.since ? new Date(filters.since) : undefined,
+                  lte: filters.until ? new Date(filters.until) : undefined,
+                }
+              : undefined,
+          },
+          include,
+          orderBy: { createdAt: "desc" },
+        });
+        return validations.map(toValidationRequestWithRelations);
+      }),
+
+    findById: (id) =>
+      run(async () => {
+        const validation = await prisma.validationRequest.findUnique({ where: { id }, include });
+        return validation ? toValidationRequestWithRelations(validation) : null;
+      }),
+
+    create: (input) =>
+      run(async () =>
+        toValidationRequestWithRelations(
+          await prisma.validationRequest.create({ data: toData(input, VALIDATION_REQUEST_COLUMNS), include })
+        )
+      ),
+
+    update: (id, patch) =>
+      run(async () =>
+        toValidationRequestWithRelations(
+          await prisma.validationRequest.update({
+            where: { id },
+            data: toData(patch, VALIDATION_REQUEST_COLUMNS),
+            include,
+          })
+        )
+      ),
+
+    updateIfStatus: (id, statuses, patch, expectedUpdatedAt) =>
+      run(async () => {
+        const { count } = await prisma.validationRequest.updateMany({
+          where: {
+            id,
+            status: { in: statuses },
+            updatedAt: expectedUpdatedAt ? new Date(expectedUpdatedAt) : undefined,
+          },
+          data: toData(patch, VALIDATION_REQUEST_COLUMNS),
+        });
+        if (count === 0) {
+          throw new ConflictError("Le statut de la demande de validation a change");
+        }
+        return toValidationRequestWithRelations(
+          await prisma.validationRequest.findUniqueOrThrow({ where: { id }, include })
+        );
+      }),
+
+    decide: (id, decision) =>
+      run(() =>
+        prisma.$transaction(async (tx) => {
+          // Claim the request: a concurrent decision or amend makes this a no-op
+          const claimed = await tx.validationRequest.updateMany({
+            where: {
+              id,
+              status: "PENDING",
+              currentStep: decision.expectedStep,
+              updatedAt: new Date(decision.expectedUpdatedAt),
+            },
+            data: toData(decision.patch, VALIDATION_REQUEST_COLUMNS),
+          });
+          if (claimed.count === 0) {
+            throw new ConflictError("La demande de validation a deja ete traitee");
+          }
+
+          await tx.validationStep.create({
+            data: toData(
+              { ...decision.step, validation_request_id: id, step: decision.expectedStep },
+              VALIDATION_STEP_COLUMNS
+            ),
+          });
+
+          let projectBefore: ProjectRow | null = null;
+          let projectAfter: ProjectRow | null = null;
+
+          if (decision.projectChanges) {
+            const validation = await tx.validationRequest.findUniqueOrThrow({ where: { id } });
+            const before = await tx.project.findUniqueOrThrow({ where: { id: validation.projectId } });
+            const after = await tx.project.update({
+              where: { id: validation.projectId },
+              data: toData(decision.projectChanges, PROJECT_COLUMNS),
+            });
+            projectBefore = toRow<ProjectRow>(before, PROJECT_COLUMNS);
+            projectAfter = toRow<ProjectRow>(after, PROJECT_COLUMNS);
+          }
+
+          const validation = await tx.validationRequest.findUniqueOrThrow({ where: { id }, include });
+
+          return { validation: toValidationRequestWithRelations(validation), projectBefore, projectAfter };
+        })
+      ),
+  };
+}
@@ -0,0 +1,35 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { ValidationStepRow, ValidationStepsRepository } from "../types";
+import { VALIDATION_STEP_COLUMNS, run, toData, toRow } from "./mappers";
+
+const userSelect = { select: { id: true, name: true, email: true, role: true } };
+
+async function listSteps(prisma: PrismaClient, where: Prisma.ValidationStepWhereInput) {
+  const steps = await prisma.validationStep.findMany({
+    where,
+    include: { approver: userSelect, onBehalfOf: userSelect },
+    orderBy: [{ step: "asc" }, { createdAt: "asc" }],
+  });
+  return steps.map((s) => ({
+    ...toRow<ValidationStepRow>(s, VALIDATION_STEP_COLUMNS),
+    approver: s.approver ?? null,
+    on_behalf_of: s.onBehalfOf ?? null,
+  }));
+}
+
+export function createValidationStepsRepository(prisma: PrismaClient): ValidationStepsRepository {
+  return {
+    listByRequest: (validationRequestId) => run(() => listSteps(prisma, { validationRequestId })),
+
+    listByRequests: (validationRequestIds) =>
+      run(() => listSteps(prisma, { validationRequestId: { in: validationRequestIds } })),
+
+    create: (input) =>
+      run(async () =>
+        toRow<ValidationStepRow>(
+          await prisma.validationStep.create({ data: toData(input, VALIDATION_STEP_COLUMNS) }),
+          VALIDATION_STEP_COLUMNS
+        )
+      ),
+  };
+}
@@ -0,0 +1,37 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AlertsRepository } from "../types";
+import { anyOf, eq, isNull } from "./filters";
+
+const ALERT_SELECT = `
+  *,
+  from_user:users!alerts_from_user_id_fkey(id, name, email),
+  to_department:departments(id, name, code)
+`;
+
+export function createAlertsRepository(supabase: SupabaseClient): AlertsRepository {
+  return {
+    async list(filters = {}) {
+      let query = supabase.from("alerts").select(ALERT_SELECT).order("created_at", { ascending: false });
+
+      if (filters.departmentScope) {
+        query = query.or(anyOf(eq("to_department_id", filters.departmentScope), isNull("to_department_id")));
+      }
+      if (filters.type) query = query.eq("type", filters.type);
+      if (filters.isRead !== undefined) query = query.eq("is_read", filters.isRead);
+
+      return await query;
+    },
+
+    async findById(id) {
+      return await supabase.from("alerts").select(ALERT_SELECT).eq("id", id).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("alerts").insert(input).select(ALERT_SELECT).single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("alerts").update(patch).eq("id", id).select(ALERT_SELECT).single();
+    },
+  };
+}
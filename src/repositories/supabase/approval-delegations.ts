@@ -0,0 +1,41 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ApprovalDelegationsRepository } from "../types";
+import { anyOf, eq } from "./filters";
+
+const DELEGATION_SELECT = `
+  *,
+  delegator:users!approval_delegations_delegator_id_fkey (id, name, email, role, department_id, is_active),
+  delegate:users!approval_delegations_delegate_id_fkey (id, name, email, role)
+`;
+
+export function createApprovalDelegationsRepository(supabase: SupabaseClient): ApprovalDelegationsRepository {
+  return {
+    async list(filters = {}) {
+      let query = supabase
+        .from("approval_delegations")
+        .select(DELEGATION_SELECT)
+        .order("created_at", { ascending: false });
+
+      if (filters.delegatorId) query = query.eq("delegator_id", filters.delegatorId);
+      if (filters.delegateId) query = query.eq("delegate_id", filters.delegateId);
+      if (filters.userId) query = query.or(anyOf(eq("delegator_id", filters.userId), eq("delegate_id", filters.userId)));
+      if (filters.activeAt) {
+        query = query.lte("starts_at", filters.activeAt).gt("ends_at", filters.activeAt).is("revoked_at", null);
+      }
+
+      return await query;
+    },
+
+    async findById(id) {
+      return await supabase.from("approval_delegations").select(DELEGATION_SELECT).eq("id", id).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("approval_delegations").insert(input).select(DELEGATION_SELECT).single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("approval_delegations").update(patch).eq("id", id).select(DELEGATION_SELECT).single();
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AuditLogFilters, AuditLogsRepository } from "../types";
+
+const AUDIT_LOG_SELECT = "*, actor:users(id, name, email)";
+
+function applyFilters(query: any, filters: AuditLogFilters) {
+  if (filters.actorId) query = query.eq("actor_id", filters.actorId);
+  if (filters.action) query = query.eq("action", filters.action);
+  if (filters.entityType) query = query.eq("entity_type", filters.entityType);
+  if (filters.entityId) query = query.eq("entity_id", filters.entityId);
+  if (filters.since) query = query.gte("created_at", filters.since);
+  if (filters.until) query = query.lte("created_at", filters.until);
+  return query;
+}
+
+export function createAuditLogsRepository(supabase: SupabaseClient): AuditLogsRepository {
+  return {
+    async list(filters = {}) {
+      let query = supabase
+        .from("audit_logs")
+        .select(AUDIT_LOG_SELECT)
+        .order("created_at", { ascending: false });
+      query = applyFilters(query, filters);
+      if (filters.limit) {
+        const offset = filters.offset ?? 0;
+        query = query.range(offset, offset + filters.limit - 1);
+      }
+      return await query;
+    },
+
+    async count(filters = {}) {
+      const query = supabase.from("audit_logs").select("id", { count: "exact", head: true });
+      const { count, error } = await applyFilters(query, filters);
+      return { data: count ?? 0, error };
+    },
+
+    async create(input) {
+      return await supabase.from("audit_logs").insert(input).select().single();
+    },
+
+    async createMany(inputs) {
+      if (inputs.length === 0) return { data: null, error: null };
+      const { error } = await supabase.from("audit_logs").insert(inputs);
+      return { data: null, error };
+    },
+  };
+}
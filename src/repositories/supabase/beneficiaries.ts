@@ -0,0 +1,127 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { BeneficiariesRepository, BeneficiaryFilters, BeneficiaryRow } from "../types";
+import { search } from "./filters";
+import { applyPage, chunks, selectAll } from "./pagination";
+
+function applyFilters(query: any, filters: BeneficiaryFilters) {
+  if (filters.regionId) query = query.eq("region_id", filters.regionId);
+  if (filters.sectorId) query = query.eq("sector_id", filters.sectorId);
+  if (filters.projectId) query = query.eq("project_id", filters.projectId);
+  if (filters.personId) query = query.eq("person_id", filters.personId);
+  if (filters.personIds) query = query.in("person_id", filters.personIds);
+  if (filters.gender) query = query.eq("gender", filters.gender);
+  if (filters.accompanimentStatus) query = query.eq("accompaniment_status", filters.accompanimentStatus);
+  if (filters.search) {
+    query = query.or(search(["first_name", "last_name", "phone"], filters.search));
+  }
+  return query;
+}
+
+export function createBeneficiariesRepository(supabase: SupabaseClient): BeneficiariesRepository {
+  // Regions, sectors and projects are fetched separately and attached
+  async function withRelations(beneficiaries: BeneficiaryRow[]) {
+    const regionIds = [...new Set(beneficiaries.map((b) => b.region_id))];
+    const sectorIds = [...new Set(beneficiaries.map((b) => b.sector_id))];
+    const projectIds = [...new Set(beneficiaries.map((b) => b.project_id))];
+
+    const [regionsRes, sectorsRes, projectsRes] = await Promise.all([
+      supabase.from("regions").select("id, name").in("id", regionIds),
+      supabase.from("sectors").select("id, name").in("id", sectorIds),
+      supabase.from("projects").select("id, name, department_id").in("id", projectIds),
+    ]);
+
+    const regionsMap = new Map((regionsRes.data || []).map((r: any) => [r.id, r]));
+    const sectorsMap = new Map((sectorsRes.data || []).map((s: any) => [s.id, s]));
+    const projectsMap = new Map((projectsRes.data || []).map((p: any) => [p.id, p]));
+
+    return beneficiaries.map((b) => ({
+      ...b,
+      region: regionsMap.get(b.region_id) ?? null,
+      sector: sectorsMap.get(b.sector_id) ?? null,
+      project: projectsMap.get(b.project_id) ?? null,
+    }));
+  }
+
+  async function findById(id: string) {
+    const { data, error } = await supabase.from("beneficiaries").select("*").eq("id", id).maybeSingle();
+    if (error || !data) return { data: null, error };
+    const [beneficiary] = await withRelations([data]);
+    return { data: beneficiary ?? null, error: null };
+  }
+
+  return {
+    async list(filters = {}, page) {
+      const select = (personIds = filters.personIds) =>
+        applyFilters(supabase.from("beneficiaries").select("*"), { ...filters, personIds });
+
+      if (page) {
+        const { data, error } = await applyPage(select(), page);
+        if (error) return { data: null, error };
+        return { data: await withRelations(data || []), error: null };
+      }
+
+      // Unpaged lists are complete, however many people they are filtered on
+      const beneficiaries: BeneficiaryRow[] = [];
+      for (const personIds of filters.personIds ? chunks(filters.personIds) : [undefined]) {
+        const { data, error } = await selectAll<BeneficiaryRow>(() => select(personIds));
+        if (error) return { data: null, error };
+        beneficiaries.push(...(data ?? []));
+      }
+      return { data: await withRelations(beneficiaries), error: null };
+    },
+
+    async count(filters = {}) {
+      const query = supabase.from("beneficiaries").select("id", { count: "exact", head: true });
+      const { count, error } = await applyFilters(query, filters);
+      return { data: count ?? 0, error };
+    },
+
+    async countByProject(projectIds) {
+      if (projectIds.length === 0) return { data: {}, error: null };
+
+      const { data, error } = await supabase
+        .from("beneficiaries")
+        .select("project_id")
+        .in("project_id", projectIds);
+
+      if (error) return { data: null, error };
+
+      const counts = (data || []).reduce((acc: Record<string, number>, b) => {
+        acc[b.project_id] = (acc[b.project_id] || 0) + 1;
+        return acc;
+      }, {});
+      return { data: counts, error: null };
+    },
+
+    findById,
+
+    // With a person, runs in one Postgres transaction, see the create_enrollments migration
+    async create(input, person) {
+      const { data, error } = person
+        ? await supabase.rpc("create_enrollments", { p_people: [person], p_enrollments: [input] }).single<BeneficiaryRow>()
+        : await supabase.from("beneficiaries").insert(input).select().single();
+      if (error || !data) return { data: null, error };
+      const [beneficiary] = await withRelations([data]);
+      return { data: beneficiary ?? null, error: null };
+    },
+
+    async createMany(inputs, people = []) {
+      if (inputs.length === 0) return { data: 0, error: null };
+
+      const { data, error } = await supabase.rpc("create_enrollments", { p_people: people, p_enrollments: inputs });
+      return { data: error ? null : (data ?? []).length, error };
+    },
+
+    async update(id, patch) {
+      const { data, error } = await supabase.from("beneficiaries").update(patch).eq("id", id).select().single();
+      if (error || !data) return { data: null, error };
+      const [beneficiary] = await withRelations([data]);
+      return { data: beneficiary ?? null, error: null };
+    },
+
+    async deleteByProject(projectId) {
+      const { error } = await supabase.from("beneficiaries").delete().eq("project_id", projectId);
+      return { data: null, error };
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CommentsRepository } from "../types";
+
+const COMMENT_SELECT = "*, author:users(id, name, email, role)";
+
+export function createCommentsRepository(supabase: SupabaseClient): CommentsRepository {
+  return {
+    async listByEntity(entityType, entityId) {
+      return await supabase
+        .from("comments")
+        .select(COMMENT_SELECT)
+        .eq("entity_type", entityType)
+        .eq("entity_id", entityId)
+        .order("created_at", { ascending: true });
+    },
+
+    async findById(id) {
+      return await supabase.from("comments").select(COMMENT_SELECT).eq("id", id).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("comments").insert(input).select(COMMENT_SELECT).single();
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("comments").delete().eq("id", id);
+      return { data: null, error };
+    },
+  };
+}
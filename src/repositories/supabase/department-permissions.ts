@@ -0,0 +1,31 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DepartmentPermissionsRepository } from "../types";
+
+export function createDepartmentPermissionsRepository(supabase: SupabaseClient): DepartmentPermissionsRepository {
+  return {
+    async list() {
+      return await supabase.from("department_permissions").select("*");
+    },
+
+    async upsert(input) {
+      return await supabase
+        .from("department_permissions")
+        .upsert(
+          { ...input, updated_at: new Date().toISOString() },
+          { onConflict: "department_id,role,permission" }
+        )
+        .select()
+        .single();
+    },
+
+    async delete(departmentId, role, permission) {
+      const { error } = await supabase
+        .from("department_permissions")
+        .delete()
+        .eq("department_id", departmentId)
+        .eq("role", role)
+        .eq("permission", permission);
+      return { data: null, error };
+    },
+  };
+}
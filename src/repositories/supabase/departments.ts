@@ -0,0 +1,31 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DepartmentsRepository } from "../types";
+
+export function createDepartmentsRepository(supabase: SupabaseClient): DepartmentsRepository {
+  return {
+    async list() {
+      return await supabase.from("departments").select("*").order("name", { ascending: true });
+    },
+
+    async findById(id) {
+      return await supabase.from("departments").select("*").eq("id", id).maybeSingle();
+    },
+
+    async findByCode(code) {
+      return await supabase.from("departments").select("*").eq("code", code).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("departments").insert(input).select().single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("departments").update(patch).eq("id", id).select().single();
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("departments").delete().eq("id", id);
+      return { data: null, error };
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DisbursementRow, DisbursementsRepository } from "../types";
+
+const DISBURSEMENT_SELECT = "*, project:projects!inner(id, name, department_id)";
+
+export function createDisbursementsRepository(supabase: SupabaseClient): DisbursementsRepository {
+  // Creators are fetched separately and attached
+  async function withCreator<T extends DisbursementRow>(disbursements: T[]) {
+    const userIds = [...new Set(disbursements.map((d) => d.created_by_id))];
+    const { data: users } = await supabase.from("users").select("id, name, email").in("id", userIds);
+
+    const usersMap = new Map((users || []).map((u: any) => [u.id, u]));
+
+    return disbursements.map((d) => ({ ...d, created_by: usersMap.get(d.created_by_id) ?? null }));
+  }
+
+  return {
+    async listByProject(projectId) {
+      const { data, error } = await supabase
+        .from("disbursements")
+        .select(DISBURSEMENT_SELECT)
+        .eq("project_id", projectId)
+        .order("date", { ascending: false });
+
+      if (error) return { data: null, error };
+      return { data: await withCreator(data || []), error: null };
+    },
+
+    async findById(id) {
+      const { data, error } = await supabase.from("disbursements").select(DISBURSEMENT_SELECT).eq("id", id).maybeSingle();
+      if (error || !data) return { data: null, error };
+      const [disbursement] = await withCreator([data]);
+      return { data: disbursement ?? null, error: null };
+    },
+
+    async create(input) {
+      const { data, error } = await supabase.from("disbursements").insert(input).select(DISBURSEMENT_SELECT).single();
+      if (error || !data) return { data: null, error };
+      const [disbursement] = await withCreator([data]);
+      return { data: disbursement ?? null, error: null };
+    },
+
+    async update(id, patch) {
+      const { data, error } = await supabase
+        .from("disbursements")
+        .update(patch)
+        .eq("id", id)
+        .select(DISBURSEMENT_SELECT)
+        .single();
+
+      if (error || !data) return { data: null, error };
+      const [disbursement] = await withCreator([data]);
+      return { data: disbursement ?? null, error: null };
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("disbursements").delete().eq("id", id);
+      return { data: null, error };
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DocumentFilters, DocumentsRepository } from "../types";
+import { anyOf, eq, search } from "./filters";
+import { applyPage } from "./pagination";
+
+const DOCUMENT_SELECT = `
+  *,
+  department:departments(id, name, code),
+  uploaded_by:users!documents_uploaded_by_id_fkey(id, name, email),
+  project:projects(id, name)
+`;
+
+function applyFilters(query: any, filters: DocumentFilters) {
+  if (filters.visibleToDepartmentId) {
+    query = query.or(anyOf(eq("department_id", filters.visibleToDepartmentId), eq("is_public", true)));
+  }
+  if (filters.departmentId) query = query.eq("department_id", filters.departmentId);
+  if (filters.projectId) query = query.eq("project_id", filters.projectId);
+  if (filters.type) query = query.eq("type", filters.type);
+  if (filters.isPublic !== undefined) query = query.eq("is_public", filters.isPublic);
+  if (filters.search) {
+    query = query.or(search(["title", "description"], filters.search));
+  }
+  if (filters.validationStatus) query = query.eq("validation_status", filters.validationStatus);
+  if (filters.validationRequestedTo) {
+    query = query.eq("validation_requested_to", filters.validationRequestedTo);
+  }
+  return query;
+}
+
+export function createDocumentsRepository(supabase: SupabaseClient): DocumentsRepository {
+  return {
+    async list(filters = {}, page) {
+      const query = supabase.from("documents").select(DOCUMENT_SELECT);
+      return await applyPage(applyFilters(query, filters), page);
+    },
+
+    async count(filters = {}) {
+      const query = supabase.from("documents").select("id", { count: "exact", head: true });
+      const { count, error } = await applyFilters(query, filters);
+      return { data: count ?? 0, error };
+    },
+
+    async findById(id) {
+      return await supabase.from("documents").select(DOCUMENT_SELECT).eq("id", id).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("documents").insert(input).select(DOCUMENT_SELECT).single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("documents").update(patch).eq("id", id).select(DOCUMENT_SELECT).single();
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("documents").delete().eq("id", id);
+      return { data: null, error };
+    },
+  };
+}
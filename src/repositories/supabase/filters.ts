@@ -0,0 +1,73 @@
+/**
+ * Conditions for PostgREST logical filters (`.or()`, `and(...)`) and value
+ * lists of `in` filters, which are plain strings where commas, dots and
+ * parentheses are syntax. Values are always quoted so user input can neither
+ * break nor extend the filter; search terms also have their LIKE wildcards
+ * escaped so they match literally.
+ * Column names come from code, never from requests.
+ */
+type Scalar = string | number | boolean;
+
+const COLUMN = /^[a-z_][a-z0-9_]*$/;
+
+function column(name: string): string {
+  if (!COLUMN.test(name)) {
+    throw new Error(`Invalid filter column: ${name}`);
+  }
+  return name;
+}
+
+// Double-quoted PostgREST value, backslashes and quotes escaped
+export function quote(value: Scalar): string {
+  return `"${String(value).replace(/[\\"]/g, (c) => `\\${c}`)}"`;
+}
+
+// PostgREST reads `*` as `%` and has no escape for it: it is turned into `_`,
+// so it matches any one character rather than any run of them
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`).replace(/\*/g, "_");
+}
+
+export function eq(name: string, value: Scalar): string {
+  return `${column(name)}.eq.${quote(value)}`;
+}
+
+export function gt(name: string, value: Scalar): string {
+  return `${column(name)}.gt.${quote(value)}`;
+}
+
+export function lt(name: string, value: Scalar): string {
+  return `${column(name)}.lt.${quote(value)}`;
+}
+
+// Value of an `in` filter, e.g. `.not("id", "in", list(ids))`
+export function list(values: Scalar[]): string {
+  return `(${values.map(quote).join(",")})`;
+}
+
+export function isNull(name: string): string {
+  return `${column(name)}.is.null`;
+}
+
+export function notNull(name: string): string {
+  return `${column(name)}.not.is.null`;
+}
+
+// Case-insensitive substring match
+export function contains(name: string, search: string): string {
+  return `${column(name)}.ilike.${quote(`%${escapeLike(search)}%`)}`;
+}
+
+export function and(...conditions: string[]): string {
+  return `and(${conditions.join(",")})`;
+}
+
+// Argument of `.or()`: any of the conditions holds
+export function anyOf(...conditions: string[]): string {
+  return conditions.join(",");
+}
+
+// Argument of `.or()`: the search term appears in any of the columns
+export function search(columns: string[], term: string): string {
+  return anyOf(...columns.map((name) => contains(name, term)));
+}
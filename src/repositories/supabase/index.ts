@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Repositories } from "../types";
+import { createUsersRepository } from "./users";
+import { createSessionsRepository } from "./sessions";
+import { createDepartmentsRepository } from "./departments";
+import { createRegionsRepository } from "./regions";
+import { createSectorsRepository } from "./sectors";
+import { createProjectsRepository } from "./projects";
+import { createPeopleRepository } from "./people";
+import { createBeneficiariesRepository } from "./beneficiaries";
+import { createNewsRepository } from "./news";
+import { createAlertsRepository } from "./alerts";
+import { createMessagesRepository } from "./messages";
+import { createDocumentsRepository } from "./documents";
+import { createMilestonesRepository } from "./milestones";
+import { createDisbursementsRepository } from "./disbursements";
+import { createValidationRequestsRepository } from "./validation-requests";
+import { createNotificationsRepository } from "./notifications";
+import { createLoginAttemptsRepository } from "./login-attempts";
+import { createOtpCodesRepository } from "./otp-codes";
+import { createPasswordHistoryRepository } from "./password-history";
+import { createDepartmentPermissionsRepository } from "./department-permissions";
+import { createProjectAssignmentsRepository } from "./project-assignments";
+import { createAuditLogsRepository } from "./audit-logs";
+import { createProjectRevisionsRepository } from "./project-revisions";
+import { createValidationStepsRepository } from "./validation-steps";
+import { createApprovalDelegationsRepository } from "./approval-delegations";
+import { createCommentsRepository } from "./comments";
+import { createSearchRepository } from "./search";
+import { createPersonDuplicateDismissalsRepository } from "./person-duplicate-dismissals";
+
+export function createSupabaseRepositories(supabase: SupabaseClient): Repositories {
+  return {
+    users: createUsersRepository(supabase),
+    sessions: createSessionsRepository(supabase),
+    departments: createDepartmentsRepository(supabase),
+    regions: createRegionsRepository(supabase),
+    sectors: createSectorsRepository(supabase),
+    projects: createProjectsRepository(supabase),
+    people: createPeopleRepository(supabase),
+    beneficiaries: createBeneficiariesRepository(supabase),
+    news: createNewsRepository(supabase),
+    alerts: createAlertsRepository(supabase),
+    messages: createMessagesRepository(supabase),
+    documents: createDocumentsRepository(supabase),
+    milestones: createMilestonesRepository(supabase),
+    disbursements: createDisbursementsRepository(supabase),
+    validationRequests: createValidationRequestsRepository(supabase),
+    notifications: createNotificationsRepository(supabase),
+    loginAttempts: createLoginAttemptsRepository(supabase),
+    otpCodes: createOtpCodesRepository(supabase),
+    passwordHistory: createPasswordHistoryRepository(supabase),
+    departmentPermissions: createDepartmentPermissionsRepository(supabase),
+    projectAssignments: createProjectAssignmentsRepository(supabase),
+    auditLogs: createAuditLogsRepository(supabase),
+    projectRevisions: createProjectRevisionsRepository(supabase),
+    validationSteps: createValidationStepsRepository(supabase),
+    approvalDelegations: createApprovalDelegationsRepository(supabase),
+    comments: createCommentsRepository(supabase),
+    search: createSearchRepository(supabase),
+    personDuplicateDismissals: createPersonDuplicateDismissalsRepository(supabase),
+  };
+}
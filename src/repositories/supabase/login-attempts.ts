@@ -0,0 +1,35 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LoginAttemptFilters, LoginAttemptsRepository } from "../types";
+
+const LOGIN_ATTEMPT_SELECT = "*, user:users(id, name, email)";
+
+function applyFilters(query: any, filters: LoginAttemptFilters) {
+  if (filters.userId) query = query.eq("user_id", filters.userId);
+  if (filters.ipAddress) query = query.eq("ip_address", filters.ipAddress);
+  if (filters.since) query = query.gte("created_at", filters.since);
+  return query;
+}
+
+export function createLoginAttemptsRepository(supabase: SupabaseClient): LoginAttemptsRepository {
+  return {
+    async list(filters = {}) {
+      let query = supabase
+        .from("login_attempts")
+        .select(LOGIN_ATTEMPT_SELECT)
+        .order("created_at", { ascending: false });
+      query = applyFilters(query, filters);
+      if (filters.limit) query = query.limit(filters.limit);
+      return await query;
+    },
+
+    async count(filters = {}) {
+      const query = supabase.from("login_attempts").select("id", { count: "exact", head: true });
+      const { count, error } = await applyFilters(query, filters);
+      return { data: count ?? 0, error };
+    },
+
+    async create(input) {
+      return await supabase.from("login_attempts").insert(input).select().single();
+    },
+  };
+}
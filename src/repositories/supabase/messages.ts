@@ -0,0 +1,89 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MessageFilters, MessagesRepository } from "../types";
+import { anyOf, eq } from "./filters";
+import { applyPage } from "./pagination";
+
+const MESSAGE_SELECT = `
+  *,
+  from_user:users!messages_from_user_id_fkey(id, name, email),
+  to_user:users!messages_to_user_id_fkey(id, name, email),
+  to_department:departments(id, name, code)
+`;
+
+function applyFilters(query: any, filters: MessageFilters) {
+  if (filters.recipientUserId) {
+    if (filters.recipientDepartmentId) {
+      query = query.or(
+        anyOf(eq("to_user_id", filters.recipientUserId), eq("to_department_id", filters.recipientDepartmentId))
+      );
+    } else {
+      query = query.eq("to_user_id", filters.recipientUserId);
+    }
+  }
+  if (filters.fromUserId) query = query.eq("from_user_id", filters.fromUserId);
+  if (filters.isRead !== undefined) query = query.eq("is_read", filters.isRead);
+  if (filters.parentId === null) {
+    query = query.is("parent_id", null);
+  } else if (filters.parentId) {
+    query = query.eq("parent_id", filters.parentId);
+  }
+  return query;
+}
+
+export function createMessagesRepository(supabase: SupabaseClient): MessagesRepository {
+  return {
+    async list(filters = {}, page) {
+      const query = supabase.from("messages").select(MESSAGE_SELECT);
+      return await applyPage(applyFilters(query, filters), page);
+    },
+
+    async count(filters = {}) {
+      const query = supabase.from("messages").select("id", { count: "exact", head: true });
+      const { count, error } = await applyFilters(query, filters);
+      return { data: count ?? 0, error };
+    },
+
+    async listReplies(parentId) {
+      return await supabase
+        .from("messages")
+        .select(MESSAGE_SELECT)
+        .eq("parent_id", parentId)
+        .order("created_at", { ascending: true });
+    },
+
+    async countReplies(parentIds) {
+      if (parentIds.length === 0) return { data: {}, error: null };
+
+      const { data, error } = await supabase.from("messages").select("parent_id").in("parent_id", parentIds);
+      if (error) return { data: null, error };
+
+      const counts: Record<string, number> = {};
+      (data || []).forEach((r) => {
+        counts[r.parent_id] = (counts[r.parent_id] || 0) + 1;
+      });
+      return { data: counts, error: null };
+    },
+
+    async findById(id) {
+      return await supabase.from("messages").select(MESSAGE_SELECT).eq("id", id).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("messages").insert(input).select(MESSAGE_SELECT).single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("messages").update(patch).eq("id", id).select(MESSAGE_SELECT).single();
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("messages").delete().eq("id", id);
+      return { data: null, error };
+    },
+
+    async deleteReplies(parentId) {
+      const { error } = await supabase.from("messages").delete().eq("parent_id", parentId);
+      return { data: null, error };
+    },
+  };
+}
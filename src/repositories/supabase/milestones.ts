@@ -0,0 +1,35 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MilestonesRepository } from "../types";
+
+export function createMilestonesRepository(supabase: SupabaseClient): MilestonesRepository {
+  return {
+    async listByProject(projectId) {
+      return await supabase
+        .from("milestones")
+        .select("*")
+        .eq("project_id", projectId)
+        .order("order", { ascending: true });
+    },
+
+    async findById(id) {
+      return await supabase
+        .from("milestones")
+        .select("*, project:projects!inner(id, name, department_id)")
+        .eq("id", id)
+        .maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("milestones").insert(input).select().single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("milestones").update(patch).eq("id", id).select().single();
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("milestones").delete().eq("id", id);
+      return { data: null, error };
+    },
+  };
+}
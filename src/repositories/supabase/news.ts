@@ -0,0 +1,59 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NewsFilters, NewsRepository, NewsRow } from "../types";
+
+function applyFilters(query: any, filters: NewsFilters) {
+  if (filters.departmentId) query = query.eq("department_id", filters.departmentId);
+  if (filters.type) query = query.eq("type", filters.type);
+  return query;
+}
+
+export function createNewsRepository(supabase: SupabaseClient): NewsRepository {
+  // Departments are fetched separately and attached
+  async function withDepartment(news: NewsRow[]) {
+    const departmentIds = [...new Set(news.map((n) => n.department_id))];
+    const { data: departments } = await supabase
+      .from("departments")
+      .select("id, name, code")
+      .in("id", departmentIds);
+
+    const departmentsMap = new Map((departments || []).map((d: any) => [d.id, d]));
+
+    return news.map((n) => ({ ...n, department: departmentsMap.get(n.department_id) ?? null }));
+  }
+
+  return {
+    async list(filters = {}) {
+      let query = applyFilters(supabase.from("news").select("*"), filters).order("published_at", { ascending: false });
+      if (filters.limit) query = query.limit(filters.limit);
+
+      const { data, error } = await query;
+      if (error) return { data: null, error };
+      return { data: await withDepartment(data || []), error: null };
+    },
+
+    async count(filters = {}) {
+      const query = supabase.from("news").select("id", { count: "exact", head: true });
+      const { count, error } = await applyFilters(query, filters);
+      return { data: count ?? 0, error };
+    },
+
+    async findById(id) {
+      const { data, error } = await supabase.from("news").select("*").eq("id", id).maybeSingle();
+      if (error || !data) return { data: null, error };
+      const [newsItem] = await withDepartment([data]);
+      return { data: newsItem ?? null, error: null };
+    },
+
+    async create(input) {
+      const { data, error } = await supabase.from("news").insert(input).select().single();
+      if (error || !data) return { data: null, error };
+      const [newsItem] = await withDepartment([data]);
+      return { data: newsItem ?? null, error: null };
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("news").delete().eq("id", id);
+      return { data: null, error };
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NotificationsRepository } from "../types";
+import { applyPage } from "./pagination";
+
+export function createNotificationsRepository(supabase: SupabaseClient): NotificationsRepository {
+  return {
+    async listByUser(userId, page) {
+      const query = supabase.from("notifications").select("*").eq("user_id", userId);
+      return await applyPage(query, page);
+    },
+
+    async countByUser(userId) {
+      const { count, error } = await supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId);
+      return { data: count ?? 0, error };
+    },
+
+    async countUnread(userId) {
+      const { count, error } = await supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .eq("is_read", false);
+      return { data: count ?? 0, error };
+    },
+
+    async findById(id) {
+      return await supabase.from("notifications").select("*").eq("id", id).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("notifications").insert(input).select().single();
+    },
+
+    async createMany(inputs) {
+      if (inputs.length === 0) return { data: null, error: null };
+      const { error } = await supabase.from("notifications").insert(inputs);
+      return { data: null, error };
+    },
+
+    async update(id, patch) {
+      return await supabase.from("notifications").update(patch).eq("id", id).select().single();
+    },
+
+    async markAllRead(userId) {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ is_read: true })
+        .eq("user_id", userId)
+        .eq("is_read", false);
+      return { data: null, error };
+    },
+  };
+}
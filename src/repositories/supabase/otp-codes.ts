@@ -0,0 +1,56 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { OtpCodesRepository } from "../types";
+
+export function createOtpCodesRepository(supabase: SupabaseClient): OtpCodesRepository {
+  return {
+    async findLatest(userId, purpose) {
+      return await supabase
+        .from("otp_codes")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("purpose", purpose)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    },
+
+    async countSince(userId, since) {
+      const { count, error } = await supabase
+        .from("otp_codes")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .gte("created_at", since);
+      return { data: count ?? 0, error };
+    },
+
+    async create(input) {
+      return await supabase.from("otp_codes").insert(input).select().single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("otp_codes").update(patch).eq("id", id).select().single();
+    },
+
+    // Conditional updates: Postgres re-checks the filters on the locked row
+    async countAttempt(id, attempts) {
+      return await supabase
+        .from("otp_codes")
+        .update({ attempts: attempts + 1 })
+        .eq("id", id)
+        .eq("attempts", attempts)
+        .is("consumed_at", null)
+        .select()
+        .maybeSingle();
+    },
+
+    async consume(id) {
+      return await supabase
+        .from("otp_codes")
+        .update({ consumed_at: new Date().toISOString() })
+        .eq("id", id)
+        .is("consumed_at", null)
+        .select()
+        .maybeSingle();
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import type { PageOptions } from "../types";
+import { and, anyOf, eq, gt, isNull, lt, notNull } from "./filters";
+
+// Rows past the cursor in the sort order, the id breaking ties. Nulls rank
+// below every value, as in SQLite.
+function pastCursor(column: string, ascending: boolean, { value, id }: NonNullable<PageOptions["after"]>): string {
+  const past = ascending ? gt : lt;
+
+  if (value === null) {
+    const nulls = and(isNull(column), past("id", id));
+    return ascending ? anyOf(nulls, notNull(column)) : nulls;
+  }
+
+  const values = anyOf(past(column, value), and(eq(column, value), past("id", id)));
+  return ascending ? values : anyOf(values, isNull(column));
+}
+
+// Orders and windows a query on a page: rows past the cursor, or `offset` rows in
+export function applyPage(query: any, page: PageOptions = {}) {
+  const column = page.sortBy ?? "created_at";
+  const ascending = page.sortDirection === "asc";
+
+  if (page.after) {
+    query = query.or(pastCursor(column, ascending, page.after));
+  }
+
+  query = query.order(column, { ascending, nullsFirst: ascending }).order("id", { ascending });
+
+  if (page.limit) {
+    const offset = page.after ? 0 : page.offset ?? 0;
+    query = query.range(offset, offset + page.limit - 1);
+  }
+
+  return query;
+}
+
+// Rows Supabase returns at most per request, by default
+const MAX_ROWS = 1000;
+
+// Every row of a query, read in windows of MAX_ROWS along the id so none is
+// cut off by the cap. `select` builds a fresh query for each window.
+export async function selectAll<T extends { id: string }>(select: () => any): Promise<{ data: T[] | null; error: any }> {
+  const rows: T[] = [];
+  let last: string | null = null;
+
+  for (;;) {
+    let query = select();
+    if (last !== null) query = query.gt("id", last);
+    const { data, error } = await query.order("id").limit(MAX_ROWS);
+    if (error) return { data: null, error };
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < MAX_ROWS) return { data: rows, error: null };
+    last = data[data.length - 1].id;
+  }
+}
+
+// Values for an `in` filter, split so each request's URL stays short
+export function chunks<T>(values: T[], size = 100): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    result.push(values.slice(i, i + size));
+  }
+  return result;
+}
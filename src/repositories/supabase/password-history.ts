@@ -0,0 +1,19 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PasswordHistoryRepository } from "../types";
+
+export function createPasswordHistoryRepository(supabase: SupabaseClient): PasswordHistoryRepository {
+  return {
+    async listRecent(userId, limit) {
+      return await supabase
+        .from("password_history")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+    },
+
+    async create(input) {
+      return await supabase.from("password_history").insert(input).select().single();
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PeopleRepository, PersonFilters, PersonRow } from "../types";
+import { search } from "./filters";
+import { applyPage, chunks, selectAll } from "./pagination";
+
+function applyFilters(query: any, filters: PersonFilters) {
+  if (filters.regionId) query = query.eq("region_id", filters.regionId);
+  if (filters.gender) query = query.eq("gender", filters.gender);
+  if (filters.search) {
+    query = query.or(search(["first_name", "last_name", "phone"], filters.search));
+  }
+  return query;
+}
+
+export function createPeopleRepository(supabase: SupabaseClient): PeopleRepository {
+  // Regions are fetched separately and attached
+  async function withRegions(people: PersonRow[]) {
+    const regionIds = [...new Set(people.map((p) => p.region_id))];
+    const { data: regions } = await supabase.from("regions").select("id, name").in("id", regionIds);
+    const regionsMap = new Map((regions || []).map((r: any) => [r.id, r]));
+
+    return people.map((p) => ({ ...p, region: regionsMap.get(p.region_id) ?? null }));
+  }
+
+  async function findById(id: string) {
+    const { data, error } = await supabase.from("people").select("*").eq("id", id).maybeSingle();
+    if (error || !data) return { data: null, error };
+    const [person] = await withRegions([data]);
+    return { data: person ?? null, error: null };
+  }
+
+  return {
+    async list(filters = {}, page) {
+      const { data, error } = page
+        ? await applyPage(applyFilters(supabase.from("people").select("*"), filters), page)
+        : await selectAll<PersonRow>(() => applyFilters(supabase.from("people").select("*"), filters));
+      if (error) return { data: null, error };
+      return { data: await withRegions(data || []), error: null };
+    },
+
+    async count(filters = {}) {
+      const query = supabase.from("people").select("id", { count: "exact", head: true });
+      const { count, error } = await applyFilters(query, filters);
+      return { data: count ?? 0, error };
+    },
+
+    async listByIdentityKeys({ nameKeys, phoneKeys }) {
+      const lookups = [
+        ...chunks(nameKeys).map((keys) => () => supabase.from("people").select("*").in("name_key", keys)),
+        ...chunks(phoneKeys).map((keys) => () => supabase.from("people").select("*").in("phone_key", keys)),
+      ];
+
+      const found = new Map<string, PersonRow>();
+      for (const lookup of lookups) {
+        const { data, error } = await selectAll<PersonRow>(lookup);
+        if (error) return { data: null, error };
+        for (const person of data ?? []) found.set(person.id, person);
+      }
+      return { data: await withRegions([...found.values()]), error: null };
+    },
+
+    // Grouped in Postgres, see the people_identity_keys migration
+    async listSharingIdentityKeys() {
+      const { data, error } = await selectAll<PersonRow>(() => supabase.rpc("people_sharing_identity_keys").select("*"));
+      if (error) return { data: null, error };
+      return { data: await withRegions(data || []), error: null };
+    },
+
+    findById,
+
+    async update(id, patch) {
+      const { data, error } = await supabase.from("people").update(patch).eq("id", id).select().single();
+      if (error || !data) return { data: null, error };
+      const [person] = await withRegions([data]);
+      return { data: person ?? null, error: null };
+    },
+
+    // Runs in one Postgres transaction, see the merge_people and people_identity_keys migrations
+    async merge({ survivorId, duplicateId, patch }) {
+      const { error } = await supabase.rpc("merge_people", {
+        p_survivor_id: survivorId,
+        p_duplicate_id: duplicateId,
+        p_patch: patch,
+      });
+      if (error) return { data: null, error };
+      return await findById(survivorId);
+    },
+  };
+}
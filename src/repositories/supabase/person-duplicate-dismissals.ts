@@ -0,0 +1,16 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PersonDuplicateDismissalsRepository } from "../types";
+
+export function createPersonDuplicateDismissalsRepository(
+  supabase: SupabaseClient
+): PersonDuplicateDismissalsRepository {
+  return {
+    async list() {
+      return await supabase.from("person_duplicate_dismissals").select("*");
+    },
+
+    async create(input) {
+      return await supabase.from("person_duplicate_dismissals").insert(input).select().single();
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ProjectAssignmentsRepository } from "../types";
+import { list } from "./filters";
+
+export function createProjectAssignmentsRepository(supabase: SupabaseClient): ProjectAssignmentsRepository {
+  return {
+    async listByUser(userId) {
+      return await supabase
+        .from("project_assignments")
+        .select("*, project:projects(id, name, department_id)")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+    },
+
+    async exists(userId, projectId) {
+      const { count, error } = await supabase
+        .from("project_assignments")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .eq("project_id", projectId);
+      return { data: (count ?? 0) > 0, error };
+    },
+
+    async replaceForUser(userId, projectIds, assignedById) {
+      let removal = supabase.from("project_assignments").delete().eq("user_id", userId);
+      if (projectIds.length > 0) {
+        removal = removal.not("project_id", "in", list(projectIds));
+      }
+      const { error: deleteError } = await removal;
+      if (deleteError || projectIds.length === 0) return { data: null, error: deleteError };
+
+      const { error } = await supabase.from("project_assignments").upsert(
+        projectIds.map((projectId) => ({ project_id: projectId, user_id: userId, assigned_by_id: assignedById })),
+        { onConflict: "project_id,user_id", ignoreDuplicates: true }
+      );
+      return { data: null, error };
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ProjectRevisionsRepository } from "../types";
+
+export function createProjectRevisionsRepository(supabase: SupabaseClient): ProjectRevisionsRepository {
+  return {
+    async listByProject(projectId) {
+      return await supabase
+        .from("project_revisions")
+        .select("*, changed_by:users(id, name, email)")
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: true });
+    },
+
+    async create(input) {
+      return await supabase.from("project_revisions").insert(input).select().single();
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ProjectFilters, ProjectsRepository } from "../types";
+import { search } from "./filters";
+import { applyPage } from "./pagination";
+
+const PROJECT_SELECT = `
+  *,
+  department:departments(id, name, code),
+  region:regions(id, name, code),
+  sector:sectors(id, name)
+`;
+
+function applyFilters(query: any, filters: ProjectFilters) {
+  if (filters.departmentId) query = query.eq("department_id", filters.departmentId);
+  if (filters.regionId) query = query.eq("region_id", filters.regionId);
+  if (filters.sectorId) query = query.eq("sector_id", filters.sectorId);
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.search) {
+    query = query.or(search(["name", "description", "responsible_name"], filters.search));
+  }
+  return query;
+}
+
+export function createProjectsRepository(supabase: SupabaseClient): ProjectsRepository {
+  return {
+    async list(filters = {}, page) {
+      const query = supabase.from("projects").select(PROJECT_SELECT);
+      return await applyPage(applyFilters(query, filters), page);
+    },
+
+    async count(filters = {}) {
+      const query = supabase.from("projects").select("id", { count: "exact", head: true });
+      const { count, error } = await applyFilters(query, filters);
+      return { data: count ?? 0, error };
+    },
+
+    async findById(id) {
+      return await supabase.from("projects").select(PROJECT_SELECT).eq("id", id).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("projects").insert(input).select(PROJECT_SELECT).single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("projects").update(patch).eq("id", id).select(PROJECT_SELECT).single();
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("projects").delete().eq("id", id);
+      return { data: null, error };
+    },
+  };
+}
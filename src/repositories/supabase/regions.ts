@@ -0,0 +1,26 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RegionsRepository } from "../types";
+
+export function createRegionsRepository(supabase: SupabaseClient): RegionsRepository {
+  return {
+    async list() {
+      return await supabase.from("regions").select("*").order("name", { ascending: true });
+    },
+
+    async findById(id) {
+      return await supabase.from("regions").select("*").eq("id", id).maybeSingle();
+    },
+
+    async findByCode(code) {
+      return await supabase.from("regions").select("*").eq("code", code).maybeSingle();
+    },
+
+    async findByName(name) {
+      return await supabase.from("regions").select("*").eq("name", name).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("regions").insert(input).select().single();
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SearchRepository } from "../types";
+
+export function createSearchRepository(supabase: SupabaseClient): SearchRepository {
+  return {
+    // Matched in Postgres on trigram indexes, see the search_index migration
+    async search(terms, scope, perType) {
+      return await supabase.rpc("search_entities", {
+        p_terms: terms,
+        p_types: scope.types,
+        p_user_id: scope.userId,
+        p_department_id: scope.departmentId,
+        p_read_all_documents: scope.readAllDocuments,
+        p_read_all_messages: scope.readAllMessages,
+        p_per_type: perType,
+      });
+    },
+  };
+}
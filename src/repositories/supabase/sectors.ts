@@ -0,0 +1,22 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SectorsRepository } from "../types";
+
+export function createSectorsRepository(supabase: SupabaseClient): SectorsRepository {
+  return {
+    async list() {
+      return await supabase.from("sectors").select("*").order("name", { ascending: true });
+    },
+
+    async findById(id) {
+      return await supabase.from("sectors").select("*").eq("id", id).maybeSingle();
+    },
+
+    async findByName(name) {
+      return await supabase.from("sectors").select("*").eq("name", name).maybeSingle();
+    },
+
+    async create(input) {
+      return await supabase.from("sectors").insert(input).select().single();
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SessionsRepository } from "../types";
+import { anyOf, gt, isNull, lt } from "./filters";
+
+export function createSessionsRepository(supabase: SupabaseClient): SessionsRepository {
+  return {
+    async findById(id) {
+      return await supabase.from("sessions").select("*").eq("id", id).maybeSingle();
+    },
+
+    async findByToken(token) {
+      return await supabase
+        .from("sessions")
+        .select("*, user:users(*, department:departments(id, name, code))")
+        .eq("token", token)
+        .maybeSingle();
+    },
+
+    async findByRefreshToken(refreshToken) {
+      return await supabase.from("sessions").select("*").eq("refresh_token", refreshToken).maybeSingle();
+    },
+
+    async listActiveByUser(userId) {
+      const now = new Date().toISOString();
+      return await supabase
+        .from("sessions")
+        .select("*")
+        .eq("user_id", userId)
+        .or(anyOf(gt("expires_at", now), gt("refresh_expires_at", now)))
+        .order("last_used_at", { ascending: false });
+    },
+
+    async create(input) {
+      return await supabase.from("sessions").insert(input).select().single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("sessions").update(patch).eq("id", id).select().single();
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("sessions").delete().eq("id", id);
+      return { data: null, error };
+    },
+
+    async deleteByToken(token) {
+      const { error } = await supabase.from("sessions").delete().eq("token", token);
+      return { data: null, error };
+    },
+
+    async deleteByUserId(userId) {
+      const { error } = await supabase.from("sessions").delete().eq("user_id", userId);
+      return { data: null, error };
+    },
+
+    async deleteExpired() {
+      const now = new Date().toISOString();
+      const { count, error } = await supabase
+        .from("sessions")
+        .delete({ count: "exact" })
+        .lt("expires_at", now)
+        .or(anyOf(isNull("refresh_expires_at"), lt("refresh_expires_at", now)));
+      return { data: count ?? 0, error };
+    },
+  };
+}
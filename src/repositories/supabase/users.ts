@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { UserFilters, UsersRepository } from "../types";
+import { applyPage } from "./pagination";
+
+const USER_SELECT = "*, department:departments(id, name, code)";
+
+function applyFilters(query: any, filters: UserFilters) {
+  if (filters.role) query = query.eq("role", filters.role);
+  if (filters.roles) query = query.in("role", filters.roles);
+  if (filters.departmentId) query = query.eq("department_id", filters.departmentId);
+  if (filters.isActive !== undefined) query = query.eq("is_active", filters.isActive);
+  return query;
+}
+
+export function createUsersRepository(supabase: SupabaseClient): UsersRepository {
+  return {
+    async list(filters = {}, page) {
+      const query = supabase.from("users").select(USER_SELECT);
+      return await applyPage(applyFilters(query, filters), page);
+    },
+
+    async count(filters = {}) {
+      const query = supabase.from("users").select("id", { count: "exact", head: true });
+      const { count, error } = await applyFilters(query, filters);
+      return { data: count ?? 0, error };
+    },
+
+    async findById(id) {
+      return await supabase.from("users").select(USER_SELECT).eq("id", id).maybeSingle();
+    },
+
+    async findByEmail(email) {
+      return await supabase.from("users").select(USER_SELECT).eq("email", email).maybeSingle();
+    },
+
+    async findByPhone(phone) {
+      return await supabase.from("users").select(USER_SELECT).eq("phone", phone).maybeSingle();
+    },
+
+    async findByIds(ids) {
+      if (ids.length === 0) return { data: [], error: null };
+      return await supabase.from("users").select("*").in("id", ids);
+    },
+
+    async create(input) {
+      return await supabase.from("users").insert(input).select(USER_SELECT).single();
+    },
+
+    async update(id, patch) {
+      return await supabase.from("users").update(patch).eq("id", id).select(USER_SELECT).single();
+    },
+
+    // Single UPDATE in Postgres, see the increment_failed_logins migration
+    async incrementFailedLogins(id) {
+      return await supabase.rpc("increment_failed_logins", { p_user_id: id });
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from("users").delete().eq("id", id);
+      return { data: null, error };
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DB_CONFLICT_CODE, type ProjectRow, type ValidationRequestsRepository } from "../types";
+import { anyOf, eq } from "./filters";
+
+const VALIDATION_SELECT = `
+  *,
+  project:projects (
+    id,
+    name,
+    status,
+    department:departments (id, name, code)
+  ),
+  requester:users!validation_requests_requester_id_fkey (id, name, email, role),
+  approver:users!validation_requests_approver_id_fkey (id, name, email, role)
+`;
+
+export function createValidationRequestsRepository(supabase: SupabaseClient): ValidationRequestsRepository {
+  const findById = async (id: string) =>
+    await supabase.from("validation_requests").select(VALIDATION_SELECT).eq("id", id).maybeSingle();
+
+  return {
+    async list(filters = {}) {
+      let query = supabase
+        .from("validation_requests")
+        .select(VALIDATION_SELECT)
+        .order("created_at", { ascending: false });
+
+      if (filters.status) query = query.eq("status", filters.status);
+      if (filters.type) query = query.eq("type", filters.type);
+      if (filters.projectId) query = query.eq("project_id", filters.projectId);
+      if (filters.requesterId) query = query.eq("requester_id", filters.requesterId);
+      if (filters.previousRequestId) query = query.eq("previous_request_id", filters.previousRequestId);
+      if (filters.threadId) query = query.or(anyOf(eq("id", filters.threadId), eq("thread_id", filters.threadId)));
+      if (filters.since) query = query.gte("created_at", filters.since);
+      if (filters.until) query = query.lte("created_at", filters.until);
+
+      return await query;
+    },
+
+    findById,
+
+    async create(input) {
+      return await supabase.from("validation_requests").insert(input).select(VALIDATION_SELECT).single();
+    },
+
+    async update(id, patch) {
+      return await supabase
+        .from("validation_requests")
+        .update(patch)
+        .eq("id", id)
+        .select(VALIDATION_SELECT)
+        .single();
+    },
+
+    async updateIfStatus(id, statuses, patch, expectedUpdatedAt) {
+      let query = supabase.from("validation_requests").update(patch).eq("id", id).in("status", statuses);
+      if (expectedUpdatedAt) {
+        query = query.eq("updated_at", expectedUpdatedAt);
+      }
+
+      const { data, error } = await query.select(VALIDATION_SELECT).maybeSingle();
+
+      if (error) return { data: null, error };
+      if (!data) {
+        return { data: null, error: { message: "Le statut de la demande de validation a change", code: DB_CONFLICT_CODE } };
+      }
+      return { data, error: null };
+    },
+
+    // Runs in one Postgres transaction, see the decide_validation_request migrations
+    async decide(id, decision) {
+      const { data, error } = await supabase.rpc("decide_validation_request", {
+        p_request_id: id,
+        p_expected_step: decision.expectedStep,
+        p_expected_updated_at: decision.expectedUpdatedAt,
+        p_step: decision.step,
+        p_patch: decision.patch,
+        p_project_changes: decision.projectChanges ?? null,
+      });
+
+      if (error) return { data: null, error };
+
+      const { data: validation, error: fetchError } = await findById(id);
+      if (fetchError || !validation) return { data: null, error: fetchError };
+
+      return {
+        data: {
+          validation,
+          projectBefore: (data?.project_before ?? null) as ProjectRow | null,
+          projectAfter: (data?.project_after ?? null) as ProjectRow | null,
+        },
+        error: null,
+      };
+    },
+  };
+}
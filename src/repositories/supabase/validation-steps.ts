@@ -0,0 +1,35 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ValidationStepsRepository } from "../types";
+
+const STEP_SELECT = `
+  *,
+  approver:users!validation_steps_approver_id_fkey (id, name, email, role),
+  on_behalf_of:users!validation_steps_on_behalf_of_id_fkey (id, name, email, role)
+`;
+
+export function createValidationStepsRepository(supabase: SupabaseClient): ValidationStepsRepository {
+  return {
+    async listByRequest(validationRequestId) {
+      return await supabase
+        .from("validation_steps")
+        .select(STEP_SELECT)
+        .eq("validation_request_id", validationRequestId)
+        .order("step", { ascending: true })
+        .order("created_at", { ascending: true });
+    },
+
+    async listByRequests(validationRequestIds) {
+      if (validationRequestIds.length === 0) return { data: [], error: null };
+      return await supabase
+        .from("validation_steps")
+        .select(STEP_SELECT)
+        .in("validation_request_id", validationRequestIds)
+        .order("step", { ascending: true })
+        .order("created_at", { ascending: true });
+    },
+
+    async create(input) {
+      return await supabase.from("validation_steps").insert(input).select().single();
+    },
+  };
+}
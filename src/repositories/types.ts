@@ -0,0 +1,1003 @@
+// ==================== RESULTS ====================
+
+// Errors are reported the same way the Supabase client does, so routers can keep
+// destructuring `{ data, error }` whichever backend is configured.
+export interface DbError {
+  message: string;
+  code?: string;
+}
+
+export type DbResult<T> = {
+  data: T | null;
+  error: DbError | null;
+};
+
+// Reported when a write lost a race with a concurrent one (Postgres serialization_failure)
+export const DB_CONFLICT_CODE = "40001";
+
+// Columns required on insert, everything else optional
+type Insert<T, Required extends keyof T> = Pick<T, Required> & Partial<Omit<T, Required>>;
+type Update<T> = Partial<Omit<T, "id" | "created_at">>;
+
+// ==================== ROWS ====================
+
+// Row shapes mirror the Supabase tables (snake_case); the Prisma backend maps its models onto them
+export type Tables = {
+  users: {
+    id: string;
+    email: string;
+    password_hash: string;
+    name: string;
+    role: string;
+    department_id: string | null;
+    is_active: boolean;
+    phone: string | null;
+    must_change_password: boolean;
+    failed_login_attempts: number;
+    locked_until: string | null;
+    password_changed_at: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+  departments: {
+    id: string;
+    name: string;
+    code: string;
+    description: string | null;
+    logo_url: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+  sessions: {
+    id: string;
+    user_id: string;
+    token: string;
+    expires_at: string;
+    refresh_token: string | null;
+    refresh_expires_at: string | null;
+    ip_address: string | null;
+    user_agent: string | null;
+    last_used_at: string;
+    created_at: string;
+  };
+  projects: {
+    id: string;
+    name: string;
+    description: string | null;
+    department_id: string;
+    region_id: string;
+    sector_id: string;
+    budget: number | null;
+    planned_budget: number | null;
+    start_date: string | null;
+    end_date: string | null;
+    progress: number;
+    status: string;
+    responsible_name: string | null;
+    responsible_phone: string | null;
+    documents: string | null;
+    photos: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+  regions: {
+    id: string;
+    name: string;
+    code: string;
+    coordinates: string | null;
+  };
+  sectors: {
+    id: string;
+    name: string;
+    description: string | null;
+  };
+  people: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    gender: string;
+    age: number | null;
+    phone: string | null;
+    region_id: string;
+    // Duplicate candidates share one of these, see src/beneficiary-duplicates.ts
+    name_key: string | null;
+    phone_key: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+  beneficiaries: {
+    id: string;
+    person_id: string;
+    first_name: string;
+    last_name: string;
+    gender: string;
+    age: number | null;
+    phone: string | null;
+    region_id: string;
+    sector_id: string;
+    project_id: string;
+    accompaniment_status: string;
+    start_date: string | null;
+    end_date: string | null;
+    outcome: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+  person_duplicate_dismissals: {
+    id: string;
+    person_id: string;
+    other_id: string;
+    dismissed_by_id: string | null;
+    created_at: string;
+  };
+  news: {
+    id: string;
+    title: string;
+    content: string;
+    image_url: string | null;
+    department_id: string;
+    type: string;
+    published_at: string;
+    created_at: string;
+  };
+  alerts: {
+    id: string;
+    title: string;
+    message: string;
+    from_user_id: string;
+    to_department_id: string | null;
+    type: string;
+    is_read: boolean;
+    read_at: string | null;
+    created_at: string;
+  };
+  messages: {
+    id: string;
+    subject: string;
+    content: string;
+    from_user_id: string;
+    to_user_id: string | null;
+    to_department_id: string | null;
+    is_read: boolean;
+    read_at: string | null;
+    parent_id: string | null;
+    attachments: string[] | string | null; // JSON array in Supabase, JSON string in SQLite
+    created_at: string;
+  };
+  documents: {
+    id: string;
+    title: string;
+    description: string | null;
+    file_url: string;
+    file_type: string;
+    file_size: number;
+    type: string;
+    department_id: string;
+    uploaded_by_id: string;
+    project_id: string | null;
+    is_public: boolean;
+    // Validation columns may be missing on older Supabase schemas
+    validation_status?: string | null;
+    validation_requested_to?: string | null;
+    validation_comment?: string | null;
+    validated_by_id?: string | null;
+    validated_at?: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+  milestones: {
+    id: string;
+    title: string;
+    description: string | null;
+    due_date: string | null;
+    completed_date: string | null;
+    status: string;
+    project_id: string;
+    order: number;
+    created_at: string;
+    updated_at: string;
+  };
+  disbursements: {
+    id: string;
+    amount: number;
+    description: string | null;
+    date: string;
+    category: string;
+    project_id: string;
+    created_by_id: string;
+    receipt_url: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+  validation_requests: {
+    id: string;
+    type: string;
+    status: string;
+    project_id: string;
+    requester_id: string;
+    approver_id: string | null;
+    comment: string;
+    response_comment: string | null;
+    metadata: string | null;
+    approval_chain: string | null;
+    current_step: number;
+    due_at: string | null;
+    reminder_sent_at: string | null;
+    escalation_count: number;
+    previous_request_id: string | null;
+    thread_id: string | null;
+    revision: number;
+    created_at: string;
+    updated_at: string;
+    responded_at: string | null;
+  };
+  validation_steps: {
+    id: string;
+    validation_request_id: string;
+    step: number;
+    role: string;
+    approver_id: string | null;
+    on_behalf_of_id: string | null;
+    decision: string;
+    comment: string | null;
+    created_at: string;
+  };
+  notifications: {
+    id: string;
+    type: string;
+    title: string;
+    message: string;
+    user_id: string;
+    is_read: boolean;
+    link: string | null;
+    created_at: string;
+  };
+  login_attempts: {
+    id: string;
+    identifier: string;
+    user_id: string | null;
+    ip_address: string;
+    reason: string;
+    created_at: string;
+  };
+  project_revisions: {
+    id: string;
+    project_id: string;
+    changed_by_id: string | null;
+    source: string;
+    validation_request_id: string | null;
+    changes: string;
+    progress: number;
+    status: string;
+    created_at: string;
+  };
+  audit_logs: {
+    id: string;
+    actor_id: string | null;
+    actor_name: string | null;
+    on_behalf_of_id: string | null;
+    on_behalf_of_name: string | null;
+    action: string;
+    entity_type: string;
+    entity_id: string;
+    changes: string;
+    ip_address: string;
+    created_at: string;
+  };
+  comments: {
+    id: string;
+    entity_type: string;
+    entity_id: string;
+    author_id: string | null;
+    body: string;
+    mentions: string;
+    created_at: string;
+    updated_at: string;
+  };
+  approval_delegations: {
+    id: string;
+    delegator_id: string;
+    delegate_id: string;
+    scopes: string;
+    reason: string | null;
+    starts_at: string;
+    ends_at: string;
+    revoked_at: string | null;
+    created_at: string;
+  };
+  project_assignments: {
+    id: string;
+    project_id: string;
+    user_id: string;
+    assigned_by_id: string | null;
+    created_at: string;
+  };
+  department_permissions: {
+    id: string;
+    department_id: string;
+    role: string;
+    permission: string;
+    granted: boolean;
+    created_at: string;
+    updated_at: string;
+  };
+  password_history: {
+    id: string;
+    user_id: string;
+    password_hash: string;
+    created_at: string;
+  };
+  otp_codes: {
+    id: string;
+    user_id: string;
+    purpose: string;
+    code_hash: string;
+    attempts: number;
+    expires_at: string;
+    consumed_at: string | null;
+    created_at: string;
+  };
+};
+
+export type UserRow = Tables["users"];
+export type DepartmentRow = Tables["departments"];
+export type SessionRow = Tables["sessions"];
+export type ProjectRow = Tables["projects"];
+export type RegionRow = Tables["regions"];
+export type SectorRow = Tables["sectors"];
+export type PersonRow = Tables["people"];
+export type BeneficiaryRow = Tables["beneficiaries"];
+export type PersonDuplicateDismissalRow = Tables["person_duplicate_dismissals"];
+export type NewsRow = Tables["news"];
+export type AlertRow = Tables["alerts"];
+export type MessageRow = Tables["messages"];
+export type DocumentRow = Tables["documents"];
+export type MilestoneRow = Tables["milestones"];
+export type DisbursementRow = Tables["disbursements"];
+export type ValidationRequestRow = Tables["validation_requests"];
+export type ValidationStepRow = Tables["validation_steps"];
+export type NotificationRow = Tables["notifications"];
+export type LoginAttemptRow = Tables["login_attempts"];
+export type OtpCodeRow = Tables["otp_codes"];
+export type PasswordHistoryRow = Tables["password_history"];
+export type DepartmentPermissionRow = Tables["department_permissions"];
+export type ProjectAssignmentRow = Tables["project_assignments"];
+export type AuditLogRow = Tables["audit_logs"];
+export type ProjectRevisionRow = Tables["project_revisions"];
+export type ApprovalDelegationRow = Tables["approval_delegations"];
+export type CommentRow = Tables["comments"];
+
+// ==================== RELATIONS ====================
+
+export type DepartmentRef = { id: string; name: string; code: string };
+export type RegionRef = { id: string; name: string; code: string };
+export type SectorRef = { id: string; name: string };
+export type UserRef = { id: string; name: string; email: string };
+export type ProjectRef = { id: string; name: string; department_id: string };
+
+export type UserWithDepartmentRow = UserRow & { department: DepartmentRef | null };
+export type SessionWithUserRow = SessionRow & { user: UserWithDepartmentRow };
+
+export type ProjectWithRelationsRow = ProjectRow & {
+  department: DepartmentRef | null;
+  region: RegionRef | null;
+  sector: SectorRef | null;
+};
+
+export type PersonWithRegionRow = PersonRow & {
+  region: { id: string; name: string } | null;
+};
+
+export type BeneficiaryWithRelationsRow = BeneficiaryRow & {
+  region: { id: string; name: string } | null;
+  sector: SectorRef | null;
+  project: ProjectRef | null;
+};
+
+export type NewsWithDepartmentRow = NewsRow & { department: DepartmentRef | null };
+
+export type AlertWithRelationsRow = AlertRow & {
+  from_user: UserRef | null;
+  to_department: DepartmentRef | null;
+};
+
+export type MessageWithRelationsRow = MessageRow & {
+  from_user: UserRef | null;
+  to_user: UserRef | null;
+  to_department: DepartmentRef | null;
+};
+
+export type DocumentWithRelationsRow = DocumentRow & {
+  department: DepartmentRef | null;
+  uploaded_by: UserRef | null;
+  validated_by?: UserRef | null;
+  project: { id: string; name: string } | null;
+};
+
+export type MilestoneWithProjectRow = MilestoneRow & { project: ProjectRef | null };
+export type ProjectAssignmentWithProjectRow = ProjectAssignmentRow & { project: ProjectRef | null };
+
+export type DisbursementWithRelationsRow = DisbursementRow & {
+  project: ProjectRef | null;
+  created_by: UserRef | null;
+};
+
+export type ValidationRequestWithRelationsRow = ValidationRequestRow & {
+  project: { id: string; name: string; status: string; department: DepartmentRef | null } | null;
+  requester: (UserRef & { role: string }) | null;
+  approver: (UserRef & { role: string }) | null;
+};
+
+export type ValidationStepWithApproverRow = ValidationStepRow & {
+  approver: (UserRef & { role: string }) | null;
+  on_behalf_of: (UserRef & { role: string }) | null;
+};
+
+export type LoginAttemptWithUserRow = LoginAttemptRow & { user: UserRef | null };
+export type AuditLogWithActorRow = AuditLogRow & { actor: UserRef | null };
+export type ProjectRevisionWithUserRow = ProjectRevisionRow & { changed_by: UserRef | null };
+export type CommentWithAuthorRow = CommentRow & { author: (UserRef & { role: string }) | null };
+export type ApprovalDelegationWithUsersRow = ApprovalDelegationRow & {
+  delegator: (UserRef & { role: string; department_id: string | null; is_active: boolean }) | null;
+  delegate: (UserRef & { role: string }) | null;
+};
+
+// ==================== INPUTS ====================
+
+export type UserInsert = Insert<UserRow, "email" | "password_hash" | "name" | "role">;
+export type UserUpdate = Update<UserRow>;
+export type SessionInsert = Insert<SessionRow, "user_id" | "token" | "expires_at">;
+export type SessionUpdate = Update<SessionRow>;
+export type DepartmentInsert = Insert<DepartmentRow, "name" | "code">;
+export type DepartmentUpdate = Update<DepartmentRow>;
+export type RegionInsert = Insert<RegionRow, "name" | "code">;
+export type SectorInsert = Insert<SectorRow, "name">;
+export type ProjectInsert = Insert<ProjectRow, "name" | "department_id" | "region_id" | "sector_id">;
+export type ProjectUpdate = Update<ProjectRow>;
+export type PersonInsert = Insert<PersonRow, "first_name" | "last_name" | "gender" | "region_id">;
+export type PersonUpdate = Update<PersonRow>;
+export type BeneficiaryInsert = Insert<
+  BeneficiaryRow,
+  "person_id" | "first_name" | "last_name" | "gender" | "region_id" | "sector_id" | "project_id"
+>;
+export type BeneficiaryUpdate = Update<BeneficiaryRow>;
+export type PersonDuplicateDismissalInsert = Insert<PersonDuplicateDismissalRow, "person_id" | "other_id">;
+export type NewsInsert = Insert<NewsRow, "title" | "content" | "department_id">;
+export type AlertInsert = Insert<AlertRow, "title" | "message" | "from_user_id">;
+export type AlertUpdate = Update<AlertRow>;
+export type MessageInsert = Insert<MessageRow, "subject" | "content" | "from_user_id">;
+export type MessageUpdate = Update<MessageRow>;
+export type DocumentInsert = Insert<
+  DocumentRow,
+  "title" | "file_url" | "file_type" | "file_size" | "department_id" | "uploaded_by_id"
+>;
+export type DocumentUpdate = Update<DocumentRow>;
+export type MilestoneInsert = Insert<MilestoneRow, "title" | "project_id">;
+export type MilestoneUpdate = Update<MilestoneRow>;
+export type DisbursementInsert = Insert<DisbursementRow, "amount" | "project_id" | "created_by_id">;
+export type DisbursementUpdate = Update<DisbursementRow>;
+export type ValidationRequestInsert = Insert<
+  ValidationRequestRow,
+  "type" | "project_id" | "requester_id" | "comment"
+>;
+export type ValidationRequestUpdate = Update<ValidationRequestRow>;
+export type ValidationStepInsert = Insert<ValidationStepRow, "validation_request_id" | "step" | "role" | "decision">;
+export type NotificationInsert = Insert<NotificationRow, "type" | "title" | "message" | "user_id">;
+export type NotificationUpdate = Update<NotificationRow>;
+export type LoginAttemptInsert = Insert<LoginAttemptRow, "identifier" | "ip_address" | "reason">;
+export type DepartmentPermissionInsert = Insert<
+  DepartmentPermissionRow,
+  "department_id" | "role" | "permission" | "granted"
+>;
+export type ProjectRevisionInsert = Insert<
+  ProjectRevisionRow,
+  "project_id" | "source" | "changes" | "progress" | "status"
+>;
+export type CommentInsert = Insert<CommentRow, "entity_type" | "entity_id" | "body">;
+export type ApprovalDelegationInsert = Insert<
+  ApprovalDelegationRow,
+  "delegator_id" | "delegate_id" | "scopes" | "starts_at" | "ends_at"
+>;
+export type ApprovalDelegationUpdate = Update<ApprovalDelegationRow>;
+export type AuditLogInsert = Insert<AuditLogRow, "action" | "entity_type" | "entity_id" | "changes" | "ip_address">;
+export type PasswordHistoryInsert = Insert<PasswordHistoryRow, "user_id" | "password_hash">;
+export type OtpCodeInsert = Insert<OtpCodeRow, "user_id" | "purpose" | "code_hash" | "expires_at">;
+export type OtpCodeUpdate = Update<OtpCodeRow>;
+
+// ==================== FILTERS ====================
+
+export interface UserFilters {
+  role?: string;
+  roles?: string[];
+  departmentId?: string;
+  isActive?: boolean;
+}
+
+export interface ProjectFilters {
+  departmentId?: string;
+  regionId?: string;
+  sectorId?: string;
+  status?: string;
+  search?: string;
+}
+
+export interface PersonFilters {
+  regionId?: string;
+  gender?: string;
+  search?: string;
+}
+
+export interface BeneficiaryFilters {
+  regionId?: string;
+  sectorId?: string;
+  projectId?: string;
+  personId?: string;
+  personIds?: string[];
+  gender?: string;
+  accompanimentStatus?: string;
+  search?: string;
+}
+
+export interface NewsFilters {
+  departmentId?: string;
+  type?: string;
+  limit?: number;
+}
+
+export interface AlertFilters {
+  // Alerts addressed to this department or to all departments
+  departmentScope?: string;
+  type?: string;
+  isRead?: boolean;
+}
+
+export interface MessageFilters {
+  // Inbox: addressed to this user, or to this department when given
+  recipientUserId?: string;
+  recipientDepartmentId?: string | null;
+  fromUserId?: string;
+  isRead?: boolean;
+  // null restricts to top-level messages
+  parentId?: string | null;
+}
+
+export interface DocumentFilters {
+  // Documents of this department plus public ones
+  visibleToDepartmentId?: string;
+  departmentId?: string;
+  projectId?: string;
+  type?: string;
+  isPublic?: boolean;
+  search?: string;
+  validationStatus?: string;
+  validationRequestedTo?: string;
+}
+
+export interface LoginAttemptFilters {
+  userId?: string;
+  ipAddress?: string;
+  since?: string;
+  limit?: number;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ApprovalDelegationFilters {
+  delegatorId?: string;
+  delegateId?: string;
+  // Either side of the delegation
+  userId?: string;
+  // ISO date the delegation must be in force at (started, not ended nor revoked)
+  activeAt?: string;
+}
+
+export interface ValidationRequestFilters {
+  status?: string;
+  type?: string;
+  projectId?: string;
+  requesterId?: string;
+  // ISO dates bounding created_at
+  since?: string;
+  until?: string;
+  previousRequestId?: string;
+  // Every attempt of the thread started by this request, itself included
+  threadId?: string;
+}
+
+// ==================== PAGINATION ====================
+
+// One page of a list, sorted on a column with the id breaking ties. Either
+// skips `offset` rows or starts after the last row of the previous page.
+// Null sort values rank below all others: first in ascending order, last in
+// descending order, on both backends
+export interface PageOptions {
+  // created_at when not given
+  sortBy?: string;
+  sortDirection?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+  // Sort value and id of the last row of the previous page; offset is ignored
+  after?: { value: string | number | boolean | null; id: string };
+}
+
+// ==================== SEARCH ====================
+
+// A searchable row of any entity, reduced to the text the query is matched against
+export interface SearchHitRow {
+  // PROJECT, BENEFICIARY, DOCUMENT, NEWS or MESSAGE
+  entity_type: string;
+  id: string;
+  title: string;
+  // Secondary text, e.g. a description or message content
+  body: string | null;
+  created_at: string;
+}
+
+const LIGATURES: Record<string, string> = { "œ": "oe", "æ": "ae", "ß": "ss" };
+
+// The form search terms and text are compared in on both backends: lowercase,
+// accents stripped and ligatures expanded, like lower(unaccent()) in Postgres
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[œæß]/g, (c) => LIGATURES[c] ?? c);
+}
+
+// Whose visibility rules apply to documents and messages
+export interface SearchScope {
+  types: string[];
+  userId: string;
+  departmentId: string | null;
+  readAllDocuments: boolean;
+  readAllMessages: boolean;
+}
+
+// ==================== REPOSITORIES ====================
+
+export interface UsersRepository {
+  list(filters?: UserFilters, page?: PageOptions): Promise<DbResult<UserWithDepartmentRow[]>>;
+  count(filters?: UserFilters): Promise<DbResult<number>>;
+  findById(id: string): Promise<DbResult<UserWithDepartmentRow>>;
+  findByEmail(email: string): Promise<DbResult<UserWithDepartmentRow>>;
+  findByPhone(phone: string): Promise<DbResult<UserWithDepartmentRow>>;
+  findByIds(ids: string[]): Promise<DbResult<UserRow[]>>;
+  create(input: UserInsert): Promise<DbResult<UserWithDepartmentRow>>;
+  update(id: string, patch: UserUpdate): Promise<DbResult<UserWithDepartmentRow>>;
+  // Atomically adds one to failed_login_attempts; returns the new count
+  incrementFailedLogins(id: string): Promise<DbResult<number>>;
+  delete(id: string): Promise<DbResult<null>>;
+}
+
+export interface SessionsRepository {
+  findById(id: string): Promise<DbResult<SessionRow>>;
+  findByToken(token: string): Promise<DbResult<SessionWithUserRow>>;
+  findByRefreshToken(refreshToken: string): Promise<DbResult<SessionRow>>;
+  // Sessions whose access or refresh token is still valid, most recently used first
+  listActiveByUser(userId: string): Promise<DbResult<SessionRow[]>>;
+  create(input: SessionInsert): Promise<DbResult<SessionRow>>;
+  update(id: string, patch: SessionUpdate): Promise<DbResult<SessionRow>>;
+  delete(id: string): Promise<DbResult<null>>;
+  deleteByToken(token: string): Promise<DbResult<null>>;
+  deleteByUserId(userId: string): Promise<DbResult<null>>;
+  // Removes sessions that can no longer be used or refreshed; returns how many
+  deleteExpired(): Promise<DbResult<number>>;
+}
+
+export interface DepartmentsRepository {
+  list(): Promise<DbResult<DepartmentRow[]>>;
+  findById(id: string): Promise<DbResult<DepartmentRow>>;
+  findByCode(code: string): Promise<DbResult<DepartmentRow>>;
+  create(input: DepartmentInsert): Promise<DbResult<DepartmentRow>>;
+  update(id: string, patch: DepartmentUpdate): Promise<DbResult<DepartmentRow>>;
+  delete(id: string): Promise<DbResult<null>>;
+}
+
+export interface RegionsRepository {
+  list(): Promise<DbResult<RegionRow[]>>;
+  findById(id: string): Promise<DbResult<RegionRow>>;
+  findByCode(code: string): Promise<DbResult<RegionRow>>;
+  findByName(name: string): Promise<DbResult<RegionRow>>;
+  create(input: RegionInsert): Promise<DbResult<RegionRow>>;
+}
+
+export interface SectorsRepository {
+  list(): Promise<DbResult<SectorRow[]>>;
+  findById(id: string): Promise<DbResult<SectorRow>>;
+  findByName(name: string): Promise<DbResult<SectorRow>>;
+  create(input: SectorInsert): Promise<DbResult<SectorRow>>;
+}
+
+export interface ProjectsRepository {
+  list(filters?: ProjectFilters, page?: PageOptions): Promise<DbResult<ProjectWithRelationsRow[]>>;
+  count(filters?: ProjectFilters): Promise<DbResult<number>>;
+  findById(id: string): Promise<DbResult<ProjectWithRelationsRow>>;
+  create(input: ProjectInsert): Promise<DbResult<ProjectWithRelationsRow>>;
+  update(id: string, patch: ProjectUpdate): Promise<DbResult<ProjectWithRelationsRow>>;
+  delete(id: string): Promise<DbResult<null>>;
+}
+
+// Merge of a duplicate person into the one kept, in one transaction: the
+// survivor is patched, all the duplicate's enrollments move to it and the
+// duplicate is deleted
+export interface PersonMerge {
+  survivorId: string;
+  duplicateId: string;
+  // Details taken from the duplicate where the survivor has none
+  patch: Pick<PersonUpdate, "age" | "phone" | "phone_key" | "updated_at">;
+}
+
+// Keys duplicate candidates are looked up by, see src/beneficiary-duplicates.ts
+export interface PersonIdentityKeys {
+  nameKeys: string[];
+  phoneKeys: string[];
+}
+
+export interface PeopleRepository {
+  list(filters?: PersonFilters, page?: PageOptions): Promise<DbResult<PersonWithRegionRow[]>>;
+  count(filters?: PersonFilters): Promise<DbResult<number>>;
+  // People with any of the name or phone keys
+  listByIdentityKeys(keys: PersonIdentityKeys): Promise<DbResult<PersonWithRegionRow[]>>;
+  // People sharing a name or phone key with someone else
+  listSharingIdentityKeys(): Promise<DbResult<PersonWithRegionRow[]>>;
+  findById(id: string): Promise<DbResult<PersonWithRegionRow>>;
+  update(id: string, patch: PersonUpdate): Promise<DbResult<PersonWithRegionRow>>;
+  // Returns the survivor; DB_CONFLICT_CODE is reported when either person was merged meanwhile
+  merge(merge: PersonMerge): Promise<DbResult<PersonWithRegionRow>>;
+}
+
+export interface BeneficiariesRepository {
+  list(filters?: BeneficiaryFilters, page?: PageOptions): Promise<DbResult<BeneficiaryWithRelationsRow[]>>;
+  count(filters?: BeneficiaryFilters): Promise<DbResult<number>>;
+  // Number of beneficiaries per project id
+  countByProject(projectIds: string[]): Promise<DbResult<Record<string, number>>>;
+  findById(id: string): Promise<DbResult<BeneficiaryWithRelationsRow>>;
+  // Creates the enrolled person first when given, both or neither
+  create(input: BeneficiaryInsert, person?: PersonInsert): Promise<DbResult<BeneficiaryWithRelationsRow>>;
+  // Inserts all the rows, with the people they enroll, or none; returns the number of enrollments inserted
+  createMany(inputs: BeneficiaryInsert[], people?: PersonInsert[]): Promise<DbResult<number>>;
+  update(id: string, patch: BeneficiaryUpdate): Promise<DbResult<BeneficiaryWithRelationsRow>>;
+  // Only the enrollments go; the people stay, even when left with none
+  deleteByProject(projectId: string): Promise<DbResult<null>>;
+}
+
+export interface PersonDuplicateDismissalsRepository {
+  list(): Promise<DbResult<PersonDuplicateDismissalRow[]>>;
+  create(input: PersonDuplicateDismissalInsert): Promise<DbResult<PersonDuplicateDismissalRow>>;
+}
+
+export interface NewsRepository {
+  list(filters?: NewsFilters): Promise<DbResult<NewsWithDepartmentRow[]>>;
+  count(filters?: NewsFilters): Promise<DbResult<number>>;
+  findById(id: string): Promise<DbResult<NewsWithDepartmentRow>>;
+  create(input: NewsInsert): Promise<DbResult<NewsWithDepartmentRow>>;
+  delete(id: string): Promise<DbResult<null>>;
+}
+
+export interface AlertsRepository {
+  list(filters?: AlertFilters): Promise<DbResult<AlertWithRelationsRow[]>>;
+  findById(id: string): Promise<DbResult<AlertWithRelationsRow>>;
+  create(input: AlertInsert): Promise<DbResult<AlertWithRelationsRow>>;
+  update(id: string, patch: AlertUpdate): Promise<DbResult<AlertWithRelationsRow>>;
+}
+
+export interface MessagesRepository {
+  // Newest first unless the page sorts otherwise
+  list(filters?: MessageFilters, page?: PageOptions): Promise<DbResult<MessageWithRelationsRow[]>>;
+  count(filters?: MessageFilters): Promise<DbResult<number>>;
+  // Oldest first
+  listReplies(parentId: string): Promise<DbResult<MessageWithRelationsRow[]>>;
+  // Number of replies per parent message id
+  countReplies(parentIds: string[]): Promise<DbResult<Record<string, number>>>;
+  findById(id: string): Promise<DbResult<MessageWithRelationsRow>>;
+  create(input: MessageInsert): Promise<DbResult<MessageWithRelationsRow>>;
+  update(id: string, patch: MessageUpdate): Promise<DbResult<MessageWithRelationsRow>>;
+  delete(id: string): Promise<DbResult<null>>;
+  deleteReplies(parentId: string): Promise<DbResult<null>>;
+}
+
+export interface DocumentsRepository {
+  list(filters?: DocumentFilters, page?: PageOptions): Promise<DbResult<DocumentWithRelationsRow[]>>;
+  count(filters?: DocumentFilters): Promise<DbResult<number>>;
+  findById(id: string): Promise<DbResult<DocumentWithRelationsRow>>;
+  create(input: DocumentInsert): Promise<DbResult<DocumentWithRelationsRow>>;
+  update(id: string, patch: DocumentUpdate): Promise<DbResult<DocumentWithRelationsRow>>;
+  delete(id: string): Promise<DbResult<null>>;
+}
+
+export interface MilestonesRepository {
+  // Ordered by `order`
+  listByProject(projectId: string): Promise<DbResult<MilestoneRow[]>>;
+  findById(id: string): Promise<DbResult<MilestoneWithProjectRow>>;
+  create(input: MilestoneInsert): Promise<DbResult<MilestoneRow>>;
+  update(id: string, patch: MilestoneUpdate): Promise<DbResult<MilestoneRow>>;
+  delete(id: string): Promise<DbResult<null>>;
+}
+
+export interface DisbursementsRepository {
+  // Most recent first
+  listByProject(projectId: string): Promise<DbResult<DisbursementWithRelationsRow[]>>;
+  findById(id: string): Promise<DbResult<DisbursementWithRelationsRow>>;
+  create(input: DisbursementInsert): Promise<DbResult<DisbursementWithRelationsRow>>;
+  update(id: string, patch: DisbursementUpdate): Promise<DbResult<DisbursementWithRelationsRow>>;
+  delete(id: string): Promise<DbResult<null>>;
+}
+
+// One decision on the current step of a request, by an approver or by the
+// deadline job (escalation). Only the project status and budget can be changed
+// by a decision.
+export interface ValidationDecision {
+  // Step the request must still be waiting on, otherwise DB_CONFLICT_CODE is reported
+  expectedStep: number;
+  // updated_at of the request the decision was made on: an amend or any other
+  // write since then also reports DB_CONFLICT_CODE
+  expectedUpdatedAt: string;
+  step: Pick<ValidationStepInsert, "role" | "approver_id" | "on_behalf_of_id" | "decision" | "comment">;
+  patch: ValidationRequestUpdate;
+  projectChanges?: Pick<ProjectUpdate, "status" | "budget"> | null;
+}
+
+export interface ValidationDecisionResult {
+  validation: ValidationRequestWithRelationsRow;
+  // Set when the decision changed the project
+  projectBefore: ProjectRow | null;
+  projectAfter: ProjectRow | null;
+}
+
+export interface ValidationRequestsRepository {
+  list(filters?: ValidationRequestFilters): Promise<DbResult<ValidationRequestWithRelationsRow[]>>;
+  findById(id: string): Promise<DbResult<ValidationRequestWithRelationsRow>>;
+  create(input: ValidationRequestInsert): Promise<DbResult<ValidationRequestWithRelationsRow>>;
+  update(
+    id: string,
+    patch: ValidationRequestUpdate
+  ): Promise<DbResult<ValidationRequestWithRelationsRow>>;
+  // Applies the patch only while the request is in one of `statuses` and, when
+  // given, still has `expectedUpdatedAt`; otherwise DB_CONFLICT_CODE is reported
+  updateIfStatus(
+    id: string,
+    statuses: string[],
+    patch: ValidationRequestUpdate,
+    expectedUpdatedAt?: string
+  ): Promise<DbResult<ValidationRequestWithRelationsRow>>;
+  // Records the step, applies the project changes and updates the request in
+  // one transaction: either all of it is written or none of it
+  decide(id: string, decision: ValidationDecision): Promise<DbResult<ValidationDecisionResult>>;
+}
+
+export interface NotificationsRepository {
+  listByUser(userId: string, page?: PageOptions): Promise<DbResult<NotificationRow[]>>;
+  countByUser(userId: string): Promise<DbResult<number>>;
+  countUnread(userId: string): Promise<DbResult<number>>;
+  findById(id: string): Promise<DbResult<NotificationRow>>;
+  create(input: NotificationInsert): Promise<DbResult<NotificationRow>>;
+  createMany(inputs: NotificationInsert[]): Promise<DbResult<null>>;
+  update(id: string, patch: NotificationUpdate): Promise<DbResult<NotificationRow>>;
+  markAllRead(userId: string): Promise<DbResult<null>>;
+}
+
+export interface LoginAttemptsRepository {
+  // Most recent first
+  list(filters?: LoginAttemptFilters): Promise<DbResult<LoginAttemptWithUserRow[]>>;
+  count(filters?: LoginAttemptFilters): Promise<DbResult<number>>;
+  create(input: LoginAttemptInsert): Promise<DbResult<LoginAttemptRow>>;
+}
+
+export interface ProjectRevisionsRepository {
+  // Oldest first
+  listByProject(projectId: string): Promise<DbResult<ProjectRevisionWithUserRow[]>>;
+  create(input: ProjectRevisionInsert): Promise<DbResult<ProjectRevisionRow>>;
+}
+
+export interface ValidationStepsRepository {
+  // In chain order
+  listByRequest(validationRequestId: string): Promise<DbResult<ValidationStepWithApproverRow[]>>;
+  listByRequests(validationRequestIds: string[]): Promise<DbResult<ValidationStepWithApproverRow[]>>;
+  create(input: ValidationStepInsert): Promise<DbResult<ValidationStepRow>>;
+}
+
+export interface AuditLogsRepository {
+  // Most recent first
+  list(filters?: AuditLogFilters): Promise<DbResult<AuditLogWithActorRow[]>>;
+  count(filters?: AuditLogFilters): Promise<DbResult<number>>;
+  create(input: AuditLogInsert): Promise<DbResult<AuditLogRow>>;
+  createMany(inputs: AuditLogInsert[]): Promise<DbResult<null>>;
+}
+
+export interface CommentsRepository {
+  // Oldest first
+  listByEntity(entityType: string, entityId: string): Promise<DbResult<CommentWithAuthorRow[]>>;
+  findById(id: string): Promise<DbResult<CommentWithAuthorRow>>;
+  create(input: CommentInsert): Promise<DbResult<CommentWithAuthorRow>>;
+  delete(id: string): Promise<DbResult<null>>;
+}
+
+export interface ApprovalDelegationsRepository {
+  // Most recent first
+  list(filters?: ApprovalDelegationFilters): Promise<DbResult<ApprovalDelegationWithUsersRow[]>>;
+  findById(id: string): Promise<DbResult<ApprovalDelegationWithUsersRow>>;
+  create(input: ApprovalDelegationInsert): Promise<DbResult<ApprovalDelegationWithUsersRow>>;
+  update(id: string, patch: ApprovalDelegationUpdate): Promise<DbResult<ApprovalDelegationWithUsersRow>>;
+}
+
+export interface ProjectAssignmentsRepository {
+  listByUser(userId: string): Promise<DbResult<ProjectAssignmentWithProjectRow[]>>;
+  exists(userId: string, projectId: string): Promise<DbResult<boolean>>;
+  // Makes `projectIds` the user's complete set of assignments
+  replaceForUser(userId: string, projectIds: string[], assignedById: string | null): Promise<DbResult<null>>;
+}
+
+export interface DepartmentPermissionsRepository {
+  // Every override, for all departments
+  list(): Promise<DbResult<DepartmentPermissionRow[]>>;
+  // Creates or replaces the override for (department, role, permission)
+  upsert(input: DepartmentPermissionInsert): Promise<DbResult<DepartmentPermissionRow>>;
+  delete(departmentId: string, role: string, permission: string): Promise<DbResult<null>>;
+}
+
+export interface PasswordHistoryRepository {
+  // Most recent first
+  listRecent(userId: string, limit: number): Promise<DbResult<PasswordHistoryRow[]>>;
+  create(input: PasswordHistoryInsert): Promise<DbResult<PasswordHistoryRow>>;
+}
+
+export interface OtpCodesRepository {
+  // Most recently issued code for the user and purpose, consumed or not
+  findLatest(userId: string, purpose: string): Promise<DbResult<OtpCodeRow>>;
+  countSince(userId: string, since: string): Promise<DbResult<number>>;
+  create(input: OtpCodeInsert): Promise<DbResult<OtpCodeRow>>;
+  update(id: string, patch: OtpCodeUpdate): Promise<DbResult<OtpCodeRow>>;
+  // Counts one more guess on an unconsumed code, only if `attempts` is still
+  // the value read; null when another guess or a consumption came first
+  countAttempt(id: string, attempts: number): Promise<DbResult<OtpCodeRow>>;
+  // Marks an unconsumed code consumed; null when it already was
+  consume(id: string): Promise<DbResult<OtpCodeRow>>;
+}
+
+export interface SearchRepository {
+  // Visible rows whose title and body contain every term, case and accents
+  // ignored; `terms` are normalized already. At most `perType` rows of each
+  // entity type, the most recent.
+  search(terms: string[], scope: SearchScope, perType: number): Promise<DbResult<SearchHitRow[]>>;
+}
+
+export interface Repositories {
+  users: UsersRepository;
+  sessions: SessionsRepository;
+  departments: DepartmentsRepository;
+  regions: RegionsRepository;
+  sectors: SectorsRepository;
+  projects: ProjectsRepository;
+  people: PeopleRepository;
+  beneficiaries: BeneficiariesRepository;
+  news: NewsRepository;
+  alerts: AlertsRepository;
+  messages: MessagesRepository;
+  documents: DocumentsRepository;
+  milestones: MilestonesRepository;
+  disbursements: DisbursementsRepository;
+  validationRequests: ValidationRequestsRepository;
+  notifications: NotificationsRepository;
+  loginAttempts: LoginAttemptsRepository;
+  otpCodes: OtpCodesRepository;
+  passwordHistory: PasswordHistoryRepository;
+  departmentPermissions: DepartmentPermissionsRepository;
+  projectAssignments: ProjectAssignmentsRepository;
+  auditLogs: AuditLogsRepository;
+  projectRevisions: ProjectRevisionsRepository;
+  validationSteps: ValidationStepsRepository;
+  approvalDelegations: ApprovalDelegationsRepository;
+  comments: CommentsRepository;
+  search: SearchRepository;
+  personDuplicateDismissals: PersonDuplicateDismissalsRepository;
+}
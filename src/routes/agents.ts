@@ -1,114 +1,15 @@
 import { Hono } from "hono";
-import { supabase } from "../supabase";
+import { repositories } from "../repositories";
 import { z } from "zod";
-import type { Context } from "hono";
-import bcrypt from "bcryptjs";
+import { inDepartmentScope, requireAuth, requirePermission, type AuthEnv } from "../middleware/auth";
+import { AssignAgentProjectsSchema } from "../types";
+import { generateTemporaryPassword, hashPassword, recordPasswordHistory, validateNewPassword } from "../passwords";
+import { recordAudit } from "../audit";
 
-export const agentsRouter = new Hono();
+export const agentsRouter = new Hono<AuthEnv>();
 
-const BCRYPT_ROUNDS = 10;
-
-// User type for context
-interface AuthUser {
-  id: string;
-  role: string;
-  departmentId: string | null;
-}
-
-// Helper to get current user from JWT token or X-User-Email header
-async function getCurrentUser(c: Context): Promise<AuthUser | null> {
-  // First check X-User-Email header (for database-only auth)
-  const userEmail = c.req.header("X-User-Email");
-  if (userEmail) {
-    const { data: user } = await supabase
-      .from('users')
-      .select('*')
-      .eq('email', userEmail)
-      .single();
-
-    if (user) {
-      return {
-        id: user.id,
-        role: user.role,
-        departmentId: user.department_id,
-      };
-    }
-  }
-
-  // Fallback to Authorization header
-  const authHeader = c.req.header("Authorization");
-  if (!authHeader?.startsWith("Bearer ")) {
-    return null;
-  }
-
-  const token = authHeader.slice(7);
-
-  // First try local session lookup in Supabase
-  const { data: session } = await supabase
-    .from('sessions')
-    .select('*, user:users(*)')
-    .eq('token', token)
-    .single();
-
-  if (session && new Date(session.expires_at) >= new Date()) {
-    return {
-      id: session.user.id,
-      role: session.user.role,
-      departmentId: session.user.department_id,
-    };
-  }
-
-  // If no local session found, try to decode JWT (Supabase auth tokens)
-  const parts = token.split('.');
-  if (parts.length === 3) {
-    try {
-      const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-      const email = payload.email;
-
-      if (email) {
-        // Find user by email in Supabase
-        const { data: user } = await supabase
-          .from('users')
-          .select('*')
-          .eq('email', email)
-          .single();
-
-        if (user) {
-          return {
-            id: user.id,
-            role: user.role,
-            departmentId: user.department_id,
-          };
-        }
-      }
-    } catch {
-      // JWT decode failed, return null
-    }
-  }
-
-  return null;
-}
-
-// Middleware to check if user can manage agents
-async function requireAgentManager(c: Context, next: () => Promise<void>) {
-  const user = await getCurrentUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non autorise" } }, 401);
-  }
-
-  const allowedRoles = ["SUPER_ADMIN", "ADMIN_DEPARTMENT", "MINISTER", "PRIMATURE", "PRESIDENCY"];
-  if (!allowedRoles.includes(user.role)) {
-    return c.json({ error: { message: "Acces refuse - Role insuffisant" } }, 403);
-  }
-
-  (c as Context & { authUser?: AuthUser }).authUser = user;
-  await next();
-}
-
-function getAuthUser(c: Context): AuthUser {
-  return (c as Context & { authUser: AuthUser }).authUser;
-}
+// Roles allowed to manage agents; department admins are limited to their own department
+const requireAgentManager = requirePermission("agent:manage");
 
 // Schema for creating an agent
 const CreateAgentSchema = z.object({
@@ -117,26 +18,19 @@ const CreateAgentSchema = z.object({
   departmentId: z.string().optional(),
 });
 
+// Schema for resetting an agent password; a temporary one is generated when omitted
+const ResetAgentPasswordSchema = z.object({
+  password: z.string().min(1, "Mot de passe requis").optional(),
+});
+
 // GET /api/agents - List agents for department
 agentsRouter.get("/", requireAgentManager, async (c) => {
-  const user = getAuthUser(c);
   const departmentId = c.req.query("departmentId");
 
-  const isHighLevel = ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
-
-  let query = supabase
-    .from('users')
-    .select('*, department:departments(id, name, code)')
-    .eq('role', 'ADMIN_DEPARTMENT')
-    .order('created_at', { ascending: false });
-
-  if (departmentId) {
-    query = query.eq('department_id', departmentId);
-  } else if (!isHighLevel && user.departmentId) {
-    query = query.eq('department_id', user.departmentId);
-  }
-
-  const { data: agents, error } = await query;
+  const { data: agents, error } = await repositories.users.list({
+    role: "AGENT",
+    departmentId: c.get("departmentScope") ?? departmentId,
+  });
 
   if (error) {
     console.error('Error fetching agents:', error);
@@ -160,9 +54,31 @@ agentsRouter.get("/", requireAgentManager, async (c) => {
   return c.json({ data: transformedAgents });
 });
 
+function formatAssignment(a: { project_id: string; created_at: string; project: { id: string; name: string; department_id: string } | null }) {
+  return {
+    projectId: a.project_id,
+    assignedAt: a.created_at,
+    project: a.project ? { id: a.project.id, name: a.project.name, departmentId: a.project.department_id } : null,
+  };
+}
+
+// GET /api/agents/me/projects - Projects assigned to the current agent (must be before /:id)
+agentsRouter.get("/me/projects", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  const { data: assignments, error } = await repositories.projectAssignments.listByUser(user.id);
+
+  if (error) {
+    console.error('Error fetching assignments:', error);
+    return c.json({ error: { message: "Erreur lors du chargement des projets" } }, 500);
+  }
+
+  return c.json({ data: (assignments || []).map(formatAssignment) });
+});
+
 // POST /api/agents - Create new agent
 agentsRouter.post("/", requireAgentManager, async (c) => {
-  const user = getAuthUser(c);
+  const user = c.get("user");
   const body = await c.req.json();
   const validation = CreateAgentSchema.safeParse(body);
 
@@ -182,19 +98,14 @@ agentsRouter.post("/", requireAgentManager, async (c) => {
   }
 
   // Validate department exists
-  const { data: department } = await supabase
-    .from('departments')
-    .select('id')
-    .eq('id', departmentId)
-    .single();
+  const { data: department } = await repositories.departments.findById(departmentId);
 
   if (!department) {
     return c.json({ error: { message: "Departement non trouve" } }, 400);
   }
 
   // Check permissions
-  const isHighLevel = ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
-  if (!isHighLevel && user.departmentId !== departmentId) {
+  if (!inDepartmentScope(c, departmentId)) {
     return c.json({ error: { message: "Vous ne pouvez pas ajouter des agents a ce departement" } }, 403);
   }
 
@@ -202,11 +113,7 @@ agentsRouter.post("/", requireAgentManager, async (c) => {
   const cleanPhone = phone.replace(/[\s\-\(\)]/g, "");
 
   // Check if phone already exists
-  const { data: existingPhone } = await supabase
-    .from('users')
-    .select('id')
-    .eq('phone', cleanPhone)
-    .single();
+  const { data: existingPhone } = await repositories.users.findByPhone(cleanPhone);
 
   if (existingPhone) {
     return c.json({ error: { message: "Ce numero de telephone est deja utilise" } }, 400);
@@ -216,40 +123,36 @@ agentsRouter.post("/", requireAgentManager, async (c) => {
   const email = `agent_${cleanPhone}@gouv.ml`;
 
   // Check if email exists
-  const { data: existingEmail } = await supabase
-    .from('users')
-    .select('id')
-    .eq('email', email)
-    .single();
+  const { data: existingEmail } = await repositories.users.findByEmail(email);
 
   if (existingEmail) {
     return c.json({ error: { message: "Ce numero de telephone est deja utilise" } }, 400);
   }
 
-  // Hash password using bcrypt (consistent with auth.ts)
-  const defaultPassword = "1234";
-  const hashedPassword = bcrypt.hashSync(defaultPassword, BCRYPT_ROUNDS);
+  // Temporary password, to be changed on first login
+  const temporaryPassword = generateTemporaryPassword();
+  const hashedPassword = hashPassword(temporaryPassword);
 
   // Create agent
-  const { data: agent, error } = await supabase
-    .from('users')
-    .insert({
-      email,
-      password_hash: hashedPassword,
-      name,
-      role: 'ADMIN_DEPARTMENT',
-      department_id: departmentId,
-      phone: cleanPhone,
-      is_active: true,
-    })
-    .select('*, department:departments(id, name, code)')
-    .single();
+  const { data: agent, error } = await repositories.users.create({
+    email,
+    password_hash: hashedPassword,
+    name,
+    role: 'AGENT',
+    department_id: departmentId,
+    phone: cleanPhone,
+    is_active: true,
+    must_change_password: true,
+  });
 
-  if (error) {
+  if (error || !agent) {
     console.error('Error creating agent:', error);
     return c.json({ error: { message: "Erreur lors de la creation de l'agent" } }, 500);
   }
 
+  await recordPasswordHistory(agent.id, hashedPassword);
+  await recordAudit(c, { action: "CREATE", entityType: "USER", entityId: agent.id, after: agent });
+
   return c.json({
     data: {
       id: agent.id,
@@ -262,87 +165,75 @@ agentsRouter.post("/", requireAgentManager, async (c) => {
       department: agent.department,
       createdAt: agent.created_at,
       updatedAt: agent.updated_at,
+      temporaryPassword,
     }
   }, 201);
 });
 
 // DELETE /api/agents/:id
 agentsRouter.delete("/:id", requireAgentManager, async (c) => {
-  const user = getAuthUser(c);
   const { id } = c.req.param();
 
-  const { data: agent } = await supabase
-    .from('users')
-    .select('id, role, department_id')
-    .eq('id', id)
-    .single();
+  const { data: agent } = await repositories.users.findById(id);
 
   if (!agent) {
     return c.json({ error: { message: "Agent non trouve" } }, 404);
   }
 
-  if (agent.role !== "ADMIN_DEPARTMENT") {
+  if (agent.role !== "AGENT") {
     return c.json({ error: { message: "Cet utilisateur n'est pas un agent" } }, 400);
   }
 
-  const isHighLevel = ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
-  if (!isHighLevel && user.departmentId !== agent.department_id) {
+  if (!inDepartmentScope(c, agent.department_id)) {
     return c.json({ error: { message: "Vous ne pouvez pas supprimer cet agent" } }, 403);
   }
 
   // Delete sessions first
-  await supabase.from('sessions').delete().eq('user_id', id);
+  await repositories.sessions.deleteByUserId(id);
 
   // Delete agent
-  const { error } = await supabase.from('users').delete().eq('id', id);
+  const { error } = await repositories.users.delete(id);
 
   if (error) {
     console.error('Error deleting agent:', error);
     return c.json({ error: { message: "Erreur lors de la suppression" } }, 500);
   }
 
+  await recordAudit(c, { action: "DELETE", entityType: "USER", entityId: id, before: agent });
+
   return c.json({ data: { success: true } });
 });
 
 // PATCH /api/agents/:id/toggle-active
 agentsRouter.patch("/:id/toggle-active", requireAgentManager, async (c) => {
-  const user = getAuthUser(c);
   const { id } = c.req.param();
 
-  const { data: agent } = await supabase
-    .from('users')
-    .select('id, role, department_id, is_active')
-    .eq('id', id)
-    .single();
+  const { data: agent } = await repositories.users.findById(id);
 
   if (!agent) {
     return c.json({ error: { message: "Agent non trouve" } }, 404);
   }
 
-  if (agent.role !== "ADMIN_DEPARTMENT") {
+  if (agent.role !== "AGENT") {
     return c.json({ error: { message: "Cet utilisateur n'est pas un agent" } }, 400);
   }
 
-  const isHighLevel = ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
-  if (!isHighLevel && user.departmentId !== agent.department_id) {
+  if (!inDepartmentScope(c, agent.department_id)) {
     return c.json({ error: { message: "Vous ne pouvez pas modifier cet agent" } }, 403);
   }
 
-  const { data: updatedAgent, error } = await supabase
-    .from('users')
-    .update({ is_active: !agent.is_active })
-    .eq('id', id)
-    .select('*, department:departments(id, name, code)')
-    .single();
+  const { data: updatedAgent, error } = await repositories.users.update(id, { is_active: !agent.is_active });
 
-  if (error) {
+  if (error || !updatedAgent) {
     console.error('Error updating agent:', error);
     return c.json({ error: { message: "Erreur lors de la modification" } }, 500);
   }
 
+  await recordAudit(c, { action: "UPDATE", entityType: "USER", entityId: id, before: agent, after: updatedAgent });
+
   // If deactivating, invalidate sessions
   if (!updatedAgent.is_active) {
-    await supabase.from('sessions').delete().eq('user_id', id);
+    await repositories.sessions.deleteByUserId(id);
   }
 
   return c.json({
@@ -363,46 +254,141 @@ agentsRouter.patch("/:id/toggle-active", requireAgentManager, async (c) => {
 
 // PATCH /api/agents/:id/reset-password
 agentsRouter.patch("/:id/reset-password", requireAgentManager, async (c) => {
-  const user = getAuthUser(c);
   const { id } = c.req.param();
 
-  const { data: agent } = await supabase
-    .from('users')
-    .select('id, role, department_id')
-    .eq('id', id)
-    .single();
+  const { data: agent } = await repositories.users.findById(id);
 
   if (!agent) {
     return c.json({ error: { message: "Agent non trouve" } }, 404);
   }
 
-  if (agent.role !== "ADMIN_DEPARTMENT") {
+  if (agent.role !== "AGENT") {
     return c.json({ error: { message: "Cet utilisateur n'est pas un agent" } }, 400);
   }
 
-  const isHighLevel = ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
-  if (!isHighLevel && user.departmentId !== agent.department_id) {
+  if (!inDepartmentScope(c, agent.department_id)) {
     return c.json({ error: { message: "Vous ne pouvez pas modifier cet agent" } }, 403);
   }
 
-  // Hash password using bcrypt (consistent with auth.ts)
-  const defaultPassword = "1234";
-  const hashedPassword = bcrypt.hashSync(defaultPassword, BCRYPT_ROUNDS);
+  const body = await c.req.json().catch(() => ({}));
+  const validation = ResetAgentPasswordSchema.safeParse(body);
+
+  if (!validation.success) {
+    return c.json({ error: { message: validation.error.issues[0]?.message || "Donnees invalides" } }, 400);
+  }
+
+  const { password } = validation.data;
 
-  const { error } = await supabase
-    .from('users')
-    .update({
-      password_hash: hashedPassword,
-    })
-    .eq('id', id);
+  if (password) {
+    const rejected = await validateNewPassword(password, agent);
+    if (rejected) {
+      return c.json({ error: { message: rejected, code: "WEAK_PASSWORD" } }, 400);
+    }
+  }
 
-  if (error) {
+  const newPassword = password ?? generateTemporaryPassword();
+  const hashedPassword = hashPassword(newPassword);
+
+  // Resetting the password also lifts any login lockout; the agent must pick
+  // their own password at the next login
+  const { data: updatedAgent, error } = await repositories.users.update(id, {
+    password_hash: hashedPassword,
+    password_changed_at: new Date().toISOString(),
+    must_change_password: true,
+    failed_login_attempts: 0,
+    locked_until: null,
+  });
+
+  if (error || !updatedAgent) {
     console.error('Error resetting password:', error);
     return c.json({ error: { message: "Erreur lors de la reinitialisation" } }, 500);
   }
 
+  await recordPasswordHistory(id, hashedPassword);
+  await recordAudit(c, { action: "UPDATE", entityType: "USER", entityId: id, before: agent, after: updatedAgent });
+
   // Invalidate all sessions
-  await supabase.from('sessions').delete().eq('user_id', id);
+  await repositories.sessions.deleteByUserId(id);
+
+  return c.json({
+    data: {
+      success: true,
+      message: "Mot de passe reinitialise",
+      ...(password ? {} : { temporaryPassword: newPassword }),
+    },
+  });
+});
+
+// GET /api/agents/:id/projects - Projects assigned to an agent
+agentsRouter.get("/:id/projects", requireAgentManager, async (c) => {
+  const { id } = c.req.param();
+
+  const { data: agent } = await repositories.users.findById(id);
+
+  if (!agent) {
+    return c.json({ error: { message: "Agent non trouve" } }, 404);
+  }
+
+  if (!inDepartmentScope(c, agent.department_id)) {
+    return c.json({ error: { message: "Vous ne pouvez pas consulter cet agent" } }, 403);
+  }
+
+  const { data: assignments, error } = await repositories.projectAssignments.listByUser(id);
+
+  if (error) {
+    console.error('Error fetching assignments:', error);
+    return c.json({ error: { message: "Erreur lors du chargement des projets" } }, 500);
+  }
+
+  return c.json({ data: (assignments || []).map(formatAssignment) });
+});
+
+// PUT /api/agents/:id/projects - Replace the projects assigned to an agent
+agentsRouter.put("/:id/projects", requireAgentManager, async (c) => {
+  const user = c.get("user");
+  const { id } = c.req.param();
+  const body = await c.req.json();
+  const validation = AssignAgentProjectsSchema.safeParse(body);
+
+  if (!validation.success) {
+    return c.json({ error: { message: validation.error.issues[0]?.message || "Donnees invalides" } }, 400);
+  }
+
+  const { data: agent } = await repositories.users.findById(id);
+
+  if (!agent) {
+    return c.json({ error: { message: "Agent non trouve" } }, 404);
+  }
+
+  if (agent.role !== "AGENT") {
+    return c.json({ error: { message: "Cet utilisateur n'est pas un agent" } }, 400);
+  }
+
+  if (!inDepartmentScope(c, agent.department_id)) {
+    return c.json({ error: { message: "Vous ne pouvez pas modifier cet agent" } }, 403);
+  }
+
+  // Agents are only assigned to projects of their own department
+  const projectIds = [...new Set(validation.data.projectIds)];
+  for (const projectId of projectIds) {
+    const { data: project } = await repositories.projects.findById(projectId);
+
+    if (!project) {
+      return c.json({ error: { message: "Projet non trouve" } }, 400);
+    }
+    if (project.department_id !== agent.department_id) {
+      return c.json({ error: { message: "Ce projet n'appartient pas au departement de l'agent" } }, 400);
+    }
+  }
+
+  const { error } = await repositories.projectAssignments.replaceForUser(id, projectIds, user.id);
+
+  if (error) {
+    console.error('Error saving assignments:', error);
+    return c.json({ error: { message: "Erreur lors de l'affectation des projets" } }, 500);
+  }
+
+  const { data: assignments } = await repositories.projectAssignments.listByUser(id);
 
-  return c.json({ data: { success: true, message: "Mot de passe reinitialise a 1234" } });
+  return c.json({ data: (assignments || []).map(formatAssignment) });
 });
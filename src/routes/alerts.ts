@@ -1,11 +1,11 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { supabase } from "../supabase";
+import { repositories } from "../repositories";
 import { CreateAlertSchema, type AlertWithRelations } from "../types";
-import { getAuthUser } from "./auth";
+import { inDepartmentScope, requireAuth, requirePermission, type AuthEnv } from "../middleware/auth";
 
-const alertsRouter = new Hono();
+const alertsRouter = new Hono<AuthEnv>();
 
 function formatAlert(a: any): AlertWithRelations {
   return {
@@ -36,6 +36,7 @@ function formatAlert(a: any): AlertWithRelations {
 // GET /api/alerts
 alertsRouter.get(
   "/",
+  requireAuth,
   zValidator(
     "query",
     z.object({
@@ -45,39 +46,14 @@ alertsRouter.get(
     })
   ),
   async (c) => {
-    const user = await getAuthUser(c);
-
-    if (!user) {
-      return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-    }
-
     const { departmentId, type, isRead } = c.req.valid("query");
 
-    let query = supabase
-      .from('alerts')
-      .select(`
-        *,
-        from_user:users!alerts_from_user_id_fkey(id, name, email),
-        to_department:departments(id, name, code)
-      `)
-      .order('created_at', { ascending: false });
-
-    // Filter by department if admin_department
-    if (user.role === "ADMIN_DEPARTMENT" && user.departmentId) {
-      query = query.or(`to_department_id.eq.${user.departmentId},to_department_id.is.null`);
-    } else if (departmentId) {
-      query = query.or(`to_department_id.eq.${departmentId},to_department_id.is.null`);
-    }
-
-    if (type) {
-      query = query.eq('type', type);
-    }
-
-    if (isRead !== undefined) {
-      query = query.eq('is_read', isRead === "true");
-    }
-
-    const { data: alerts, error } = await query;
+    const { data: alerts, error } = await repositories.alerts.list({
+      // Department-bound users only see their own department's alerts
+      departmentScope: c.get("departmentScope") ?? departmentId,
+      type,
+      isRead: isRead !== undefined ? isRead === "true" : undefined,
+    });
 
     if (error) {
       console.error('Error fetching alerts:', error);
@@ -90,49 +66,28 @@ alertsRouter.get(
   }
 );
 
-// POST /api/alerts
-alertsRouter.post("/", zValidator("json", CreateAlertSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
-  // Only certain roles can send alerts
-  if (!["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role)) {
-    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
-  }
+// POST /api/alerts (only certain roles can send alerts)
+alertsRouter.post("/", requirePermission("alert:send"), zValidator("json", CreateAlertSchema), async (c) => {
+  const user = c.get("user");
 
   const body = c.req.valid("json");
 
   // Validate department if specified
   if (body.toDepartmentId) {
-    const { data: dept, error } = await supabase
-      .from('departments')
-      .select('id')
-      .eq('id', body.toDepartmentId)
-      .single();
+    const { data: dept, error } = await repositories.departments.findById(body.toDepartmentId);
     if (error || !dept) {
       return c.json({ error: { message: "Departement non trouve", code: "INVALID_DEPARTMENT" } }, 400);
     }
   }
 
-  const { data: alert, error } = await supabase
-    .from('alerts')
-    .insert({
-      title: body.title,
-      message: body.message,
-      from_user_id: user.id,
-      to_department_id: body.toDepartmentId || null,
-      type: body.type ?? "REMINDER",
-      is_read: false,
-    })
-    .select(`
-      *,
-      from_user:users!alerts_from_user_id_fkey(id, name, email),
-      to_department:departments(id, name, code)
-    `)
-    .single();
+  const { data: alert, error } = await repositories.alerts.create({
+    title: body.title,
+    message: body.message,
+    from_user_id: user.id,
+    to_department_id: body.toDepartmentId || null,
+    type: body.type ?? "REMINDER",
+    is_read: false,
+  });
 
   if (error) {
     console.error('Error creating alert:', error);
@@ -143,47 +98,24 @@ alertsRouter.post("/", zValidator("json", CreateAlertSchema), async (c) => {
 });
 
 // PUT /api/alerts/:id/read
-alertsRouter.put("/:id/read", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
+alertsRouter.put("/:id/read", requireAuth, async (c) => {
   const { id } = c.req.param();
 
-  const { data: alert, error: fetchError } = await supabase
-    .from('alerts')
-    .select('*')
-    .eq('id', id)
-    .single();
+  const { data: alert, error: fetchError } = await repositories.alerts.findById(id);
 
   if (fetchError || !alert) {
     return c.json({ error: { message: "Alerte non trouvee", code: "NOT_FOUND" } }, 404);
   }
 
   // Check if user can mark this alert as read
-  if (
-    user.role === "ADMIN_DEPARTMENT" &&
-    alert.to_department_id !== null &&
-    alert.to_department_id !== user.departmentId
-  ) {
+  if (alert.to_department_id !== null && !inDepartmentScope(c, alert.to_department_id)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  const { data: updatedAlert, error } = await supabase
-    .from('alerts')
-    .update({
-      is_read: true,
-      read_at: new Date().toISOString(),
-    })
-    .eq('id', id)
-    .select(`
-      *,
-      from_user:users!alerts_from_user_id_fkey(id, name, email),
-      to_department:departments(id, name, code)
-    `)
-    .single();
+  const { data: updatedAlert, error } = await repositories.alerts.update(id, {
+    is_read: true,
+    read_at: new Date().toISOString(),
+  });
 
   if (error) {
     console.error('Error updating alert:', error);
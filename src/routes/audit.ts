@@ -0,0 +1,68 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { repositories } from "../repositories";
+import { requirePermission, type AuthEnv } from "../middleware/auth";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from "../audit";
+
+export const auditRouter = new Hono<AuthEnv>();
+
+const AuditQuerySchema = z.object({
+  actorId: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  since: z.string().datetime({ message: "Date invalide" }).optional(),
+  until: z.string().datetime({ message: "Date invalide" }).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(100),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+function parseChanges(value: string) {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+// GET /api/audit - Search the audit trail (Super admin and presidency)
+auditRouter.get("/", requirePermission("audit:read"), async (c) => {
+  const validation = AuditQuerySchema.safeParse(c.req.query());
+
+  if (!validation.success) {
+    return c.json({ error: { message: validation.error.issues[0]?.message || "Parametres invalides" } }, 400);
+  }
+
+  const filters = validation.data;
+
+  const [entriesRes, countRes] = await Promise.all([
+    repositories.auditLogs.list(filters),
+    repositories.auditLogs.count(filters),
+  ]);
+
+  if (entriesRes.error || countRes.error) {
+    console.error("Error fetching audit log:", entriesRes.error ?? countRes.error);
+    return c.json({ error: { message: "Erreur lors de la recuperation du journal d'audit" } }, 500);
+  }
+
+  return c.json({
+    data: (entriesRes.data || []).map((e) => ({
+      id: e.id,
+      action: e.action,
+      entityType: e.entity_type,
+      entityId: e.entity_id,
+      changes: parseChanges(e.changes),
+      actorId: e.actor_id,
+      actorName: e.actor?.name ?? e.actor_name,
+      actor: e.actor,
+      onBehalfOf: e.on_behalf_of_id ? { id: e.on_behalf_of_id, name: e.on_behalf_of_name } : null,
+      ipAddress: e.ip_address,
+      createdAt: e.created_at,
+    })),
+    pagination: {
+      total: countRes.data ?? 0,
+      limit: filters.limit,
+      offset: filters.offset,
+    },
+  });
+});
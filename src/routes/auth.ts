@@ -1,48 +1,285 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { supabase } from "../supabase";
+import { repositories, type SessionRow, type UserRow, type UserWithDepartmentRow } from "../repositories";
 import { LoginRequestSchema, type UserWithDepartment } from "../types";
-import { randomBytes } from "crypto";
+import { randomBytes, randomInt } from "crypto";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
-
-const authRouter = new Hono();
-
-const BCRYPT_ROUNDS = 10;
-
-// Secure password hashing using bcrypt
-function hashPassword(password: string): string {
-  return bcrypt.hashSync(password, BCRYPT_ROUNDS);
-}
-
-// Verify password against hash (supports both bcrypt and legacy SHA-256)
-function verifyPassword(password: string, hash: string): boolean {
-  // Check if it's a bcrypt hash (starts with $2a$, $2b$, or $2y$)
-  if (hash.startsWith("$2")) {
-    return bcrypt.compareSync(password, hash);
-  }
-  // Legacy SHA-256 support for existing users - migrate them on next login
-  const crypto = require("crypto");
-  const sha256Hash = crypto.createHash("sha256").update(password).digest("hex");
-  return sha256Hash === hash;
-}
+import { formatAuthUser, getBearerToken, getClientIp, requireAuth, type AuthEnv } from "../middleware/auth";
+import { normalizeMaliPhoneNumber, sendSMS } from "./sms";
+import {
+  getPasswordPolicy,
+  hashPassword,
+  isPasswordExpired,
+  recordPasswordHistory,
+  validateNewPassword,
+  verifyPassword,
+} from "../passwords";
+
+const authRouter = new Hono<AuthEnv>();
 
 // Migrate legacy password hash to bcrypt
 async function migratePasswordIfNeeded(userId: string, password: string, currentHash: string): Promise<void> {
   // Only migrate if it's not already bcrypt
   if (!currentHash.startsWith("$2")) {
     const newHash = hashPassword(password);
-    await supabase
-      .from('users')
-      .update({ password_hash: newHash })
-      .eq('id', userId);
+    await repositories.users.update(userId, { password_hash: newHash });
   }
 }
 
+// Set by an admin or because the password is past PASSWORD_MAX_AGE_DAYS
+function mustChangePassword(user: UserRow): boolean {
+  return user.must_change_password || isPasswordExpired(user);
+}
+
+function weakPassword(c: Context, message: string) {
+  return c.json({ error: { message, code: "WEAK_PASSWORD" } }, 400);
+}
+
 function generateToken(): string {
   return randomBytes(32).toString("hex");
 }
 
+// Session lifetimes. The refresh window slides forward on every refresh, so a
+// session only ends after REFRESH_TOKEN_TTL_MS of inactivity or at SESSION_MAX_AGE_MS.
+const ACCESS_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+type SessionTokens = {
+  token: string;
+  refreshToken: string;
+  expiresAt: string;
+  refreshExpiresAt: string;
+};
+
+function newSessionTokens(): SessionTokens {
+  return {
+    token: generateToken(),
+    refreshToken: generateToken(),
+    expiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_MS).toISOString(),
+    refreshExpiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString(),
+  };
+}
+
+// Opens a session for the user, remembering where it was opened from
+async function createSession(c: Context, userId: string): Promise<SessionTokens> {
+  const tokens = newSessionTokens();
+
+  await repositories.sessions.create({
+    user_id: userId,
+    token: tokens.token,
+    expires_at: tokens.expiresAt,
+    refresh_token: tokens.refreshToken,
+    refresh_expires_at: tokens.refreshExpiresAt,
+    ip_address: getClientIp(c),
+    user_agent: c.req.header("User-Agent") ?? null,
+  });
+
+  return tokens;
+}
+
+function formatSession(session: SessionRow, currentSessionId: string | null) {
+  return {
+    id: session.id,
+    ipAddress: session.ip_address,
+    userAgent: session.user_agent,
+    createdAt: session.created_at,
+    lastUsedAt: session.last_used_at,
+    expiresAt: session.expires_at,
+    refreshExpiresAt: session.refresh_expires_at,
+    current: session.id === currentSessionId,
+  };
+}
+
+// Brute-force protection for the login routes
+const MAX_ACCOUNT_FAILURES = 5; // Consecutive failures before the account is locked
+const BASE_LOCKOUT_MS = 15 * 60 * 1000; // Doubled for every failure past the threshold
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+const IP_WINDOW_MS = 15 * 60 * 1000;
+const MAX_IP_FAILURES = 20; // Failed attempts per IP within the window
+const MAX_FAILURE_DELAY_MS = 8000;
+
+type LoginFailureReason = "INVALID_PASSWORD" | "UNKNOWN_ACCOUNT" | "ACCOUNT_LOCKED" | "INVALID_OTP";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// No delay on the first failure, then 0.5s, 1s, 2s... up to the cap
+function failureDelay(failures: number): number {
+  return failures < 2 ? 0 : Math.min(500 * 2 ** (failures - 2), MAX_FAILURE_DELAY_MS);
+}
+
+function lockoutDuration(failures: number): number {
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failures - MAX_ACCOUNT_FAILURES), MAX_LOCKOUT_MS);
+}
+
+// Returns a 429 response when the IP has too many recent failures
+async function checkIpThrottle(c: Context, ip: string): Promise<{ response: Response | null; failures: number }> {
+  const since = new Date(Date.now() - IP_WINDOW_MS).toISOString();
+  const { data: failures } = await repositories.loginAttempts.count({ ipAddress: ip, since });
+
+  if ((failures ?? 0) >= MAX_IP_FAILURES) {
+    c.header("Retry-After", String(Math.ceil(IP_WINDOW_MS / 1000)));
+    return {
+      response: c.json({ error: { message: "Trop de tentatives de connexion. Reessayez plus tard.", code: "TOO_MANY_ATTEMPTS" } }, 429),
+      failures: failures ?? 0,
+    };
+  }
+
+  return { response: null, failures: failures ?? 0 };
+}
+
+// Returns a 423 response while the account is locked
+function checkAccountLock(c: Context, user: UserRow): Response | null {
+  if (!user.locked_until) return null;
+
+  const remainingMs = new Date(user.locked_until).getTime() - Date.now();
+  if (remainingMs <= 0) return null;
+
+  const minutes = Math.ceil(remainingMs / 60000);
+  c.header("Retry-After", String(Math.ceil(remainingMs / 1000)));
+  return c.json({
+    error: {
+      message: `Compte temporairement verrouille apres plusieurs echecs de connexion. Reessayez dans ${minutes} minute(s) ou contactez l'administrateur.`,
+      code: "ACCOUNT_LOCKED",
+    },
+  }, 423);
+}
+
+// Records the failure, bumps the account counter (locking it past the
+// threshold) and slows the response down as failures accumulate
+async function recordLoginFailure(
+  ip: string,
+  identifier: string,
+  user: UserRow | null,
+  reason: LoginFailureReason,
+  ipFailures: number
+): Promise<void> {
+  await repositories.loginAttempts.create({
+    identifier,
+    user_id: user?.id ?? null,
+    ip_address: ip,
+    reason,
+  });
+
+  let failures = ipFailures + 1;
+
+  if (user && reason === "INVALID_PASSWORD") {
+    // Counted in the database so parallel attempts all add up
+    const { data: accountFailures } = await repositories.users.incrementFailedLogins(user.id);
+    if (accountFailures !== null) {
+      if (accountFailures >= MAX_ACCOUNT_FAILURES) {
+        await repositories.users.update(user.id, {
+          locked_until: new Date(Date.now() + lockoutDuration(accountFailures)).toISOString(),
+        });
+      }
+      failures = Math.max(failures, accountFailures);
+    }
+  }
+
+  await sleep(failureDelay(failures));
+}
+
+async function clearLoginFailures(user: UserRow): Promise<void> {
+  if (user.failed_login_attempts > 0 || user.locked_until) {
+    await repositories.users.update(user.id, { failed_login_attempts: 0, locked_until: null });
+  }
+}
+
+// One-time SMS codes
+const OTP_LENGTH = 6;
+const OTP_TTL_MS = 10 * 60 * 1000;
+const OTP_MAX_ATTEMPTS = 5; // Wrong guesses before the code is burnt
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000;
+const OTP_MAX_PER_HOUR = 5;
+
+type OtpPurpose = "LOGIN" | "PASSWORD_RESET";
+
+function generateOtp(): string {
+  return String(randomInt(0, 10 ** OTP_LENGTH)).padStart(OTP_LENGTH, "0");
+}
+
+// +22376****34
+function maskPhone(phone: string): string {
+  return phone.length <= 8 ? phone : `${phone.slice(0, 6)}****${phone.slice(-2)}`;
+}
+
+function formatOtpMessage(code: string, purpose: OtpPurpose): string {
+  const action = purpose === "LOGIN" ? "de connexion" : "de reinitialisation du mot de passe";
+  const minutes = OTP_TTL_MS / 60000;
+  return `Votre code ${action} est ${code}. Il expire dans ${minutes} minutes. Ne le communiquez a personne.`;
+}
+
+function invalidOtp(c: Context) {
+  return c.json({ error: { message: "Code invalide ou expire", code: "INVALID_CODE" } }, 401);
+}
+
+// Checks the code against the latest one issued for the phone number and
+// consumes it. Every failure counts towards the IP throttle, and a code is
+// burnt after OTP_MAX_ATTEMPTS wrong guesses. A guess is counted before the
+// code is compared, and only when no other guess was counted since the code
+// was read, so parallel requests cannot get more guesses between them.
+async function verifyOtp(
+  c: Context,
+  phone: string,
+  code: string,
+  purpose: OtpPurpose
+): Promise<{ user: UserWithDepartmentRow | null; response: Response | null }> {
+  const ip = getClientIp(c);
+
+  const throttle = await checkIpThrottle(c, ip);
+  if (throttle.response) return { user: null, response: throttle.response };
+
+  const cleanPhone = phone.replace(/[\s\-\(\)]/g, "");
+  const { data: user } = await repositories.users.findByPhone(cleanPhone);
+
+  if (!user) {
+    await recordLoginFailure(ip, cleanPhone, null, "UNKNOWN_ACCOUNT", throttle.failures);
+    return { user: null, response: invalidOtp(c) };
+  }
+
+  const { data: otp } = await repositories.otpCodes.findLatest(user.id, purpose);
+
+  if (
+    !otp ||
+    otp.consumed_at ||
+    otp.attempts >= OTP_MAX_ATTEMPTS ||
+    new Date(otp.expires_at).getTime() < Date.now()
+  ) {
+    await recordLoginFailure(ip, cleanPhone, user, "INVALID_OTP", throttle.failures);
+    return { user: null, response: invalidOtp(c) };
+  }
+
+  const { data: counted } = await repositories.otpCodes.countAttempt(otp.id, otp.attempts);
+
+  if (!counted) {
+    await recordLoginFailure(ip, cleanPhone, user, "INVALID_OTP", throttle.failures);
+    return { user: null, response: invalidOtp(c) };
+  }
+
+  if (!bcrypt.compareSync(code, otp.code_hash)) {
+    await recordLoginFailure(ip, cleanPhone, user, "INVALID_OTP", throttle.failures);
+
+    if (counted.attempts >= OTP_MAX_ATTEMPTS) {
+      return {
+        user: null,
+        response: c.json({ error: { message: "Trop d'essais. Demandez un nouveau code.", code: "OTP_ATTEMPTS_EXCEEDED" } }, 401),
+      };
+    }
+    return { user: null, response: invalidOtp(c) };
+  }
+
+  // A code is only good for one login, even when sent twice at once
+  const { data: consumed } = await repositories.otpCodes.consume(otp.id);
+  if (!consumed) {
+    return { user: null, response: invalidOtp(c) };
+  }
+
+  return { user, response: null };
+}
+
 // Phone login schema
 const PhoneLoginSchema = z.object({
   phone: z.string().min(8, "Numero de telephone invalide"),
@@ -52,23 +289,56 @@ const PhoneLoginSchema = z.object({
 // Change password schema
 const ChangePasswordSchema = z.object({
   currentPassword: z.string().min(4, "Mot de passe actuel requis"),
-  newPassword: z.string().min(6, "Le nouveau mot de passe doit contenir au moins 6 caracteres"),
+  newPassword: z.string().min(1, "Nouveau mot de passe requis"),
+});
+
+const RefreshSchema = z.object({
+  refreshToken: z.string().min(1, "Jeton de renouvellement requis"),
+});
+
+// One-time code schemas
+const OtpRequestSchema = z.object({
+  phone: z.string().min(8, "Numero de telephone invalide"),
+  purpose: z.enum(["LOGIN", "PASSWORD_RESET"]).optional().default("LOGIN"),
+});
+
+const OtpVerifySchema = z.object({
+  phone: z.string().min(8, "Numero de telephone invalide"),
+  code: z.string().regex(/^\d{6}$/, "Code invalide"),
+});
+
+const OtpResetPasswordSchema = OtpVerifySchema.extend({
+  newPassword: z.string().min(1, "Nouveau mot de passe requis"),
 });
 
 // POST /api/auth/login
 authRouter.post("/login", zValidator("json", LoginRequestSchema), async (c) => {
   const { email, password } = c.req.valid("json");
+  const ip = getClientIp(c);
 
-  const { data: user, error } = await supabase
-    .from('users')
-    .select('*, department:departments(id, name, code)')
-    .eq('email', email)
-    .single();
+  const throttle = await checkIpThrottle(c, ip);
+  if (throttle.response) return throttle.response;
 
-  if (error || !user || !verifyPassword(password, user.password_hash)) {
+  const { data: user, error } = await repositories.users.findByEmail(email);
+
+  if (error || !user) {
+    await recordLoginFailure(ip, email, null, "UNKNOWN_ACCOUNT", throttle.failures);
     return c.json({ error: { message: "Email ou mot de passe incorrect", code: "INVALID_CREDENTIALS" } }, 401);
   }
 
+  const locked = checkAccountLock(c, user);
+  if (locked) {
+    await recordLoginFailure(ip, email, user, "ACCOUNT_LOCKED", throttle.failures);
+    return locked;
+  }
+
+  if (!verifyPassword(password, user.password_hash)) {
+    await recordLoginFailure(ip, email, user, "INVALID_PASSWORD", throttle.failures);
+    return c.json({ error: { message: "Email ou mot de passe incorrect", code: "INVALID_CREDENTIALS" } }, 401);
+  }
+
+  await clearLoginFailures(user);
+
   // Migrate legacy SHA-256 hash to bcrypt if needed
   await migratePasswordIfNeeded(user.id, password, user.password_hash);
 
@@ -78,39 +348,17 @@ authRouter.post("/login", zValidator("json", LoginRequestSchema), async (c) => {
   }
 
   // Create session
-  const token = generateToken();
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-  await supabase
-    .from('sessions')
-    .insert({
-      user_id: user.id,
-      token,
-      expires_at: expiresAt.toISOString(),
-    });
+  const session = await createSession(c, user.id);
 
   const userData: UserWithDepartment & { mustChangePassword?: boolean } = {
-    id: user.id,
-    email: user.email,
-    name: user.name,
-    role: user.role as UserWithDepartment["role"],
-    departmentId: user.department_id,
-    isActive: user.is_active,
-    phone: user.phone,
-    mustChangePassword: user.must_change_password,
-    department: user.department ? {
-      id: user.department.id,
-      name: user.department.name,
-      code: user.department.code,
-    } : null,
-    createdAt: user.created_at,
-    updatedAt: user.updated_at,
+    ...formatAuthUser(user),
+    mustChangePassword: mustChangePassword(user),
   };
 
   return c.json({
     data: {
       user: userData,
-      token,
+      ...session,
     },
   });
 });
@@ -118,27 +366,37 @@ authRouter.post("/login", zValidator("json", LoginRequestSchema), async (c) => {
 // POST /api/auth/login-phone - Login with phone number
 authRouter.post("/login-phone", zValidator("json", PhoneLoginSchema), async (c) => {
   const { phone, password } = c.req.valid("json");
+  const ip = getClientIp(c);
+
+  const throttle = await checkIpThrottle(c, ip);
+  if (throttle.response) return throttle.response;
 
   // Clean phone number
   const cleanPhone = phone.replace(/[\s\-\(\)]/g, "");
 
-  const { data: user, error } = await supabase
-    .from('users')
-    .select('*, department:departments(id, name, code)')
-    .eq('phone', cleanPhone)
-    .single();
+  const { data: user, error } = await repositories.users.findByPhone(cleanPhone);
 
   if (error || !user) {
+    await recordLoginFailure(ip, cleanPhone, null, "UNKNOWN_ACCOUNT", throttle.failures);
     return c.json({ error: { message: "Numero de telephone non trouve", code: "INVALID_CREDENTIALS" } }, 401);
   }
 
+  const locked = checkAccountLock(c, user);
+  if (locked) {
+    await recordLoginFailure(ip, cleanPhone, user, "ACCOUNT_LOCKED", throttle.failures);
+    return locked;
+  }
+
   // Verify password using secure comparison (supports bcrypt and legacy SHA-256)
   const passwordValid = verifyPassword(password, user.password_hash);
 
   if (!passwordValid) {
+    await recordLoginFailure(ip, cleanPhone, user, "INVALID_PASSWORD", throttle.failures);
     return c.json({ error: { message: "Mot de passe incorrect", code: "INVALID_CREDENTIALS" } }, 401);
   }
 
+  await clearLoginFailures(user);
+
   // Migrate legacy SHA-256 hash to bcrypt if needed
   await migratePasswordIfNeeded(user.id, password, user.password_hash);
 
@@ -148,61 +406,161 @@ authRouter.post("/login-phone", zValidator("json", PhoneLoginSchema), async (c)
   }
 
   // Create session
-  const token = generateToken();
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-  await supabase
-    .from('sessions')
-    .insert({
-      user_id: user.id,
-      token,
-      expires_at: expiresAt.toISOString(),
-    });
+  const session = await createSession(c, user.id);
 
   const userData: UserWithDepartment & { mustChangePassword?: boolean } = {
-    id: user.id,
-    email: user.email,
-    name: user.name,
-    role: user.role as UserWithDepartment["role"],
-    departmentId: user.department_id,
-    isActive: user.is_active,
-    phone: user.phone,
-    mustChangePassword: user.must_change_password,
-    department: user.department ? {
-      id: user.department.id,
-      name: user.department.name,
-      code: user.department.code,
-    } : null,
-    createdAt: user.created_at,
-    updatedAt: user.updated_at,
+    ...formatAuthUser(user),
+    mustChangePassword: mustChangePassword(user),
   };
 
   return c.json({
     data: {
       user: userData,
-      token,
-      mustChangePassword: user.must_change_password,
+      ...session,
+      mustChangePassword: mustChangePassword(user),
     },
   });
 });
 
-// POST /api/auth/change-password - Change password
-authRouter.post("/change-password", zValidator("json", ChangePasswordSchema), async (c) => {
-  const { currentPassword, newPassword } = c.req.valid("json");
+// POST /api/auth/otp/request - Send a one-time code by SMS
+authRouter.post("/otp/request", zValidator("json", OtpRequestSchema), async (c) => {
+  const { phone, purpose } = c.req.valid("json");
+  const ip = getClientIp(c);
 
-  // Get current user from token or X-User-Email
-  const user = await getAuthUser(c);
+  const throttle = await checkIpThrottle(c, ip);
+  if (throttle.response) return throttle.response;
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  // Same answer whether or not the number is registered
+  const sent = {
+    data: {
+      success: true,
+      message: "Si ce numero est enregistre, un code vous a ete envoye par SMS",
+      sentTo: maskPhone(normalizeMaliPhoneNumber(phone)),
+      expiresIn: OTP_TTL_MS / 1000,
+    },
+  };
+
+  const cleanPhone = phone.replace(/[\s\-\(\)]/g, "");
+  const { data: user } = await repositories.users.findByPhone(cleanPhone);
+
+  if (!user || !user.phone) {
+    await recordLoginFailure(ip, cleanPhone, null, "UNKNOWN_ACCOUNT", throttle.failures);
+    return c.json(sent);
+  }
+
+  // Inactive accounts get the same answer, so it tells nothing about the number
+  if (!user.is_active) {
+    return c.json(sent);
+  }
+
+  const { data: latest } = await repositories.otpCodes.findLatest(user.id, purpose);
+  const sinceLatestMs = latest ? Date.now() - new Date(latest.created_at).getTime() : Infinity;
+
+  if (sinceLatestMs < OTP_RESEND_COOLDOWN_MS) {
+    c.header("Retry-After", String(Math.ceil((OTP_RESEND_COOLDOWN_MS - sinceLatestMs) / 1000)));
+    return c.json({ error: { message: "Veuillez patienter avant de demander un nouveau code", code: "OTP_COOLDOWN" } }, 429);
+  }
+
+  const { data: sentLastHour } = await repositories.otpCodes.countSince(
+    user.id,
+    new Date(Date.now() - 60 * 60 * 1000).toISOString()
+  );
+
+  if ((sentLastHour ?? 0) >= OTP_MAX_PER_HOUR) {
+    c.header("Retry-After", String(60 * 60));
+    return c.json({ error: { message: "Trop de codes demandes. Reessayez plus tard.", code: "TOO_MANY_ATTEMPTS" } }, 429);
+  }
+
+  const code = generateOtp();
+  const { data: otp, error } = await repositories.otpCodes.create({
+    user_id: user.id,
+    purpose,
+    code_hash: hashPassword(code),
+    expires_at: new Date(Date.now() + OTP_TTL_MS).toISOString(),
+  });
+
+  if (error || !otp) {
+    console.error("Error creating OTP code:", error);
+    return c.json({ error: { message: "Erreur lors de la generation du code" } }, 500);
+  }
+
+  const result = await sendSMS(user.phone, formatOtpMessage(code, purpose));
+
+  if (!result.success) {
+    // A code the user never received must not stay usable
+    await repositories.otpCodes.update(otp.id, { consumed_at: new Date().toISOString() });
+    return c.json({ error: { message: "Impossible d'envoyer le SMS. Reessayez plus tard.", code: "SMS_FAILED" } }, 502);
+  }
+
+  return c.json(sent);
+});
+
+// POST /api/auth/otp/verify - Log in with a one-time code
+authRouter.post("/otp/verify", zValidator("json", OtpVerifySchema), async (c) => {
+  const { phone, code } = c.req.valid("json");
+
+  const { user, response } = await verifyOtp(c, phone, code, "LOGIN");
+  if (response) return response;
+  if (!user) return invalidOtp(c);
+
+  if (!user.is_active) {
+    return c.json({ error: { message: "Votre compte n'est pas encore active. Contactez l'administrateur.", code: "ACCOUNT_INACTIVE" } }, 403);
   }
 
+  // Owning the phone is proof enough to lift a password lockout
+  await clearLoginFailures(user);
+
+  const session = await createSession(c, user.id);
+
+  return c.json({
+    data: {
+      user: { ...formatAuthUser(user), mustChangePassword: mustChangePassword(user) },
+      ...session,
+      mustChangePassword: mustChangePassword(user),
+    },
+  });
+});
+
+// POST /api/auth/otp/reset-password - Set a new password with a one-time code
+authRouter.post("/otp/reset-password", zValidator("json", OtpResetPasswordSchema), async (c) => {
+  const { phone, code, newPassword } = c.req.valid("json");
+
+  const { user, response } = await verifyOtp(c, phone, code, "PASSWORD_RESET");
+  if (response) return response;
+  if (!user) return invalidOtp(c);
+
+  const rejected = await validateNewPassword(newPassword, user);
+  if (rejected) return weakPassword(c, rejected);
+
+  const passwordHash = hashPassword(newPassword);
+  const { error } = await repositories.users.update(user.id, {
+    password_hash: passwordHash,
+    password_changed_at: new Date().toISOString(),
+    must_change_password: false,
+    failed_login_attempts: 0,
+    locked_until: null,
+  });
+
+  if (error) {
+    console.error("Error resetting password:", error);
+    return c.json({ error: { message: "Erreur lors de la reinitialisation" } }, 500);
+  }
+
+  await recordPasswordHistory(user.id, passwordHash);
+
+  // Sessions opened with the old password are closed
+  await repositories.sessions.deleteByUserId(user.id);
+
+  return c.json({ data: { success: true, message: "Mot de passe reinitialise avec succes" } });
+});
+
+// POST /api/auth/change-password - Change password
+authRouter.post("/change-password", requireAuth, zValidator("json", ChangePasswordSchema), async (c) => {
+  const { currentPassword, newPassword } = c.req.valid("json");
+  const user = c.get("user");
+
   // Get user with password hash
-  const { data: userData, error } = await supabase
-    .from('users')
-    .select('*')
-    .eq('id', user.id)
-    .single();
+  const { data: userData, error } = await repositories.users.findById(user.id);
 
   if (error || !userData) {
     return c.json({ error: { message: "Utilisateur non trouve", code: "USER_NOT_FOUND" } }, 404);
@@ -215,153 +573,158 @@ authRouter.post("/change-password", zValidator("json", ChangePasswordSchema), as
     return c.json({ error: { message: "Mot de passe actuel incorrect", code: "INVALID_PASSWORD" } }, 401);
   }
 
+  const rejected = await validateNewPassword(newPassword, userData);
+  if (rejected) return weakPassword(c, rejected);
+
   // Hash new password
   const hashedPassword = hashPassword(newPassword);
 
   // Update password and remove mustChangePassword flag
-  await supabase
-    .from('users')
-    .update({
-      password_hash: hashedPassword,
-      must_change_password: false,
-    })
-    .eq('id', user.id);
+  const { error: updateError } = await repositories.users.update(user.id, {
+    password_hash: hashedPassword,
+    password_changed_at: new Date().toISOString(),
+    must_change_password: false,
+  });
+
+  if (updateError) {
+    console.error("Error changing password:", updateError);
+    return c.json({ error: { message: "Erreur lors du changement de mot de passe" } }, 500);
+  }
+
+  await recordPasswordHistory(user.id, hashedPassword);
 
   return c.json({ data: { success: true, message: "Mot de passe modifie avec succes" } });
 });
 
+// GET /api/auth/password-policy - Rules a new password must follow
+authRouter.get("/password-policy", async (c) => {
+  return c.json({ data: getPasswordPolicy() });
+});
+
+// POST /api/auth/refresh - Exchange a refresh token for new session tokens
+authRouter.post("/refresh", zValidator("json", RefreshSchema), async (c) => {
+  const { refreshToken } = c.req.valid("json");
+
+  const { data: session } = await repositories.sessions.findByRefreshToken(refreshToken);
+
+  const now = Date.now();
+  if (
+    !session ||
+    !session.refresh_expires_at ||
+    new Date(session.refresh_expires_at).getTime() < now ||
+    new Date(session.created_at).getTime() + SESSION_MAX_AGE_MS < now
+  ) {
+    if (session) {
+      await repositories.sessions.delete(session.id);
+    }
+    return c.json({ error: { message: "Session expiree, veuillez vous reconnecter", code: "INVALID_REFRESH_TOKEN" } }, 401);
+  }
+
+  const { data: user } = await repositories.users.findById(session.user_id);
+
+  if (!user || !user.is_active) {
+    await repositories.sessions.delete(session.id);
+    return c.json({ error: { message: "Session expiree, veuillez vous reconnecter", code: "INVALID_REFRESH_TOKEN" } }, 401);
+  }
+
+  // Both tokens are rotated: a refresh token works only once
+  const tokens = newSessionTokens();
+  const { error } = await repositories.sessions.update(session.id, {
+    token: tokens.token,
+    expires_at: tokens.expiresAt,
+    refresh_token: tokens.refreshToken,
+    refresh_expires_at: tokens.refreshExpiresAt,
+    ip_address: getClientIp(c),
+    last_used_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error("Error refreshing session:", error);
+    return c.json({ error: { message: "Erreur lors du renouvellement de la session" } }, 500);
+  }
+
+  return c.json({ data: tokens });
+});
+
 // POST /api/auth/logout
 authRouter.post("/logout", async (c) => {
-  const authHeader = c.req.header("Authorization");
-  const token = authHeader?.replace("Bearer ", "");
+  const token = getBearerToken(c);
 
   if (token) {
-    await supabase
-      .from('sessions')
-      .delete()
-      .eq('token', token);
+    await repositories.sessions.deleteByToken(token);
   }
 
   return c.json({ data: { success: true } });
 });
 
-// GET /api/auth/me
-authRouter.get("/me", async (c) => {
-  const user = await getAuthUser(c);
+// POST /api/auth/logout-all - Log out everywhere, including this device
+authRouter.post("/logout-all", requireAuth, async (c) => {
+  const user = c.get("user");
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  const { error } = await repositories.sessions.deleteByUserId(user.id);
+
+  if (error) {
+    console.error("Error revoking sessions:", error);
+    return c.json({ error: { message: "Erreur lors de la deconnexion" } }, 500);
   }
 
-  return c.json({ data: user });
+  return c.json({ data: { success: true } });
 });
 
-// Helper middleware for protected routes - supports both X-User-Email and Bearer token
-export async function getAuthUser(c: any): Promise<UserWithDepartment | null> {
-  // First check X-User-Email header (for database-only auth from frontend)
-  const userEmail = c.req.header("X-User-Email");
-  if (userEmail) {
-    const { data: user, error } = await supabase
-      .from('users')
-      .select('*, department:departments(id, name, code)')
-      .eq('email', userEmail)
-      .single();
-
-    if (!error && user) {
-      return {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role as UserWithDepartment["role"],
-        departmentId: user.department_id,
-        isActive: user.is_active,
-        phone: user.phone,
-        department: user.department ? {
-          id: user.department.id,
-          name: user.department.name,
-          code: user.department.code,
-        } : null,
-        createdAt: user.created_at,
-        updatedAt: user.updated_at,
-      };
-    }
-  }
+// GET /api/auth/sessions - Devices the user is logged in from
+authRouter.get("/sessions", requireAuth, async (c) => {
+  const user = c.get("user");
 
-  // Fallback to Authorization header with Bearer token
-  const authHeader = c.req.header("Authorization");
-  if (!authHeader?.startsWith("Bearer ")) {
-    return null;
+  const { data: sessions, error } = await repositories.sessions.listActiveByUser(user.id);
+
+  if (error) {
+    console.error("Error fetching sessions:", error);
+    return c.json({ error: { message: "Erreur lors du chargement des sessions" } }, 500);
   }
 
-  const token = authHeader.slice(7);
+  const currentSessionId = c.get("sessionId");
 
-  // First try local session lookup in Supabase
-  const { data: session } = await supabase
-    .from('sessions')
-    .select('*, user:users(*, department:departments(id, name, code))')
-    .eq('token', token)
-    .single();
+  return c.json({ data: (sessions || []).map((s) => formatSession(s, currentSessionId)) });
+});
 
-  if (session && new Date(session.expires_at) >= new Date()) {
-    const user = session.user;
-    return {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role as UserWithDepartment["role"],
-      departmentId: user.department_id,
-      isActive: user.is_active,
-      phone: user.phone,
-      department: user.department ? {
-        id: user.department.id,
-        name: user.department.name,
-        code: user.department.code,
-      } : null,
-      createdAt: user.created_at,
-      updatedAt: user.updated_at,
-    };
+// DELETE /api/auth/sessions/:id - Revoke one of the user's sessions
+authRouter.delete("/sessions/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+  const { id } = c.req.param();
+
+  const { data: session } = await repositories.sessions.findById(id);
+
+  // Other users' sessions are reported as missing
+  if (!session || session.user_id !== user.id) {
+    return c.json({ error: { message: "Session non trouvee", code: "NOT_FOUND" } }, 404);
   }
 
-  // If no local session found, try to decode JWT (Supabase auth tokens)
-  const parts = token.split('.');
-  if (parts.length === 3) {
-    try {
-      const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-      const email = payload.email;
-
-      if (email) {
-        // Find user by email in Supabase
-        const { data: user } = await supabase
-          .from('users')
-          .select('*, department:departments(id, name, code)')
-          .eq('email', email)
-          .single();
-
-        if (user) {
-          return {
-            id: user.id,
-            email: user.email,
-            name: user.name,
-            role: user.role as UserWithDepartment["role"],
-            departmentId: user.department_id,
-            isActive: user.is_active,
-            phone: user.phone,
-            department: user.department ? {
-              id: user.department.id,
-              name: user.department.name,
-              code: user.department.code,
-            } : null,
-            createdAt: user.created_at,
-            updatedAt: user.updated_at,
-          };
-        }
-      }
-    } catch {
-      // JWT decode failed, return null
-    }
+  const { error } = await repositories.sessions.delete(id);
+
+  if (error) {
+    console.error("Error revoking session:", error);
+    return c.json({ error: { message: "Erreur lors de la revocation de la session" } }, 500);
   }
 
-  return null;
-}
+  return c.json({ data: { success: true } });
+});
+
+// GET /api/auth/me
+authRouter.get("/me", requireAuth, async (c) => {
+  return c.json({ data: c.get("user") });
+});
+
+// GET /api/auth/me/permissions - What the caller may do, so the frontend can hide other actions
+authRouter.get("/me/permissions", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  return c.json({
+    data: {
+      role: user.role,
+      departmentId: user.departmentId,
+      permissions: [...c.get("permissions")].sort(),
+    },
+  });
+});
 
-export { authRouter, hashPassword };
+export { authRouter };
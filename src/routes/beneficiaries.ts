@@ -1,142 +1,133 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { createId } from "@paralleldrive/cuid2";
-import { supabase } from "../supabase";
+import { repositories, type BeneficiaryUpdate } from "../repositories";
 import {
   CreateBeneficiarySchema,
+  CreateBeneficiaryQuerySchema,
   UpdateBeneficiarySchema,
-  BeneficiaryFiltersSchema,
-  type BeneficiaryWithRelations,
+  BeneficiaryListQuerySchema,
+  BeneficiaryImportFormSchema,
+  DismissBeneficiaryDuplicateSchema,
+  DuplicateQueueQuerySchema,
+  MergePersonSchema,
+  type BeneficiaryDetail,
+  type BeneficiaryImportReport,
 } from "../types";
-import { getAuthUser } from "./auth";
-
-const beneficiariesRouter = new Hono();
-
-function formatBeneficiary(b: any, region: any, sector: any, project: any): BeneficiaryWithRelations {
-  return {
-    id: b.id,
-    firstName: b.first_name,
-    lastName: b.last_name,
-    gender: b.gender as BeneficiaryWithRelations["gender"],
-    age: b.age,
-    phone: b.phone,
-    regionId: b.region_id,
-    sectorId: b.sector_id,
-    projectId: b.project_id,
-    accompanimentStatus: b.accompaniment_status as BeneficiaryWithRelations["accompanimentStatus"],
-    createdAt: b.created_at,
-    updatedAt: b.updated_at,
-    region: {
-      id: region.id,
-      name: region.name,
-    },
-    sector: {
-      id: sector.id,
-      name: sector.name,
-    },
-    project: {
-      id: project.id,
-      name: project.name,
-    },
-  };
+import { inDepartmentScope, inProjectScope, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
+import { recordAudit, recordAuditMany } from "../audit";
+import { pageOptions, toPage } from "../pagination";
+import { readSpreadsheet } from "../spreadsheets";
+import {
+  IMPORT_SHEET_LIMITS,
+  MAX_IMPORT_FILE_SIZE,
+  findImportDuplicates,
+  importCandidateKeys,
+  prepareImport,
+} from "../beneficiary-import";
+import { candidateKeys, createIdentityIndex, identityKeys } from "../beneficiary-duplicates";
+import { formatBeneficiary, formatPersonMatch, withEnrollments } from "../people";
+import { dismissDuplicate, duplicateQueue, mergePeople } from "./people";
+
+const beneficiariesRouter = new Hono<AuthEnv>();
+
+// People behind the enrollments, in order; null when one is not found
+async function personIdsOf(ids: string[]): Promise<string[] | null> {
+  const found = await Promise.all(ids.map((id) => repositories.beneficiaries.findById(id)));
+  const personIds = found.map(({ data }) => data?.person_id);
+  return personIds.every((id) => id !== undefined) ? (personIds as string[]) : null;
 }
 
 // GET /api/beneficiaries
-beneficiariesRouter.get("/", zValidator("query", BeneficiaryFiltersSchema), async (c) => {
-  const filters = c.req.valid("query");
-
-  let query = supabase.from("beneficiaries").select("*");
-
-  if (filters.regionId) query = query.eq("region_id", filters.regionId);
-  if (filters.sectorId) query = query.eq("sector_id", filters.sectorId);
-  if (filters.projectId) query = query.eq("project_id", filters.projectId);
-  if (filters.gender) query = query.eq("gender", filters.gender);
-  if (filters.accompanimentStatus) query = query.eq("accompaniment_status", filters.accompanimentStatus);
-  if (filters.search) {
-    query = query.or(`first_name.ilike.%${filters.search}%,last_name.ilike.%${filters.search}%,phone.ilike.%${filters.search}%`);
+beneficiariesRouter.get("/", zValidator("query", BeneficiaryListQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+
+  const page = pageOptions(query);
+  if (!page) {
+    return c.json({ error: { message: "Curseur de pagination invalide", code: "INVALID_CURSOR" } }, 400);
+  }
+
+  const [{ data: beneficiaries, error }, { data: total, error: countError }] = await Promise.all([
+    repositories.beneficiaries.list(query, page),
+    repositories.beneficiaries.count(query),
+  ]);
+
+  if (error || countError) {
+    return c.json({ error: { message: (error ?? countError)!.message, code: "DB_ERROR" } }, 500);
   }
 
-  query = query.order("created_at", { ascending: false });
+  const data = (beneficiaries || []).map(formatBeneficiary);
+
+  return c.json(toPage(data, query, total ?? 0));
+});
+
+// Duplicates are handled between people now, see /api/people. These routes are
+// kept for existing clients and answer the same as their /api/people versions.
 
-  const { data: beneficiaries, error } = await query;
+// GET /api/beneficiaries/duplicates - Same as GET /api/people/duplicates
+beneficiariesRouter.get("/duplicates", requirePermission("beneficiary:update"), requireDepartmentScope(), zValidator("query", DuplicateQueueQuerySchema), (c) =>
+  duplicateQueue(c, c.req.valid("query"))
+);
 
-  if (error) {
-    return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+// POST /api/beneficiaries/duplicates/dismiss - Mark the people of two enrollments as distinct
+beneficiariesRouter.post("/duplicates/dismiss", requirePermission("beneficiary:update"), requireDepartmentScope(), zValidator("json", DismissBeneficiaryDuplicateSchema), async (c) => {
+  const personIds = await personIdsOf(c.req.valid("json").beneficiaryIds);
+
+  if (!personIds) {
+    return c.json({ error: { message: "Beneficiaire non trouve", code: "NOT_FOUND" } }, 404);
+  }
+  if (personIds[0] === personIds[1]) {
+    return c.json({ error: { message: "Ces beneficiaires sont deja la meme personne", code: "ALREADY_MERGED" } }, 409);
   }
 
-  // Fetch related regions, sectors, and projects
-  const regionIds = [...new Set(beneficiaries.map((b: any) => b.region_id))];
-  const sectorIds = [...new Set(beneficiaries.map((b: any) => b.sector_id))];
-  const projectIds = [...new Set(beneficiaries.map((b: any) => b.project_id))];
+  return dismissDuplicate(c, personIds as [string, string]);
+});
 
-  const [regionsRes, sectorsRes, projectsRes] = await Promise.all([
-    supabase.from("regions").select("id, name").in("id", regionIds),
-    supabase.from("sectors").select("id, name").in("id", sectorIds),
-    supabase.from("projects").select("id, name").in("id", projectIds),
-  ]);
+// POST /api/beneficiaries/:id/merge - Merge the person of duplicateId into the person of :id
+beneficiariesRouter.post("/:id/merge", requirePermission("beneficiary:update"), requireDepartmentScope(), zValidator("json", MergePersonSchema), async (c) => {
+  const personIds = await personIdsOf([c.req.param("id"), c.req.valid("json").duplicateId]);
 
-  const regionsMap = new Map((regionsRes.data || []).map((r: any) => [r.id, r]));
-  const sectorsMap = new Map((sectorsRes.data || []).map((s: any) => [s.id, s]));
-  const projectsMap = new Map((projectsRes.data || []).map((p: any) => [p.id, p]));
-
-  const data = beneficiaries.map((b: any) =>
-    formatBeneficiary(
-      b,
-      regionsMap.get(b.region_id) || { id: b.region_id, name: "" },
-      sectorsMap.get(b.sector_id) || { id: b.sector_id, name: "" },
-      projectsMap.get(b.project_id) || { id: b.project_id, name: "" }
-    )
-  );
+  if (!personIds) {
+    return c.json({ error: { message: "Beneficiaire non trouve", code: "NOT_FOUND" } }, 404);
+  }
 
-  return c.json({ data });
+  return mergePeople(c, personIds[0]!, personIds[1]!);
 });
 
-// GET /api/beneficiaries/:id
+// GET /api/beneficiaries/:id - The enrollment with the person and all their enrollments
 beneficiariesRouter.get("/:id", async (c) => {
   const { id } = c.req.param();
 
-  const { data: beneficiary, error } = await supabase
-    .from("beneficiaries")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: beneficiary, error } = await repositories.beneficiaries.findById(id);
 
   if (error || !beneficiary) {
     return c.json({ error: { message: "Beneficiaire non trouve", code: "NOT_FOUND" } }, 404);
   }
 
-  // Fetch related data
-  const [regionRes, sectorRes, projectRes] = await Promise.all([
-    supabase.from("regions").select("id, name").eq("id", beneficiary.region_id).single(),
-    supabase.from("sectors").select("id, name").eq("id", beneficiary.sector_id).single(),
-    supabase.from("projects").select("id, name").eq("id", beneficiary.project_id).single(),
-  ]);
-
-  return c.json({
-    data: formatBeneficiary(
-      beneficiary,
-      regionRes.data || { id: beneficiary.region_id, name: "" },
-      sectorRes.data || { id: beneficiary.sector_id, name: "" },
-      projectRes.data || { id: beneficiary.project_id, name: "" }
-    ),
-  });
-});
+  const { data: person } = await repositories.people.findById(beneficiary.person_id);
+  const detail = person ? await withEnrollments(person) : null;
+  if (!detail) {
+    return c.json({ error: { message: "Erreur lors du chargement des inscriptions", code: "DB_ERROR" } }, 500);
+  }
 
-// POST /api/beneficiaries
-beneficiariesRouter.post("/", zValidator("json", CreateBeneficiarySchema), async (c) => {
-  const user = await getAuthUser(c);
+  const data: BeneficiaryDetail = { ...formatBeneficiary(beneficiary), person: detail };
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+  return c.json({ data });
+});
 
+// POST /api/beneficiaries - Register a person with their first enrollment
+// Refused with the matching people when the person looks already registered,
+// unless ?ignoreDuplicates=true; they are enrolled through
+// POST /api/people/:id/enrollments instead
+beneficiariesRouter.post("/", requirePermission("beneficiary:create"), requireDepartmentScope(), zValidator("json", CreateBeneficiarySchema), zValidator("query", CreateBeneficiaryQuerySchema), async (c) => {
   const body = c.req.valid("json");
+  const { ignoreDuplicates } = c.req.valid("query");
 
   // Validate references
   const [regionRes, sectorRes, projectRes] = await Promise.all([
-    supabase.from("regions").select("id, name").eq("id", body.regionId).single(),
-    supabase.from("sectors").select("id, name").eq("id", body.sectorId).single(),
-    supabase.from("projects").select("id, name, department_id").eq("id", body.projectId).single(),
+    repositories.regions.findById(body.regionId),
+    repositories.sectors.findById(body.sectorId),
+    repositories.projects.findById(body.projectId),
   ]);
 
   if (!regionRes.data) {
@@ -149,13 +140,43 @@ beneficiariesRouter.post("/", zValidator("json", CreateBeneficiarySchema), async
     return c.json({ error: { message: "Projet non trouve", code: "INVALID_PROJECT" } }, 400);
   }
 
-  // If admin_department, can only add to their department's projects
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== projectRes.data.department_id) {
+  // Department-bound roles only add to their department's projects, agents
+  // only to the projects assigned to them
+  if (!(await inProjectScope(c, projectRes.data))) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
+  const identity = {
+    id: "",
+    first_name: body.firstName,
+    last_name: body.lastName,
+    gender: body.gender,
+    age: body.age ?? null,
+    phone: body.phone ?? null,
+    region_id: body.regionId,
+  };
+
+  if (!ignoreDuplicates) {
+    const { data: registered, error: registeredError } = await repositories.people.listByIdentityKeys(candidateKeys([identity]));
+    if (registeredError) {
+      return c.json({ error: { message: registeredError.message, code: "DB_ERROR" } }, 500);
+    }
+
+    const matches = createIdentityIndex(registered ?? []).matches(identity);
+
+    if (matches.length > 0) {
+      return c.json({
+        error: {
+          message: "Cette personne semble deja enregistree",
+          code: "POSSIBLE_DUPLICATE",
+          matches: matches.map(formatPersonMatch),
+        },
+      }, 409);
+    }
+  }
+
   const now = new Date().toISOString();
-  const newBeneficiary = {
+  const newPerson = {
     id: createId(),
     first_name: body.firstName,
     last_name: body.lastName,
@@ -163,82 +184,193 @@ beneficiariesRouter.post("/", zValidator("json", CreateBeneficiarySchema), async
     age: body.age,
     phone: body.phone,
     region_id: body.regionId,
+    created_at: now,
+    updated_at: now,
+  };
+  const newBeneficiary = {
+    ...newPerson,
+    id: createId(),
+    person_id: newPerson.id,
     sector_id: body.sectorId,
     project_id: body.projectId,
     accompaniment_status: body.accompanimentStatus ?? "ACTIVE",
-    created_at: now,
-    updated_at: now,
+    start_date: body.startDate,
+    end_date: body.endDate,
+    outcome: body.outcome,
   };
 
-  const { data: beneficiary, error } = await supabase
-    .from("beneficiaries")
-    .insert(newBeneficiary)
-    .select()
-    .single();
+  const { data: beneficiary, error } = await repositories.beneficiaries.create(newBeneficiary, {
+    ...newPerson,
+    ...identityKeys(identity),
+  });
 
-  if (error) {
-    return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+  if (error || !beneficiary) {
+    return c.json({ error: { message: error?.message ?? "Erreur lors de la creation", code: "DB_ERROR" } }, 500);
   }
 
-  return c.json({
-    data: formatBeneficiary(
-      beneficiary,
-      regionRes.data,
-      sectorRes.data,
-      { id: projectRes.data.id, name: projectRes.data.name }
-    ),
-  }, 201);
+  await recordAuditMany(c, [
+    { action: "CREATE", entityType: "PERSON", entityId: newPerson.id, after: newPerson },
+    { action: "CREATE", entityType: "BENEFICIARY", entityId: beneficiary.id, after: beneficiary },
+  ]);
+
+  return c.json({ data: formatBeneficiary(beneficiary) }, 201);
 });
 
-// PUT /api/beneficiaries/:id
-beneficiariesRouter.put("/:id", zValidator("json", UpdateBeneficiarySchema), async (c) => {
-  const user = await getAuthUser(c);
+// POST /api/beneficiaries/import - Import beneficiaries from a CSV or XLSX file
+// Every row is checked and reported. Nothing is written on a dry run, the
+// default; otherwise each valid row registers a person with their enrollment,
+// all together, and the others are skipped.
+// Rows that look already registered are skipped too, unless ignoreDuplicates.
+beneficiariesRouter.post("/import", requirePermission("beneficiary:create"), requireDepartmentScope(), zValidator("form", BeneficiaryImportFormSchema), async (c) => {
+  const { file, dryRun, ignoreDuplicates, mapping, ...defaults } = c.req.valid("form");
+
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    return c.json({ error: { message: "Fichier trop volumineux (5 Mo maximum)", code: "FILE_TOO_LARGE" } }, 400);
+  }
+
+  const sheet = readSpreadsheet(new Uint8Array(await file.arrayBuffer()), IMPORT_SHEET_LIMITS);
+  if (sheet.error !== undefined) {
+    return c.json({ error: { message: sheet.error, code: "INVALID_FILE" } }, 400);
+  }
+
+  const [regionsRes, sectorsRes, projectsRes] = await Promise.all([
+    repositories.regions.list(),
+    repositories.sectors.list(),
+    repositories.projects.list(),
+  ]);
+  const dbError = regionsRes.error ?? sectorsRes.error ?? projectsRes.error;
+  if (dbError) {
+    return c.json({ error: { message: dbError.message, code: "DB_ERROR" } }, 500);
+  }
+
+  const prepared = await prepareImport(sheet.rows, {
+    mapping,
+    references: { regions: regionsRes.data ?? [], sectors: sectorsRes.data ?? [], projects: projectsRes.data ?? [] },
+    defaults,
+    // Same scope as a single creation
+    canUseProject: (project) => inProjectScope(c, project),
+  });
+  if ("error" in prepared) {
+    return c.json({ error: { message: prepared.error, code: "INVALID_IMPORT" } }, 400);
+  }
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  const { data: registered, error: registeredError } = await repositories.people.listByIdentityKeys(
+    importCandidateKeys(prepared.rows)
+  );
+  if (registeredError) {
+    return c.json({ error: { message: registeredError.message, code: "DB_ERROR" } }, 500);
   }
 
+  const duplicates = findImportDuplicates(prepared.rows, registered ?? []);
+  const repeated = new Set(duplicates.errors.map((error) => error.row));
+  const registeredRows = new Set(duplicates.existing.map((duplicate) => duplicate.row));
+  const validRows = prepared.rows.filter((row) => !repeated.has(row.row));
+  const rows = ignoreDuplicates ? validRows : validRows.filter((row) => !registeredRows.has(row.row));
+
+  let created = 0;
+  if (!dryRun && rows.length > 0) {
+    const now = new Date().toISOString();
+    const newPeople = rows.map((row) => ({
+      id: createId(),
+      first_name: row.firstName,
+      last_name: row.lastName,
+      gender: row.gender,
+      age: row.age,
+      phone: row.phone,
+      region_id: row.region.id,
+      created_at: now,
+      updated_at: now,
+    }));
+    const newBeneficiaries = rows.map((row, i) => ({
+      ...newPeople[i]!,
+      id: createId(),
+      person_id: newPeople[i]!.id,
+      sector_id: row.sector.id,
+      project_id: row.project.id,
+      accompaniment_status: row.accompanimentStatus,
+    }));
+
+    const { data: count, error } = await repositories.beneficiaries.createMany(
+      newBeneficiaries,
+      newPeople.map((person) => ({ ...person, ...identityKeys(person) }))
+    );
+    if (error) {
+      return c.json({ error: { message: error.message ?? "Erreur lors de l'import", code: "DB_ERROR" } }, 500);
+    }
+    created = count ?? newBeneficiaries.length;
+
+    await recordAuditMany(c, [
+      ...newPeople.map((person) => ({
+        action: "CREATE" as const,
+        entityType: "PERSON" as const,
+        entityId: person.id,
+        after: person,
+      })),
+      ...newBeneficiaries.map((beneficiary) => ({
+        action: "CREATE" as const,
+        entityType: "BENEFICIARY" as const,
+        entityId: beneficiary.id,
+        after: beneficiary,
+      })),
+    ]);
+  }
+
+  const report: BeneficiaryImportReport = {
+    dryRun,
+    columns: prepared.columns,
+    totalRows: prepared.totalRows,
+    validRows: validRows.length,
+    invalidRows: prepared.totalRows - validRows.length,
+    duplicateRows: duplicates.existing.length,
+    created,
+    rows,
+    errors: [...prepared.errors, ...duplicates.errors].sort((a, b) => a.row - b.row),
+    duplicates: duplicates.existing.map(({ row, matches }) => ({ row, matches: matches.map(formatPersonMatch) })),
+  };
+
+  return c.json({ data: report }, created > 0 ? 201 : 200);
+});
+
+// PUT /api/beneficiaries/:id - The enrollment, as registered by its project;
+// the person's details are changed through PUT /api/people/:id
+beneficiariesRouter.put("/:id", requirePermission("beneficiary:update"), requireDepartmentScope(), zValidator("json", UpdateBeneficiarySchema), async (c) => {
   const { id } = c.req.param();
   const body = c.req.valid("json");
 
   // Get existing beneficiary with project
-  const { data: existing, error: existingError } = await supabase
-    .from("beneficiaries")
-    .select("*, projects!inner(department_id)")
-    .eq("id", id)
-    .single();
+  const { data: existing, error: existingError } = await repositories.beneficiaries.findById(id);
 
   if (existingError || !existing) {
     return c.json({ error: { message: "Beneficiaire non trouve", code: "NOT_FOUND" } }, 404);
   }
 
   // If admin_department, can only update their department's beneficiaries
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== existing.projects.department_id) {
+  if (!inDepartmentScope(c, existing.project?.department_id)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
   // Validate references if being changed
   if (body.regionId) {
-    const { data: region } = await supabase.from("regions").select("id").eq("id", body.regionId).single();
+    const { data: region } = await repositories.regions.findById(body.regionId);
     if (!region) {
       return c.json({ error: { message: "Region non trouvee", code: "INVALID_REGION" } }, 400);
     }
   }
   if (body.sectorId) {
-    const { data: sector } = await supabase.from("sectors").select("id").eq("id", body.sectorId).single();
+    const { data: sector } = await repositories.sectors.findById(body.sectorId);
     if (!sector) {
       return c.json({ error: { message: "Secteur non trouve", code: "INVALID_SECTOR" } }, 400);
     }
   }
   if (body.projectId) {
-    const { data: project } = await supabase.from("projects").select("id").eq("id", body.projectId).single();
+    const { data: project } = await repositories.projects.findById(body.projectId);
     if (!project) {
       return c.json({ error: { message: "Projet non trouve", code: "INVALID_PROJECT" } }, 400);
     }
   }
 
   // Build update data with snake_case
-  const updateData: any = { updated_at: new Date().toISOString() };
+  const updateData: BeneficiaryUpdate = { updated_at: new Date().toISOString() };
   if (body.firstName !== undefined) updateData.first_name = body.firstName;
   if (body.lastName !== undefined) updateData.last_name = body.lastName;
   if (body.gender !== undefined) updateData.gender = body.gender;
@@ -248,33 +380,19 @@ beneficiariesRouter.put("/:id", zValidator("json", UpdateBeneficiarySchema), asy
   if (body.sectorId !== undefined) updateData.sector_id = body.sectorId;
   if (body.projectId !== undefined) updateData.project_id = body.projectId;
   if (body.accompanimentStatus !== undefined) updateData.accompaniment_status = body.accompanimentStatus;
+  if (body.startDate !== undefined) updateData.start_date = body.startDate;
+  if (body.endDate !== undefined) updateData.end_date = body.endDate;
+  if (body.outcome !== undefined) updateData.outcome = body.outcome;
 
-  const { data: beneficiary, error } = await supabase
-    .from("beneficiaries")
-    .update(updateData)
-    .eq("id", id)
-    .select()
-    .single();
+  const { data: beneficiary, error } = await repositories.beneficiaries.update(id, updateData);
 
-  if (error) {
-    return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+  if (error || !beneficiary) {
+    return c.json({ error: { message: error?.message ?? "Erreur lors de la mise a jour", code: "DB_ERROR" } }, 500);
   }
 
-  // Fetch related data
-  const [regionRes, sectorRes, projectRes] = await Promise.all([
-    supabase.from("regions").select("id, name").eq("id", beneficiary.region_id).single(),
-    supabase.from("sectors").select("id, name").eq("id", beneficiary.sector_id).single(),
-    supabase.from("projects").select("id, name").eq("id", beneficiary.project_id).single(),
-  ]);
+  await recordAudit(c, { action: "UPDATE", entityType: "BENEFICIARY", entityId: id, before: existing, after: beneficiary });
 
-  return c.json({
-    data: formatBeneficiary(
-      beneficiary,
-      regionRes.data || { id: beneficiary.region_id, name: "" },
-      sectorRes.data || { id: beneficiary.sector_id, name: "" },
-      projectRes.data || { id: beneficiary.project_id, name: "" }
-    ),
-  });
+  return c.json({ data: formatBeneficiary(beneficiary) });
 });
 
 export { beneficiariesRouter };
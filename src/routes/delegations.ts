@@ -0,0 +1,171 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { createId } from "@paralleldrive/cuid2";
+import { repositories, type ApprovalDelegationWithUsersRow } from "../repositories";
+import {
+  ApprovalDelegationFiltersSchema,
+  CreateApprovalDelegationSchema,
+  type ApprovalDelegation,
+  type UserRole,
+} from "../types";
+import { can, requireAuth, type AuthEnv } from "../middleware/auth";
+import { hasPermission } from "../permissions";
+import { recordAudit } from "../audit";
+import { delegationScopes, isDelegationActive } from "../delegations";
+
+const delegationsRouter = new Hono<AuthEnv>();
+
+function formatDelegation(d: ApprovalDelegationWithUsersRow): ApprovalDelegation {
+  return {
+    id: d.id,
+    delegatorId: d.delegator_id,
+    delegateId: d.delegate_id,
+    scopes: delegationScopes(d),
+    reason: d.reason,
+    startsAt: d.starts_at,
+    endsAt: d.ends_at,
+    revokedAt: d.revoked_at,
+    active: isDelegationActive(d),
+    createdAt: d.created_at,
+    delegator: d.delegator
+      ? { id: d.delegator.id, name: d.delegator.name, email: d.delegator.email, role: d.delegator.role as UserRole }
+      : null,
+    delegate: d.delegate
+      ? { id: d.delegate.id, name: d.delegate.name, email: d.delegate.email, role: d.delegate.role as UserRole }
+      : null,
+  };
+}
+
+// GET /api/delegations - Delegations given or received by the caller (all with delegation:manage)
+delegationsRouter.get("/", requireAuth, zValidator("query", ApprovalDelegationFiltersSchema), async (c) => {
+  const user = c.get("user");
+  const { delegatorId, delegateId, active } = c.req.valid("query");
+
+  const { data: delegations, error } = await repositories.approvalDelegations.list({
+    delegatorId,
+    delegateId,
+    userId: can(c, "delegation:manage") ? undefined : user.id,
+    activeAt: active === "true" ? new Date().toISOString() : undefined,
+  });
+
+  if (error) {
+    console.error("Error fetching delegations:", error);
+    return c.json({ error: { message: "Erreur lors de la recuperation des delegations", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  const data = (delegations || [])
+    .map(formatDelegation)
+    .filter((d) => active !== "false" || !d.active);
+
+  return c.json({ data });
+});
+
+// POST /api/delegations - Delegate approval authority for a period
+delegationsRouter.post("/", requireAuth, zValidator("json", CreateApprovalDelegationSchema), async (c) => {
+  const user = c.get("user");
+  const body = c.req.valid("json");
+
+  const delegatorId = body.delegatorId ?? user.id;
+  if (delegatorId !== user.id && !can(c, "delegation:manage")) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+  if (body.delegateId === delegatorId) {
+    return c.json({ error: { message: "Impossible de se deleguer a soi-meme", code: "INVALID_DELEGATE" } }, 400);
+  }
+
+  const startsAt = body.startsAt ?? new Date().toISOString();
+  if (new Date(body.endsAt) <= new Date(startsAt) || new Date(body.endsAt) <= new Date()) {
+    return c.json({ error: { message: "La periode de delegation est invalide", code: "INVALID_PERIOD" } }, 400);
+  }
+
+  const [{ data: delegator }, { data: delegate }] = await Promise.all([
+    repositories.users.findById(delegatorId),
+    repositories.users.findById(body.delegateId),
+  ]);
+
+  if (!delegator) {
+    return c.json({ error: { message: "Delegant non trouve", code: "NOT_FOUND" } }, 404);
+  }
+  if (!delegate || !delegate.is_active) {
+    return c.json({ error: { message: "Delegataire non trouve ou inactif", code: "NOT_FOUND" } }, 404);
+  }
+
+  // Only authority the delegator holds can be delegated
+  for (const scope of body.scopes) {
+    const permission = scope === "DOCUMENT" ? "document:validate" : "validation:approve";
+    if (!(await hasPermission(delegator, permission))) {
+      return c.json({
+        error: { message: `Le delegant ne peut pas valider les demandes de type ${scope}`, code: "INVALID_SCOPE" },
+      }, 400);
+    }
+  }
+
+  const { data: delegation, error } = await repositories.approvalDelegations.create({
+    id: createId(),
+    delegator_id: delegatorId,
+    delegate_id: body.delegateId,
+    scopes: JSON.stringify([...new Set(body.scopes)]),
+    reason: body.reason ?? null,
+    starts_at: startsAt,
+    ends_at: body.endsAt,
+  });
+
+  if (error || !delegation) {
+    console.error("Error creating delegation:", error);
+    return c.json({ error: { message: "Erreur lors de la creation de la delegation", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  await recordAudit(c, { action: "CREATE", entityType: "DELEGATION", entityId: delegation.id, after: delegation });
+
+  const { error: notifyError } = await repositories.notifications.create({
+    id: createId(),
+    type: "SYSTEM",
+    title: "Delegation de validation",
+    message: `${delegator.name} vous delegue ses validations (${body.scopes.join(", ")}) jusqu'au ${body.endsAt}`,
+    user_id: body.delegateId,
+    link: "/validations/pending",
+    is_read: false,
+    created_at: new Date().toISOString(),
+  });
+
+  if (notifyError) {
+    console.error("Error creating notification:", notifyError);
+  }
+
+  return c.json({ data: formatDelegation(delegation) }, 201);
+});
+
+// DELETE /api/delegations/:id - Revoke a delegation before it ends
+delegationsRouter.delete("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
+  const { id } = c.req.param();
+
+  const { data: existing, error: fetchError } = await repositories.approvalDelegations.findById(id);
+
+  if (fetchError || !existing) {
+    return c.json({ error: { message: "Delegation non trouvee", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (existing.delegator_id !== user.id && !can(c, "delegation:manage")) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  if (existing.revoked_at) {
+    return c.json({ data: formatDelegation(existing) });
+  }
+
+  const { data: delegation, error } = await repositories.approvalDelegations.update(id, {
+    revoked_at: new Date().toISOString(),
+  });
+
+  if (error || !delegation) {
+    console.error("Error revoking delegation:", error);
+    return c.json({ error: { message: "Erreur lors de la revocation de la delegation", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  await recordAudit(c, { action: "UPDATE", entityType: "DELEGATION", entityId: id, before: existing, after: delegation });
+
+  return c.json({ data: formatDelegation(delegation) });
+});
+
+export { delegationsRouter };
@@ -1,24 +1,46 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { createId } from "@paralleldrive/cuid2";
-import { supabase } from "../supabase";
-import { CreateDepartmentSchema, UpdateDepartmentSchema, type Department } from "../types";
-import { getAuthUser } from "./auth";
+import { repositories, type DepartmentUpdate } from "../repositories";
+import { z } from "zod";
+import { CreateDepartmentSchema, UpdateDepartmentSchema, UserRoleEnum, type Department } from "../types";
+import { inDepartmentScope, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
+import { PERMISSIONS, departmentPermissionMatrix, invalidatePermissionOverrides } from "../permissions";
+
+const departmentsRouter = new Hono<AuthEnv>();
+
+// `granted: null` removes the override and falls back to the role default
+const UpdateDepartmentPermissionsSchema = z.object({
+  overrides: z.array(
+    z.object({
+      role: UserRoleEnum,
+      permission: z.enum(PERMISSIONS),
+      granted: z.boolean().nullable(),
+    })
+  ).min(1, "Aucune modification"),
+});
+
+async function departmentPermissions(departmentId: string) {
+  const { data: overrides } = await repositories.departmentPermissions.list();
 
-const departmentsRouter = new Hono();
+  return {
+    departmentId,
+    permissions: await departmentPermissionMatrix(departmentId),
+    overrides: (overrides || [])
+      .filter((o) => o.department_id === departmentId)
+      .map((o) => ({ role: o.role, permission: o.permission, granted: o.granted, updatedAt: o.updated_at })),
+  };
+}
 
 // GET /api/departments
 departmentsRouter.get("/", async (c) => {
-  const { data: departments, error } = await supabase
-    .from("departments")
-    .select("*")
-    .order("name", { ascending: true });
+  const { data: departments, error } = await repositories.departments.list();
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
   }
 
-  const data: Department[] = departments.map((d: any) => ({
+  const data: Department[] = (departments || []).map((d) => ({
     id: d.id,
     name: d.name,
     code: d.code,
@@ -35,11 +57,7 @@ departmentsRouter.get("/", async (c) => {
 departmentsRouter.get("/:id", async (c) => {
   const { id } = c.req.param();
 
-  const { data: department, error } = await supabase
-    .from("departments")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: department, error } = await repositories.departments.findById(id);
 
   if (error || !department) {
     return c.json({ error: { message: "Departement non trouve", code: "NOT_FOUND" } }, 404);
@@ -47,9 +65,9 @@ departmentsRouter.get("/:id", async (c) => {
 
   // Get counts for related entities
   const [projectsCount, usersCount, newsCount] = await Promise.all([
-    supabase.from("projects").select("id", { count: "exact", head: true }).eq("department_id", id),
-    supabase.from("users").select("id", { count: "exact", head: true }).eq("department_id", id),
-    supabase.from("news").select("id", { count: "exact", head: true }).eq("department_id", id),
+    repositories.projects.count({ departmentId: id }),
+    repositories.users.count({ departmentId: id }),
+    repositories.news.count({ departmentId: id }),
   ]);
 
   const data = {
@@ -61,9 +79,9 @@ departmentsRouter.get("/:id", async (c) => {
     createdAt: department.created_at,
     updatedAt: department.updated_at,
     _count: {
-      projects: projectsCount.count || 0,
-      users: usersCount.count || 0,
-      news: newsCount.count || 0,
+      projects: projectsCount.data || 0,
+      users: usersCount.data || 0,
+      news: newsCount.data || 0,
     },
   };
 
@@ -71,21 +89,11 @@ departmentsRouter.get("/:id", async (c) => {
 });
 
 // POST /api/departments (super admin only)
-departmentsRouter.post("/", zValidator("json", CreateDepartmentSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user || user.role !== "SUPER_ADMIN") {
-    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
-  }
-
+departmentsRouter.post("/", requirePermission("department:create"), zValidator("json", CreateDepartmentSchema), async (c) => {
   const body = c.req.valid("json");
 
   // Check if code already exists
-  const { data: existing } = await supabase
-    .from("departments")
-    .select("id")
-    .eq("code", body.code)
-    .single();
+  const { data: existing } = await repositories.departments.findByCode(body.code);
 
   if (existing) {
     return c.json({ error: { message: "Ce code existe deja", code: "DUPLICATE_CODE" } }, 400);
@@ -102,14 +110,10 @@ departmentsRouter.post("/", zValidator("json", CreateDepartmentSchema), async (c
     updated_at: now,
   };
 
-  const { data: department, error } = await supabase
-    .from("departments")
-    .insert(newDepartment)
-    .select()
-    .single();
+  const { data: department, error } = await repositories.departments.create(newDepartment);
 
-  if (error) {
-    return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+  if (error || !department) {
+    return c.json({ error: { message: error?.message ?? "Departement non enregistre", code: "DB_ERROR" } }, 500);
   }
 
   const data: Department = {
@@ -126,39 +130,25 @@ departmentsRouter.post("/", zValidator("json", CreateDepartmentSchema), async (c
 });
 
 // PUT /api/departments/:id
-departmentsRouter.put("/:id", zValidator("json", UpdateDepartmentSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user || (user.role !== "SUPER_ADMIN" && user.role !== "ADMIN_DEPARTMENT")) {
-    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
-  }
-
+departmentsRouter.put("/:id", requirePermission("department:update"), requireDepartmentScope(), zValidator("json", UpdateDepartmentSchema), async (c) => {
   const { id } = c.req.param();
   const body = c.req.valid("json");
 
   // Check if department exists
-  const { data: existing, error: existingError } = await supabase
-    .from("departments")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: existing, error: existingError } = await repositories.departments.findById(id);
 
   if (existingError || !existing) {
     return c.json({ error: { message: "Departement non trouve", code: "NOT_FOUND" } }, 404);
   }
 
   // If admin_department, can only update their own department
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== id) {
+  if (!inDepartmentScope(c, id)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
   // Check if new code conflicts
   if (body.code && body.code !== existing.code) {
-    const { data: codeExists } = await supabase
-      .from("departments")
-      .select("id")
-      .eq("code", body.code)
-      .single();
+    const { data: codeExists } = await repositories.departments.findByCode(body.code);
 
     if (codeExists) {
       return c.json({ error: { message: "Ce code existe deja", code: "DUPLICATE_CODE" } }, 400);
@@ -166,21 +156,16 @@ departmentsRouter.put("/:id", zValidator("json", UpdateDepartmentSchema), async
   }
 
   // Build update data with snake_case
-  const updateData: any = { updated_at: new Date().toISOString() };
+  const updateData: DepartmentUpdate = { updated_at: new Date().toISOString() };
   if (body.name !== undefined) updateData.name = body.name;
   if (body.code !== undefined) updateData.code = body.code;
   if (body.description !== undefined) updateData.description = body.description;
   if (body.logoUrl !== undefined) updateData.logo_url = body.logoUrl;
 
-  const { data: department, error } = await supabase
-    .from("departments")
-    .update(updateData)
-    .eq("id", id)
-    .select()
-    .single();
+  const { data: department, error } = await repositories.departments.update(id, updateData);
 
-  if (error) {
-    return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+  if (error || !department) {
+    return c.json({ error: { message: error?.message ?? "Departement non enregistre", code: "DB_ERROR" } }, 500);
   }
 
   const data: Department = {
@@ -196,22 +181,58 @@ departmentsRouter.put("/:id", zValidator("json", UpdateDepartmentSchema), async
   return c.json({ data });
 });
 
-// DELETE /api/departments/:id (super admin only)
-departmentsRouter.delete("/:id", async (c) => {
-  const user = await getAuthUser(c);
+// GET /api/departments/:id/permissions - Effective permissions per role and the department's overrides
+departmentsRouter.get("/:id/permissions", requirePermission("permission:manage"), async (c) => {
+  const { id } = c.req.param();
 
-  if (!user || user.role !== "SUPER_ADMIN") {
-    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  const { data: existing } = await repositories.departments.findById(id);
+
+  if (!existing) {
+    return c.json({ error: { message: "Departement non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  return c.json({ data: await departmentPermissions(id) });
+});
+
+// PUT /api/departments/:id/permissions - Grant or revoke permissions for a role within the department
+departmentsRouter.put("/:id/permissions", requirePermission("permission:manage"), zValidator("json", UpdateDepartmentPermissionsSchema), async (c) => {
+  const { id } = c.req.param();
+  const { overrides } = c.req.valid("json");
+
+  const { data: existing } = await repositories.departments.findById(id);
+
+  if (!existing) {
+    return c.json({ error: { message: "Departement non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  for (const override of overrides) {
+    const { error } = override.granted === null
+      ? await repositories.departmentPermissions.delete(id, override.role, override.permission)
+      : await repositories.departmentPermissions.upsert({
+          department_id: id,
+          role: override.role,
+          permission: override.permission,
+          granted: override.granted,
+        });
+
+    if (error) {
+      console.error("Error saving permission override:", error);
+      invalidatePermissionOverrides();
+      return c.json({ error: { message: "Erreur lors de l'enregistrement des permissions", code: "DB_ERROR" } }, 500);
+    }
   }
 
+  invalidatePermissionOverrides();
+
+  return c.json({ data: await departmentPermissions(id) });
+});
+
+// DELETE /api/departments/:id (super admin only)
+departmentsRouter.delete("/:id", requirePermission("department:delete"), async (c) => {
   const { id } = c.req.param();
 
   // Check if department exists
-  const { data: existing, error: existingError } = await supabase
-    .from("departments")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: existing, error: existingError } = await repositories.departments.findById(id);
 
   if (existingError || !existing) {
     return c.json({ error: { message: "Departement non trouve", code: "NOT_FOUND" } }, 404);
@@ -219,12 +240,12 @@ departmentsRouter.delete("/:id", async (c) => {
 
   // Get counts for projects and users
   const [projectsCount, usersCount] = await Promise.all([
-    supabase.from("projects").select("id", { count: "exact", head: true }).eq("department_id", id),
-    supabase.from("users").select("id", { count: "exact", head: true }).eq("department_id", id),
+    repositories.projects.count({ departmentId: id }),
+    repositories.users.count({ departmentId: id }),
   ]);
 
   // Prevent deletion if there are associated projects or users
-  if ((projectsCount.count || 0) > 0 || (usersCount.count || 0) > 0) {
+  if ((projectsCount.data || 0) > 0 || (usersCount.data || 0) > 0) {
     return c.json({
       error: {
         message: "Ce departement ne peut pas etre supprime car il contient des projets ou des utilisateurs",
@@ -233,10 +254,7 @@ departmentsRouter.delete("/:id", async (c) => {
     }, 400);
   }
 
-  const { error } = await supabase
-    .from("departments")
-    .delete()
-    .eq("id", id);
+  const { error } = await repositories.departments.delete(id);
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
@@ -1,16 +1,17 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { createId } from "@paralleldrive/cuid2";
-import { supabase } from "../supabase";
+import { repositories, type DisbursementUpdate } from "../repositories";
 import {
   CreateDisbursementSchema,
   UpdateDisbursementSchema,
   type Disbursement,
   type DisbursementWithRelations,
 } from "../types";
-import { getAuthUser } from "./auth";
+import { inDepartmentScope, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
+import { recordAudit } from "../audit";
 
-const disbursementsRouter = new Hono();
+const disbursementsRouter = new Hono<AuthEnv>();
 
 // Helper to format disbursement
 function formatDisbursement(d: any): Disbursement {
@@ -28,17 +29,17 @@ function formatDisbursement(d: any): Disbursement {
   };
 }
 
-function formatDisbursementWithRelations(d: any, project: any, createdBy: any): DisbursementWithRelations {
+function formatDisbursementWithRelations(d: any): DisbursementWithRelations {
   return {
     ...formatDisbursement(d),
     project: {
-      id: project.id,
-      name: project.name,
+      id: d.project?.id ?? d.project_id,
+      name: d.project?.name ?? "",
     },
     createdBy: {
-      id: createdBy.id,
-      name: createdBy.name,
-      email: createdBy.email,
+      id: d.created_by?.id ?? d.created_by_id,
+      name: d.created_by?.name ?? "",
+      email: d.created_by?.email ?? "",
     },
   };
 }
@@ -48,42 +49,19 @@ disbursementsRouter.get("/projects/:projectId/disbursements", async (c) => {
   const { projectId } = c.req.param();
 
   // Verify project exists
-  const { data: project, error: projectError } = await supabase
-    .from("projects")
-    .select("id, name")
-    .eq("id", projectId)
-    .single();
+  const { data: project, error: projectError } = await repositories.projects.findById(projectId);
 
   if (projectError || !project) {
     return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
   }
 
-  const { data: disbursements, error } = await supabase
-    .from("disbursements")
-    .select("*")
-    .eq("project_id", projectId)
-    .order("date", { ascending: false });
+  const { data: disbursements, error } = await repositories.disbursements.listByProject(projectId);
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
   }
 
-  // Fetch created by users
-  const userIds = [...new Set(disbursements.map((d: any) => d.created_by_id))];
-  const { data: users } = await supabase
-    .from("users")
-    .select("id, name, email")
-    .in("id", userIds);
-
-  const usersMap = new Map((users || []).map((u: any) => [u.id, u]));
-
-  const data = disbursements.map((d: any) =>
-    formatDisbursementWithRelations(
-      d,
-      project,
-      usersMap.get(d.created_by_id) || { id: d.created_by_id, name: "", email: "" }
-    )
-  );
+  const data = (disbursements || []).map(formatDisbursementWithRelations);
 
   return c.json({ data });
 });
@@ -91,30 +69,24 @@ disbursementsRouter.get("/projects/:projectId/disbursements", async (c) => {
 // POST /api/projects/:projectId/disbursements
 disbursementsRouter.post(
   "/projects/:projectId/disbursements",
+  requirePermission("disbursement:create"),
+  requireDepartmentScope(),
   zValidator("json", CreateDisbursementSchema),
   async (c) => {
-    const user = await getAuthUser(c);
-
-    if (!user) {
-      return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-    }
+    const user = c.get("user");
 
     const { projectId } = c.req.param();
     const body = c.req.valid("json");
 
     // Verify project exists
-    const { data: project, error: projectError } = await supabase
-      .from("projects")
-      .select("id, name, department_id")
-      .eq("id", projectId)
-      .single();
+    const { data: project, error: projectError } = await repositories.projects.findById(projectId);
 
     if (projectError || !project) {
       return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
     }
 
     // If admin_department, can only add disbursements to their department's projects
-    if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== project.department_id) {
+    if (!inDepartmentScope(c, project.department_id)) {
       return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
     }
 
@@ -132,127 +104,84 @@ disbursementsRouter.post(
       updated_at: now,
     };
 
-    const { data: disbursement, error } = await supabase
-      .from("disbursements")
-      .insert(newDisbursement)
-      .select()
-      .single();
+    const { data: disbursement, error } = await repositories.disbursements.create(newDisbursement);
 
-    if (error) {
-      return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+    if (error || !disbursement) {
+      return c.json({ error: { message: error?.message ?? "Decaissement non enregistre", code: "DB_ERROR" } }, 500);
     }
 
-    return c.json({
-      data: formatDisbursementWithRelations(
-        disbursement,
-        { id: project.id, name: project.name },
-        { id: user.id, name: user.name, email: user.email }
-      ),
-    }, 201);
+    await recordAudit(c, { action: "CREATE", entityType: "DISBURSEMENT", entityId: disbursement.id, after: disbursement });
+
+    return c.json({ data: formatDisbursementWithRelations(disbursement) }, 201);
   }
 );
 
 // PUT /api/disbursements/:id
 disbursementsRouter.put(
   "/disbursements/:id",
+  requirePermission("disbursement:update"),
+  requireDepartmentScope(),
   zValidator("json", UpdateDisbursementSchema),
   async (c) => {
-    const user = await getAuthUser(c);
-
-    if (!user) {
-      return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-    }
-
     const { id } = c.req.param();
     const body = c.req.valid("json");
 
     // Get existing disbursement with project
-    const { data: existing, error: existingError } = await supabase
-      .from("disbursements")
-      .select("*, projects!inner(id, name, department_id)")
-      .eq("id", id)
-      .single();
+    const { data: existing, error: existingError } = await repositories.disbursements.findById(id);
 
     if (existingError || !existing) {
       return c.json({ error: { message: "Decaissement non trouve", code: "NOT_FOUND" } }, 404);
     }
 
     // If admin_department, can only update disbursements of their department's projects
-    if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== existing.projects.department_id) {
+    if (!inDepartmentScope(c, existing.project?.department_id)) {
       return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
     }
 
     // Build update data with snake_case
-    const updateData: any = { updated_at: new Date().toISOString() };
+    const updateData: DisbursementUpdate = { updated_at: new Date().toISOString() };
     if (body.amount !== undefined) updateData.amount = body.amount;
     if (body.description !== undefined) updateData.description = body.description;
-    if (body.date !== undefined) updateData.date = body.date ? new Date(body.date).toISOString() : null;
+    if (body.date) updateData.date = new Date(body.date).toISOString();
     if (body.category !== undefined) updateData.category = body.category;
     if (body.receiptUrl !== undefined) updateData.receipt_url = body.receiptUrl;
 
-    const { data: disbursement, error } = await supabase
-      .from("disbursements")
-      .update(updateData)
-      .eq("id", id)
-      .select()
-      .single();
+    const { data: disbursement, error } = await repositories.disbursements.update(id, updateData);
 
-    if (error) {
-      return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+    if (error || !disbursement) {
+      return c.json({ error: { message: error?.message ?? "Decaissement non enregistre", code: "DB_ERROR" } }, 500);
     }
 
-    // Fetch created by user
-    const { data: createdBy } = await supabase
-      .from("users")
-      .select("id, name, email")
-      .eq("id", disbursement.created_by_id)
-      .single();
-
-    return c.json({
-      data: formatDisbursementWithRelations(
-        disbursement,
-        { id: existing.projects.id, name: existing.projects.name },
-        createdBy || { id: disbursement.created_by_id, name: "", email: "" }
-      ),
-    });
+    await recordAudit(c, { action: "UPDATE", entityType: "DISBURSEMENT", entityId: id, before: existing, after: disbursement });
+
+    return c.json({ data: formatDisbursementWithRelations(disbursement) });
   }
 );
 
 // DELETE /api/disbursements/:id
-disbursementsRouter.delete("/disbursements/:id", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
+disbursementsRouter.delete("/disbursements/:id", requirePermission("disbursement:delete"), requireDepartmentScope(), async (c) => {
   const { id } = c.req.param();
 
   // Get existing disbursement with project
-  const { data: existing, error: existingError } = await supabase
-    .from("disbursements")
-    .select("*, projects!inner(department_id)")
-    .eq("id", id)
-    .single();
+  const { data: existing, error: existingError } = await repositories.disbursements.findById(id);
 
   if (existingError || !existing) {
     return c.json({ error: { message: "Decaissement non trouve", code: "NOT_FOUND" } }, 404);
   }
 
   // If admin_department, can only delete disbursements of their department's projects
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== existing.projects.department_id) {
+  if (!inDepartmentScope(c, existing.project?.department_id)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  const { error } = await supabase
-    .from("disbursements")
-    .delete()
-    .eq("id", id);
+  const { error } = await repositories.disbursements.delete(id);
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
   }
 
+  await recordAudit(c, { action: "DELETE", entityType: "DISBURSEMENT", entityId: id, before: existing });
+
   return c.json({ data: { success: true } });
 });
 
@@ -1,16 +1,22 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { supabase } from "../supabase";
+import { repositories, type DocumentFilters, type DocumentRow, type DocumentUpdate } from "../repositories";
 import {
   CreateDocumentSchema,
   UpdateDocumentSchema,
-  DocumentFiltersSchema,
+  DocumentListQuerySchema,
+  CreateCommentSchema,
   type DocumentWithRelations,
 } from "../types";
-import { getAuthUser } from "./auth";
+import { can, inDepartmentScope, requireAuth, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
+import { hasPermission } from "../permissions";
+import { recordAudit } from "../audit";
+import { activeDelegations, delegatorFor, type Delegator } from "../delegations";
+import { formatComment, notifyComment, resolveMentions, type CommentTarget } from "../comments";
+import { pageOptions, toPage } from "../pagination";
 
-const documentsRouter = new Hono();
+const documentsRouter = new Hono<AuthEnv>();
 
 // Extended document type with validation fields
 interface ExtendedDocument extends DocumentWithRelations {
@@ -64,98 +70,106 @@ function formatDocument(d: any): ExtendedDocument {
   };
 }
 
+// Public documents, those of the user's department, and those they were asked to validate
+function canViewDocument(
+  document: DocumentRow,
+  user: { id: string; departmentId: string | null },
+  readAll: boolean
+): boolean {
+  return (
+    document.is_public ||
+    document.department_id === user.departmentId ||
+    document.validation_requested_to === user.id ||
+    readAll
+  );
+}
+
+// Discussion thread of a document submission
+function commentTarget(document: DocumentRow): CommentTarget {
+  return {
+    entityType: "DOCUMENT",
+    entityId: document.id,
+    link: `/documents/${document.id}`,
+    label: `le document "${document.title}"`,
+    followerIds: [document.uploaded_by_id, document.validation_requested_to].filter((id): id is string => !!id),
+    canView: async (u) =>
+      canViewDocument(document, { id: u.id, departmentId: u.department_id }, await hasPermission(u, "document:read_all")),
+  };
+}
+
 // GET /api/documents - list documents
-documentsRouter.get("/", zValidator("query", DocumentFiltersSchema), async (c) => {
-  const user = await getAuthUser(c);
+documentsRouter.get("/", requireAuth, zValidator("query", DocumentListQuerySchema), async (c) => {
+  const user = c.get("user");
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+  const query = c.req.valid("query");
+  const { departmentId, projectId, type, isPublic, search } = query;
 
-  const { departmentId, projectId, type, isPublic, search } = c.req.valid("query");
+  const page = pageOptions(query);
+  if (!page) {
+    return c.json({ error: { message: "Curseur de pagination invalide", code: "INVALID_CURSOR" } }, 400);
+  }
 
-  let query = supabase
-    .from('documents')
-    .select(`
-      *,
-      department:departments(id, name, code),
-      uploaded_by:users!documents_uploaded_by_id_fkey(id, name, email),
-      project:projects(id, name)
-    `)
-    .order('created_at', { ascending: false });
+  const filters: DocumentFilters = {
+    projectId,
+    type,
+    isPublic: isPublic !== undefined ? isPublic === "true" : undefined,
+    search,
+  };
 
   // Filter by visibility based on user role
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId) {
-    // Department admins can see their own documents and public documents
-    query = query.or(`department_id.eq.${user.departmentId},is_public.eq.true`);
+  const departmentScope = c.get("departmentScope");
+  if (departmentScope) {
+    // Department-bound users can see their own documents and public documents
+    filters.visibleToDepartmentId = departmentScope;
   } else if (departmentId) {
     // Higher roles can filter by specific department
-    query = query.eq('department_id', departmentId);
-  }
-
-  if (projectId) {
-    query = query.eq('project_id', projectId);
-  }
-
-  if (type) {
-    query = query.eq('type', type);
-  }
-
-  if (isPublic !== undefined) {
-    query = query.eq('is_public', isPublic === "true");
-  }
-
-  if (search) {
-    query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%`);
+    filters.departmentId = departmentId;
   }
 
-  const { data: documents, error } = await query;
+  const [{ data: documents, error }, { data: total, error: countError }] = await Promise.all([
+    repositories.documents.list(filters, page),
+    repositories.documents.count(filters),
+  ]);
 
-  if (error) {
-    console.error('Error fetching documents:', error);
+  if (error || countError) {
+    console.error('Error fetching documents:', error ?? countError);
     return c.json({ error: { message: "Erreur lors du chargement des documents" } }, 500);
   }
 
   const data = (documents || []).map(formatDocument);
 
-  return c.json({ data });
+  return c.json(toPage(data, query, total ?? 0));
 });
 
 // GET /api/documents/pending-validations - get documents pending validation for current user
 // NOTE: This route MUST be before /:id to avoid being captured by the param route
-documentsRouter.get("/pending-validations", async (c) => {
-  const user = await getAuthUser(c);
+documentsRouter.get("/pending-validations", requireAuth, async (c) => {
+  const user = c.get("user");
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+  // Validators see their own assignments, delegates those of their delegators
+  const delegations = await activeDelegations(user.id, "document:validate");
+  const validatorIds = [
+    ...(can(c, "document:validate") ? [user.id] : []),
+    ...delegations.filter((d) => d.scopes.includes("DOCUMENT")).map((d) => d.delegator.id),
+  ];
 
-  // Only high-level users can see pending validations
-  const validatorRoles = ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"];
-  if (!validatorRoles.includes(user.role)) {
+  if (validatorIds.length === 0) {
     return c.json({ data: [] });
   }
 
   // Try to fetch documents with validation_status
   // If the column doesn't exist in Supabase, return empty array gracefully
   try {
-    let query = supabase
-      .from('documents')
-      .select(`
-        *,
-        department:departments(id, name, code),
-        uploaded_by:users!documents_uploaded_by_id_fkey(id, name, email),
-        project:projects(id, name)
-      `)
-      .eq('validation_status', 'PENDING')
-      .order('created_at', { ascending: false });
-
     // Super admins see all, others see only their assigned validations
-    if (user.role !== 'SUPER_ADMIN') {
-      query = query.eq('validation_requested_to', user.id);
-    }
-
-    const { data: documents, error } = await query;
+    const results = can(c, "document:validate_any")
+      ? [await repositories.documents.list({ validationStatus: 'PENDING' })]
+      : await Promise.all(
+          validatorIds.map((validatorId) =>
+            repositories.documents.list({ validationStatus: 'PENDING', validationRequestedTo: validatorId })
+          )
+        );
+    const error = results.find((r) => r.error)?.error;
+    const documents = results.flatMap((r) => r.data || []);
 
     if (error) {
       // If validation_status column doesn't exist, return empty array
@@ -174,37 +188,19 @@ documentsRouter.get("/pending-validations", async (c) => {
 });
 
 // GET /api/documents/:id - get single document
-documentsRouter.get("/:id", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+documentsRouter.get("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
 
   const { id } = c.req.param();
 
-  const { data: document, error } = await supabase
-    .from('documents')
-    .select(`
-      *,
-      department:departments(id, name, code),
-      uploaded_by:users!documents_uploaded_by_id_fkey(id, name, email),
-      project:projects(id, name)
-    `)
-    .eq('id', id)
-    .single();
+  const { data: document, error } = await repositories.documents.findById(id);
 
   if (error || !document) {
     return c.json({ error: { message: "Document non trouve", code: "NOT_FOUND" } }, 404);
   }
 
   // Check access permission
-  const canAccess =
-    document.is_public ||
-    document.department_id === user.departmentId ||
-    ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
-
-  if (!canAccess) {
+  if (!canViewDocument(document, user, can(c, "document:read_all"))) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
@@ -212,28 +208,20 @@ documentsRouter.get("/:id", async (c) => {
 });
 
 // POST /api/documents - upload new document (metadata only)
-documentsRouter.post("/", zValidator("json", CreateDocumentSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+documentsRouter.post("/", requirePermission("document:upload"), requireDepartmentScope(), zValidator("json", CreateDocumentSchema), async (c) => {
+  const user = c.get("user");
 
   const body = c.req.valid("json");
 
   // Validate department
-  const { data: department, error: deptError } = await supabase
-    .from('departments')
-    .select('id')
-    .eq('id', body.departmentId)
-    .single();
+  const { data: department, error: deptError } = await repositories.departments.findById(body.departmentId);
 
   if (deptError || !department) {
     return c.json({ error: { message: "Departement non trouve", code: "INVALID_DEPARTMENT" } }, 400);
   }
 
   // Check if user can upload to this department
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== body.departmentId) {
+  if (!inDepartmentScope(c, body.departmentId)) {
     return c.json(
       { error: { message: "Vous ne pouvez telecharger que dans votre departement", code: "FORBIDDEN" } },
       403
@@ -242,37 +230,24 @@ documentsRouter.post("/", zValidator("json", CreateDocumentSchema), async (c) =>
 
   // Validate project if specified
   if (body.projectId) {
-    const { data: project, error: projError } = await supabase
-      .from('projects')
-      .select('id')
-      .eq('id', body.projectId)
-      .single();
+    const { data: project, error: projError } = await repositories.projects.findById(body.projectId);
     if (projError || !project) {
       return c.json({ error: { message: "Projet non trouve", code: "INVALID_PROJECT" } }, 400);
     }
   }
 
-  const { data: document, error } = await supabase
-    .from('documents')
-    .insert({
-      title: body.title,
-      description: body.description || null,
-      file_url: body.fileUrl,
-      file_type: body.fileType,
-      file_size: body.fileSize,
-      type: body.type ?? "REPORT",
-      department_id: body.departmentId,
-      uploaded_by_id: user.id,
-      project_id: body.projectId || null,
-      is_public: body.isPublic ?? false,
-    })
-    .select(`
-      *,
-      department:departments(id, name, code),
-      uploaded_by:users(id, name, email),
-      project:projects(id, name)
-    `)
-    .single();
+  const { data: document, error } = await repositories.documents.create({
+    title: body.title,
+    description: body.description || null,
+    file_url: body.fileUrl,
+    file_type: body.fileType,
+    file_size: body.fileSize,
+    type: body.type ?? "REPORT",
+    department_id: body.departmentId,
+    uploaded_by_id: user.id,
+    project_id: body.projectId || null,
+    is_public: body.isPublic ?? false,
+  });
 
   if (error) {
     console.error('Error creating document:', error);
@@ -283,21 +258,13 @@ documentsRouter.post("/", zValidator("json", CreateDocumentSchema), async (c) =>
 });
 
 // PUT /api/documents/:id - update document
-documentsRouter.put("/:id", zValidator("json", UpdateDocumentSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+documentsRouter.put("/:id", requireAuth, zValidator("json", UpdateDocumentSchema), async (c) => {
+  const user = c.get("user");
 
   const { id } = c.req.param();
   const body = c.req.valid("json");
 
-  const { data: document, error: fetchError } = await supabase
-    .from('documents')
-    .select('*')
-    .eq('id', id)
-    .single();
+  const { data: document, error: fetchError } = await repositories.documents.findById(id);
 
   if (fetchError || !document) {
     return c.json({ error: { message: "Document non trouve", code: "NOT_FOUND" } }, 404);
@@ -306,8 +273,7 @@ documentsRouter.put("/:id", zValidator("json", UpdateDocumentSchema), async (c)
   // Check if user can update this document
   const canUpdate =
     document.uploaded_by_id === user.id ||
-    (user.role === "ADMIN_DEPARTMENT" && document.department_id === user.departmentId) ||
-    ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
+    (can(c, "document:update") && inDepartmentScope(c, document.department_id));
 
   if (!canUpdate) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
@@ -315,17 +281,13 @@ documentsRouter.put("/:id", zValidator("json", UpdateDocumentSchema), async (c)
 
   // Validate project if specified
   if (body.projectId) {
-    const { data: project, error: projError } = await supabase
-      .from('projects')
-      .select('id')
-      .eq('id', body.projectId)
-      .single();
+    const { data: project, error: projError } = await repositories.projects.findById(body.projectId);
     if (projError || !project) {
       return c.json({ error: { message: "Projet non trouve", code: "INVALID_PROJECT" } }, 400);
     }
   }
 
-  const updateData: Record<string, unknown> = {};
+  const updateData: DocumentUpdate = {};
   if (body.title !== undefined) updateData.title = body.title;
   if (body.description !== undefined) updateData.description = body.description;
   if (body.fileUrl !== undefined) updateData.file_url = body.fileUrl;
@@ -335,17 +297,7 @@ documentsRouter.put("/:id", zValidator("json", UpdateDocumentSchema), async (c)
   if (body.projectId !== undefined) updateData.project_id = body.projectId;
   if (body.isPublic !== undefined) updateData.is_public = body.isPublic;
 
-  const { data: updatedDocument, error } = await supabase
-    .from('documents')
-    .update(updateData)
-    .eq('id', id)
-    .select(`
-      *,
-      department:departments(id, name, code),
-      uploaded_by:users(id, name, email),
-      project:projects(id, name)
-    `)
-    .single();
+  const { data: updatedDocument, error } = await repositories.documents.update(id, updateData);
 
   if (error) {
     console.error('Error updating document:', error);
@@ -356,20 +308,12 @@ documentsRouter.put("/:id", zValidator("json", UpdateDocumentSchema), async (c)
 });
 
 // DELETE /api/documents/:id - delete document
-documentsRouter.delete("/:id", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+documentsRouter.delete("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
 
   const { id } = c.req.param();
 
-  const { data: document, error: fetchError } = await supabase
-    .from('documents')
-    .select('*')
-    .eq('id', id)
-    .single();
+  const { data: document, error: fetchError } = await repositories.documents.findById(id);
 
   if (fetchError || !document) {
     return c.json({ error: { message: "Document non trouve", code: "NOT_FOUND" } }, 404);
@@ -378,17 +322,13 @@ documentsRouter.delete("/:id", async (c) => {
   // Check if user can delete this document
   const canDelete =
     document.uploaded_by_id === user.id ||
-    (user.role === "ADMIN_DEPARTMENT" && document.department_id === user.departmentId) ||
-    ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
+    (can(c, "document:delete") && inDepartmentScope(c, document.department_id));
 
   if (!canDelete) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  const { error } = await supabase
-    .from('documents')
-    .delete()
-    .eq('id', id);
+  const { error } = await repositories.documents.delete(id);
 
   if (error) {
     console.error('Error deleting document:', error);
@@ -405,22 +345,14 @@ const SubmitForValidationSchema = z.object({
 });
 
 // POST /api/documents/:id/submit-validation - submit document for validation
-documentsRouter.post("/:id/submit-validation", zValidator("json", SubmitForValidationSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+documentsRouter.post("/:id/submit-validation", requireAuth, zValidator("json", SubmitForValidationSchema), async (c) => {
+  const user = c.get("user");
 
   const { id } = c.req.param();
   const { validatorUserId, comment } = c.req.valid("json");
 
   // Check if document exists and user owns it
-  const { data: document, error: fetchError } = await supabase
-    .from('documents')
-    .select('*')
-    .eq('id', id)
-    .single();
+  const { data: document, error: fetchError } = await repositories.documents.findById(id);
 
   if (fetchError || !document) {
     return c.json({ error: { message: "Document non trouve", code: "NOT_FOUND" } }, 404);
@@ -429,46 +361,31 @@ documentsRouter.post("/:id/submit-validation", zValidator("json", SubmitForValid
   // Only the uploader or department admin can submit for validation
   const canSubmit =
     document.uploaded_by_id === user.id ||
-    (user.role === "ADMIN_DEPARTMENT" && document.department_id === user.departmentId);
+    (can(c, "document:submit_validation") && inDepartmentScope(c, document.department_id));
 
   if (!canSubmit) {
     return c.json({ error: { message: "Vous ne pouvez pas soumettre ce document", code: "FORBIDDEN" } }, 403);
   }
 
   // Check if validator exists and has appropriate role
-  const { data: validator, error: validatorError } = await supabase
-    .from('users')
-    .select('id, role, name')
-    .eq('id', validatorUserId)
-    .single();
+  const { data: validator, error: validatorError } = await repositories.users.findById(validatorUserId);
 
   if (validatorError || !validator) {
     return c.json({ error: { message: "Validateur non trouve", code: "INVALID_VALIDATOR" } }, 400);
   }
 
-  const validatorRoles = ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"];
-  if (!validatorRoles.includes(validator.role)) {
+  if (!(await hasPermission(validator, "document:validate"))) {
     return c.json({ error: { message: "Cet utilisateur ne peut pas valider des documents", code: "INVALID_VALIDATOR" } }, 400);
   }
 
   // Update document with validation request
-  const { data: updatedDocument, error } = await supabase
-    .from('documents')
-    .update({
-      validation_status: 'PENDING',
-      validation_requested_to: validatorUserId,
-      validation_comment: comment || null,
-      validated_by_id: null,
-      validated_at: null,
-    })
-    .eq('id', id)
-    .select(`
-      *,
-      department:departments(id, name, code),
-      uploaded_by:users!documents_uploaded_by_id_fkey(id, name, email),
-      project:projects(id, name)
-    `)
-    .single();
+  const { data: updatedDocument, error } = await repositories.documents.update(id, {
+    validation_status: 'PENDING',
+    validation_requested_to: validatorUserId,
+    validation_comment: comment || null,
+    validated_by_id: null,
+    validated_at: null,
+  });
 
   if (error) {
     console.error('Error submitting for validation:', error);
@@ -476,16 +393,14 @@ documentsRouter.post("/:id/submit-validation", zValidator("json", SubmitForValid
   }
 
   // Create notification for validator
-  await supabase
-    .from('notifications')
-    .insert({
-      type: 'VALIDATION_REQUEST',
-      title: 'Demande de validation',
-      message: `${user.name} a soumis le document "${document.title}" pour validation`,
-      user_id: validatorUserId,
-      is_read: false,
-      link: `/documents/${id}`,
-    });
+  await repositories.notifications.create({
+    type: 'VALIDATION_REQUEST',
+    title: 'Demande de validation',
+    message: `${user.name} a soumis le document "${document.title}" pour validation`,
+    user_id: validatorUserId,
+    is_read: false,
+    link: `/documents/${id}`,
+  });
 
   return c.json({ data: formatDocument(updatedDocument) });
 });
@@ -496,29 +411,15 @@ const ValidationResponseSchema = z.object({
   comment: z.string().optional(),
 });
 
-// POST /api/documents/:id/validate - approve or reject document
-documentsRouter.post("/:id/validate", zValidator("json", ValidationResponseSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
-  // Only high-level users can validate
-  const validatorRoles = ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"];
-  if (!validatorRoles.includes(user.role)) {
-    return c.json({ error: { message: "Vous n'avez pas le droit de valider des documents", code: "FORBIDDEN" } }, 403);
-  }
+// POST /api/documents/:id/validate - approve or reject document (high-level users only)
+documentsRouter.post("/:id/validate", requireAuth, zValidator("json", ValidationResponseSchema), async (c) => {
+  const user = c.get("user");
 
   const { id } = c.req.param();
   const { status, comment } = c.req.valid("json");
 
   // Check if document exists
-  const { data: document, error: fetchError } = await supabase
-    .from('documents')
-    .select('*, uploaded_by:users!documents_uploaded_by_id_fkey(id, name)')
-    .eq('id', id)
-    .single();
+  const { data: document, error: fetchError } = await repositories.documents.findById(id);
 
   if (fetchError || !document) {
     return c.json({ error: { message: "Document non trouve", code: "NOT_FOUND" } }, 404);
@@ -529,48 +430,145 @@ documentsRouter.post("/:id/validate", zValidator("json", ValidationResponseSchem
     return c.json({ error: { message: "Ce document n'est pas en attente de validation", code: "INVALID_STATUS" } }, 400);
   }
 
-  // Check if this user is the requested validator (or is a super admin)
-  if (document.validation_requested_to !== user.id && user.role !== 'SUPER_ADMIN') {
-    return c.json({ error: { message: "Vous n'etes pas le validateur designe", code: "FORBIDDEN" } }, 403);
+  // Check if this user is the requested validator (or is a super admin), or
+  // holds a delegation from the requested validator
+  let onBehalfOf: Delegator | null = null;
+  const ownAuthority =
+    can(c, "document:validate") &&
+    (document.validation_requested_to === user.id || can(c, "document:validate_any"));
+
+  if (!ownAuthority) {
+    const delegations = await activeDelegations(user.id, "document:validate");
+    onBehalfOf = delegatorFor(delegations, "DOCUMENT", (d) => d.id === document.validation_requested_to);
+    if (!onBehalfOf) {
+      return c.json({ error: { message: "Vous n'etes pas le validateur designe", code: "FORBIDDEN" } }, 403);
+    }
   }
 
   // Update document with validation result
-  const { data: updatedDocument, error } = await supabase
-    .from('documents')
-    .update({
-      validation_status: status,
-      validation_comment: comment || document.validation_comment,
-      validated_by_id: user.id,
-      validated_at: new Date().toISOString(),
-    })
-    .eq('id', id)
-    .select(`
-      *,
-      department:departments(id, name, code),
-      uploaded_by:users!documents_uploaded_by_id_fkey(id, name, email),
-      project:projects(id, name)
-    `)
-    .single();
+  const { data: updatedDocument, error } = await repositories.documents.update(id, {
+    validation_status: status,
+    validation_comment: comment || document.validation_comment,
+    validated_by_id: user.id,
+    validated_at: new Date().toISOString(),
+  });
 
   if (error) {
     console.error('Error validating document:', error);
     return c.json({ error: { message: "Erreur lors de la validation" } }, 500);
   }
 
+  await recordAudit(c, { action: "UPDATE", entityType: "DOCUMENT", entityId: id, before: document, after: updatedDocument, onBehalfOf });
+
   // Notify the document uploader
   const statusText = status === 'APPROVED' ? 'approuve' : 'rejete';
-  await supabase
-    .from('notifications')
-    .insert({
-      type: 'VALIDATION_RESPONSE',
-      title: `Document ${statusText}`,
-      message: `Votre document "${document.title}" a ete ${statusText} par ${user.name}`,
-      user_id: document.uploaded_by_id,
-      is_read: false,
-      link: `/documents/${id}`,
-    });
+  const validatorName = onBehalfOf ? `${user.name} au nom de ${onBehalfOf.name}` : user.name;
+  await repositories.notifications.create({
+    type: 'VALIDATION_RESPONSE',
+    title: `Document ${statusText}`,
+    message: `Votre document "${document.title}" a ete ${statusText} par ${validatorName}`,
+    user_id: document.uploaded_by_id,
+    is_read: false,
+    link: `/documents/${id}`,
+  });
 
   return c.json({ data: formatDocument(updatedDocument) });
 });
 
+// GET /api/documents/:id/comments - Discussion thread, oldest first
+documentsRouter.get("/:id/comments", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  const { id } = c.req.param();
+
+  const { data: document, error: fetchError } = await repositories.documents.findById(id);
+
+  if (fetchError || !document) {
+    return c.json({ error: { message: "Document non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (!canViewDocument(document, user, can(c, "document:read_all"))) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  const { data: comments, error } = await repositories.comments.listByEntity("DOCUMENT", id);
+
+  if (error) {
+    console.error('Error fetching comments:', error);
+    return c.json({ error: { message: "Erreur lors du chargement des commentaires" } }, 500);
+  }
+
+  return c.json({ data: (comments || []).map(formatComment) });
+});
+
+// POST /api/documents/:id/comments - comment on a document, mentioning users to notify
+documentsRouter.post("/:id/comments", requireAuth, zValidator("json", CreateCommentSchema), async (c) => {
+  const user = c.get("user");
+
+  const { id } = c.req.param();
+  const body = c.req.valid("json");
+
+  const { data: document, error: fetchError } = await repositories.documents.findById(id);
+
+  if (fetchError || !document) {
+    return c.json({ error: { message: "Document non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (!canViewDocument(document, user, can(c, "document:read_all"))) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  const target = commentTarget(document);
+  const { users: mentioned, rejected } = await resolveMentions(body.mentionIds, target);
+
+  if (rejected.length > 0) {
+    return c.json({
+      error: { message: "Certains utilisateurs mentionnes n'ont pas acces a ce document", code: "INVALID_MENTION" },
+    }, 400);
+  }
+
+  const { data: comment, error } = await repositories.comments.create({
+    entity_type: "DOCUMENT",
+    entity_id: id,
+    author_id: user.id,
+    body: body.body,
+    mentions: JSON.stringify(mentioned.map((u) => u.id)),
+  });
+
+  if (error || !comment) {
+    console.error('Error creating comment:', error);
+    return c.json({ error: { message: "Erreur lors de l'ajout du commentaire" } }, 500);
+  }
+
+  await notifyComment(comment, target, mentioned);
+
+  return c.json({ data: formatComment(comment) }, 201);
+});
+
+// DELETE /api/documents/:id/comments/:commentId - remove one's own comment
+documentsRouter.delete("/:id/comments/:commentId", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  const { id, commentId } = c.req.param();
+
+  const { data: comment, error: fetchError } = await repositories.comments.findById(commentId);
+
+  if (fetchError || !comment || comment.entity_type !== "DOCUMENT" || comment.entity_id !== id) {
+    return c.json({ error: { message: "Commentaire non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (comment.author_id !== user.id) {
+    return c.json({ error: { message: "Seul l'auteur peut supprimer ce commentaire", code: "FORBIDDEN" } }, 403);
+  }
+
+  const { error } = await repositories.comments.delete(commentId);
+
+  if (error) {
+    console.error('Error deleting comment:', error);
+    return c.json({ error: { message: "Erreur lors de la suppression du commentaire" } }, 500);
+  }
+
+  return c.json({ data: { success: true } });
+});
+
 export { documentsRouter };
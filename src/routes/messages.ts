@@ -1,11 +1,11 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { z } from "zod";
-import { supabase } from "../supabase";
-import { CreateMessageSchema, type MessageWithRelations } from "../types";
-import { getAuthUser } from "./auth";
+import { repositories, type MessageFilters } from "../repositories";
+import { CreateMessageSchema, MessageListQuerySchema, type MessageWithRelations } from "../types";
+import { can, requireAuth, type AuthEnv } from "../middleware/auth";
+import { pageOptions, toPage } from "../pagination";
 
-const messagesRouter = new Hono();
+const messagesRouter = new Hono<AuthEnv>();
 
 function formatMessage(m: any): MessageWithRelations {
   let attachments: string[] | null = null;
@@ -58,143 +58,95 @@ function formatMessage(m: any): MessageWithRelations {
 // GET /api/messages - inbox for current user/department
 messagesRouter.get(
   "/",
-  zValidator(
-    "query",
-    z.object({
-      isRead: z.string().optional(),
-      parentId: z.string().optional(),
-    })
-  ),
+  requireAuth,
+  zValidator("query", MessageListQuerySchema),
   async (c) => {
-    const user = await getAuthUser(c);
+    const user = c.get("user");
 
-    if (!user) {
-      return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-    }
-
-    const { isRead, parentId } = c.req.valid("query");
-
-    let query = supabase
-      .from('messages')
-      .select(`
-        *,
-        from_user:users!messages_from_user_id_fkey(id, name, email),
-        to_user:users!messages_to_user_id_fkey(id, name, email),
-        to_department:departments(id, name, code)
-      `)
-      .order('created_at', { ascending: false });
-
-    // Filter by recipient (user or department)
-    if (user.departmentId) {
-      query = query.or(`to_user_id.eq.${user.id},to_department_id.eq.${user.departmentId}`);
-    } else {
-      query = query.eq('to_user_id', user.id);
-    }
+    const query = c.req.valid("query");
+    const { isRead, parentId } = query;
 
-    if (isRead !== undefined) {
-      query = query.eq('is_read', isRead === "true");
+    const page = pageOptions(query);
+    if (!page) {
+      return c.json({ error: { message: "Curseur de pagination invalide", code: "INVALID_CURSOR" } }, 400);
     }
 
-    if (parentId) {
-      query = query.eq('parent_id', parentId);
-    } else {
+    const filters: MessageFilters = {
+      // Filter by recipient (user or department)
+      recipientUserId: user.id,
+      recipientDepartmentId: user.departmentId,
+      isRead: isRead !== undefined ? isRead === "true" : undefined,
       // Only get top-level messages (not replies) by default
-      query = query.is('parent_id', null);
-    }
+      parentId: parentId || null,
+    };
 
-    const { data: messages, error } = await query;
+    const [{ data: messages, error }, { data: total, error: countError }] = await Promise.all([
+      repositories.messages.list(filters, page),
+      repositories.messages.count(filters),
+    ]);
 
-    if (error) {
-      console.error('Error fetching messages:', error);
+    if (error || countError) {
+      console.error('Error fetching messages:', error ?? countError);
       return c.json({ error: { message: "Erreur lors du chargement des messages" } }, 500);
     }
 
     // Get reply counts
     const messageIds = (messages || []).map(m => m.id);
-    const { data: replyCounts } = await supabase
-      .from('messages')
-      .select('parent_id')
-      .in('parent_id', messageIds);
-
-    const replyCountMap: Record<string, number> = {};
-    (replyCounts || []).forEach(r => {
-      replyCountMap[r.parent_id] = (replyCountMap[r.parent_id] || 0) + 1;
-    });
+    const { data: replyCounts } = await repositories.messages.countReplies(messageIds);
+    const replyCountMap: Record<string, number> = replyCounts || {};
 
     const data = (messages || []).map((m) => ({
       ...formatMessage(m),
       replyCount: replyCountMap[m.id] || 0,
     }));
 
-    return c.json({ data });
+    return c.json(toPage(data, query, total ?? 0));
   }
 );
 
 // GET /api/messages/sent - sent messages
-messagesRouter.get("/sent", async (c) => {
-  const user = await getAuthUser(c);
+messagesRouter.get("/sent", requireAuth, zValidator("query", MessageListQuerySchema), async (c) => {
+  const user = c.get("user");
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  const query = c.req.valid("query");
+
+  const page = pageOptions(query);
+  if (!page) {
+    return c.json({ error: { message: "Curseur de pagination invalide", code: "INVALID_CURSOR" } }, 400);
   }
 
-  const { data: messages, error } = await supabase
-    .from('messages')
-    .select(`
-      *,
-      from_user:users!messages_from_user_id_fkey(id, name, email),
-      to_user:users!messages_to_user_id_fkey(id, name, email),
-      to_department:departments(id, name, code)
-    `)
-    .eq('from_user_id', user.id)
-    .is('parent_id', null)
-    .order('created_at', { ascending: false });
+  const filters: MessageFilters = { fromUserId: user.id, parentId: null };
 
-  if (error) {
-    console.error('Error fetching sent messages:', error);
+  const [{ data: messages, error }, { data: total, error: countError }] = await Promise.all([
+    repositories.messages.list(filters, page),
+    repositories.messages.count(filters),
+  ]);
+
+  if (error || countError) {
+    console.error('Error fetching sent messages:', error ?? countError);
     return c.json({ error: { message: "Erreur lors du chargement des messages" } }, 500);
   }
 
   // Get reply counts
   const messageIds = (messages || []).map(m => m.id);
-  const { data: replyCounts } = await supabase
-    .from('messages')
-    .select('parent_id')
-    .in('parent_id', messageIds);
-
-  const replyCountMap: Record<string, number> = {};
-  (replyCounts || []).forEach(r => {
-    replyCountMap[r.parent_id] = (replyCountMap[r.parent_id] || 0) + 1;
-  });
+  const { data: replyCounts } = await repositories.messages.countReplies(messageIds);
+  const replyCountMap: Record<string, number> = replyCounts || {};
 
   const data = (messages || []).map((m) => ({
     ...formatMessage(m),
     replyCount: replyCountMap[m.id] || 0,
   }));
 
-  return c.json({ data });
+  return c.json(toPage(data, query, total ?? 0));
 });
 
 // GET /api/messages/:id - get single message with replies
-messagesRouter.get("/:id", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+messagesRouter.get("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
 
   const { id } = c.req.param();
 
-  const { data: message, error } = await supabase
-    .from('messages')
-    .select(`
-      *,
-      from_user:users!messages_from_user_id_fkey(id, name, email),
-      to_user:users!messages_to_user_id_fkey(id, name, email),
-      to_department:departments(id, name, code)
-    `)
-    .eq('id', id)
-    .single();
+  const { data: message, error } = await repositories.messages.findById(id);
 
   if (error || !message) {
     return c.json({ error: { message: "Message non trouve", code: "NOT_FOUND" } }, 404);
@@ -205,23 +157,14 @@ messagesRouter.get("/:id", async (c) => {
     message.from_user_id === user.id ||
     message.to_user_id === user.id ||
     (user.departmentId && message.to_department_id === user.departmentId) ||
-    ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
+    can(c, "message:read_all");
 
   if (!canAccess) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
   // Get replies
-  const { data: replies } = await supabase
-    .from('messages')
-    .select(`
-      *,
-      from_user:users!messages_from_user_id_fkey(id, name, email),
-      to_user:users!messages_to_user_id_fkey(id, name, email),
-      to_department:departments(id, name, code)
-    `)
-    .eq('parent_id', id)
-    .order('created_at', { ascending: true });
+  const { data: replies } = await repositories.messages.listReplies(id);
 
   const formattedMessage = {
     ...formatMessage(message),
@@ -232,12 +175,8 @@ messagesRouter.get("/:id", async (c) => {
 });
 
 // POST /api/messages - send new message
-messagesRouter.post("/", zValidator("json", CreateMessageSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+messagesRouter.post("/", requireAuth, zValidator("json", CreateMessageSchema), async (c) => {
+  const user = c.get("user");
 
   const body = c.req.valid("json");
 
@@ -251,11 +190,7 @@ messagesRouter.post("/", zValidator("json", CreateMessageSchema), async (c) => {
 
   // Validate recipient user if specified
   if (body.toUserId) {
-    const { data: toUser, error } = await supabase
-      .from('users')
-      .select('id')
-      .eq('id', body.toUserId)
-      .single();
+    const { data: toUser, error } = await repositories.users.findById(body.toUserId);
     if (error || !toUser) {
       return c.json({ error: { message: "Utilisateur destinataire non trouve", code: "INVALID_USER" } }, 400);
     }
@@ -263,11 +198,7 @@ messagesRouter.post("/", zValidator("json", CreateMessageSchema), async (c) => {
 
   // Validate recipient department if specified
   if (body.toDepartmentId) {
-    const { data: toDept, error } = await supabase
-      .from('departments')
-      .select('id')
-      .eq('id', body.toDepartmentId)
-      .single();
+    const { data: toDept, error } = await repositories.departments.findById(body.toDepartmentId);
     if (error || !toDept) {
       return c.json({ error: { message: "Departement destinataire non trouve", code: "INVALID_DEPARTMENT" } }, 400);
     }
@@ -275,35 +206,22 @@ messagesRouter.post("/", zValidator("json", CreateMessageSchema), async (c) => {
 
   // Validate parent message if specified (for replies)
   if (body.parentId) {
-    const { data: parentMessage, error } = await supabase
-      .from('messages')
-      .select('id')
-      .eq('id', body.parentId)
-      .single();
+    const { data: parentMessage, error } = await repositories.messages.findById(body.parentId);
     if (error || !parentMessage) {
       return c.json({ error: { message: "Message parent non trouve", code: "INVALID_PARENT" } }, 400);
     }
   }
 
-  const { data: message, error } = await supabase
-    .from('messages')
-    .insert({
-      subject: body.subject,
-      content: body.content,
-      from_user_id: user.id,
-      to_user_id: body.toUserId || null,
-      to_department_id: body.toDepartmentId || null,
-      parent_id: body.parentId || null,
-      attachments: body.attachments || null,
-      is_read: false,
-    })
-    .select(`
-      *,
-      from_user:users!messages_from_user_id_fkey(id, name, email),
-      to_user:users!messages_to_user_id_fkey(id, name, email),
-      to_department:departments(id, name, code)
-    `)
-    .single();
+  const { data: message, error } = await repositories.messages.create({
+    subject: body.subject,
+    content: body.content,
+    from_user_id: user.id,
+    to_user_id: body.toUserId || null,
+    to_department_id: body.toDepartmentId || null,
+    parent_id: body.parentId || null,
+    attachments: body.attachments || null,
+    is_read: false,
+  });
 
   if (error) {
     console.error('Error creating message:', error);
@@ -314,20 +232,12 @@ messagesRouter.post("/", zValidator("json", CreateMessageSchema), async (c) => {
 });
 
 // PATCH /api/messages/:id/read - mark as read
-messagesRouter.patch("/:id/read", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+messagesRouter.patch("/:id/read", requireAuth, async (c) => {
+  const user = c.get("user");
 
   const { id } = c.req.param();
 
-  const { data: message, error: fetchError } = await supabase
-    .from('messages')
-    .select('*')
-    .eq('id', id)
-    .single();
+  const { data: message, error: fetchError } = await repositories.messages.findById(id);
 
   if (fetchError || !message) {
     return c.json({ error: { message: "Message non trouve", code: "NOT_FOUND" } }, 404);
@@ -342,20 +252,10 @@ messagesRouter.patch("/:id/read", async (c) => {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  const { data: updatedMessage, error } = await supabase
-    .from('messages')
-    .update({
-      is_read: true,
-      read_at: new Date().toISOString(),
-    })
-    .eq('id', id)
-    .select(`
-      *,
-      from_user:users!messages_from_user_id_fkey(id, name, email),
-      to_user:users!messages_to_user_id_fkey(id, name, email),
-      to_department:departments(id, name, code)
-    `)
-    .single();
+  const { data: updatedMessage, error } = await repositories.messages.update(id, {
+    is_read: true,
+    read_at: new Date().toISOString(),
+  });
 
   if (error) {
     console.error('Error marking message as read:', error);
@@ -366,20 +266,12 @@ messagesRouter.patch("/:id/read", async (c) => {
 });
 
 // DELETE /api/messages/:id - delete message
-messagesRouter.delete("/:id", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+messagesRouter.delete("/:id", requireAuth, async (c) => {
+  const user = c.get("user");
 
   const { id } = c.req.param();
 
-  const { data: message, error: fetchError } = await supabase
-    .from('messages')
-    .select('*')
-    .eq('id', id)
-    .single();
+  const { data: message, error: fetchError } = await repositories.messages.findById(id);
 
   if (fetchError || !message) {
     return c.json({ error: { message: "Message non trouve", code: "NOT_FOUND" } }, 404);
@@ -388,23 +280,17 @@ messagesRouter.delete("/:id", async (c) => {
   // Only sender or admin can delete
   const canDelete =
     message.from_user_id === user.id ||
-    ["SUPER_ADMIN", "MINISTER", "PRIMATURE", "PRESIDENCY"].includes(user.role);
+    can(c, "message:delete_any");
 
   if (!canDelete) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
   // Delete all replies first
-  await supabase
-    .from('messages')
-    .delete()
-    .eq('parent_id', id);
+  await repositories.messages.deleteReplies(id);
 
   // Delete the message
-  const { error } = await supabase
-    .from('messages')
-    .delete()
-    .eq('id', id);
+  const { error } = await repositories.messages.delete(id);
 
   if (error) {
     console.error('Error deleting message:', error);
@@ -1,15 +1,16 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { createId } from "@paralleldrive/cuid2";
-import { supabase } from "../supabase";
+import { repositories, type MilestoneUpdate } from "../repositories";
 import {
   CreateMilestoneSchema,
   UpdateMilestoneSchema,
   type Milestone,
 } from "../types";
-import { getAuthUser } from "./auth";
+import { inDepartmentScope, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
+import { recordAudit } from "../audit";
 
-const milestonesRouter = new Hono();
+const milestonesRouter = new Hono<AuthEnv>();
 
 // Helper to format milestone
 function formatMilestone(m: any): Milestone {
@@ -32,69 +33,47 @@ milestonesRouter.get("/projects/:projectId/milestones", async (c) => {
   const { projectId } = c.req.param();
 
   // Verify project exists
-  const { data: project, error: projectError } = await supabase
-    .from("projects")
-    .select("id")
-    .eq("id", projectId)
-    .single();
+  const { data: project, error: projectError } = await repositories.projects.findById(projectId);
 
   if (projectError || !project) {
     return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
   }
 
-  const { data: milestones, error } = await supabase
-    .from("milestones")
-    .select("*")
-    .eq("project_id", projectId)
-    .order("order", { ascending: true });
+  const { data: milestones, error } = await repositories.milestones.listByProject(projectId);
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
   }
 
-  return c.json({ data: milestones.map(formatMilestone) });
+  return c.json({ data: (milestones || []).map(formatMilestone) });
 });
 
 // POST /api/projects/:projectId/milestones
 milestonesRouter.post(
   "/projects/:projectId/milestones",
+  requirePermission("milestone:create"),
+  requireDepartmentScope(),
   zValidator("json", CreateMilestoneSchema),
   async (c) => {
-    const user = await getAuthUser(c);
-
-    if (!user) {
-      return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-    }
-
     const { projectId } = c.req.param();
     const body = c.req.valid("json");
 
     // Verify project exists
-    const { data: project, error: projectError } = await supabase
-      .from("projects")
-      .select("id, department_id")
-      .eq("id", projectId)
-      .single();
+    const { data: project, error: projectError } = await repositories.projects.findById(projectId);
 
     if (projectError || !project) {
       return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
     }
 
     // If admin_department, can only add milestones to their department's projects
-    if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== project.department_id) {
+    if (!inDepartmentScope(c, project.department_id)) {
       return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
     }
 
     // Get max order for this project
-    const { data: maxOrderResult } = await supabase
-      .from("milestones")
-      .select("order")
-      .eq("project_id", projectId)
-      .order("order", { ascending: false })
-      .limit(1)
-      .single();
+    const { data: existingMilestones } = await repositories.milestones.listByProject(projectId);
 
-    const maxOrder = maxOrderResult?.order ?? -1;
+    const maxOrder = existingMilestones?.at(-1)?.order ?? -1;
 
     const now = new Date().toISOString();
     const newMilestone = {
@@ -110,16 +89,14 @@ milestonesRouter.post(
       updated_at: now,
     };
 
-    const { data: milestone, error } = await supabase
-      .from("milestones")
-      .insert(newMilestone)
-      .select()
-      .single();
+    const { data: milestone, error } = await repositories.milestones.create(newMilestone);
 
-    if (error) {
-      return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+    if (error || !milestone) {
+      return c.json({ error: { message: error?.message ?? "Jalon non enregistre", code: "DB_ERROR" } }, 500);
     }
 
+    await recordAudit(c, { action: "CREATE", entityType: "MILESTONE", entityId: milestone.id, after: milestone });
+
     return c.json({ data: formatMilestone(milestone) }, 201);
   }
 );
@@ -127,35 +104,27 @@ milestonesRouter.post(
 // PUT /api/milestones/:id
 milestonesRouter.put(
   "/milestones/:id",
+  requirePermission("milestone:update"),
+  requireDepartmentScope(),
   zValidator("json", UpdateMilestoneSchema),
   async (c) => {
-    const user = await getAuthUser(c);
-
-    if (!user) {
-      return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-    }
-
     const { id } = c.req.param();
     const body = c.req.valid("json");
 
     // Get existing milestone with project
-    const { data: existing, error: existingError } = await supabase
-      .from("milestones")
-      .select("*, projects!inner(department_id)")
-      .eq("id", id)
-      .single();
+    const { data: existing, error: existingError } = await repositories.milestones.findById(id);
 
     if (existingError || !existing) {
       return c.json({ error: { message: "Jalon non trouve", code: "NOT_FOUND" } }, 404);
     }
 
     // If admin_department, can only update milestones of their department's projects
-    if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== existing.projects.department_id) {
+    if (!inDepartmentScope(c, existing.project?.department_id)) {
       return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
     }
 
     // Build update data with snake_case
-    const updateData: any = { updated_at: new Date().toISOString() };
+    const updateData: MilestoneUpdate = { updated_at: new Date().toISOString() };
     if (body.title !== undefined) updateData.title = body.title;
     if (body.description !== undefined) updateData.description = body.description;
     if (body.dueDate !== undefined) updateData.due_date = body.dueDate ? new Date(body.dueDate).toISOString() : null;
@@ -163,56 +132,42 @@ milestonesRouter.put(
     if (body.status !== undefined) updateData.status = body.status;
     if (body.order !== undefined) updateData.order = body.order;
 
-    const { data: milestone, error } = await supabase
-      .from("milestones")
-      .update(updateData)
-      .eq("id", id)
-      .select()
-      .single();
+    const { data: milestone, error } = await repositories.milestones.update(id, updateData);
 
-    if (error) {
-      return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+    if (error || !milestone) {
+      return c.json({ error: { message: error?.message ?? "Jalon non enregistre", code: "DB_ERROR" } }, 500);
     }
 
+    await recordAudit(c, { action: "UPDATE", entityType: "MILESTONE", entityId: id, before: existing, after: milestone });
+
     return c.json({ data: formatMilestone(milestone) });
   }
 );
 
 // DELETE /api/milestones/:id
-milestonesRouter.delete("/milestones/:id", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
+milestonesRouter.delete("/milestones/:id", requirePermission("milestone:delete"), requireDepartmentScope(), async (c) => {
   const { id } = c.req.param();
 
   // Get existing milestone with project
-  const { data: existing, error: existingError } = await supabase
-    .from("milestones")
-    .select("*, projects!inner(department_id)")
-    .eq("id", id)
-    .single();
+  const { data: existing, error: existingError } = await repositories.milestones.findById(id);
 
   if (existingError || !existing) {
     return c.json({ error: { message: "Jalon non trouve", code: "NOT_FOUND" } }, 404);
   }
 
   // If admin_department, can only delete milestones of their department's projects
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== existing.projects.department_id) {
+  if (!inDepartmentScope(c, existing.project?.department_id)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  const { error } = await supabase
-    .from("milestones")
-    .delete()
-    .eq("id", id);
+  const { error } = await repositories.milestones.delete(id);
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
   }
 
+  await recordAudit(c, { action: "DELETE", entityType: "MILESTONE", entityId: id, before: existing });
+
   return c.json({ data: { success: true } });
 });
 
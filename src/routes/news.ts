@@ -2,13 +2,13 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { createId } from "@paralleldrive/cuid2";
-import { supabase } from "../supabase";
+import { repositories } from "../repositories";
 import { CreateNewsSchema, type NewsWithDepartment } from "../types";
-import { getAuthUser } from "./auth";
+import { inDepartmentScope, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
 
-const newsRouter = new Hono();
+const newsRouter = new Hono<AuthEnv>();
 
-function formatNews(n: any, department: any): NewsWithDepartment {
+function formatNews(n: any): NewsWithDepartment {
   return {
     id: n.id,
     title: n.title,
@@ -19,9 +19,9 @@ function formatNews(n: any, department: any): NewsWithDepartment {
     publishedAt: n.published_at,
     createdAt: n.created_at,
     department: {
-      id: department.id,
-      name: department.name,
-      code: department.code,
+      id: n.department?.id ?? n.department_id,
+      name: n.department?.name ?? "",
+      code: n.department?.code ?? "",
     },
   };
 }
@@ -40,33 +40,17 @@ newsRouter.get(
   async (c) => {
     const { departmentId, type, limit } = c.req.valid("query");
 
-    let query = supabase.from("news").select("*");
-
-    if (departmentId) query = query.eq("department_id", departmentId);
-    if (type) query = query.eq("type", type);
-
-    query = query.order("published_at", { ascending: false });
-
-    if (limit) query = query.limit(parseInt(limit));
-
-    const { data: news, error } = await query;
+    const { data: news, error } = await repositories.news.list({
+      departmentId,
+      type,
+      limit: limit ? parseInt(limit) : undefined,
+    });
 
     if (error) {
       return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
     }
 
-    // Fetch departments
-    const departmentIds = [...new Set(news.map((n: any) => n.department_id))];
-    const { data: departments } = await supabase
-      .from("departments")
-      .select("id, name, code")
-      .in("id", departmentIds);
-
-    const departmentsMap = new Map((departments || []).map((d: any) => [d.id, d]));
-
-    const data = news.map((n: any) =>
-      formatNews(n, departmentsMap.get(n.department_id) || { id: n.department_id, name: "", code: "" })
-    );
+    const data = (news || []).map(formatNews);
 
     return c.json({ data });
   }
@@ -76,51 +60,28 @@ newsRouter.get(
 newsRouter.get("/:id", async (c) => {
   const { id } = c.req.param();
 
-  const { data: newsItem, error } = await supabase
-    .from("news")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: newsItem, error } = await repositories.news.findById(id);
 
   if (error || !newsItem) {
     return c.json({ error: { message: "Actualite non trouvee", code: "NOT_FOUND" } }, 404);
   }
 
-  // Fetch department
-  const { data: department } = await supabase
-    .from("departments")
-    .select("id, name, code")
-    .eq("id", newsItem.department_id)
-    .single();
-
-  return c.json({
-    data: formatNews(newsItem, department || { id: newsItem.department_id, name: "", code: "" }),
-  });
+  return c.json({ data: formatNews(newsItem) });
 });
 
 // POST /api/news
-newsRouter.post("/", zValidator("json", CreateNewsSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
+newsRouter.post("/", requirePermission("news:create"), requireDepartmentScope(), zValidator("json", CreateNewsSchema), async (c) => {
   const body = c.req.valid("json");
 
   // Validate department
-  const { data: department, error: deptError } = await supabase
-    .from("departments")
-    .select("id, name, code")
-    .eq("id", body.departmentId)
-    .single();
+  const { data: department, error: deptError } = await repositories.departments.findById(body.departmentId);
 
   if (deptError || !department) {
     return c.json({ error: { message: "Departement non trouve", code: "INVALID_DEPARTMENT" } }, 400);
   }
 
   // If admin_department, can only create for their department
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== body.departmentId) {
+  if (!inDepartmentScope(c, body.departmentId)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
@@ -136,48 +97,31 @@ newsRouter.post("/", zValidator("json", CreateNewsSchema), async (c) => {
     created_at: now,
   };
 
-  const { data: newsItem, error } = await supabase
-    .from("news")
-    .insert(newNewsItem)
-    .select()
-    .single();
+  const { data: newsItem, error } = await repositories.news.create(newNewsItem);
 
-  if (error) {
-    return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+  if (error || !newsItem) {
+    return c.json({ error: { message: error?.message ?? "Erreur lors de la creation", code: "DB_ERROR" } }, 500);
   }
 
-  return c.json({ data: formatNews(newsItem, department) }, 201);
+  return c.json({ data: formatNews(newsItem) }, 201);
 });
 
 // DELETE /api/news/:id
-newsRouter.delete("/:id", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
+newsRouter.delete("/:id", requirePermission("news:delete"), requireDepartmentScope(), async (c) => {
   const { id } = c.req.param();
 
-  const { data: newsItem, error: fetchError } = await supabase
-    .from("news")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: newsItem, error: fetchError } = await repositories.news.findById(id);
 
   if (fetchError || !newsItem) {
     return c.json({ error: { message: "Actualite non trouvee", code: "NOT_FOUND" } }, 404);
   }
 
   // If admin_department, can only delete their department's news
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== newsItem.department_id) {
+  if (!inDepartmentScope(c, newsItem.department_id)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  const { error } = await supabase
-    .from("news")
-    .delete()
-    .eq("id", id);
+  const { error } = await repositories.news.delete(id);
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
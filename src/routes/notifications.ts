@@ -1,9 +1,11 @@
 import { Hono } from "hono";
-import { supabase } from "../supabase";
-import { type Notification } from "../types";
-import { getAuthUser } from "./auth";
+import { zValidator } from "@hono/zod-validator";
+import { repositories } from "../repositories";
+import { NotificationListQuerySchema, type Notification } from "../types";
+import { requireAuth, type AuthEnv } from "../middleware/auth";
+import { pageOptions, toPage } from "../pagination";
 
-const notificationsRouter = new Hono();
+const notificationsRouter = new Hono<AuthEnv>();
 
 // Helper to format notification
 function formatNotification(n: any): Notification {
@@ -20,41 +22,35 @@ function formatNotification(n: any): Notification {
 }
 
 // GET /api/notifications - Get user's notifications
-notificationsRouter.get("/", async (c) => {
-  const user = await getAuthUser(c);
+notificationsRouter.get("/", requireAuth, zValidator("query", NotificationListQuerySchema), async (c) => {
+  const user = c.get("user");
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  const query = c.req.valid("query");
+
+  const page = pageOptions(query);
+  if (!page) {
+    return c.json({ error: { message: "Curseur de pagination invalide", code: "INVALID_CURSOR" } }, 400);
   }
 
-  const { data: notifications, error } = await supabase
-    .from("notifications")
-    .select("*")
-    .eq("user_id", user.id)
-    .order("created_at", { ascending: false });
+  const [{ data: notifications, error }, { data: total, error: countError }] = await Promise.all([
+    repositories.notifications.listByUser(user.id, page),
+    repositories.notifications.countByUser(user.id),
+  ]);
 
-  if (error) {
-    return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+  if (error || countError) {
+    return c.json({ error: { message: (error ?? countError)!.message, code: "DB_ERROR" } }, 500);
   }
 
-  const data = notifications.map(formatNotification);
+  const data = (notifications || []).map(formatNotification);
 
-  return c.json({ data });
+  return c.json(toPage(data, query, total ?? 0));
 });
 
 // GET /api/notifications/unread-count - Get unread count
-notificationsRouter.get("/unread-count", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+notificationsRouter.get("/unread-count", requireAuth, async (c) => {
+  const user = c.get("user");
 
-  const { count, error } = await supabase
-    .from("notifications")
-    .select("id", { count: "exact", head: true })
-    .eq("user_id", user.id)
-    .eq("is_read", false);
+  const { data: count, error } = await repositories.notifications.countUnread(user.id);
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
@@ -64,20 +60,12 @@ notificationsRouter.get("/unread-count", async (c) => {
 });
 
 // PUT /api/notifications/:id/read - Mark as read
-notificationsRouter.put("/:id/read", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+notificationsRouter.put("/:id/read", requireAuth, async (c) => {
+  const user = c.get("user");
 
   const { id } = c.req.param();
 
-  const { data: notification, error: fetchError } = await supabase
-    .from("notifications")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: notification, error: fetchError } = await repositories.notifications.findById(id);
 
   if (fetchError || !notification) {
     return c.json({ error: { message: "Notification non trouvee", code: "NOT_FOUND" } }, 404);
@@ -88,12 +76,7 @@ notificationsRouter.put("/:id/read", async (c) => {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  const { data: updatedNotification, error } = await supabase
-    .from("notifications")
-    .update({ is_read: true })
-    .eq("id", id)
-    .select()
-    .single();
+  const { data: updatedNotification, error } = await repositories.notifications.update(id, { is_read: true });
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
@@ -103,18 +86,10 @@ notificationsRouter.put("/:id/read", async (c) => {
 });
 
 // PUT /api/notifications/read-all - Mark all as read
-notificationsRouter.put("/read-all", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+notificationsRouter.put("/read-all", requireAuth, async (c) => {
+  const user = c.get("user");
 
-  const { error } = await supabase
-    .from("notifications")
-    .update({ is_read: true })
-    .eq("user_id", user.id)
-    .eq("is_read", false);
+  const { error } = await repositories.notifications.markAllRead(user.id);
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
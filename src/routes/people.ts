@@ -0,0 +1,393 @@
+import { Hono, type Context } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { createId } from "@paralleldrive/cuid2";
+import {
+  repositories,
+  DB_CONFLICT_CODE,
+  type PersonDuplicateDismissalRow,
+  type PersonMerge,
+  type PersonUpdate,
+} from "../repositories";
+import {
+  CreateEnrollmentSchema,
+  DismissDuplicateSchema,
+  DuplicateQueueQuerySchema,
+  MergePersonSchema,
+  PersonListQuerySchema,
+  UpdatePersonSchema,
+  type DuplicateDismissal,
+  type DuplicatePair,
+  type DuplicateQueueQuery,
+} from "../types";
+import { inProjectScope, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
+import { recordAudit, recordAuditMany } from "../audit";
+import { pageOptions, toPage } from "../pagination";
+import { findDuplicatePairs, identityKeys } from "../beneficiary-duplicates";
+import {
+  enrollmentScope,
+  enrollmentsByPerson,
+  formatBeneficiary,
+  formatPerson,
+  formatPersonDetail,
+  withEnrollments,
+} from "../people";
+
+const peopleRouter = new Hono<AuthEnv>();
+
+function formatDismissal(d: PersonDuplicateDismissalRow): DuplicateDismissal {
+  return {
+    id: d.id,
+    personIds: [d.person_id, d.other_id],
+    dismissedById: d.dismissed_by_id,
+    createdAt: d.created_at,
+  };
+}
+
+// Dismissals are stored with the smaller id first
+function dismissalKey(personId: string, otherId: string): string {
+  return [personId, otherId].sort().join(":");
+}
+
+// GET /api/people
+peopleRouter.get("/", zValidator("query", PersonListQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+
+  const page = pageOptions(query);
+  if (!page) {
+    return c.json({ error: { message: "Curseur de pagination invalide", code: "INVALID_CURSOR" } }, 400);
+  }
+
+  const [{ data: people, error }, { data: total, error: countError }] = await Promise.all([
+    repositories.people.list(query, page),
+    repositories.people.count(query),
+  ]);
+
+  if (error || countError) {
+    return c.json({ error: { message: (error ?? countError)!.message, code: "DB_ERROR" } }, 500);
+  }
+
+  return c.json(toPage((people || []).map(formatPerson), query, total ?? 0));
+});
+
+// Probable duplicates to review, most likely first. Pairs already dismissed are
+// left out, as are those the caller could not merge.
+// Also answers GET /api/beneficiaries/duplicates.
+export async function duplicateQueue<E extends AuthEnv>(c: Context<E, any, any>, query: DuplicateQueueQuery) {
+  // Only people sharing a key with someone else can be part of a pair
+  const [{ data: people, error }, { data: dismissals, error: dismissalsError }] = await Promise.all([
+    repositories.people.listSharingIdentityKeys(),
+    repositories.personDuplicateDismissals.list(),
+  ]);
+
+  if (error || dismissalsError) {
+    return c.json({ error: { message: (error ?? dismissalsError)!.message, code: "DB_ERROR" } }, 500);
+  }
+
+  const { data: enrollments, error: enrollmentsError } = await repositories.beneficiaries.list({
+    personIds: (people ?? []).map((p) => p.id),
+  });
+
+  if (enrollmentsError) {
+    return c.json({ error: { message: enrollmentsError.message, code: "DB_ERROR" } }, 500);
+  }
+
+  const byPerson = enrollmentsByPerson(enrollments ?? []);
+  const enrollmentsOf = (personId: string) => byPerson.get(personId) ?? [];
+  const dismissed = new Set((dismissals ?? []).map((d) => dismissalKey(d.person_id, d.other_id)));
+  const inScope = enrollmentScope(c);
+  const pairs: DuplicatePair[] = [];
+
+  for (const { records, score, reasons } of findDuplicatePairs(people ?? [], query.minScore)) {
+    const [a, b] = records;
+    if (dismissed.has(dismissalKey(a.id, b.id))) continue;
+    if (query.projectId && ![a, b].some((p) => enrollmentsOf(p.id).some((e) => e.project_id === query.projectId))) continue;
+    if (query.regionId && a.region_id !== query.regionId && b.region_id !== query.regionId) continue;
+    if (!(await inScope.person(enrollmentsOf(a.id))) || !(await inScope.person(enrollmentsOf(b.id)))) continue;
+
+    pairs.push({
+      score,
+      reasons,
+      people: [formatPersonDetail(a, enrollmentsOf(a.id)), formatPersonDetail(b, enrollmentsOf(b.id))],
+    });
+  }
+
+  // Among equal scores, pairs with the most recent registration first
+  const latest = (pair: DuplicatePair) =>
+    pair.people.map((p) => p.createdAt).sort().reverse()[0] ?? "";
+  pairs.sort((a, b) => b.score - a.score || latest(b).localeCompare(latest(a)));
+
+  return c.json({
+    data: pairs.slice(query.offset, query.offset + query.limit),
+    pagination: { total: pairs.length, limit: query.limit, offset: query.offset, nextCursor: null },
+  });
+}
+
+// Marks two people as distinct.
+// Also answers POST /api/beneficiaries/duplicates/dismiss.
+export async function dismissDuplicate<E extends AuthEnv>(c: Context<E, any, any>, personIds: [string, string]) {
+  const user = c.get("user")!;
+  const [personId, otherId] = [...personIds].sort() as [string, string];
+
+  const [{ data: person }, { data: other }, { data: enrollments, error: enrollmentsError }] = await Promise.all([
+    repositories.people.findById(personId),
+    repositories.people.findById(otherId),
+    repositories.beneficiaries.list({ personIds: [personId, otherId] }),
+  ]);
+
+  if (!person || !other) {
+    return c.json({ error: { message: "Personne non trouvee", code: "NOT_FOUND" } }, 404);
+  }
+  if (enrollmentsError) {
+    return c.json({ error: { message: enrollmentsError.message, code: "DB_ERROR" } }, 500);
+  }
+
+  const byPerson = enrollmentsByPerson(enrollments ?? []);
+  const inScope = enrollmentScope(c);
+  if (!(await inScope.person(byPerson.get(personId) ?? [])) || !(await inScope.person(byPerson.get(otherId) ?? []))) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  const { data: dismissals, error: listError } = await repositories.personDuplicateDismissals.list();
+  if (listError) {
+    return c.json({ error: { message: listError.message, code: "DB_ERROR" } }, 500);
+  }
+
+  // Dismissing twice is harmless
+  const existing = (dismissals ?? []).find((d) => d.person_id === personId && d.other_id === otherId);
+  if (existing) {
+    return c.json({ data: formatDismissal(existing) });
+  }
+
+  const { data: dismissal, error } = await repositories.personDuplicateDismissals.create({
+    person_id: personId,
+    other_id: otherId,
+    dismissed_by_id: user.id,
+  });
+
+  if (error || !dismissal) {
+    return c.json({ error: { message: error?.message ?? "Erreur lors de l'enregistrement", code: "DB_ERROR" } }, 500);
+  }
+
+  return c.json({ data: formatDismissal(dismissal) }, 201);
+}
+
+// GET /api/people/duplicates - Probable duplicates to review, most likely first
+peopleRouter.get("/duplicates", requirePermission("beneficiary:update"), requireDepartmentScope(), zValidator("query", DuplicateQueueQuerySchema), (c) => duplicateQueue(c, c.req.valid("query")));
+
+// POST /api/people/duplicates/dismiss - Mark two people as distinct
+peopleRouter.post("/duplicates/dismiss", requirePermission("beneficiary:update"), requireDepartmentScope(), zValidator("json", DismissDuplicateSchema), (c) => dismissDuplicate(c, c.req.valid("json").personIds));
+
+// GET /api/people/:id - The person with every project they were enrolled in
+peopleRouter.get("/:id", async (c) => {
+  const { id } = c.req.param();
+
+  const { data: person, error } = await repositories.people.findById(id);
+
+  if (error || !person) {
+    return c.json({ error: { message: "Personne non trouvee", code: "NOT_FOUND" } }, 404);
+  }
+
+  const detail = await withEnrollments(person);
+  if (!detail) {
+    return c.json({ error: { message: "Erreur lors du chargement des inscriptions", code: "DB_ERROR" } }, 500);
+  }
+
+  return c.json({ data: detail });
+});
+
+// PUT /api/people/:id - Latest known details of the person; enrollments keep
+// the ones their project registered
+peopleRouter.put("/:id", requirePermission("beneficiary:update"), requireDepartmentScope(), zValidator("json", UpdatePersonSchema), async (c) => {
+  const { id } = c.req.param();
+  const body = c.req.valid("json");
+
+  const [{ data: existing }, { data: enrollments, error: enrollmentsError }] = await Promise.all([
+    repositories.people.findById(id),
+    repositories.beneficiaries.list({ personId: id }),
+  ]);
+
+  if (!existing) {
+    return c.json({ error: { message: "Personne non trouvee", code: "NOT_FOUND" } }, 404);
+  }
+  if (enrollmentsError) {
+    return c.json({ error: { message: enrollmentsError.message, code: "DB_ERROR" } }, 500);
+  }
+
+  if (!(await enrollmentScope(c).person(enrollments ?? []))) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  if (body.regionId) {
+    const { data: region } = await repositories.regions.findById(body.regionId);
+    if (!region) {
+      return c.json({ error: { message: "Region non trouvee", code: "INVALID_REGION" } }, 400);
+    }
+  }
+
+  const updateData: PersonUpdate = { updated_at: new Date().toISOString() };
+  if (body.firstName !== undefined) updateData.first_name = body.firstName;
+  if (body.lastName !== undefined) updateData.last_name = body.lastName;
+  if (body.gender !== undefined) updateData.gender = body.gender;
+  if (body.age !== undefined) updateData.age = body.age;
+  if (body.phone !== undefined) updateData.phone = body.phone;
+  if (body.regionId !== undefined) updateData.region_id = body.regionId;
+  Object.assign(updateData, identityKeys({ ...existing, ...updateData }));
+
+  const { data: person, error } = await repositories.people.update(id, updateData);
+
+  if (error || !person) {
+    return c.json({ error: { message: error?.message ?? "Erreur lors de la mise a jour", code: "DB_ERROR" } }, 500);
+  }
+
+  await recordAudit(c, { action: "UPDATE", entityType: "PERSON", entityId: id, before: existing, after: person });
+
+  return c.json({ data: formatPersonDetail(person, enrollmentsByPerson(enrollments ?? []).get(id) ?? []) });
+});
+
+// POST /api/people/:id/enrollments - Enroll the person in another project
+// Refused while the person is still active in that project.
+peopleRouter.post("/:id/enrollments", requirePermission("beneficiary:create"), requireDepartmentScope(), zValidator("json", CreateEnrollmentSchema), async (c) => {
+  const { id } = c.req.param();
+  const body = c.req.valid("json");
+
+  const { data: person } = await repositories.people.findById(id);
+  if (!person) {
+    return c.json({ error: { message: "Personne non trouvee", code: "NOT_FOUND" } }, 404);
+  }
+
+  const regionId = body.regionId ?? person.region_id;
+  const [regionRes, sectorRes, projectRes, enrollmentsRes] = await Promise.all([
+    repositories.regions.findById(regionId),
+    repositories.sectors.findById(body.sectorId),
+    repositories.projects.findById(body.projectId),
+    repositories.beneficiaries.list({ personId: id, projectId: body.projectId }),
+  ]);
+
+  if (!regionRes.data) {
+    return c.json({ error: { message: "Region non trouvee", code: "INVALID_REGION" } }, 400);
+  }
+  if (!sectorRes.data) {
+    return c.json({ error: { message: "Secteur non trouve", code: "INVALID_SECTOR" } }, 400);
+  }
+  if (!projectRes.data) {
+    return c.json({ error: { message: "Projet non trouve", code: "INVALID_PROJECT" } }, 400);
+  }
+  if (enrollmentsRes.error) {
+    return c.json({ error: { message: enrollmentsRes.error.message, code: "DB_ERROR" } }, 500);
+  }
+
+  // Same scope as registering a new beneficiary in the project
+  if (!(await inProjectScope(c, projectRes.data))) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  if ((enrollmentsRes.data ?? []).some((e) => e.accompaniment_status === "ACTIVE")) {
+    return c.json({ error: { message: "Cette personne est deja inscrite a ce projet", code: "ALREADY_ENROLLED" } }, 409);
+  }
+
+  const now = new Date().toISOString();
+  const newEnrollment = {
+    id: createId(),
+    person_id: id,
+    first_name: person.first_name,
+    last_name: person.last_name,
+    gender: person.gender,
+    age: body.age ?? person.age,
+    phone: body.phone ?? person.phone,
+    region_id: regionId,
+    sector_id: body.sectorId,
+    project_id: body.projectId,
+    accompaniment_status: body.accompanimentStatus ?? "ACTIVE",
+    start_date: body.startDate,
+    end_date: body.endDate,
+    outcome: body.outcome,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const { data: enrollment, error } = await repositories.beneficiaries.create(newEnrollment);
+
+  if (error || !enrollment) {
+    return c.json({ error: { message: error?.message ?? "Erreur lors de l'inscription", code: "DB_ERROR" } }, 500);
+  }
+
+  await recordAudit(c, { action: "CREATE", entityType: "BENEFICIARY", entityId: enrollment.id, after: enrollment });
+
+  return c.json({ data: formatBeneficiary(enrollment) }, 201);
+});
+
+// Merges the duplicate into the person kept. All the duplicate's enrollments
+// move to that person, including those in a project they are already enrolled
+// in, so no history is lost. The person kept takes the age and phone of the
+// duplicate when they have none.
+// Also answers POST /api/beneficiaries/:id/merge.
+export async function mergePeople<E extends AuthEnv>(c: Context<E, any, any>, id: string, duplicateId: string) {
+  if (duplicateId === id) {
+    return c.json({ error: { message: "Une personne ne peut pas etre fusionnee avec elle-meme", code: "INVALID_MERGE" } }, 400);
+  }
+
+  const [{ data: survivor }, { data: duplicate }, survivorEnrollmentsRes, duplicateEnrollmentsRes] = await Promise.all([
+    repositories.people.findById(id),
+    repositories.people.findById(duplicateId),
+    repositories.beneficiaries.list({ personId: id }),
+    repositories.beneficiaries.list({ personId: duplicateId }),
+  ]);
+
+  if (!survivor || !duplicate) {
+    return c.json({ error: { message: "Personne non trouvee", code: "NOT_FOUND" } }, 404);
+  }
+
+  const enrollmentsError = survivorEnrollmentsRes.error ?? duplicateEnrollmentsRes.error;
+  if (enrollmentsError) {
+    return c.json({ error: { message: enrollmentsError.message, code: "DB_ERROR" } }, 500);
+  }
+
+  const survivorEnrollments = survivorEnrollmentsRes.data ?? [];
+  const duplicateEnrollments = duplicateEnrollmentsRes.data ?? [];
+
+  // Each enrollment of the duplicate changes hands, so each must be in scope
+  const inScope = enrollmentScope(c);
+  const movable = await Promise.all(duplicateEnrollments.map((e) => inScope.enrollment(e)));
+  if (!(await inScope.person(survivorEnrollments)) || !(await inScope.person(duplicateEnrollments)) || movable.includes(false)) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  const patch: PersonMerge["patch"] = { updated_at: new Date().toISOString() };
+  if (survivor.age === null && duplicate.age !== null) patch.age = duplicate.age;
+  if (!survivor.phone && duplicate.phone) {
+    patch.phone = duplicate.phone;
+    patch.phone_key = identityKeys(duplicate).phone_key;
+  }
+
+  const { data: merged, error } = await repositories.people.merge({ survivorId: id, duplicateId, patch });
+
+  if (error || !merged) {
+    if (error?.code === DB_CONFLICT_CODE) {
+      return c.json({ error: { message: error.message, code: "ALREADY_MERGED" } }, 409);
+    }
+    return c.json({ error: { message: error?.message ?? "Erreur lors de la fusion", code: "DB_ERROR" } }, 500);
+  }
+
+  await recordAuditMany(c, [
+    { action: "UPDATE", entityType: "PERSON", entityId: id, before: survivor, after: merged },
+    { action: "DELETE", entityType: "PERSON", entityId: duplicateId, before: duplicate },
+    ...duplicateEnrollments.map((enrollment) => ({
+      action: "UPDATE" as const,
+      entityType: "BENEFICIARY" as const,
+      entityId: enrollment.id,
+      before: enrollment,
+      after: { ...enrollment, person_id: id },
+    })),
+  ]);
+
+  const detail = await withEnrollments(merged);
+
+  return c.json({ data: detail ?? formatPersonDetail(merged, []) });
+}
+
+// POST /api/people/:id/merge - Merge a duplicate into this person
+peopleRouter.post("/:id/merge", requirePermission("beneficiary:update"), requireDepartmentScope(), zValidator("json", MergePersonSchema), (c) =>
+  mergePeople(c, c.req.param("id"), c.req.valid("json").duplicateId)
+);
+
+export { peopleRouter };
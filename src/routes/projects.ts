@@ -1,16 +1,28 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { createId } from "@paralleldrive/cuid2";
-import { supabase } from "../supabase";
+import { repositories, type ProjectRow, type ProjectUpdate, type ValidationRequestWithRelationsRow } from "../repositories";
 import {
   CreateProjectSchema,
   UpdateProjectSchema,
-  ProjectFiltersSchema,
+  UpdateProjectProgressSchema,
+  AddProjectPhotosSchema,
+  ProjectListQuerySchema,
   type ProjectWithRelations,
 } from "../types";
-import { getAuthUser } from "./auth";
+import { inDepartmentScope, inProjectScope, requireAuth, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
+import { recordAudit } from "../audit";
+import { recordProjectRevision } from "../project-history";
+import { submitRequest, type RequestSubmission } from "./validations";
+import { pageOptions, toPage } from "../pagination";
+import {
+  INITIAL_PROJECT_STATUS,
+  availableTransitions,
+  canSetInitialStatus,
+  checkStatusTransition,
+} from "../project-status";
 
-const projectsRouter = new Hono();
+const projectsRouter = new Hono<AuthEnv>();
 
 // Helper to parse JSON fields
 function parseJsonArray(value: string | null): string[] | null {
@@ -22,6 +34,18 @@ function parseJsonArray(value: string | null): string[] | null {
   }
 }
 
+function parseJsonObject(value: string): Record<string, unknown> {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+function toCamelCase(column: string): string {
+  return column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
 function formatProject(p: any): ProjectWithRelations {
   return {
     id: p.id,
@@ -43,51 +67,88 @@ function formatProject(p: any): ProjectWithRelations {
     createdAt: p.created_at,
     updatedAt: p.updated_at,
     department: {
-      id: p.departments?.id ?? "",
-      name: p.departments?.name ?? "",
-      code: p.departments?.code ?? "",
+      id: p.department?.id ?? "",
+      name: p.department?.name ?? "",
+      code: p.department?.code ?? "",
     },
     region: {
-      id: p.regions?.id ?? "",
-      name: p.regions?.name ?? "",
-      code: p.regions?.code ?? "",
+      id: p.region?.id ?? "",
+      name: p.region?.name ?? "",
+      code: p.region?.code ?? "",
     },
     sector: {
-      id: p.sectors?.id ?? "",
-      name: p.sectors?.name ?? "",
+      id: p.sector?.id ?? "",
+      name: p.sector?.name ?? "",
     },
     _count: p._count,
   };
 }
 
-// GET /api/projects
-projectsRouter.get("/", zValidator("query", ProjectFiltersSchema), async (c) => {
-  const filters = c.req.valid("query");
-
-  let query = supabase
-    .from("projects")
-    .select(`
-      *,
-      departments (id, name, code),
-      regions (id, name, code),
-      sectors (id, name)
-    `)
-    .order("created_at", { ascending: false });
-
-  if (filters.regionId) query = query.eq("region_id", filters.regionId);
-  if (filters.departmentId) query = query.eq("department_id", filters.departmentId);
-  if (filters.sectorId) query = query.eq("sector_id", filters.sectorId);
-  if (filters.status) query = query.eq("status", filters.status);
-  if (filters.search) {
-    query = query.or(
-      `name.ilike.%${filters.search}%,description.ilike.%${filters.search}%,responsible_name.ilike.%${filters.search}%`
-    );
-  }
-
-  const { data: projects, error } = await query;
+type OpenedRequest =
+  | { request: ValidationRequestWithRelationsRow }
+  | { conflict: ValidationRequestWithRelationsRow };
+
+// True when the pending request's metadata holds every field of the change
+function asksFor(pending: ValidationRequestWithRelationsRow, change: Record<string, unknown>): boolean {
+  const stored = pending.metadata ? parseJsonObject(pending.metadata) : {};
+  return Object.entries(change).every(([key, value]) => stored[key] === value);
+}
+
+// Opens a validation request on the project. A pending request of the same type
+// is reused when it asks for the same change, and returned as a conflict when it
+// asks for another one
+async function openValidationRequest<E extends AuthEnv>(
+  c: Context<E, any, any>,
+  project: ProjectRow,
+  submission: RequestSubmission,
+  change: Record<string, unknown> = {}
+): Promise<OpenedRequest | null> {
+  const { data: pending, error } = await repositories.validationRequests.list({
+    projectId: project.id,
+    type: submission.type,
+    status: "PENDING",
+  });
 
   if (error) {
-    console.error("Error fetching projects:", error);
+    console.error("Error fetching pending validations:", error);
+    return null;
+  }
+
+  const existing = pending?.[0];
+  if (existing) {
+    return asksFor(existing, change) ? { request: existing } : { conflict: existing };
+  }
+
+  const request = await submitRequest(c, project, submission);
+  return request ? { request } : null;
+}
+
+function pendingConflict(c: Context, pending: ValidationRequestWithRelationsRow) {
+  return c.json({
+    error: {
+      message: `Une demande de type "${pending.type}" est deja en attente pour ce projet (${pending.id})`,
+      code: "REQUEST_ALREADY_PENDING",
+      validationRequestId: pending.id,
+    },
+  }, 409);
+}
+
+// GET /api/projects
+projectsRouter.get("/", zValidator("query", ProjectListQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+
+  const page = pageOptions(query);
+  if (!page) {
+    return c.json({ error: { message: "Curseur de pagination invalide", code: "INVALID_CURSOR" } }, 400);
+  }
+
+  const [{ data: projects, error }, { data: total, error: countError }] = await Promise.all([
+    repositories.projects.list(query, page),
+    repositories.projects.count(query),
+  ]);
+
+  if (error || countError) {
+    console.error("Error fetching projects:", error ?? countError);
     return c.json({ error: { message: "Erreur lors de la recuperation des projets", code: "DATABASE_ERROR" } }, 500);
   }
 
@@ -96,16 +157,10 @@ projectsRouter.get("/", zValidator("query", ProjectFiltersSchema), async (c) =>
 
   let beneficiaryCounts: Record<string, number> = {};
   if (projectIds.length > 0) {
-    const { data: counts, error: countError } = await supabase
-      .from("beneficiaries")
-      .select("project_id")
-      .in("project_id", projectIds);
+    const { data: counts, error: countError } = await repositories.beneficiaries.countByProject(projectIds);
 
     if (!countError && counts) {
-      beneficiaryCounts = counts.reduce((acc: Record<string, number>, b) => {
-        acc[b.project_id] = (acc[b.project_id] || 0) + 1;
-        return acc;
-      }, {});
+      beneficiaryCounts = counts;
     }
   }
 
@@ -114,33 +169,21 @@ projectsRouter.get("/", zValidator("query", ProjectFiltersSchema), async (c) =>
     _count: { beneficiaries: beneficiaryCounts[p.id] || 0 },
   }));
 
-  return c.json({ data });
+  return c.json(toPage(data, query, total ?? 0));
 });
 
 // GET /api/projects/:id
 projectsRouter.get("/:id", async (c) => {
   const { id } = c.req.param();
 
-  const { data: project, error } = await supabase
-    .from("projects")
-    .select(`
-      *,
-      departments (id, name, code),
-      regions (id, name, code),
-      sectors (id, name)
-    `)
-    .eq("id", id)
-    .single();
+  const { data: project, error } = await repositories.projects.findById(id);
 
   if (error || !project) {
     return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
   }
 
   // Get beneficiary count
-  const { count } = await supabase
-    .from("beneficiaries")
-    .select("id", { count: "exact", head: true })
-    .eq("project_id", id);
+  const { data: count } = await repositories.beneficiaries.count({ projectId: id });
 
   return c.json({
     data: formatProject({
@@ -150,26 +193,75 @@ projectsRouter.get("/:id", async (c) => {
   });
 });
 
-// POST /api/projects
-projectsRouter.post("/", zValidator("json", CreateProjectSchema), async (c) => {
-  const user = await getAuthUser(c);
+// GET /api/projects/:id/history - Field change timeline and progress series
+projectsRouter.get("/:id/history", requireAuth, async (c) => {
+  const { id } = c.req.param();
+
+  const { data: project, error } = await repositories.projects.findById(id);
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  if (error || !project) {
+    return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  const { data: revisions, error: historyError } = await repositories.projectRevisions.listByProject(id);
+
+  if (historyError) {
+    console.error("Error fetching project history:", historyError);
+    return c.json({ error: { message: "Erreur lors de la recuperation de l'historique", code: "DATABASE_ERROR" } }, 500);
   }
 
+  const timeline = (revisions || []).map((r) => ({
+    id: r.id,
+    source: r.source,
+    validationRequestId: r.validation_request_id,
+    changedAt: r.created_at,
+    changedBy: r.changed_by,
+    changes: Object.entries(parseJsonObject(r.changes)).map(([field, change]: [string, any]) => ({
+      field: toCamelCase(field),
+      before: change?.before ?? null,
+      after: change?.after ?? null,
+    })),
+  }));
+
+  // One point per revision that moved the progress, plus the creation point
+  const progressSeries = (revisions || [])
+    .filter((r, i, all) => i === 0 || r.progress !== all[i - 1]!.progress)
+    .map((r) => ({ date: r.created_at, progress: r.progress, status: r.status }));
+
+  return c.json({
+    data: {
+      projectId: project.id,
+      currentProgress: project.progress,
+      currentStatus: project.status,
+      timeline: timeline.reverse(),
+      progressSeries,
+    },
+  });
+});
+
+// POST /api/projects
+projectsRouter.post("/", requirePermission("project:create"), requireDepartmentScope(), zValidator("json", CreateProjectSchema), async (c) => {
+  const user = c.get("user");
+
   const body = c.req.valid("json");
 
   // If admin_department, can only create for their department
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== body.departmentId) {
+  if (!inDepartmentScope(c, body.departmentId)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
+  // Only national roles may skip the approval of a new project
+  if (body.status && !canSetInitialStatus(body.status, user.role)) {
+    return c.json({
+      error: { message: "Un nouveau projet doit d'abord etre valide", code: "INVALID_STATUS_TRANSITION" },
+    }, 409);
+  }
+
   // Validate references
   const [departmentRes, regionRes, sectorRes] = await Promise.all([
-    supabase.from("departments").select("id").eq("id", body.departmentId).single(),
-    supabase.from("regions").select("id").eq("id", body.regionId).single(),
-    supabase.from("sectors").select("id").eq("id", body.sectorId).single(),
+    repositories.departments.findById(body.departmentId),
+    repositories.regions.findById(body.regionId),
+    repositories.sectors.findById(body.sectorId),
   ]);
 
   if (departmentRes.error || !departmentRes.data) {
@@ -185,86 +277,46 @@ projectsRouter.post("/", zValidator("json", CreateProjectSchema), async (c) => {
   const projectId = createId();
   const now = new Date().toISOString();
 
-  const { data: project, error: createError } = await supabase
-    .from("projects")
-    .insert({
-      id: projectId,
-      name: body.name,
-      description: body.description ?? null,
-      department_id: body.departmentId,
-      region_id: body.regionId,
-      sector_id: body.sectorId,
-      budget: body.budget ?? null,
-      planned_budget: body.plannedBudget ?? null,
-      start_date: body.startDate ?? null,
-      end_date: body.endDate ?? null,
-      progress: body.progress ?? 0,
-      status: body.status ?? "PENDING_VALIDATION",
-      responsible_name: body.responsibleName ?? null,
-      responsible_phone: body.responsiblePhone ?? null,
-      documents: body.documents ? JSON.stringify(body.documents) : null,
-      photos: body.photos ? JSON.stringify(body.photos) : null,
-      created_at: now,
-      updated_at: now,
-    })
-    .select(`
-      *,
-      departments (id, name, code),
-      regions (id, name, code),
-      sectors (id, name)
-    `)
-    .single();
+  const { data: project, error: createError } = await repositories.projects.create({
+    id: projectId,
+    name: body.name,
+    description: body.description ?? null,
+    department_id: body.departmentId,
+    region_id: body.regionId,
+    sector_id: body.sectorId,
+    budget: body.budget ?? null,
+    planned_budget: body.plannedBudget ?? null,
+    start_date: body.startDate ?? null,
+    end_date: body.endDate ?? null,
+    progress: body.progress ?? 0,
+    status: body.status ?? INITIAL_PROJECT_STATUS,
+    responsible_name: body.responsibleName ?? null,
+    responsible_phone: body.responsiblePhone ?? null,
+    documents: body.documents ? JSON.stringify(body.documents) : null,
+    photos: body.photos ? JSON.stringify(body.photos) : null,
+    created_at: now,
+    updated_at: now,
+  });
 
   if (createError || !project) {
     console.error("Error creating project:", createError);
     return c.json({ error: { message: "Erreur lors de la creation du projet", code: "DATABASE_ERROR" } }, 500);
   }
 
-  // Automatically create a validation request for project approval
-  const validationId = createId();
-  const { error: validationError } = await supabase
-    .from("validation_requests")
-    .insert({
-      id: validationId,
+  await recordAudit(c, { action: "CREATE", entityType: "PROJECT", entityId: project.id, after: project });
+  await recordProjectRevision(c, { source: "CREATE", after: project });
+
+  // New projects await approval before work starts
+  if (project.status === INITIAL_PROJECT_STATUS) {
+    await openValidationRequest(c, project, {
       type: "PROJECT_APPROVAL",
-      status: "PENDING",
-      project_id: project.id,
-      requester_id: user.id,
       comment: "Demande d'approbation pour nouveau projet",
-      created_at: now,
-      updated_at: now,
+      metadata: null,
+      notification: {
+        title: "Nouveau projet a valider",
+        message: `${user.name} a soumis le projet "${project.name}" pour approbation`,
+      },
     });
-
-  if (validationError) {
-    console.error("Error creating validation request:", validationError);
-  }
-
-  // Notify approvers (MINISTER, PRIMATURE, PRESIDENCY, SUPER_ADMIN)
-  const { data: approvers } = await supabase
-    .from("users")
-    .select("id")
-    .in("role", ["MINISTER", "PRIMATURE", "PRESIDENCY", "SUPER_ADMIN"])
-    .eq("is_active", true);
-
-  if (approvers && approvers.length > 0) {
-    const notifications = approvers.map((approver) => ({
-      id: createId(),
-      type: "VALIDATION_REQUEST",
-      title: "Nouveau projet a valider",
-      message: `${user.name} a soumis le projet "${project.name}" pour approbation`,
-      user_id: approver.id,
-      link: `/validations`,
-      is_read: false,
-      created_at: now,
-    }));
-
-    const { error: notifError } = await supabase
-      .from("notifications")
-      .insert(notifications);
-
-    if (notifError) {
-      console.error("Error creating notifications:", notifError);
-    }
   }
 
   return c.json({
@@ -276,65 +328,115 @@ projectsRouter.post("/", zValidator("json", CreateProjectSchema), async (c) => {
 });
 
 // PUT /api/projects/:id
-projectsRouter.put("/:id", zValidator("json", UpdateProjectSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
+projectsRouter.put("/:id", requirePermission("project:update"), requireDepartmentScope(), zValidator("json", UpdateProjectSchema), async (c) => {
+  const user = c.get("user");
   const { id } = c.req.param();
   const body = c.req.valid("json");
 
-  const { data: existing, error: fetchError } = await supabase
-    .from("projects")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: existing, error: fetchError } = await repositories.projects.findById(id);
 
   if (fetchError || !existing) {
     return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
   }
 
-  // If admin_department, can only update their department's projects
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== existing.department_id) {
+  // If admin_department, can only update their department's projects, and not
+  // move them to another department
+  if (!inDepartmentScope(c, existing.department_id)) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+  if (body.departmentId !== undefined && !inDepartmentScope(c, body.departmentId)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
+  // Status moves follow the declared lifecycle; some only go through a validation request
+  const transition = body.status !== undefined
+    ? checkStatusTransition(existing.status, body.status, user.role)
+    : null;
+
+  if (transition?.outcome === "illegal") {
+    return c.json({ error: { message: transition.message, code: "INVALID_STATUS_TRANSITION" } }, 409);
+  }
+
   // Validate references if being changed
   if (body.departmentId) {
-    const { data: dept, error: deptError } = await supabase
-      .from("departments")
-      .select("id")
-      .eq("id", body.departmentId)
-      .single();
+    const { data: dept, error: deptError } = await repositories.departments.findById(body.departmentId);
     if (deptError || !dept) {
       return c.json({ error: { message: "Departement non trouve", code: "INVALID_DEPARTMENT" } }, 400);
     }
   }
   if (body.regionId) {
-    const { data: region, error: regionError } = await supabase
-      .from("regions")
-      .select("id")
-      .eq("id", body.regionId)
-      .single();
+    const { data: region, error: regionError } = await repositories.regions.findById(body.regionId);
     if (regionError || !region) {
       return c.json({ error: { message: "Region non trouvee", code: "INVALID_REGION" } }, 400);
     }
   }
   if (body.sectorId) {
-    const { data: sector, error: sectorError } = await supabase
-      .from("sectors")
-      .select("id")
-      .eq("id", body.sectorId)
-      .single();
+    const { data: sector, error: sectorError } = await repositories.sectors.findById(body.sectorId);
     if (sectorError || !sector) {
       return c.json({ error: { message: "Secteur non trouve", code: "INVALID_SECTOR" } }, 400);
     }
   }
 
+  // The request is opened before anything is written, so a conflict or a failure
+  // leaves the project untouched. The status itself is left unchanged until the
+  // request is approved.
+  let pendingValidation = null;
+  if (body.status !== undefined && transition?.outcome === "requires_approval") {
+    const opened = await openValidationRequest(c, existing, {
+      type: transition.validationType,
+      comment: `Changement de statut demande: ${existing.status} vers ${body.status}`,
+      metadata: { currentStatus: existing.status, newStatus: body.status },
+      notification: {
+        title: "Changement de statut a valider",
+        message: `${user.name} demande le passage du projet "${existing.name}" au statut ${body.status}`,
+      },
+    }, { newStatus: body.status });
+
+    if (!opened) {
+      return c.json({ error: { message: "Erreur lors de la creation de la demande", code: "DATABASE_ERROR" } }, 500);
+    }
+    if ("conflict" in opened) {
+      return pendingConflict(c, opened.conflict);
+    }
+
+    pendingValidation = {
+      id: opened.request.id,
+      type: opened.request.type,
+      requestedStatus: body.status,
+    };
+  }
+
+  // Budget increases go through the BUDGET_INCREASE approval chain; the budget
+  // is left unchanged until the request is approved
+  const budgetIncrease = body.budget !== undefined && body.budget > (existing.budget ?? 0);
+  let pendingBudgetValidation = null;
+  if (budgetIncrease) {
+    const opened = await openValidationRequest(c, existing, {
+      type: "BUDGET_INCREASE",
+      comment: `Augmentation de budget demandee: ${existing.budget ?? 0} vers ${body.budget}`,
+      metadata: { newBudget: body.budget },
+      notification: {
+        title: "Augmentation de budget a valider",
+        message: `${user.name} demande de porter le budget du projet "${existing.name}" a ${body.budget}`,
+      },
+    }, { newBudget: body.budget });
+
+    if (!opened) {
+      return c.json({ error: { message: "Erreur lors de la creation de la demande", code: "DATABASE_ERROR" } }, 500);
+    }
+    if ("conflict" in opened) {
+      return pendingConflict(c, opened.conflict);
+    }
+
+    pendingBudgetValidation = {
+      id: opened.request.id,
+      type: opened.request.type,
+      requestedBudget: body.budget,
+    };
+  }
+
   // Build update data with snake_case columns
-  const updateData: Record<string, any> = {
+  const updateData: ProjectUpdate = {
     updated_at: new Date().toISOString(),
   };
 
@@ -343,39 +445,90 @@ projectsRouter.put("/:id", zValidator("json", UpdateProjectSchema), async (c) =>
   if (body.departmentId !== undefined) updateData.department_id = body.departmentId;
   if (body.regionId !== undefined) updateData.region_id = body.regionId;
   if (body.sectorId !== undefined) updateData.sector_id = body.sectorId;
-  if (body.budget !== undefined) updateData.budget = body.budget;
+  if (body.budget !== undefined && !budgetIncrease) updateData.budget = body.budget;
   if (body.plannedBudget !== undefined) updateData.planned_budget = body.plannedBudget;
   if (body.startDate !== undefined) updateData.start_date = body.startDate;
   if (body.endDate !== undefined) updateData.end_date = body.endDate;
   if (body.progress !== undefined) updateData.progress = body.progress;
-  if (body.status !== undefined) updateData.status = body.status;
+  if (body.status !== undefined && transition?.outcome === "allowed") updateData.status = body.status;
   if (body.responsibleName !== undefined) updateData.responsible_name = body.responsibleName;
   if (body.responsiblePhone !== undefined) updateData.responsible_phone = body.responsiblePhone;
   if (body.documents !== undefined) updateData.documents = JSON.stringify(body.documents);
   if (body.photos !== undefined) updateData.photos = JSON.stringify(body.photos);
 
-  const { data: project, error: updateError } = await supabase
-    .from("projects")
-    .update(updateData)
-    .eq("id", id)
-    .select(`
-      *,
-      departments (id, name, code),
-      regions (id, name, code),
-      sectors (id, name)
-    `)
-    .single();
+  const { data: project, error: updateError } = await repositories.projects.update(id, updateData);
 
   if (updateError || !project) {
     console.error("Error updating project:", updateError);
     return c.json({ error: { message: "Erreur lors de la mise a jour du projet", code: "DATABASE_ERROR" } }, 500);
   }
 
+  await recordAudit(c, { action: "UPDATE", entityType: "PROJECT", entityId: id, before: existing, after: project });
+  await recordProjectRevision(c, { source: "UPDATE", before: existing, after: project });
+
   // Get beneficiary count
-  const { count } = await supabase
-    .from("beneficiaries")
-    .select("id", { count: "exact", head: true })
-    .eq("project_id", id);
+  const { data: count } = await repositories.beneficiaries.count({ projectId: id });
+
+  return c.json({
+    data: {
+      ...formatProject({
+        ...project,
+        _count: { beneficiaries: count || 0 },
+      }),
+      pendingValidation,
+      pendingBudgetValidation,
+    },
+  });
+});
+
+// GET /api/projects/:id/transitions - Status moves available to the caller
+projectsRouter.get("/:id/transitions", requireAuth, async (c) => {
+  const user = c.get("user");
+  const { id } = c.req.param();
+
+  const { data: project, error } = await repositories.projects.findById(id);
+
+  if (error || !project) {
+    return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  return c.json({
+    data: {
+      status: project.status,
+      transitions: availableTransitions(project.status, user.role),
+    },
+  });
+});
+
+// PATCH /api/projects/:id/progress - Field progress report (agents on assigned projects)
+projectsRouter.patch("/:id/progress", requirePermission("project:report_progress"), requireDepartmentScope(), zValidator("json", UpdateProjectProgressSchema), async (c) => {
+  const { id } = c.req.param();
+  const { progress } = c.req.valid("json");
+
+  const { data: existing, error: fetchError } = await repositories.projects.findById(id);
+
+  if (fetchError || !existing) {
+    return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (!(await inProjectScope(c, existing))) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  const { data: project, error: updateError } = await repositories.projects.update(id, {
+    progress,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (updateError || !project) {
+    console.error("Error updating project progress:", updateError);
+    return c.json({ error: { message: "Erreur lors de la mise a jour du projet", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  await recordAudit(c, { action: "UPDATE", entityType: "PROJECT", entityId: id, before: existing, after: project });
+  await recordProjectRevision(c, { source: "UPDATE", before: existing, after: project });
+
+  const { data: count } = await repositories.beneficiaries.count({ projectId: id });
 
   return c.json({
     data: formatProject({
@@ -385,52 +538,78 @@ projectsRouter.put("/:id", zValidator("json", UpdateProjectSchema), async (c) =>
   });
 });
 
-// DELETE /api/projects/:id
-projectsRouter.delete("/:id", async (c) => {
-  const user = await getAuthUser(c);
+// POST /api/projects/:id/photos - Append field photos (agents on assigned projects)
+projectsRouter.post("/:id/photos", requirePermission("project:upload_photos"), requireDepartmentScope(), zValidator("json", AddProjectPhotosSchema), async (c) => {
+  const { id } = c.req.param();
+  const { photos } = c.req.valid("json");
+
+  const { data: existing, error: fetchError } = await repositories.projects.findById(id);
+
+  if (fetchError || !existing) {
+    return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
+  }
 
-  if (!user || (user.role !== "SUPER_ADMIN" && user.role !== "ADMIN_DEPARTMENT")) {
+  if (!(await inProjectScope(c, existing))) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
+  const current = parseJsonArray(existing.photos) ?? [];
+
+  const { data: project, error: updateError } = await repositories.projects.update(id, {
+    photos: JSON.stringify([...current, ...photos]),
+    updated_at: new Date().toISOString(),
+  });
+
+  if (updateError || !project) {
+    console.error("Error adding project photos:", updateError);
+    return c.json({ error: { message: "Erreur lors de l'ajout des photos", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  await recordAudit(c, { action: "UPDATE", entityType: "PROJECT", entityId: id, before: existing, after: project });
+  await recordProjectRevision(c, { source: "UPDATE", before: existing, after: project });
+
+  const { data: count } = await repositories.beneficiaries.count({ projectId: id });
+
+  return c.json({
+    data: formatProject({
+      ...project,
+      _count: { beneficiaries: count || 0 },
+    }),
+  }, 201);
+});
+
+// DELETE /api/projects/:id
+projectsRouter.delete("/:id", requirePermission("project:delete"), requireDepartmentScope(), async (c) => {
   const { id } = c.req.param();
 
-  const { data: existing, error: fetchError } = await supabase
-    .from("projects")
-    .select("department_id")
-    .eq("id", id)
-    .single();
+  const { data: existing, error: fetchError } = await repositories.projects.findById(id);
 
   if (fetchError || !existing) {
     return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
   }
 
   // If admin_department, can only delete their department's projects
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== existing.department_id) {
+  if (!inDepartmentScope(c, existing.department_id)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
   // Delete related beneficiaries first
-  const { error: deleteBenefError } = await supabase
-    .from("beneficiaries")
-    .delete()
-    .eq("project_id", id);
+  const { error: deleteBenefError } = await repositories.beneficiaries.deleteByProject(id);
 
   if (deleteBenefError) {
     console.error("Error deleting beneficiaries:", deleteBenefError);
   }
 
   // Delete the project
-  const { error: deleteError } = await supabase
-    .from("projects")
-    .delete()
-    .eq("id", id);
+  const { error: deleteError } = await repositories.projects.delete(id);
 
   if (deleteError) {
     console.error("Error deleting project:", deleteError);
     return c.json({ error: { message: "Erreur lors de la suppression du projet", code: "DATABASE_ERROR" } }, 500);
   }
 
+  await recordAudit(c, { action: "DELETE", entityType: "PROJECT", entityId: id, before: existing });
+
   return c.json({ data: { success: true } });
 });
 
@@ -1,24 +1,21 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { createId } from "@paralleldrive/cuid2";
-import { supabase } from "../supabase";
+import { repositories } from "../repositories";
 import { CreateRegionSchema, type Region } from "../types";
-import { getAuthUser } from "./auth";
+import { requirePermission, type AuthEnv } from "../middleware/auth";
 
-const regionsRouter = new Hono();
+const regionsRouter = new Hono<AuthEnv>();
 
 // GET /api/regions
 regionsRouter.get("/", async (c) => {
-  const { data: regions, error } = await supabase
-    .from("regions")
-    .select("*")
-    .order("name", { ascending: true });
+  const { data: regions, error } = await repositories.regions.list();
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
   }
 
-  const data: Region[] = regions.map((r: any) => ({
+  const data: Region[] = (regions || []).map((r: any) => ({
     id: r.id,
     name: r.name,
     code: r.code,
@@ -32,11 +29,7 @@ regionsRouter.get("/", async (c) => {
 regionsRouter.get("/:id", async (c) => {
   const { id } = c.req.param();
 
-  const { data: region, error } = await supabase
-    .from("regions")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: region, error } = await repositories.regions.findById(id);
 
   if (error || !region) {
     return c.json({ error: { message: "Region non trouvee", code: "NOT_FOUND" } }, 404);
@@ -44,8 +37,8 @@ regionsRouter.get("/:id", async (c) => {
 
   // Get counts for related entities
   const [projectsCount, beneficiariesCount] = await Promise.all([
-    supabase.from("projects").select("id", { count: "exact", head: true }).eq("region_id", id),
-    supabase.from("beneficiaries").select("id", { count: "exact", head: true }).eq("region_id", id),
+    repositories.projects.count({ regionId: id }),
+    repositories.beneficiaries.count({ regionId: id }),
   ]);
 
   const data = {
@@ -54,8 +47,8 @@ regionsRouter.get("/:id", async (c) => {
     code: region.code,
     coordinates: region.coordinates,
     _count: {
-      projects: projectsCount.count || 0,
-      beneficiaries: beneficiariesCount.count || 0,
+      projects: projectsCount.data || 0,
+      beneficiaries: beneficiariesCount.data || 0,
     },
   };
 
@@ -63,27 +56,13 @@ regionsRouter.get("/:id", async (c) => {
 });
 
 // POST /api/regions (super admin only)
-regionsRouter.post("/", zValidator("json", CreateRegionSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user || user.role !== "SUPER_ADMIN") {
-    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
-  }
-
+regionsRouter.post("/", requirePermission("region:create"), zValidator("json", CreateRegionSchema), async (c) => {
   const body = c.req.valid("json");
 
   // Check if code or name already exists
-  const { data: existingByCode } = await supabase
-    .from("regions")
-    .select("id")
-    .eq("code", body.code)
-    .single();
-
-  const { data: existingByName } = await supabase
-    .from("regions")
-    .select("id")
-    .eq("name", body.name)
-    .single();
+  const { data: existingByCode } = await repositories.regions.findByCode(body.code);
+
+  const { data: existingByName } = await repositories.regions.findByName(body.name);
 
   if (existingByCode || existingByName) {
     return c.json({ error: { message: "Cette region existe deja", code: "DUPLICATE" } }, 400);
@@ -96,14 +75,10 @@ regionsRouter.post("/", zValidator("json", CreateRegionSchema), async (c) => {
     coordinates: body.coordinates,
   };
 
-  const { data: region, error } = await supabase
-    .from("regions")
-    .insert(newRegion)
-    .select()
-    .single();
+  const { data: region, error } = await repositories.regions.create(newRegion);
 
-  if (error) {
-    return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+  if (error || !region) {
+    return c.json({ error: { message: error?.message ?? "Erreur lors de la creation", code: "DB_ERROR" } }, 500);
   }
 
   const data: Region = {
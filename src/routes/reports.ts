@@ -1,7 +1,7 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { jsPDF } from "jspdf";
-import { supabase } from "../supabase";
+import { repositories } from "../repositories";
 import { ProjectsReportFiltersSchema } from "../types";
 
 const reportsRouter = new Hono();
@@ -135,42 +135,21 @@ reportsRouter.get(
   async (c) => {
     const filters = c.req.valid("query");
 
-    // Build query
-    let query = supabase.from("projects").select("*");
-
-    if (filters.departmentId) query = query.eq("department_id", filters.departmentId);
-    if (filters.regionId) query = query.eq("region_id", filters.regionId);
-    if (filters.status) query = query.eq("status", filters.status);
-
-    query = query.order("created_at", { ascending: false });
-
-    const { data: projects, error } = await query;
+    const { data: projects, error } = await repositories.projects.list({
+      departmentId: filters.departmentId,
+      regionId: filters.regionId,
+      status: filters.status,
+    });
 
     if (error) {
       return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
     }
 
-    // Fetch related data
-    const departmentIds = [...new Set(projects.map((p: any) => p.department_id))];
-    const regionIds = [...new Set(projects.map((p: any) => p.region_id))];
-    const sectorIds = [...new Set(projects.map((p: any) => p.sector_id))];
-
-    const [departmentsRes, regionsRes, sectorsRes] = await Promise.all([
-      supabase.from("departments").select("id, name, code").in("id", departmentIds),
-      supabase.from("regions").select("id, name, code").in("id", regionIds),
-      supabase.from("sectors").select("id, name").in("id", sectorIds),
-    ]);
-
-    const departmentsMap = new Map((departmentsRes.data || []).map((d: any) => [d.id, d]));
-    const regionsMap = new Map((regionsRes.data || []).map((r: any) => [r.id, r]));
-    const sectorsMap = new Map((sectorsRes.data || []).map((s: any) => [s.id, s]));
-
-    // Add relations to projects
-    const projectsWithRelations = projects.map((p: any) => ({
+    const projectsWithRelations = (projects || []).map((p: any) => ({
       ...p,
-      department: departmentsMap.get(p.department_id) || { id: p.department_id, name: "", code: "" },
-      region: regionsMap.get(p.region_id) || { id: p.region_id, name: "", code: "" },
-      sector: sectorsMap.get(p.sector_id) || { id: p.sector_id, name: "" },
+      department: p.department || { id: p.department_id, name: "", code: "" },
+      region: p.region || { id: p.region_id, name: "", code: "" },
+      sector: p.sector || { id: p.sector_id, name: "" },
     }));
 
     // Calculate statistics
@@ -291,56 +270,28 @@ reportsRouter.get("/project/:id", async (c) => {
   const { id } = c.req.param();
 
   // Fetch project
-  const { data: project, error: projectError } = await supabase
-    .from("projects")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: project, error: projectError } = await repositories.projects.findById(id);
 
   if (projectError || !project) {
     return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
   }
 
-  // Fetch related data
-  const [departmentRes, regionRes, sectorRes] = await Promise.all([
-    supabase.from("departments").select("id, name, code").eq("id", project.department_id).single(),
-    supabase.from("regions").select("id, name, code").eq("id", project.region_id).single(),
-    supabase.from("sectors").select("id, name").eq("id", project.sector_id).single(),
-  ]);
-
   const projectWithRelations = {
     ...project,
-    department: departmentRes.data || { id: project.department_id, name: "", code: "" },
-    region: regionRes.data || { id: project.region_id, name: "", code: "" },
-    sector: sectorRes.data || { id: project.sector_id, name: "" },
+    department: project.department || { id: project.department_id, name: "", code: "" },
+    region: project.region || { id: project.region_id, name: "", code: "" },
+    sector: project.sector || { id: project.sector_id, name: "" },
   };
 
-  // Fetch milestones
-  const { data: milestones } = await supabase
-    .from("milestones")
-    .select("*")
-    .eq("project_id", id)
-    .order("order", { ascending: true });
-
-  // Fetch disbursements with createdBy
-  const { data: disbursements } = await supabase
-    .from("disbursements")
-    .select("*")
-    .eq("project_id", id)
-    .order("date", { ascending: false });
-
-  // Fetch users for disbursements
-  const userIds = [...new Set((disbursements || []).map((d: any) => d.created_by_id))];
-  const { data: users } = await supabase
-    .from("users")
-    .select("id, name, email")
-    .in("id", userIds);
-
-  const usersMap = new Map((users || []).map((u: any) => [u.id, u]));
+  // Fetch milestones and disbursements
+  const [{ data: milestones }, { data: disbursements }] = await Promise.all([
+    repositories.milestones.listByProject(id),
+    repositories.disbursements.listByProject(id),
+  ]);
 
   const disbursementsWithUsers = (disbursements || []).map((d: any) => ({
     ...d,
-    createdBy: usersMap.get(d.created_by_id) || { id: d.created_by_id, name: "", email: "" },
+    createdBy: d.created_by || { id: d.created_by_id, name: "", email: "" },
   }));
 
   const totalDisbursed = disbursementsWithUsers.reduce((sum: number, d: any) => sum + d.amount, 0);
@@ -0,0 +1,46 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { repositories } from "../repositories";
+import { SearchQuerySchema } from "../types";
+import { can, requireAuth, type AuthEnv } from "../middleware/auth";
+import { rankHits, searchTerms } from "../search";
+
+const searchRouter = new Hono<AuthEnv>();
+
+// Matches of each type ranked against each other, the most recent ones
+const CANDIDATES_PER_TYPE = 100;
+
+// GET /api/search?q= - Search projects, beneficiaries, documents, news and messages
+searchRouter.get("/", requireAuth, zValidator("query", SearchQuerySchema), async (c) => {
+  const user = c.get("user");
+
+  const { q, types, limit } = c.req.valid("query");
+
+  const terms = searchTerms(q);
+
+  if (terms.length === 0) {
+    return c.json({ error: { message: "La recherche doit contenir au moins un mot", code: "INVALID_QUERY" } }, 400);
+  }
+
+  // Documents and messages follow the same visibility rules as their own routes
+  const { data: hits, error } = await repositories.search.search(
+    terms,
+    {
+      types,
+      userId: user.id,
+      departmentId: user.departmentId,
+      readAllDocuments: can(c, "document:read_all"),
+      readAllMessages: can(c, "message:read_all"),
+    },
+    CANDIDATES_PER_TYPE
+  );
+
+  if (error) {
+    console.error("Error searching:", error);
+    return c.json({ error: { message: "Erreur lors de la recherche", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  return c.json({ data: rankHits(hits || [], terms, limit) });
+});
+
+export { searchRouter };
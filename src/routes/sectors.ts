@@ -1,24 +1,21 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { createId } from "@paralleldrive/cuid2";
-import { supabase } from "../supabase";
+import { repositories } from "../repositories";
 import { CreateSectorSchema, type Sector } from "../types";
-import { getAuthUser } from "./auth";
+import { requirePermission, type AuthEnv } from "../middleware/auth";
 
-const sectorsRouter = new Hono();
+const sectorsRouter = new Hono<AuthEnv>();
 
 // GET /api/sectors
 sectorsRouter.get("/", async (c) => {
-  const { data: sectors, error } = await supabase
-    .from("sectors")
-    .select("*")
-    .order("name", { ascending: true });
+  const { data: sectors, error } = await repositories.sectors.list();
 
   if (error) {
     return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
   }
 
-  const data: Sector[] = sectors.map((s: any) => ({
+  const data: Sector[] = (sectors || []).map((s: any) => ({
     id: s.id,
     name: s.name,
     description: s.description,
@@ -31,11 +28,7 @@ sectorsRouter.get("/", async (c) => {
 sectorsRouter.get("/:id", async (c) => {
   const { id } = c.req.param();
 
-  const { data: sector, error } = await supabase
-    .from("sectors")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: sector, error } = await repositories.sectors.findById(id);
 
   if (error || !sector) {
     return c.json({ error: { message: "Secteur non trouve", code: "NOT_FOUND" } }, 404);
@@ -43,8 +36,8 @@ sectorsRouter.get("/:id", async (c) => {
 
   // Get counts for related entities
   const [projectsCount, beneficiariesCount] = await Promise.all([
-    supabase.from("projects").select("id", { count: "exact", head: true }).eq("sector_id", id),
-    supabase.from("beneficiaries").select("id", { count: "exact", head: true }).eq("sector_id", id),
+    repositories.projects.count({ sectorId: id }),
+    repositories.beneficiaries.count({ sectorId: id }),
   ]);
 
   const data = {
@@ -52,8 +45,8 @@ sectorsRouter.get("/:id", async (c) => {
     name: sector.name,
     description: sector.description,
     _count: {
-      projects: projectsCount.count || 0,
-      beneficiaries: beneficiariesCount.count || 0,
+      projects: projectsCount.data || 0,
+      beneficiaries: beneficiariesCount.data || 0,
     },
   };
 
@@ -61,21 +54,11 @@ sectorsRouter.get("/:id", async (c) => {
 });
 
 // POST /api/sectors (super admin only)
-sectorsRouter.post("/", zValidator("json", CreateSectorSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user || user.role !== "SUPER_ADMIN") {
-    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
-  }
-
+sectorsRouter.post("/", requirePermission("sector:create"), zValidator("json", CreateSectorSchema), async (c) => {
   const body = c.req.valid("json");
 
   // Check if name already exists
-  const { data: existing } = await supabase
-    .from("sectors")
-    .select("id")
-    .eq("name", body.name)
-    .single();
+  const { data: existing } = await repositories.sectors.findByName(body.name);
 
   if (existing) {
     return c.json({ error: { message: "Ce secteur existe deja", code: "DUPLICATE" } }, 400);
@@ -87,14 +70,10 @@ sectorsRouter.post("/", zValidator("json", CreateSectorSchema), async (c) => {
     description: body.description,
   };
 
-  const { data: sector, error } = await supabase
-    .from("sectors")
-    .insert(newSector)
-    .select()
-    .single();
+  const { data: sector, error } = await repositories.sectors.create(newSector);
 
-  if (error) {
-    return c.json({ error: { message: error.message, code: "DB_ERROR" } }, 500);
+  if (error || !sector) {
+    return c.json({ error: { message: error?.message ?? "Erreur lors de la creation", code: "DB_ERROR" } }, 500);
   }
 
   const data: Sector = {
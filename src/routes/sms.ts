@@ -1,6 +1,6 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { getAuthUser } from "./auth";
+import { requireAuth, requirePermission, type AuthEnv } from "../middleware/auth";
 import {
   SendSMSRequestSchema,
   DossierReminderRequestSchema,
@@ -9,7 +9,7 @@ import {
   type SMSResponse,
 } from "../types";
 
-const smsRouter = new Hono();
+const smsRouter = new Hono<AuthEnv>();
 
 // SMS Provider types
 type SMSProvider = "twilio" | "africas_talking" | "orange" | "none";
@@ -124,11 +124,11 @@ function normalizeMaliPhoneNumber(phone: string): string {
   return cleaned;
 }
 
-// Log SMS attempt for debugging
-function logSMSAttempt(provider: string, to: string, message: string, success: boolean, error?: string) {
+// Log SMS attempt for debugging. Message bodies are never logged: they carry
+// one-time login and password reset codes.
+function logSMSAttempt(provider: string, to: string, success: boolean, error?: string) {
   const timestamp = new Date().toISOString();
   console.log(`[SMS ${timestamp}] Provider: ${provider}, To: ${to}, Success: ${success}${error ? `, Error: ${error}` : ""}`);
-  console.log(`[SMS ${timestamp}] Message: ${message.substring(0, 100)}${message.length > 100 ? "..." : ""}`);
 }
 
 // Send SMS via Twilio
@@ -160,16 +160,16 @@ async function sendViaTwilio(to: string, message: string): Promise<SMSResponse>
     const data = (await response.json()) as { sid?: string; message?: string };
 
     if (response.ok) {
-      logSMSAttempt("twilio", to, message, true);
+      logSMSAttempt("twilio", to, true);
       return { success: true, messageId: data.sid };
     } else {
       const errorMsg = data.message || "Erreur Twilio inconnue";
-      logSMSAttempt("twilio", to, message, false, errorMsg);
+      logSMSAttempt("twilio", to, false, errorMsg);
       return { success: false, error: errorMsg };
     }
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : "Erreur Twilio";
-    logSMSAttempt("twilio", to, message, false, errorMsg);
+    logSMSAttempt("twilio", to, false, errorMsg);
     return { success: false, error: errorMsg };
   }
 }
@@ -207,16 +207,16 @@ async function sendViaAfricasTalking(to: string, message: string): Promise<SMSRe
     };
 
     if (data.SMSMessageData?.Recipients?.[0]?.status === "Success") {
-      logSMSAttempt("africas_talking", to, message, true);
+      logSMSAttempt("africas_talking", to, true);
       return { success: true, messageId: data.SMSMessageData.Recipients[0].messageId };
     } else {
       const errorMsg = data.SMSMessageData?.Message || "Erreur Africa's Talking";
-      logSMSAttempt("africas_talking", to, message, false, errorMsg);
+      logSMSAttempt("africas_talking", to, false, errorMsg);
       return { success: false, error: errorMsg };
     }
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : "Erreur Africa's Talking";
-    logSMSAttempt("africas_talking", to, message, false, errorMsg);
+    logSMSAttempt("africas_talking", to, false, errorMsg);
     return { success: false, error: errorMsg };
   }
 }
@@ -260,8 +260,8 @@ async function sendViaOrange(to: string, message: string): Promise<SMSResponse>
     });
 
     const responseText = await response.text();
+    // The body echoes the message, so only the status is logged
     console.log(`[Orange SMS] Response status: ${response.status}`);
-    console.log(`[Orange SMS] Response body: ${responseText}`);
 
     let data: {
       outboundSMSMessageRequest?: { resourceURL?: string };
@@ -275,16 +275,16 @@ async function sendViaOrange(to: string, message: string): Promise<SMSResponse>
     }
 
     if (response.ok) {
-      logSMSAttempt("orange", to, message, true);
+      logSMSAttempt("orange", to, true);
       return { success: true, messageId: data.outboundSMSMessageRequest?.resourceURL };
     } else {
       const errorMsg = data.requestError?.serviceException?.text || `Erreur Orange (${response.status})`;
-      logSMSAttempt("orange", to, message, false, errorMsg);
+      logSMSAttempt("orange", to, false, errorMsg);
       return { success: false, error: errorMsg };
     }
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : "Erreur Orange";
-    logSMSAttempt("orange", to, message, false, errorMsg);
+    logSMSAttempt("orange", to, false, errorMsg);
     return { success: false, error: errorMsg };
   }
 }
@@ -303,7 +303,7 @@ async function sendSMS(to: string, message: string): Promise<SMSResponse> {
       return sendViaOrange(normalizedTo, message);
     case "none":
     default:
-      logSMSAttempt("none", normalizedTo, message, false, "Aucun fournisseur SMS configure");
+      logSMSAttempt("none", normalizedTo, false, "Aucun fournisseur SMS configure");
       return { success: false, error: "Aucun fournisseur SMS configure. Contactez l'administrateur." };
   }
 }
@@ -341,18 +341,7 @@ function formatDossierReminderMessage(
 }
 
 // POST /api/sms/send - Send an SMS (admin only)
-smsRouter.post("/send", zValidator("json", SendSMSRequestSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
-  // Only admins can send SMS
-  if (user.role !== "SUPER_ADMIN" && user.role !== "ADMIN_DEPARTMENT") {
-    return c.json({ error: { message: "Acces refuse. Reservee aux administrateurs.", code: "FORBIDDEN" } }, 403);
-  }
-
+smsRouter.post("/send", requirePermission("sms:send"), zValidator("json", SendSMSRequestSchema), async (c) => {
   const { to, message } = c.req.valid("json");
 
   const result = await sendSMS(to, message);
@@ -364,19 +353,8 @@ smsRouter.post("/send", zValidator("json", SendSMSRequestSchema), async (c) => {
   }
 });
 
-// POST /api/sms/dossier-reminder - Send a dossier deadline reminder SMS
-smsRouter.post("/dossier-reminder", zValidator("json", DossierReminderRequestSchema), async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
-  // Only admins can send reminders
-  if (user.role !== "SUPER_ADMIN" && user.role !== "ADMIN_DEPARTMENT") {
-    return c.json({ error: { message: "Acces refuse. Reservee aux administrateurs.", code: "FORBIDDEN" } }, 403);
-  }
-
+// POST /api/sms/dossier-reminder - Send a dossier deadline reminder SMS (admin only)
+smsRouter.post("/dossier-reminder", requirePermission("sms:send"), zValidator("json", DossierReminderRequestSchema), async (c) => {
   const { dossierId, phone, dossierTitle, deadline, progress } = c.req.valid("json");
 
   // Format the reminder message
@@ -394,13 +372,7 @@ smsRouter.post("/dossier-reminder", zValidator("json", DossierReminderRequestSch
 });
 
 // GET /api/sms/status - Check if SMS is configured
-smsRouter.get("/status", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
-
+smsRouter.get("/status", requireAuth, async (c) => {
   const config = getSMSConfig();
   let configured = false;
 
@@ -427,4 +399,4 @@ smsRouter.get("/status", async (c) => {
   });
 });
 
-export { smsRouter };
+export { smsRouter, sendSMS, normalizeMaliPhoneNumber };
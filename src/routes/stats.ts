@@ -1,5 +1,5 @@
 import { Hono } from "hono";
-import { supabase } from "../supabase";
+import { repositories } from "../repositories";
 import type {
   OverviewStats,
   RegionStats,
@@ -12,25 +12,33 @@ const statsRouter = new Hono();
 // GET /api/stats/overview
 statsRouter.get("/overview", async (c) => {
   // Fetch projects with needed fields
-  const { data: projects, error: projectsError } = await supabase
-    .from("projects")
-    .select("status, progress, budget");
+  const { data: projects, error: projectsError } = await repositories.projects.list();
 
   if (projectsError) {
     return c.json({ error: { message: projectsError.message } }, 500);
   }
 
-  // Fetch beneficiaries with gender
-  const { data: beneficiaries, error: beneficiariesError } = await supabase
-    .from("beneficiaries")
-    .select("gender");
-
-  if (beneficiariesError) {
-    return c.json({ error: { message: beneficiariesError.message } }, 500);
+  // Count enrollments and people by gender in the database; people are
+  // counted once however many projects they joined
+  const counts = await Promise.all([
+    repositories.beneficiaries.count(),
+    repositories.beneficiaries.count({ gender: "MALE" }),
+    repositories.beneficiaries.count({ gender: "FEMALE" }),
+    repositories.people.count(),
+    repositories.people.count({ gender: "MALE" }),
+    repositories.people.count({ gender: "FEMALE" }),
+  ]);
+
+  const countError = counts.find((count) => count.error)?.error;
+  if (countError) {
+    return c.json({ error: { message: countError.message } }, 500);
   }
 
+  const [totalBeneficiaries, malesEnrolled, femalesEnrolled, totalPeople, malePeople, femalePeople] = counts.map(
+    (count) => count.data ?? 0
+  ) as [number, number, number, number, number, number];
+
   const totalProjects = projects?.length ?? 0;
-  const totalBeneficiaries = beneficiaries?.length ?? 0;
 
   const projectsByStatus = {
     PENDING_VALIDATION: 0,
@@ -53,26 +61,25 @@ statsRouter.get("/overview", async (c) => {
   }
 
   const beneficiariesByGender = {
-    MALE: 0,
-    FEMALE: 0,
+    MALE: malesEnrolled,
+    FEMALE: femalesEnrolled,
   };
 
-  for (const beneficiary of beneficiaries ?? []) {
-    if (beneficiary.gender === "MALE") {
-      beneficiariesByGender.MALE++;
-    } else if (beneficiary.gender === "FEMALE") {
-      beneficiariesByGender.FEMALE++;
-    }
-  }
+  const peopleByGender = {
+    MALE: malePeople,
+    FEMALE: femalePeople,
+  };
 
   const averageProgress = totalProjects > 0 ? Math.round(totalProgress / totalProjects) : 0;
 
   const data: OverviewStats = {
     totalProjects,
     totalBeneficiaries,
+    totalPeople,
     totalBudget,
     projectsByStatus,
     beneficiariesByGender,
+    peopleByGender,
     averageProgress,
   };
 
@@ -82,35 +89,30 @@ statsRouter.get("/overview", async (c) => {
 // GET /api/stats/by-region
 statsRouter.get("/by-region", async (c) => {
   // Fetch all regions
-  const { data: regions, error: regionsError } = await supabase
-    .from("regions")
-    .select("id, name, code");
+  const { data: regions, error: regionsError } = await repositories.regions.list();
 
   if (regionsError) {
     return c.json({ error: { message: regionsError.message } }, 500);
   }
 
   // Fetch all projects with region_id
-  const { data: projects, error: projectsError } = await supabase
-    .from("projects")
-    .select("region_id, budget, progress");
+  const { data: projects, error: projectsError } = await repositories.projects.list();
 
   if (projectsError) {
     return c.json({ error: { message: projectsError.message } }, 500);
   }
 
   // Fetch all beneficiaries with region_id
-  const { data: beneficiaries, error: beneficiariesError } = await supabase
-    .from("beneficiaries")
-    .select("region_id");
+  const { data: beneficiaries, error: beneficiariesError } = await repositories.beneficiaries.list();
 
   if (beneficiariesError) {
     return c.json({ error: { message: beneficiariesError.message } }, 500);
   }
 
-  // Group projects and beneficiaries by region
+  // Group projects and beneficiaries by region, counting enrollments and people
   const projectsByRegion = new Map<string, typeof projects>();
   const beneficiariesByRegion = new Map<string, number>();
+  const peopleByRegion = new Map<string, Set<string>>();
 
   for (const project of projects ?? []) {
     const regionId = project.region_id;
@@ -123,6 +125,10 @@ statsRouter.get("/by-region", async (c) => {
   for (const beneficiary of beneficiaries ?? []) {
     const regionId = beneficiary.region_id;
     beneficiariesByRegion.set(regionId, (beneficiariesByRegion.get(regionId) ?? 0) + 1);
+    if (!peopleByRegion.has(regionId)) {
+      peopleByRegion.set(regionId, new Set());
+    }
+    peopleByRegion.get(regionId)!.add(beneficiary.person_id);
   }
 
   const data: RegionStats[] = (regions ?? []).map((region) => {
@@ -139,6 +145,7 @@ statsRouter.get("/by-region", async (c) => {
       regionCode: region.code,
       projectCount: regionProjects.length,
       beneficiaryCount: beneficiariesByRegion.get(region.id) ?? 0,
+      peopleCount: peopleByRegion.get(region.id)?.size ?? 0,
       totalBudget,
       averageProgress,
     };
@@ -150,27 +157,21 @@ statsRouter.get("/by-region", async (c) => {
 // GET /api/stats/by-department
 statsRouter.get("/by-department", async (c) => {
   // Fetch all departments
-  const { data: departments, error: departmentsError } = await supabase
-    .from("departments")
-    .select("id, name, code");
+  const { data: departments, error: departmentsError } = await repositories.departments.list();
 
   if (departmentsError) {
     return c.json({ error: { message: departmentsError.message } }, 500);
   }
 
   // Fetch all projects with department_id
-  const { data: projects, error: projectsError } = await supabase
-    .from("projects")
-    .select("id, department_id, budget, progress");
+  const { data: projects, error: projectsError } = await repositories.projects.list();
 
   if (projectsError) {
     return c.json({ error: { message: projectsError.message } }, 500);
   }
 
   // Fetch all beneficiaries with project_id
-  const { data: beneficiaries, error: beneficiariesError } = await supabase
-    .from("beneficiaries")
-    .select("project_id");
+  const { data: beneficiaries, error: beneficiariesError } = await repositories.beneficiaries.list();
 
   if (beneficiariesError) {
     return c.json({ error: { message: beneficiariesError.message } }, 500);
@@ -192,12 +193,17 @@ statsRouter.get("/by-department", async (c) => {
     projectsByDepartment.get(deptId)!.push(project);
   }
 
-  // Count beneficiaries by department (through their project)
+  // Count beneficiaries and people by department (through their project)
   const beneficiariesByDepartment = new Map<string, number>();
+  const peopleByDepartment = new Map<string, Set<string>>();
   for (const beneficiary of beneficiaries ?? []) {
     const deptId = projectToDepartment.get(beneficiary.project_id);
     if (deptId) {
       beneficiariesByDepartment.set(deptId, (beneficiariesByDepartment.get(deptId) ?? 0) + 1);
+      if (!peopleByDepartment.has(deptId)) {
+        peopleByDepartment.set(deptId, new Set());
+      }
+      peopleByDepartment.get(deptId)!.add(beneficiary.person_id);
     }
   }
 
@@ -215,6 +221,7 @@ statsRouter.get("/by-department", async (c) => {
       departmentCode: dept.code,
       projectCount: deptProjects.length,
       beneficiaryCount: beneficiariesByDepartment.get(dept.id) ?? 0,
+      peopleCount: peopleByDepartment.get(dept.id)?.size ?? 0,
       totalBudget,
       averageProgress,
     };
@@ -226,35 +233,30 @@ statsRouter.get("/by-department", async (c) => {
 // GET /api/stats/by-sector
 statsRouter.get("/by-sector", async (c) => {
   // Fetch all sectors
-  const { data: sectors, error: sectorsError } = await supabase
-    .from("sectors")
-    .select("id, name");
+  const { data: sectors, error: sectorsError } = await repositories.sectors.list();
 
   if (sectorsError) {
     return c.json({ error: { message: sectorsError.message } }, 500);
   }
 
   // Fetch all projects with sector_id
-  const { data: projects, error: projectsError } = await supabase
-    .from("projects")
-    .select("sector_id, budget");
+  const { data: projects, error: projectsError } = await repositories.projects.list();
 
   if (projectsError) {
     return c.json({ error: { message: projectsError.message } }, 500);
   }
 
   // Fetch all beneficiaries with sector_id
-  const { data: beneficiaries, error: beneficiariesError } = await supabase
-    .from("beneficiaries")
-    .select("sector_id");
+  const { data: beneficiaries, error: beneficiariesError } = await repositories.beneficiaries.list();
 
   if (beneficiariesError) {
     return c.json({ error: { message: beneficiariesError.message } }, 500);
   }
 
-  // Group projects and beneficiaries by sector
+  // Group projects and beneficiaries by sector, counting enrollments and people
   const projectsBySector = new Map<string, typeof projects>();
   const beneficiariesBySector = new Map<string, number>();
+  const peopleBySector = new Map<string, Set<string>>();
 
   for (const project of projects ?? []) {
     const sectorId = project.sector_id;
@@ -267,6 +269,10 @@ statsRouter.get("/by-sector", async (c) => {
   for (const beneficiary of beneficiaries ?? []) {
     const sectorId = beneficiary.sector_id;
     beneficiariesBySector.set(sectorId, (beneficiariesBySector.get(sectorId) ?? 0) + 1);
+    if (!peopleBySector.has(sectorId)) {
+      peopleBySector.set(sectorId, new Set());
+    }
+    peopleBySector.get(sectorId)!.add(beneficiary.person_id);
   }
 
   const data: SectorStats[] = (sectors ?? []).map((sector) => {
@@ -278,6 +284,7 @@ statsRouter.get("/by-sector", async (c) => {
       sectorName: sector.name,
       projectCount: sectorProjects.length,
       beneficiaryCount: beneficiariesBySector.get(sector.id) ?? 0,
+      peopleCount: peopleBySector.get(sector.id)?.size ?? 0,
       totalBudget,
     };
   });
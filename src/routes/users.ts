@@ -1,16 +1,14 @@
-import { Hono } from "hono";
-import { supabase } from "../supabase";
+import { Hono, type Context } from "hono";
+import { repositories, type UserUpdate } from "../repositories";
 import { z } from "zod";
-import bcrypt from "bcryptjs";
+import { inDepartmentScope, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
+import { canGrantRole } from "../permissions";
+import { hashPassword, recordPasswordHistory, validateNewPassword } from "../passwords";
+import { recordAudit } from "../audit";
+import { pageOptions, toPage } from "../pagination";
+import { UserListQuerySchema } from "../types";
 
-export const usersRouter = new Hono();
-
-const BCRYPT_ROUNDS = 10;
-
-// Secure password hashing using bcrypt
-function hashPassword(password: string): string {
-  return bcrypt.hashSync(password, BCRYPT_ROUNDS);
-}
+export const usersRouter = new Hono<AuthEnv>();
 
 // Helper to convert Supabase user to API format
 function formatUser(user: any) {
@@ -22,6 +20,8 @@ function formatUser(user: any) {
     isActive: user.is_active,
     phone: user.phone,
     departmentId: user.department_id,
+    failedLoginAttempts: user.failed_login_attempts ?? 0,
+    lockedUntil: user.locked_until ?? null,
     department: user.department ? {
       id: user.department.id,
       name: user.department.name,
@@ -32,61 +32,55 @@ function formatUser(user: any) {
   };
 }
 
-// Middleware to check if user is super admin or admin (using Supabase)
-async function requireAdmin(c: any, next: () => Promise<void>) {
-  const authHeader = c.req.header("Authorization");
-  console.log('[requireAdmin] Auth header:', authHeader ? `${authHeader.substring(0, 20)}...` : 'missing');
-
-  if (!authHeader?.startsWith("Bearer ")) {
-    return c.json({ error: { message: "Non autorise" } }, 401);
+// Logs the user out everywhere; a failure is logged rather than undoing the change
+async function revokeSessions(userId: string): Promise<void> {
+  const { error } = await repositories.sessions.deleteByUserId(userId);
+  if (error) {
+    console.error("Error revoking sessions:", error);
   }
+}
 
-  const token = authHeader.slice(7);
-  console.log('[requireAdmin] Token:', token.substring(0, 10) + '...');
+// Only super admins and department admins can manage users
+const requireAdmin = requirePermission("user:manage");
 
-  // Check session in Supabase
-  const { data: session, error: sessionError } = await supabase
-    .from('sessions')
-    .select('*, user:users(*)')
-    .eq('token', token)
-    .single();
+// Department admins only manage the accounts of their own department, and
+// nobody manages an account whose role is above their own
+function canManageUser<E extends AuthEnv>(c: Context<E, any, any>, target: { role: string; department_id: string | null }): boolean {
+  return inDepartmentScope(c, target.department_id) && canGrantRole(c.get("user")!, target.role);
+}
 
-  console.log('[requireAdmin] Session found:', !!session, 'Error:', sessionError?.message);
+// GET /api/users - List all users (Admin only)
+usersRouter.get("/", requireAdmin, requireDepartmentScope(), async (c) => {
+  const validation = UserListQuerySchema.safeParse(c.req.query());
 
-  if (sessionError || !session || new Date(session.expires_at) < new Date()) {
-    return c.json({ error: { message: "Session expiree" } }, 401);
+  if (!validation.success) {
+    return c.json({ error: { message: validation.error.issues[0]?.message || "Parametres invalides" } }, 400);
   }
 
-  const user = session.user;
-  console.log('[requireAdmin] User role:', user.role);
+  const query = validation.data;
 
-  if (user.role !== "SUPER_ADMIN" && user.role !== "ADMIN_DEPARTMENT") {
-    return c.json({ error: { message: "Acces refuse - Admin requis" } }, 403);
+  const page = pageOptions(query);
+  if (!page) {
+    return c.json({ error: { message: "Curseur de pagination invalide", code: "INVALID_CURSOR" } }, 400);
   }
 
-  c.set("user", user);
-  await next();
-}
+  const filters = { departmentId: c.get("departmentScope") ?? undefined };
 
-// GET /api/users - List all users (Admin only)
-usersRouter.get("/", requireAdmin, async (c) => {
-  const { data: users, error } = await supabase
-    .from('users')
-    .select('*, department:departments(id, name, code)')
-    .order('created_at', { ascending: false });
+  const [{ data: users, error }, { data: total, error: countError }] = await Promise.all([
+    repositories.users.list(filters, page),
+    repositories.users.count(filters),
+  ]);
 
-  if (error) {
+  if (error || countError) {
     return c.json({ error: { message: "Erreur lors de la recuperation des utilisateurs" } }, 500);
   }
 
-  return c.json({ data: (users || []).map(formatUser) });
+  return c.json(toPage((users || []).map(formatUser), query, total ?? 0));
 });
 
 // GET /api/users/stats/overview - Get user statistics (must be before /:id)
-usersRouter.get("/stats/overview", requireAdmin, async (c) => {
-  const { data: users, error } = await supabase
-    .from('users')
-    .select('role, is_active');
+usersRouter.get("/stats/overview", requireAdmin, requireDepartmentScope(), async (c) => {
+  const { data: users, error } = await repositories.users.list({ departmentId: c.get("departmentScope") ?? undefined });
 
   if (error) {
     return c.json({ error: { message: "Erreur lors de la recuperation des statistiques" } }, 500);
@@ -111,27 +105,61 @@ usersRouter.get("/stats/overview", requireAdmin, async (c) => {
   });
 });
 
+// GET /api/users/login-attempts - Review failed login attempts (Super admin only, must be before /:id)
+const LoginAttemptsQuerySchema = z.object({
+  userId: z.string().optional(),
+  ipAddress: z.string().optional(),
+  since: z.string().datetime({ message: "Date invalide" }).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(100),
+});
+
+usersRouter.get("/login-attempts", requirePermission("login_attempt:read"), async (c) => {
+  const validation = LoginAttemptsQuerySchema.safeParse(c.req.query());
+
+  if (!validation.success) {
+    return c.json({ error: { message: validation.error.issues[0]?.message || "Parametres invalides" } }, 400);
+  }
+
+  const { data: attempts, error } = await repositories.loginAttempts.list(validation.data);
+
+  if (error) {
+    return c.json({ error: { message: "Erreur lors de la recuperation des tentatives de connexion" } }, 500);
+  }
+
+  return c.json({
+    data: (attempts || []).map((a) => ({
+      id: a.id,
+      identifier: a.identifier,
+      userId: a.user_id,
+      ipAddress: a.ip_address,
+      reason: a.reason,
+      createdAt: a.created_at,
+      user: a.user,
+    })),
+  });
+});
+
 // GET /api/users/:id - Get user by ID
-usersRouter.get("/:id", requireAdmin, async (c) => {
+usersRouter.get("/:id", requireAdmin, requireDepartmentScope(), async (c) => {
   const { id } = c.req.param();
 
-  const { data: user, error } = await supabase
-    .from('users')
-    .select('*, department:departments(id, name, code)')
-    .eq('id', id)
-    .single();
+  const { data: user, error } = await repositories.users.findById(id);
 
   if (error || !user) {
     return c.json({ error: { message: "Utilisateur non trouve" } }, 404);
   }
 
+  if (!inDepartmentScope(c, user.department_id)) {
+    return c.json({ error: { message: "Vous ne pouvez pas consulter cet utilisateur" } }, 403);
+  }
+
   return c.json({ data: formatUser(user) });
 });
 
 // POST /api/users - Create new user (Admin only)
 const CreateUserSchema = z.object({
   email: z.string().email("Email invalide"),
-  password: z.string().min(6, "Mot de passe minimum 6 caracteres"),
+  password: z.string().min(1, "Mot de passe requis"),
   name: z.string().min(1, "Nom requis"),
   role: z.enum(["SUPER_ADMIN", "ADMIN_DEPARTMENT", "MINISTER", "PRIMATURE", "PRESIDENCY", "AGENT"]),
   departmentId: z.string().optional(),
@@ -139,7 +167,7 @@ const CreateUserSchema = z.object({
   isActive: z.boolean().optional().default(true),
 });
 
-usersRouter.post("/", requireAdmin, async (c) => {
+usersRouter.post("/", requireAdmin, requireDepartmentScope(), async (c) => {
   const body = await c.req.json();
   const validation = CreateUserSchema.safeParse(body);
 
@@ -147,14 +175,20 @@ usersRouter.post("/", requireAdmin, async (c) => {
     return c.json({ error: { message: validation.error.issues[0]?.message || "Donnees invalides" } }, 400);
   }
 
-  const { email, password, name, role, departmentId, phone, isActive } = validation.data;
+  const { email, password, name, role, phone, isActive } = validation.data;
+  // Department admins create accounts in their own department
+  const departmentId = validation.data.departmentId ?? c.get("departmentScope") ?? undefined;
+
+  if (!inDepartmentScope(c, departmentId)) {
+    return c.json({ error: { message: "Vous ne pouvez pas ajouter des utilisateurs a ce departement" } }, 403);
+  }
+
+  if (!canGrantRole(c.get("user"), role)) {
+    return c.json({ error: { message: "Vous ne pouvez pas attribuer ce role" } }, 403);
+  }
 
   // Check if email already exists
-  const { data: existingUser } = await supabase
-    .from('users')
-    .select('id')
-    .eq('email', email)
-    .single();
+  const { data: existingUser } = await repositories.users.findByEmail(email);
 
   if (existingUser) {
     return c.json({ error: { message: "Cet email est deja utilise" } }, 400);
@@ -162,47 +196,47 @@ usersRouter.post("/", requireAdmin, async (c) => {
 
   // Validate departmentId if provided
   if (departmentId) {
-    const { data: department } = await supabase
-      .from('departments')
-      .select('id')
-      .eq('id', departmentId)
-      .single();
+    const { data: department } = await repositories.departments.findById(departmentId);
 
     if (!department) {
       return c.json({ error: { message: "Departement non trouve" } }, 400);
     }
   }
 
+  const rejected = await validateNewPassword(password, { email, name, phone: phone || null });
+  if (rejected) {
+    return c.json({ error: { message: rejected, code: "WEAK_PASSWORD" } }, 400);
+  }
+
   // Hash password
   const hashedPassword = hashPassword(password);
 
   // Create user
-  const { data: newUser, error: createError } = await supabase
-    .from('users')
-    .insert({
-      email,
-      password_hash: hashedPassword,
-      name,
-      role,
-      department_id: departmentId || null,
-      phone: phone || null,
-      is_active: isActive ?? true,
-    })
-    .select('*, department:departments(id, name, code)')
-    .single();
-
-  if (createError) {
+  const { data: newUser, error: createError } = await repositories.users.create({
+    email,
+    password_hash: hashedPassword,
+    name,
+    role,
+    department_id: departmentId || null,
+    phone: phone || null,
+    is_active: isActive ?? true,
+  });
+
+  if (createError || !newUser) {
     console.error('Error creating user:', createError);
     return c.json({ error: { message: "Erreur lors de la creation de l'utilisateur" } }, 500);
   }
 
+  await recordPasswordHistory(newUser.id, hashedPassword);
+  await recordAudit(c, { action: "CREATE", entityType: "USER", entityId: newUser.id, after: newUser });
+
   return c.json({ data: formatUser(newUser) }, 201);
 });
 
 // PATCH /api/users/:id - Update user (Admin only)
 const UpdateUserSchema = z.object({
   email: z.string().email("Email invalide").optional(),
-  password: z.string().min(6, "Mot de passe minimum 6 caracteres").optional(),
+  password: z.string().min(1, "Mot de passe requis").optional(),
   name: z.string().min(1, "Nom requis").optional(),
   role: z.enum(["SUPER_ADMIN", "ADMIN_DEPARTMENT", "MINISTER", "PRIMATURE", "PRESIDENCY", "AGENT"]).optional(),
   departmentId: z.string().nullable().optional(),
@@ -210,7 +244,7 @@ const UpdateUserSchema = z.object({
   isActive: z.boolean().optional(),
 });
 
-usersRouter.patch("/:id", requireAdmin, async (c) => {
+usersRouter.patch("/:id", requireAdmin, requireDepartmentScope(), async (c) => {
   const { id } = c.req.param();
   const body = await c.req.json();
   const validation = UpdateUserSchema.safeParse(body);
@@ -220,25 +254,29 @@ usersRouter.patch("/:id", requireAdmin, async (c) => {
   }
 
   // Check user exists
-  const { data: existingUser, error: findError } = await supabase
-    .from('users')
-    .select('*')
-    .eq('id', id)
-    .single();
+  const { data: existingUser, error: findError } = await repositories.users.findById(id);
 
   if (findError || !existingUser) {
     return c.json({ error: { message: "Utilisateur non trouve" } }, 404);
   }
 
+  if (!canManageUser(c, existingUser)) {
+    return c.json({ error: { message: "Vous ne pouvez pas modifier cet utilisateur" } }, 403);
+  }
+
   const { email, password, name, role, departmentId, phone, isActive } = validation.data;
 
+  if (role !== undefined && !canGrantRole(c.get("user"), role)) {
+    return c.json({ error: { message: "Vous ne pouvez pas attribuer ce role" } }, 403);
+  }
+
+  if (departmentId !== undefined && !inDepartmentScope(c, departmentId)) {
+    return c.json({ error: { message: "Vous ne pouvez pas affecter cet utilisateur a ce departement" } }, 403);
+  }
+
   // Check email uniqueness if changing
   if (email && email !== existingUser.email) {
-    const { data: emailExists } = await supabase
-      .from('users')
-      .select('id')
-      .eq('email', email)
-      .single();
+    const { data: emailExists } = await repositories.users.findByEmail(email);
 
     if (emailExists) {
       return c.json({ error: { message: "Cet email est deja utilise" } }, 400);
@@ -247,11 +285,7 @@ usersRouter.patch("/:id", requireAdmin, async (c) => {
 
   // Validate departmentId if provided
   if (departmentId) {
-    const { data: department } = await supabase
-      .from('departments')
-      .select('id')
-      .eq('id', departmentId)
-      .single();
+    const { data: department } = await repositories.departments.findById(departmentId);
 
     if (!department) {
       return c.json({ error: { message: "Departement non trouve" } }, 400);
@@ -259,7 +293,7 @@ usersRouter.patch("/:id", requireAdmin, async (c) => {
   }
 
   // Build update object
-  const updateData: Record<string, any> = {};
+  const updateData: UserUpdate = {};
   if (email !== undefined) updateData.email = email;
   if (name !== undefined) updateData.name = name;
   if (role !== undefined) updateData.role = role;
@@ -267,126 +301,158 @@ usersRouter.patch("/:id", requireAdmin, async (c) => {
   if (phone !== undefined) updateData.phone = phone;
   if (isActive !== undefined) updateData.is_active = isActive;
   if (password) {
+    const rejected = await validateNewPassword(password, {
+      ...existingUser,
+      email: email ?? existingUser.email,
+      name: name ?? existingUser.name,
+      phone: phone !== undefined ? phone : existingUser.phone,
+    });
+    if (rejected) {
+      return c.json({ error: { message: rejected, code: "WEAK_PASSWORD" } }, 400);
+    }
+
     updateData.password_hash = hashPassword(password);
+    updateData.password_changed_at = new Date().toISOString();
   }
 
-  const { data: updatedUser, error: updateError } = await supabase
-    .from('users')
-    .update(updateData)
-    .eq('id', id)
-    .select('*, department:departments(id, name, code)')
-    .single();
+  const { data: updatedUser, error: updateError } = await repositories.users.update(id, updateData);
 
-  if (updateError) {
+  if (updateError || !updatedUser) {
     return c.json({ error: { message: "Erreur lors de la mise a jour" } }, 500);
   }
 
+  await recordAudit(c, { action: "UPDATE", entityType: "USER", entityId: id, before: existingUser, after: updatedUser });
+
+  if (updateData.password_hash) {
+    await recordPasswordHistory(id, updateData.password_hash);
+  }
+
+  // A deactivated account or a new password ends every open session
+  if (isActive === false || password) {
+    await revokeSessions(id);
+  }
+
   return c.json({ data: formatUser(updatedUser) });
 });
 
 // PATCH /api/users/:id/activate - Activate user account
-usersRouter.patch("/:id/activate", requireAdmin, async (c) => {
+usersRouter.patch("/:id/activate", requireAdmin, requireDepartmentScope(), async (c) => {
   const { id } = c.req.param();
 
-  const { data: existingUser } = await supabase
-    .from('users')
-    .select('id')
-    .eq('id', id)
-    .single();
+  const { data: existingUser } = await repositories.users.findById(id);
 
   if (!existingUser) {
     return c.json({ error: { message: "Utilisateur non trouve" } }, 404);
   }
 
-  const { data: user, error } = await supabase
-    .from('users')
-    .update({ is_active: true })
-    .eq('id', id)
-    .select('*, department:departments(id, name, code)')
-    .single();
+  if (!canManageUser(c, existingUser)) {
+    return c.json({ error: { message: "Vous ne pouvez pas modifier cet utilisateur" } }, 403);
+  }
 
-  if (error) {
+  const { data: user, error } = await repositories.users.update(id, { is_active: true });
+
+  if (error || !user) {
     return c.json({ error: { message: "Erreur lors de l'activation" } }, 500);
   }
 
+  await recordAudit(c, { action: "UPDATE", entityType: "USER", entityId: id, before: existingUser, after: user });
+
+  return c.json({ data: formatUser(user) });
+});
+
+// PATCH /api/users/:id/unlock - Clear a login lockout (Admin only)
+usersRouter.patch("/:id/unlock", requireAdmin, requireDepartmentScope(), async (c) => {
+  const { id } = c.req.param();
+
+  const { data: existingUser } = await repositories.users.findById(id);
+
+  if (!existingUser) {
+    return c.json({ error: { message: "Utilisateur non trouve" } }, 404);
+  }
+
+  if (!canManageUser(c, existingUser)) {
+    return c.json({ error: { message: "Vous ne pouvez pas modifier cet utilisateur" } }, 403);
+  }
+
+  const { data: user, error } = await repositories.users.update(id, {
+    failed_login_attempts: 0,
+    locked_until: null,
+  });
+
+  if (error || !user) {
+    return c.json({ error: { message: "Erreur lors du deverrouillage" } }, 500);
+  }
+
+  await recordAudit(c, { action: "UPDATE", entityType: "USER", entityId: id, before: existingUser, after: user });
+
   return c.json({ data: formatUser(user) });
 });
 
 // PATCH /api/users/:id/deactivate - Deactivate user account
-usersRouter.patch("/:id/deactivate", requireAdmin, async (c) => {
+usersRouter.patch("/:id/deactivate", requireAdmin, requireDepartmentScope(), async (c) => {
   const { id } = c.req.param();
 
-  const { data: existingUser } = await supabase
-    .from('users')
-    .select('id')
-    .eq('id', id)
-    .single();
+  const { data: existingUser } = await repositories.users.findById(id);
 
   if (!existingUser) {
     return c.json({ error: { message: "Utilisateur non trouve" } }, 404);
   }
 
+  if (!canManageUser(c, existingUser)) {
+    return c.json({ error: { message: "Vous ne pouvez pas modifier cet utilisateur" } }, 403);
+  }
+
   // Prevent deactivating own account
-  const currentUser = c.get("user") as { id: string } | undefined;
-  if (currentUser?.id === id) {
+  const currentUser = c.get("user");
+  if (currentUser.id === id) {
     return c.json({ error: { message: "Vous ne pouvez pas desactiver votre propre compte" } }, 400);
   }
 
-  const { data: user, error } = await supabase
-    .from('users')
-    .update({ is_active: false })
-    .eq('id', id)
-    .select('*, department:departments(id, name, code)')
-    .single();
+  const { data: user, error } = await repositories.users.update(id, { is_active: false });
 
-  if (error) {
+  if (error || !user) {
     return c.json({ error: { message: "Erreur lors de la desactivation" } }, 500);
   }
 
+  await recordAudit(c, { action: "UPDATE", entityType: "USER", entityId: id, before: existingUser, after: user });
+
   // Invalidate all sessions for this user
-  await supabase
-    .from('sessions')
-    .delete()
-    .eq('user_id', id);
+  await revokeSessions(id);
 
   return c.json({ data: formatUser(user) });
 });
 
 // DELETE /api/users/:id - Delete user (Admin only)
-usersRouter.delete("/:id", requireAdmin, async (c) => {
+usersRouter.delete("/:id", requireAdmin, requireDepartmentScope(), async (c) => {
   const { id } = c.req.param();
 
-  const { data: existingUser } = await supabase
-    .from('users')
-    .select('id')
-    .eq('id', id)
-    .single();
+  const { data: existingUser } = await repositories.users.findById(id);
 
   if (!existingUser) {
     return c.json({ error: { message: "Utilisateur non trouve" } }, 404);
   }
 
+  if (!canManageUser(c, existingUser)) {
+    return c.json({ error: { message: "Vous ne pouvez pas supprimer cet utilisateur" } }, 403);
+  }
+
   // Prevent deleting own account
-  const currentUser = c.get("user") as { id: string } | undefined;
-  if (currentUser?.id === id) {
+  const currentUser = c.get("user");
+  if (currentUser.id === id) {
     return c.json({ error: { message: "Vous ne pouvez pas supprimer votre propre compte" } }, 400);
   }
 
   // Delete sessions first
-  await supabase
-    .from('sessions')
-    .delete()
-    .eq('user_id', id);
+  await repositories.sessions.deleteByUserId(id);
 
   // Delete user
-  const { error } = await supabase
-    .from('users')
-    .delete()
-    .eq('id', id);
+  const { error } = await repositories.users.delete(id);
 
   if (error) {
     return c.json({ error: { message: "Erreur lors de la suppression" } }, 500);
   }
 
+  await recordAudit(c, { action: "DELETE", entityType: "USER", entityId: id, before: existingUser });
+
   return c.json({ data: { success: true } });
 });
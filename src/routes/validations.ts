@@ -1,34 +1,54 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { createId } from "@paralleldrive/cuid2";
-import { supabase } from "../supabase";
+import {
+  DB_CONFLICT_CODE,
+  repositories,
+  type DbError,
+  type ProjectRow,
+  type ValidationRequestRow,
+  type ValidationRequestWithRelationsRow,
+  type ValidationDecision,
+  type ValidationDecisionResult,
+  type ValidationStepWithApproverRow,
+} from "../repositories";
 import {
   CreateValidationRequestSchema,
   ValidationRequestFiltersSchema,
   ApproveRejectValidationSchema,
+  BulkValidationDecisionSchema,
+  SlaReportQuerySchema,
+  RequestChangesSchema,
+  AmendValidationRequestSchema,
+  ResubmitValidationRequestSchema,
+  CreateCommentSchema,
+  ValidationMetadataSchemas,
+  type ValidationRequestType,
   type ValidationRequestWithRelations,
+  type ValidationStep,
+  type DelegationScope,
   type UserRole,
 } from "../types";
-import { getAuthUser } from "./auth";
-
-const validationsRouter = new Hono();
-
-// Roles that can approve/reject validation requests with their hierarchy
-const APPROVER_ROLES: UserRole[] = ["MINISTER", "PRIMATURE", "PRESIDENCY", "SUPER_ADMIN"];
-
-// Define approval hierarchy: who can approve for whom
-const APPROVAL_HIERARCHY: Record<string, UserRole[]> = {
-  // Department admins submit to Minister
-  "PROJECT_APPROVAL": ["MINISTER", "PRIMATURE", "PRESIDENCY", "SUPER_ADMIN"],
-  "BUDGET_INCREASE": ["MINISTER", "PRIMATURE", "PRESIDENCY", "SUPER_ADMIN"],
-  "STATUS_CHANGE": ["MINISTER", "PRIMATURE", "PRESIDENCY", "SUPER_ADMIN"],
-  "UNBLOCK_REQUEST": ["MINISTER", "PRIMATURE", "PRESIDENCY", "SUPER_ADMIN"],
-};
-
-// Get appropriate approvers based on request type
-function getApproverRolesForType(type: string): UserRole[] {
-  return APPROVAL_HIERARCHY[type] || APPROVER_ROLES;
-}
+import { can, inDepartmentScope, requireAuth, requireDepartmentScope, requirePermission, type AuthEnv } from "../middleware/auth";
+import {
+  approvalAmount,
+  approvalChainFor,
+  canDecideStep,
+  currentStepRole,
+  isFinalStep,
+  requestedBudget,
+  stepApprovers,
+  storedApprovalChain,
+} from "../approval-chains";
+import { diffRows, recordAudit } from "../audit";
+import { recordProjectRevision } from "../project-history";
+import { activeDelegations, delegatorFor, type ActiveDelegation, type Delegator } from "../delegations";
+import { isKnownTransition } from "../project-status";
+import { buildSlaReport, currentDueAt, isOverdue, stepDueAt } from "../validation-sla";
+import { formatComment, notifyComment, resolveMentions, type CommentTarget } from "../comments";
+import { hasPermission } from "../permissions";
+
+const validationsRouter = new Hono<AuthEnv>();
 
 // Helper to format validation request from Supabase row to API response
 function formatValidationRequest(v: any): ValidationRequestWithRelations {
@@ -51,17 +71,25 @@ function formatValidationRequest(v: any): ValidationRequestWithRelations {
     comment: v.comment,
     responseComment: v.response_comment,
     metadata,
+    approvalChain: storedApprovalChain(v),
+    currentStep: v.current_step ?? 0,
+    dueAt: v.status === "PENDING" ? currentDueAt(v).toISOString() : null,
+    overdue: isOverdue(v),
+    escalationCount: v.escalation_count ?? 0,
+    previousRequestId: v.previous_request_id ?? null,
+    threadId: v.thread_id ?? v.id,
+    revision: v.revision ?? 1,
     createdAt: v.created_at,
     updatedAt: v.updated_at,
     respondedAt: v.responded_at ?? null,
     project: {
-      id: v.projects?.id ?? "",
-      name: v.projects?.name ?? "",
-      status: (v.projects?.status ?? "DRAFT") as ValidationRequestWithRelations["project"]["status"],
+      id: v.project?.id ?? "",
+      name: v.project?.name ?? "",
+      status: (v.project?.status ?? "DRAFT") as ValidationRequestWithRelations["project"]["status"],
       department: {
-        id: v.projects?.departments?.id ?? "",
-        name: v.projects?.departments?.name ?? "",
-        code: v.projects?.departments?.code ?? "",
+        id: v.project?.department?.id ?? "",
+        name: v.project?.department?.name ?? "",
+        code: v.project?.department?.code ?? "",
       },
     },
     requester: {
@@ -81,44 +109,440 @@ function formatValidationRequest(v: any): ValidationRequestWithRelations {
   };
 }
 
-// Helper to create notification for approvers
-async function notifyApprovers(
+function formatValidationStep(s: ValidationStepWithApproverRow): ValidationStep {
+  return {
+    id: s.id,
+    step: s.step,
+    role: s.role as UserRole,
+    decision: s.decision as ValidationStep["decision"],
+    comment: s.comment,
+    createdAt: s.created_at,
+    approver: s.approver
+      ? {
+          id: s.approver.id,
+          name: s.approver.name,
+          email: s.approver.email,
+          role: s.approver.role as UserRole,
+        }
+      : null,
+    onBehalfOf: s.on_behalf_of
+      ? { id: s.on_behalf_of.id, name: s.on_behalf_of.name, role: s.on_behalf_of.role as UserRole }
+      : null,
+  };
+}
+
+// Status the project moves to when a request of this type is approved, if any
+function requestedStatus(type: string, metadata: any): string | null {
+  switch (type) {
+    case "PROJECT_APPROVAL":
+    case "UNBLOCK_REQUEST":
+      return "IN_PROGRESS";
+    case "STATUS_CHANGE":
+      return typeof metadata?.newStatus === "string" ? metadata.newStatus : null;
+    default:
+      return null;
+  }
+}
+
+// Why a decision could not be applied, answered as is by single-request routes
+// and reported per item by batches
+interface DecisionFailure {
+  status: 400 | 403 | 404 | 409 | 500;
+  error: { message: string; code: string };
+}
+
+function failed(c: Context, failure: DecisionFailure) {
+  return c.json({ error: failure.error }, failure.status);
+}
+
+function transitionFailure(from: string, to: string | null): DecisionFailure {
+  return {
+    status: 409,
+    error: {
+      message: to ? `Transition de statut impossible: ${from} vers ${to}` : "Nouveau statut manquant",
+      code: "INVALID_STATUS_TRANSITION",
+    },
+  };
+}
+
+function invalidTransition(c: Context, from: string, to: string | null) {
+  return failed(c, transitionFailure(from, to));
+}
+
+function stepFailure(stepRole: UserRole | null): DecisionFailure {
+  return {
+    status: 403,
+    error: { message: `Cette etape de validation revient au role ${stepRole}`, code: "NOT_YOUR_STEP" },
+  };
+}
+
+function notYourStep(c: Context, stepRole: UserRole | null) {
+  return failed(c, stepFailure(stepRole));
+}
+
+// Same as decidingAuthority, with the caller's approval rights already loaded
+function stepAuthority(
+  user: { role: string },
+  canApprove: boolean,
+  delegations: ActiveDelegation[],
+  validation: ValidationRequestWithRelationsRow
+): { onBehalfOf: Delegator | null } | null {
+  const stepRole = currentStepRole(validation);
+
+  if (canApprove && canDecideStep(user, stepRole)) {
+    return { onBehalfOf: null };
+  }
+
+  const onBehalfOf = delegatorFor(delegations, validation.type as DelegationScope, (d) => canDecideStep(d, stepRole));
+  return onBehalfOf ? { onBehalfOf } : null;
+}
+
+// Whose authority the caller decides the current step with: their own, or that
+// of a delegator who lent them this request type. Null when neither allows it.
+async function decidingAuthority<E extends AuthEnv>(
+  c: Context<E, any, any>,
+  validation: ValidationRequestWithRelationsRow
+): Promise<{ onBehalfOf: Delegator | null } | null> {
+  const user = c.get("user");
+  if (!user) return null;
+
+  const canApprove = can(c, "validation:approve");
+  if (canApprove && canDecideStep(user, currentStepRole(validation))) {
+    return { onBehalfOf: null };
+  }
+
+  return stepAuthority(user, canApprove, await activeDelegations(user.id, "validation:approve"), validation);
+}
+
+// Without validation:read_all, users read their own requests and the pending
+// ones whose current step they can decide, themselves or for a delegator
+async function canReadRequest<E extends AuthEnv>(
+  c: Context<E, any, any>,
+  validation: ValidationRequestWithRelationsRow
+): Promise<boolean> {
+  if (can(c, "validation:read_all") || validation.requester_id === c.get("user")?.id) {
+    return true;
+  }
+  return validation.status === "PENDING" && (await decidingAuthority(c, validation)) !== null;
+}
+
+// Amended or resubmitted metadata must still fit the request's type
+function checkMetadata(c: Context, type: string, metadata: unknown) {
+  const parsed = ValidationMetadataSchemas[type as ValidationRequestType].safeParse(metadata);
+  if (!parsed.success) {
+    return c.json({ error: { message: parsed.error.issues[0]?.message || "Donnees invalides", code: "INVALID_METADATA" } }, 400);
+  }
+  return null;
+}
+
+// Status requests must describe a move the project lifecycle allows
+function checkRequestedStatus(c: Context, type: string, metadata: any, project: { status: string }) {
+  if (type === "BUDGET_INCREASE") return null;
+
+  const target = requestedStatus(type, metadata);
+  if (!target || !isKnownTransition(project.status, target)) {
+    return invalidTransition(c, project.status, target);
+  }
+  return null;
+}
+
+export interface RequestSubmission {
+  type: ValidationRequestWithRelations["type"];
+  comment: string;
+  metadata: unknown;
+  // Attempt this one resubmits, if any
+  previous?: ValidationRequestRow;
+  // Replaces the generic notification sent to the approvers
+  notification?: { title: string; message: string };
+}
+
+// Creates a request at the first level of its chain and notifies that level.
+// Every validation request is opened through here, including the ones projects
+// open on their own changes.
+export async function submitRequest<E extends AuthEnv>(
+  c: Context<E, any, any>,
+  project: ProjectRow,
+  submission: RequestSubmission
+): Promise<ValidationRequestWithRelationsRow | null> {
+  const user = c.get("user")!;
+  const now = new Date().toISOString();
+  const { type, comment, metadata, previous, notification } = submission;
+  const approvalChain = approvalChainFor(type, approvalAmount(type, project, metadata));
+
+  const { data: validation, error } = await repositories.validationRequests.create({
+    id: createId(),
+    type,
+    status: "PENDING",
+    project_id: project.id,
+    requester_id: user.id,
+    comment,
+    metadata: metadata ? JSON.stringify(metadata) : null,
+    approval_chain: JSON.stringify(approvalChain),
+    current_step: 0,
+    due_at: stepDueAt(type, new Date(now)),
+    previous_request_id: previous?.id ?? null,
+    thread_id: previous ? previous.thread_id ?? previous.id : null,
+    revision: previous ? previous.revision + 1 : 1,
+    created_at: now,
+    updated_at: now,
+  });
+
+  if (error || !validation) {
+    console.error("Error creating validation:", error);
+    return null;
+  }
+
+  await recordAudit(c, { action: "CREATE", entityType: "VALIDATION_REQUEST", entityId: validation.id, after: validation });
+
+  await notifyApprovers(
+    validation,
+    notification?.title ?? (previous ? "Demande de validation resoumise" : "Nouvelle demande de validation"),
+    notification?.message ??
+      `${user.name} a ${previous ? "resoumis" : "soumis"} une demande de type "${validation.type}" pour le projet "${project.name}"`
+  );
+
+  return validation;
+}
+
+// Discussion thread of a request: readable by the requester and by whoever
+// reads all requests
+function commentTarget(validation: ValidationRequestWithRelationsRow): CommentTarget {
+  return {
+    entityType: "VALIDATION_REQUEST",
+    entityId: validation.id,
+    link: `/validations/${validation.id}`,
+    label: `la demande de type "${validation.type}" pour le projet "${validation.project?.name ?? ""}"`,
+    followerIds: [validation.requester_id],
+    canView: (u) => u.id === validation.requester_id || hasPermission(u, "validation:read_all"),
+  };
+}
+
+// "Marie" or "Marie au nom de Paul", for notifications
+function deciderName(userName: string, onBehalfOf: Delegator | null): string {
+  return onBehalfOf ? `${userName} au nom de ${onBehalfOf.name}` : userName;
+}
+
+// Decision writes fail with a conflict when another approver got there first
+function decisionFailure(error: DbError | null): DecisionFailure {
+  if (error?.code === DB_CONFLICT_CODE) {
+    return { status: 409, error: { message: "Cette demande a deja ete traitee", code: "ALREADY_PROCESSED" } };
+  }
+  console.error("Error applying validation decision:", error);
+  return { status: 500, error: { message: "Erreur lors de l'enregistrement de la decision", code: "DATABASE_ERROR" } };
+}
+
+function decisionFailed(c: Context, error: DbError | null) {
+  return failed(c, decisionFailure(error));
+}
+
+// What a decision wrote, as reported back to the approver
+function appliedDecision(validation: { status: string; current_step: number }, step: number, result: ValidationDecisionResult) {
+  return {
+    step,
+    status: validation.status,
+    currentStep: validation.current_step,
+    project: result.projectAfter ? diffRows(result.projectBefore, result.projectAfter) : null,
+  };
+}
+
+interface AppliedValidationDecision {
+  validation: ValidationRequestWithRelationsRow;
+  applied: ReturnType<typeof appliedDecision>;
+  onBehalfOf: Delegator | null;
+}
+
+// Approves or rejects the current step of a request with the caller's
+// authority and records it in the audit trail. Notifying is left to the caller.
+async function applyDecision<E extends AuthEnv>(
+  c: Context<E, any, any>,
+  id: string,
+  decision: "APPROVED" | "REJECTED",
+  responseComment: string | undefined
+): Promise<AppliedValidationDecision | DecisionFailure> {
+  const user = c.get("user")!;
+
+  // Fetch validation with project info
+  const { data: validation, error: fetchError } = await repositories.validationRequests.findById(id);
+
+  if (fetchError || !validation) {
+    return { status: 404, error: { message: "Demande de validation non trouvee", code: "NOT_FOUND" } };
+  }
+
+  if (validation.status !== "PENDING") {
+    return { status: 400, error: { message: "Cette demande a deja ete traitee", code: "ALREADY_PROCESSED" } };
+  }
+
+  // Each level of the chain decides in turn, and any level may stop the request
+  const stepRole = currentStepRole(validation);
+  const authority = await decidingAuthority(c, validation);
+  if (!authority) {
+    return can(c, "validation:approve")
+      ? stepFailure(stepRole)
+      : { status: 403, error: { message: "Acces non autorise", code: "FORBIDDEN" } };
+  }
+  const { onBehalfOf } = authority;
+
+  const now = new Date().toISOString();
+  const metadata = validation.metadata ? JSON.parse(validation.metadata) : null;
+  const closes = decision === "REJECTED" || isFinalStep(validation);
+
+  // Work out the project changes based on validation type, once the last level approves
+  let projectChanges: ValidationDecision["projectChanges"] = null;
+
+  if (decision === "APPROVED" && closes && validation.type === "BUDGET_INCREASE") {
+    const newBudget = requestedBudget(metadata);
+    if (newBudget === null) {
+      return { status: 409, error: { message: "Nouveau budget manquant ou invalide", code: "INVALID_METADATA" } };
+    }
+    projectChanges = { budget: newBudget };
+  } else if (decision === "APPROVED" && closes) {
+    // The project may have moved since the request was made
+    const currentStatus = validation.project?.status ?? "";
+    const target = requestedStatus(validation.type, metadata);
+    if (!target || !isKnownTransition(currentStatus, target)) {
+      return transitionFailure(currentStatus, target);
+    }
+    projectChanges = { status: target };
+  }
+
+  // The step, the project changes and the request move together or not at all.
+  // Intermediate levels only hand the request over to the next one.
+  const { data: result, error: decideError } = await repositories.validationRequests.decide(id, {
+    expectedStep: validation.current_step,
+    expectedUpdatedAt: validation.updated_at,
+    step: {
+      role: stepRole ?? onBehalfOf?.role ?? user.role,
+      approver_id: user.id,
+      on_behalf_of_id: onBehalfOf?.id ?? null,
+      decision,
+      comment: responseComment ?? null,
+    },
+    patch: closes
+      ? {
+          status: decision,
+          approver_id: user.id,
+          response_comment: responseComment,
+          responded_at: now,
+          updated_at: now,
+        }
+      : {
+          current_step: validation.current_step + 1,
+          due_at: stepDueAt(validation.type, new Date(now)),
+          reminder_sent_at: null,
+          updated_at: now,
+        },
+    projectChanges,
+  });
+
+  if (decideError || !result) {
+    return decisionFailure(decideError);
+  }
+
+  const updatedValidation = result.validation;
+
+  await recordAudit(c, {
+    action: "UPDATE",
+    entityType: "VALIDATION_REQUEST",
+    entityId: id,
+    before: validation,
+    after: updatedValidation,
+    onBehalfOf,
+  });
+
+  if (result.projectAfter) {
+    await recordAudit(c, {
+      action: "UPDATE",
+      entityType: "PROJECT",
+      entityId: validation.project_id,
+      before: result.projectBefore,
+      after: result.projectAfter,
+      onBehalfOf,
+    });
+    await recordProjectRevision(c, {
+      source: "VALIDATION",
+      before: result.projectBefore,
+      after: result.projectAfter,
+      validationRequestId: validation.id,
+    });
+  }
+
+  return {
+    validation: updatedValidation,
+    applied: appliedDecision(updatedValidation, validation.current_step, result),
+    onBehalfOf,
+  };
+}
+
+function stepProgress(validation: ValidationRequestWithRelationsRow): string {
+  return `${validation.current_step}/${storedApprovalChain(validation)?.length ?? 1}`;
+}
+
+// Helper to tell the requester an intermediate level approved
+async function notifyStepProgress(
   validationRequest: any,
   projectName: string,
-  requesterName: string
+  approverName: string,
+  progress: string
 ) {
-  // Get appropriate approver roles based on request type
-  const approverRoles = getApproverRolesForType(validationRequest.type);
-  const now = new Date().toISOString();
+  const { error } = await repositories.notifications.create({
+    id: createId(),
+    type: "VALIDATION_RESPONSE",
+    title: "Etape de validation approuvee",
+    message: `${approverName} a approuve l'etape ${progress} de votre demande de type "${validationRequest.type}" pour le projet "${projectName}"`,
+    user_id: validationRequest.requester_id,
+    link: `/validations/${validationRequest.id}`,
+    is_read: false,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error("Error creating notification:", error);
+  }
+}
 
-  // Find all users with appropriate approver roles
-  const { data: approvers, error } = await supabase
-    .from("users")
-    .select("id")
-    .in("role", approverRoles)
-    .eq("is_active", true);
+// Helper to tell the requester their request was sent back for changes
+async function notifyChangesRequested(validationRequest: any, projectName: string, approverName: string) {
+  const { error } = await repositories.notifications.create({
+    id: createId(),
+    type: "VALIDATION_RESPONSE",
+    title: "Modifications demandees",
+    message: `${approverName} demande des modifications sur votre demande de type "${validationRequest.type}" pour le projet "${projectName}": ${validationRequest.response_comment}`,
+    user_id: validationRequest.requester_id,
+    link: `/validations/${validationRequest.id}`,
+    is_read: false,
+    created_at: new Date().toISOString(),
+  });
 
   if (error) {
-    console.error("Error fetching approvers:", error);
-    return;
+    console.error("Error creating notification:", error);
   }
+}
+
+// Helper to notify the approvers of the step the request is waiting on
+async function notifyApprovers(
+  validationRequest: any,
+  title: string,
+  message: string
+) {
+  const now = new Date().toISOString();
+
+  // Only the level expected to decide next is notified
+  const approvers = await stepApprovers(currentStepRole(validationRequest));
 
   // Create notifications for each approver
-  if (approvers && approvers.length > 0) {
+  if (approvers.length > 0) {
     const notifications = approvers.map((approver) => ({
       id: createId(),
       type: "VALIDATION_REQUEST",
-      title: `Nouvelle demande de validation`,
-      message: `${requesterName} a soumis une demande de type "${validationRequest.type}" pour le projet "${projectName}"`,
+      title,
+      message,
       user_id: approver.id,
       link: `/validations/${validationRequest.id}`,
       is_read: false,
       created_at: now,
     }));
 
-    const { error: insertError } = await supabase
-      .from("notifications")
-      .insert(notifications);
+    const { error: insertError } = await repositories.notifications.createMany(notifications);
 
     if (insertError) {
       console.error("Error creating notifications:", insertError);
@@ -135,7 +559,7 @@ async function notifyRequester(
 ) {
   const now = new Date().toISOString();
 
-  const { error } = await supabase.from("notifications").insert({
+  const { error } = await repositories.notifications.create({
     id: createId(),
     type: "VALIDATION_RESPONSE",
     title: approved ? "Demande approuvee" : "Demande rejetee",
@@ -151,225 +575,427 @@ async function notifyRequester(
   }
 }
 
-// GET /api/validations - List validation requests with filters
-validationsRouter.get("/", zValidator("query", ValidationRequestFiltersSchema), async (c) => {
-  const user = await getAuthUser(c);
+// Helper to notify a batch of decisions: one notification per requester
+// listing their requests, and one per approver of each level the batch
+// handed requests over to
+async function notifyBatch(userName: string, decided: AppliedValidationDecision[]) {
+  const now = new Date().toISOString();
+  const byRequester = new Map<string, ValidationRequestWithRelationsRow[]>();
+  const byNextRole = new Map<UserRole | null, ValidationRequestWithRelationsRow[]>();
+
+  for (const { validation } of decided) {
+    byRequester.set(validation.requester_id, [...(byRequester.get(validation.requester_id) ?? []), validation]);
+    if (validation.status === "PENDING") {
+      const role = currentStepRole(validation);
+      byNextRole.set(role, [...(byNextRole.get(role) ?? []), validation]);
+    }
+  }
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  const outcomeLabel = (v: ValidationRequestWithRelationsRow, onBehalfOf: Delegator | null) => {
+    const label =
+      v.status === "PENDING" ? `etape ${stepProgress(v)} approuvee` : v.status === "APPROVED" ? "approuvee" : "rejetee";
+    return onBehalfOf ? `${label} au nom de ${onBehalfOf.name}` : label;
+  };
+  const principals = new Map(decided.map((d) => [d.validation.id, d.onBehalfOf]));
+
+  const notifications = [...byRequester].map(([requesterId, validations]) => ({
+    id: createId(),
+    type: "VALIDATION_RESPONSE",
+    title: "Decisions sur vos demandes de validation",
+    message: `${userName} a traite ${validations.length} de vos demandes: ${validations
+      .map((v) => `"${v.type}" pour le projet "${v.project?.name || ""}" (${outcomeLabel(v, principals.get(v.id) ?? null)})`)
+      .join(", ")}`,
+    user_id: requesterId,
+    link: validations.length === 1 ? `/validations/${validations[0]?.id}` : "/validations",
+    is_read: false,
+    created_at: now,
+  }));
+
+  for (const [role, validations] of byNextRole) {
+    const approvers = await stepApprovers(role);
+    notifications.push(
+      ...approvers.map((approver) => ({
+        id: createId(),
+        type: "VALIDATION_REQUEST",
+        title: "Demandes de validation a examiner",
+        message: `${userName} a approuve ${validations.length} demande(s) qui attendent maintenant votre examen`,
+        user_id: approver.id,
+        link: validations.length === 1 ? `/validations/${validations[0]?.id}` : "/validations/pending",
+        is_read: false,
+        created_at: now,
+      }))
+    );
   }
 
-  const filters = c.req.valid("query");
+  if (notifications.length === 0) return;
 
-  let query = supabase
-    .from("validation_requests")
-    .select(`
-      *,
-      projects (
-        id,
-        name,
-        status,
-        departments (id, name, code)
-      ),
-      requester:users!validation_requests_requester_id_fkey (id, name, email, role),
-      approver:users!validation_requests_approver_id_fkey (id, name, email, role)
-    `)
-    .order("created_at", { ascending: false });
-
-  if (filters.status) query = query.eq("status", filters.status);
-  if (filters.type) query = query.eq("type", filters.type);
-  if (filters.projectId) query = query.eq("project_id", filters.projectId);
-  if (filters.requesterId) query = query.eq("requester_id", filters.requesterId);
-
-  // ADMIN_DEPARTMENT can only see their own requests
-  if (user.role === "ADMIN_DEPARTMENT") {
-    query = query.eq("requester_id", user.id);
-  }
-
-  const { data: validations, error } = await query;
+  const { error } = await repositories.notifications.createMany(notifications);
 
   if (error) {
-    console.error("Error fetching validations:", error);
+    console.error("Error creating notifications:", error);
+  }
+}
+
+// GET /api/validations - List validation requests with filters
+validationsRouter.get("/", requireAuth, zValidator("query", ValidationRequestFiltersSchema), async (c) => {
+  const user = c.get("user");
+
+  const filters = c.req.valid("query");
+
+  if (can(c, "validation:read_all")) {
+    const { data: validations, error } = await repositories.validationRequests.list(filters);
+
+    if (error) {
+      console.error("Error fetching validations:", error);
+      return c.json({ error: { message: "Erreur lors de la recuperation des demandes", code: "DATABASE_ERROR" } }, 500);
+    }
+
+    return c.json({ data: (validations || []).map(formatValidationRequest) });
+  }
+
+  // Otherwise their own requests, and the pending ones they can decide
+  const canApprove = can(c, "validation:approve");
+  const delegations = await activeDelegations(user.id, "validation:approve");
+  const listsPending = (canApprove || delegations.length > 0) && (!filters.status || filters.status === "PENDING");
+
+  const [{ data: own, error }, { data: pending, error: pendingError }] = await Promise.all([
+    repositories.validationRequests.list({ ...filters, requesterId: user.id }),
+    listsPending
+      ? repositories.validationRequests.list({ ...filters, status: "PENDING" })
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (error || pendingError) {
+    console.error("Error fetching validations:", error ?? pendingError);
     return c.json({ error: { message: "Erreur lors de la recuperation des demandes", code: "DATABASE_ERROR" } }, 500);
   }
 
-  const data = (validations || []).map(formatValidationRequest);
+  const ownIds = new Set((own || []).map((v) => v.id));
+  const decidable = (pending || []).filter((v) => !ownIds.has(v.id) && stepAuthority(user, canApprove, delegations, v));
+
+  const data = [...(own || []), ...decidable]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(formatValidationRequest);
 
   return c.json({ data });
 });
 
-// GET /api/validations/pending - Get pending requests for current user's approval level
-validationsRouter.get("/pending", async (c) => {
-  const user = await getAuthUser(c);
-
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
-  }
+// GET /api/validations/pending - Get pending requests for current user's approval level, own or delegated
+validationsRouter.get("/pending", requireAuth, async (c) => {
+  const user = c.get("user");
 
-  // Only approvers can see pending requests
-  if (!APPROVER_ROLES.includes(user.role)) {
+  const canApprove = can(c, "validation:approve");
+  const delegations = await activeDelegations(user.id, "validation:approve");
+  if (!canApprove && delegations.length === 0) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  const { data: validations, error } = await supabase
-    .from("validation_requests")
-    .select(`
-      *,
-      projects (
-        id,
-        name,
-        status,
-        departments (id, name, code)
-      ),
-      requester:users!validation_requests_requester_id_fkey (id, name, email, role),
-      approver:users!validation_requests_approver_id_fkey (id, name, email, role)
-    `)
-    .eq("status", "PENDING")
-    .order("created_at", { ascending: false });
+  const { data: validations, error } = await repositories.validationRequests.list({ status: "PENDING" });
 
   if (error) {
     console.error("Error fetching pending validations:", error);
     return c.json({ error: { message: "Erreur lors de la recuperation des demandes", code: "DATABASE_ERROR" } }, 500);
   }
 
-  const data = (validations || []).map(formatValidationRequest);
+  // Only requests whose current step is the caller's to decide, closest deadline first
+  const data = (validations || [])
+    .flatMap((v): { v: ValidationRequestWithRelationsRow; onBehalfOf: { id: string; name: string } | null }[] => {
+      const authority = stepAuthority(user, canApprove, delegations, v);
+      if (!authority) return [];
+      const { onBehalfOf } = authority;
+      return [{ v, onBehalfOf: onBehalfOf ? { id: onBehalfOf.id, name: onBehalfOf.name } : null }];
+    })
+    .sort((a, b) => currentDueAt(a.v).getTime() - currentDueAt(b.v).getTime())
+    .map(({ v, onBehalfOf }) => ({ ...formatValidationRequest(v), onBehalfOf }));
 
   return c.json({ data });
 });
 
-// GET /api/validations/:id - Get single validation request
-validationsRouter.get("/:id", async (c) => {
-  const user = await getAuthUser(c);
+// GET /api/validations/sla-report - Response times per approver and per department
+validationsRouter.get("/sla-report", requirePermission("validation:read_all"), zValidator("query", SlaReportQuerySchema), async (c) => {
+  const { since, until } = c.req.valid("query");
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  const { data: validations, error } = await repositories.validationRequests.list({ since, until });
+
+  if (error) {
+    console.error("Error fetching validations:", error);
+    return c.json({ error: { message: "Erreur lors de la recuperation des demandes", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  const { data: steps, error: stepsError } = await repositories.validationSteps.listByRequests(
+    (validations || []).map((v) => v.id)
+  );
+
+  if (stepsError) {
+    console.error("Error fetching validation steps:", stepsError);
+    return c.json({ error: { message: "Erreur lors de la recuperation des demandes", code: "DATABASE_ERROR" } }, 500);
   }
 
+  return c.json({
+    data: {
+      period: { since: since ?? null, until: until ?? null },
+      ...buildSlaReport(validations || [], steps || []),
+    },
+  });
+});
+
+// GET /api/validations/:id - Get single validation request
+validationsRouter.get("/:id", requireAuth, async (c) => {
   const { id } = c.req.param();
 
-  const { data: validation, error } = await supabase
-    .from("validation_requests")
-    .select(`
-      *,
-      projects (
-        id,
-        name,
-        status,
-        departments (id, name, code)
-      ),
-      requester:users!validation_requests_requester_id_fkey (id, name, email, role),
-      approver:users!validation_requests_approver_id_fkey (id, name, email, role)
-    `)
-    .eq("id", id)
-    .single();
+  const { data: validation, error } = await repositories.validationRequests.findById(id);
 
   if (error || !validation) {
     return c.json({ error: { message: "Demande de validation non trouvee", code: "NOT_FOUND" } }, 404);
   }
 
-  // ADMIN_DEPARTMENT can only see their own requests
-  if (user.role === "ADMIN_DEPARTMENT" && validation.requester_id !== user.id) {
+  if (!(await canReadRequest(c, validation))) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  return c.json({ data: formatValidationRequest(validation) });
+  const [{ data: steps }, { data: thread }] = await Promise.all([
+    repositories.validationSteps.listByRequest(id),
+    repositories.validationRequests.list({ threadId: validation.thread_id ?? validation.id }),
+  ]);
+
+  return c.json({
+    data: {
+      ...formatValidationRequest(validation),
+      steps: (steps || []).map(formatValidationStep),
+      thread: (thread || [])
+        .sort((a, b) => a.revision - b.revision)
+        .map((attempt) => ({
+          id: attempt.id,
+          revision: attempt.revision,
+          status: attempt.status as ValidationRequestWithRelations["status"],
+          comment: attempt.comment,
+          responseComment: attempt.response_comment,
+          createdAt: attempt.created_at,
+          respondedAt: attempt.responded_at,
+        })),
+    },
+  });
 });
 
-// POST /api/validations - Create new validation request
-validationsRouter.post("/", zValidator("json", CreateValidationRequestSchema), async (c) => {
-  const user = await getAuthUser(c);
+// GET /api/validations/:id/comments - Discussion thread, oldest first
+validationsRouter.get("/:id/comments", requireAuth, async (c) => {
+  const { id } = c.req.param();
+
+  const { data: validation, error: fetchError } = await repositories.validationRequests.findById(id);
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  if (fetchError || !validation) {
+    return c.json({ error: { message: "Demande de validation non trouvee", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (!(await canReadRequest(c, validation))) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
+  const { data: comments, error } = await repositories.comments.listByEntity("VALIDATION_REQUEST", id);
+
+  if (error) {
+    console.error("Error fetching comments:", error);
+    return c.json({ error: { message: "Erreur lors de la recuperation des commentaires", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  return c.json({ data: (comments || []).map(formatComment) });
+});
+
+// POST /api/validations/:id/comments - Comment on a request, mentioning users to notify
+validationsRouter.post("/:id/comments", requireAuth, zValidator("json", CreateCommentSchema), async (c) => {
+  const user = c.get("user");
+
+  const { id } = c.req.param();
+  const body = c.req.valid("json");
+
+  const { data: validation, error: fetchError } = await repositories.validationRequests.findById(id);
+
+  if (fetchError || !validation) {
+    return c.json({ error: { message: "Demande de validation non trouvee", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (!(await canReadRequest(c, validation))) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  const target = commentTarget(validation);
+  const { users: mentioned, rejected } = await resolveMentions(body.mentionIds, target);
+
+  if (rejected.length > 0) {
+    return c.json({
+      error: { message: "Certains utilisateurs mentionnes n'ont pas acces a cette demande", code: "INVALID_MENTION" },
+    }, 400);
+  }
+
+  const { data: comment, error } = await repositories.comments.create({
+    id: createId(),
+    entity_type: "VALIDATION_REQUEST",
+    entity_id: id,
+    author_id: user.id,
+    body: body.body,
+    mentions: JSON.stringify(mentioned.map((u) => u.id)),
+  });
+
+  if (error || !comment) {
+    console.error("Error creating comment:", error);
+    return c.json({ error: { message: "Erreur lors de l'ajout du commentaire", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  await notifyComment(comment, target, mentioned);
+
+  return c.json({ data: formatComment(comment) }, 201);
+});
+
+// DELETE /api/validations/:id/comments/:commentId - Remove one's own comment
+validationsRouter.delete("/:id/comments/:commentId", requireAuth, async (c) => {
+  const user = c.get("user");
+
+  const { id, commentId } = c.req.param();
+
+  const { data: comment, error: fetchError } = await repositories.comments.findById(commentId);
+
+  if (fetchError || !comment || comment.entity_type !== "VALIDATION_REQUEST" || comment.entity_id !== id) {
+    return c.json({ error: { message: "Commentaire non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (comment.author_id !== user.id) {
+    return c.json({ error: { message: "Seul l'auteur peut supprimer ce commentaire", code: "FORBIDDEN" } }, 403);
+  }
+
+  const { error } = await repositories.comments.delete(commentId);
+
+  if (error) {
+    console.error("Error deleting comment:", error);
+    return c.json({ error: { message: "Erreur lors de la suppression du commentaire", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  return c.json({ data: { success: true } });
+});
+
+// POST /api/validations - Create new validation request
+validationsRouter.post("/", requirePermission("validation:request"), requireDepartmentScope(), zValidator("json", CreateValidationRequestSchema), async (c) => {
+  const user = c.get("user");
+
   const body = c.req.valid("json");
 
   // Verify project exists
-  const { data: project, error: projectError } = await supabase
-    .from("projects")
-    .select(`
-      *,
-      departments (id, name, code)
-    `)
-    .eq("id", body.projectId)
-    .single();
+  const { data: project, error: projectError } = await repositories.projects.findById(body.projectId);
 
   if (projectError || !project) {
     return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
   }
 
   // ADMIN_DEPARTMENT can only create requests for their department's projects
-  if (user.role === "ADMIN_DEPARTMENT" && user.departmentId !== project.department_id) {
+  if (!inDepartmentScope(c, project.department_id)) {
     return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
 
-  const validationId = createId();
-  const now = new Date().toISOString();
+  const transitionError = checkRequestedStatus(c, body.type, body.metadata, project);
+  if (transitionError) {
+    return transitionError;
+  }
 
-  // Create validation request
-  const { data: validation, error: createError } = await supabase
-    .from("validation_requests")
-    .insert({
-      id: validationId,
-      type: body.type,
-      status: "PENDING",
-      project_id: body.projectId,
-      requester_id: user.id,
-      comment: body.comment,
-      metadata: body.metadata ? JSON.stringify(body.metadata) : null,
-      created_at: now,
-      updated_at: now,
-    })
-    .select(`
-      *,
-      projects (
-        id,
-        name,
-        status,
-        departments (id, name, code)
-      ),
-      requester:users!validation_requests_requester_id_fkey (id, name, email, role),
-      approver:users!validation_requests_approver_id_fkey (id, name, email, role)
-    `)
-    .single();
-
-  if (createError || !validation) {
-    console.error("Error creating validation:", createError);
+  const validation = await submitRequest(c, project, {
+    type: body.type,
+    comment: body.comment,
+    metadata: body.metadata,
+  });
+
+  if (!validation) {
     return c.json({ error: { message: "Erreur lors de la creation de la demande", code: "DATABASE_ERROR" } }, 500);
   }
 
-  // Notify approvers
-  await notifyApprovers(validation, project.name, user.name);
-
   return c.json({ data: formatValidationRequest(validation) }, 201);
 });
 
 // PUT /api/validations/:id/approve - Approve request
-validationsRouter.put("/:id/approve", zValidator("json", ApproveRejectValidationSchema), async (c) => {
-  const user = await getAuthUser(c);
+validationsRouter.put("/:id/approve", requireAuth, zValidator("json", ApproveRejectValidationSchema), async (c) => {
+  const user = c.get("user");
+
+  const { id } = c.req.param();
+  const body = c.req.valid("json");
+
+  const outcome = await applyDecision(c, id, "APPROVED", body.responseComment);
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  if ("error" in outcome) {
+    return failed(c, outcome);
   }
 
-  // Only approvers can approve
-  if (!APPROVER_ROLES.includes(user.role)) {
-    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  const { validation: updatedValidation, applied, onBehalfOf } = outcome;
+  const projectName = updatedValidation.project?.name || "";
+
+  if (updatedValidation.status === "PENDING") {
+    const progress = stepProgress(updatedValidation);
+    await notifyApprovers(
+      updatedValidation,
+      "Demande de validation a examiner",
+      `${deciderName(user.name, onBehalfOf)} a approuve l'etape ${progress} de la demande de type "${updatedValidation.type}" pour le projet "${projectName}"`
+    );
+    await notifyStepProgress(updatedValidation, projectName, deciderName(user.name, onBehalfOf), progress);
+  } else {
+    // Notify requester
+    await notifyRequester(updatedValidation, projectName, deciderName(user.name, onBehalfOf), true);
   }
 
+  return c.json({ data: { ...formatValidationRequest(updatedValidation), applied } });
+});
+
+// PUT /api/validations/:id/reject - Reject request
+validationsRouter.put("/:id/reject", requireAuth, zValidator("json", ApproveRejectValidationSchema), async (c) => {
+  const user = c.get("user");
+
   const { id } = c.req.param();
   const body = c.req.valid("json");
 
-  // Fetch validation with project info
-  const { data: validation, error: fetchError } = await supabase
-    .from("validation_requests")
-    .select(`
-      *,
-      projects (id, name, status)
-    `)
-    .eq("id", id)
-    .single();
+  const outcome = await applyDecision(c, id, "REJECTED", body.responseComment);
+
+  if ("error" in outcome) {
+    return failed(c, outcome);
+  }
+
+  const { validation: updatedValidation, applied, onBehalfOf } = outcome;
+
+  // Notify requester
+  await notifyRequester(updatedValidation, updatedValidation.project?.name || "", deciderName(user.name, onBehalfOf), false);
+
+  return c.json({ data: { ...formatValidationRequest(updatedValidation), applied } });
+});
+
+// POST /api/validations/bulk-decision - Approve or reject several requests with a shared comment
+validationsRouter.post("/bulk-decision", requireAuth, zValidator("json", BulkValidationDecisionSchema), async (c) => {
+  const user = c.get("user");
+
+  const { ids, decision, responseComment } = c.req.valid("json");
+
+  const results: { id: string; success: boolean; data?: unknown; error?: DecisionFailure["error"] }[] = [];
+  const decided: AppliedValidationDecision[] = [];
+
+  // Each request is decided on its own: one failing leaves the others applied
+  for (const id of new Set(ids)) {
+    const outcome = await applyDecision(c, id, decision, responseComment);
+
+    if ("error" in outcome) {
+      results.push({ id, success: false, error: outcome.error });
+      continue;
+    }
+
+    decided.push(outcome);
+    results.push({ id, success: true, data: { ...formatValidationRequest(outcome.validation), applied: outcome.applied } });
+  }
+
+  await notifyBatch(user.name, decided);
+
+  return c.json({ data: { results, succeeded: decided.length, failed: results.length - decided.length } });
+});
+
+// PUT /api/validations/:id/request-changes - Send the request back to the requester
+validationsRouter.put("/:id/request-changes", requireAuth, zValidator("json", RequestChangesSchema), async (c) => {
+  const user = c.get("user");
+
+  const { id } = c.req.param();
+  const body = c.req.valid("json");
+
+  const { data: validation, error: fetchError } = await repositories.validationRequests.findById(id);
 
   if (fetchError || !validation) {
     return c.json({ error: { message: "Demande de validation non trouvee", code: "NOT_FOUND" } }, 404);
@@ -379,160 +1005,244 @@ validationsRouter.put("/:id/approve", zValidator("json", ApproveRejectValidation
     return c.json({ error: { message: "Cette demande a deja ete traitee", code: "ALREADY_PROCESSED" } }, 400);
   }
 
-  const now = new Date().toISOString();
-
-  // Apply the changes based on validation type
-  if (validation.type === "PROJECT_APPROVAL") {
-    // Approve the project by changing status from PENDING_VALIDATION to IN_PROGRESS
-    if (validation.projects?.status === "PENDING_VALIDATION") {
-      const { error: updateError } = await supabase
-        .from("projects")
-        .update({ status: "IN_PROGRESS", updated_at: now })
-        .eq("id", validation.project_id);
-
-      if (updateError) {
-        console.error("Error updating project status:", updateError);
-      }
-    }
-  } else if (validation.type === "BUDGET_INCREASE" && validation.metadata) {
-    const metadata = JSON.parse(validation.metadata);
-    if (metadata.newBudget !== undefined) {
-      const { error: updateError } = await supabase
-        .from("projects")
-        .update({ budget: metadata.newBudget, updated_at: now })
-        .eq("id", validation.project_id);
-
-      if (updateError) {
-        console.error("Error updating project budget:", updateError);
-      }
-    }
-  } else if (validation.type === "STATUS_CHANGE" && validation.metadata) {
-    const metadata = JSON.parse(validation.metadata);
-    if (metadata.newStatus) {
-      const { error: updateError } = await supabase
-        .from("projects")
-        .update({ status: metadata.newStatus, updated_at: now })
-        .eq("id", validation.project_id);
-
-      if (updateError) {
-        console.error("Error updating project status:", updateError);
-      }
-    }
-  } else if (validation.type === "UNBLOCK_REQUEST") {
-    // Unblock the project by changing status from BLOCKED to IN_PROGRESS
-    if (validation.projects?.status === "BLOCKED") {
-      const { error: updateError } = await supabase
-        .from("projects")
-        .update({ status: "IN_PROGRESS", updated_at: now })
-        .eq("id", validation.project_id);
-
-      if (updateError) {
-        console.error("Error updating project status:", updateError);
-      }
-    }
+  // Same authority as approving the current step
+  const stepRole = currentStepRole(validation);
+  const authority = await decidingAuthority(c, validation);
+  if (!authority) {
+    return can(c, "validation:approve")
+      ? notYourStep(c, stepRole)
+      : c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
   }
+  const { onBehalfOf } = authority;
+
+  const now = new Date().toISOString();
 
-  // Update validation request
-  const { data: updatedValidation, error: updateError } = await supabase
-    .from("validation_requests")
-    .update({
-      status: "APPROVED",
+  const { data: result, error: decideError } = await repositories.validationRequests.decide(id, {
+    expectedStep: validation.current_step,
+    expectedUpdatedAt: validation.updated_at,
+    step: {
+      role: stepRole ?? onBehalfOf?.role ?? user.role,
+      approver_id: user.id,
+      on_behalf_of_id: onBehalfOf?.id ?? null,
+      decision: "CHANGES_REQUESTED",
+      comment: body.responseComment,
+    },
+    patch: {
+      status: "NEEDS_CHANGES",
       approver_id: user.id,
       response_comment: body.responseComment,
       responded_at: now,
       updated_at: now,
-    })
-    .eq("id", id)
-    .select(`
-      *,
-      projects (
-        id,
-        name,
-        status,
-        departments (id, name, code)
-      ),
-      requester:users!validation_requests_requester_id_fkey (id, name, email, role),
-      approver:users!validation_requests_approver_id_fkey (id, name, email, role)
-    `)
-    .single();
-
-  if (updateError || !updatedValidation) {
-    console.error("Error updating validation:", updateError);
-    return c.json({ error: { message: "Erreur lors de la mise a jour de la demande", code: "DATABASE_ERROR" } }, 500);
+    },
+  });
+
+  if (decideError || !result) {
+    return decisionFailed(c, decideError);
   }
 
-  // Notify requester
-  await notifyRequester(updatedValidation, updatedValidation.projects?.name || "", user.name, true);
+  const updatedValidation = result.validation;
+
+  await recordAudit(c, {
+    action: "UPDATE",
+    entityType: "VALIDATION_REQUEST",
+    entityId: id,
+    before: validation,
+    after: updatedValidation,
+    onBehalfOf,
+  });
+
+  await notifyChangesRequested(updatedValidation, updatedValidation.project?.name || "", deciderName(user.name, onBehalfOf));
 
-  return c.json({ data: formatValidationRequest(updatedValidation) });
+  return c.json({
+    data: { ...formatValidationRequest(updatedValidation), applied: appliedDecision(updatedValidation, validation.current_step, result) },
+  });
 });
 
-// PUT /api/validations/:id/reject - Reject request
-validationsRouter.put("/:id/reject", zValidator("json", ApproveRejectValidationSchema), async (c) => {
-  const user = await getAuthUser(c);
+// PATCH /api/validations/:id - Amend a pending request or one sent back for changes (requester only)
+// The amended request goes through its whole approval chain again.
+validationsRouter.patch("/:id", requireAuth, zValidator("json", AmendValidationRequestSchema), async (c) => {
+  const user = c.get("user");
+
+  const { id } = c.req.param();
+  const body = c.req.valid("json");
+
+  const { data: validation, error: fetchError } = await repositories.validationRequests.findById(id);
+
+  if (fetchError || !validation) {
+    return c.json({ error: { message: "Demande de validation non trouvee", code: "NOT_FOUND" } }, 404);
+  }
 
-  if (!user) {
-    return c.json({ error: { message: "Non authentifie", code: "UNAUTHORIZED" } }, 401);
+  if (validation.requester_id !== user.id) {
+    return c.json({ error: { message: "Seul le demandeur peut modifier la demande", code: "FORBIDDEN" } }, 403);
   }
 
-  // Only approvers can reject
-  if (!APPROVER_ROLES.includes(user.role)) {
-    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  if (validation.status !== "PENDING" && validation.status !== "NEEDS_CHANGES") {
+    return c.json({ error: { message: "Cette demande ne peut plus etre modifiee", code: "INVALID_STATUS" } }, 409);
+  }
+
+  const { data: project, error: projectError } = await repositories.projects.findById(validation.project_id);
+
+  if (projectError || !project) {
+    return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  const metadata =
+    body.metadata !== undefined ? body.metadata : validation.metadata ? JSON.parse(validation.metadata) : null;
+
+  const metadataError = checkMetadata(c, validation.type, metadata);
+  if (metadataError) {
+    return metadataError;
   }
 
+  const transitionError = checkRequestedStatus(c, validation.type, metadata, project);
+  if (transitionError) {
+    return transitionError;
+  }
+
+  // Decisions are claimed on updated_at, so the amend always moves it forward:
+  // a decision taken on the previous version then fails instead of applying it.
+  // The amend itself is claimed the same way against a decision taken meanwhile.
+  const now = new Date(Math.max(Date.now(), Date.parse(validation.updated_at) + 1)).toISOString();
+  const approvalChain = approvalChainFor(
+    validation.type as ValidationRequestWithRelations["type"],
+    approvalAmount(validation.type, project, metadata)
+  );
+
+  const { data: amended, error } = await repositories.validationRequests.updateIfStatus(id, ["PENDING", "NEEDS_CHANGES"], {
+    status: "PENDING",
+    comment: body.comment ?? validation.comment,
+    metadata: metadata ? JSON.stringify(metadata) : null,
+    approval_chain: JSON.stringify(approvalChain),
+    current_step: 0,
+    due_at: stepDueAt(validation.type, new Date(now)),
+    reminder_sent_at: null,
+    updated_at: now,
+  }, validation.updated_at);
+
+  if (error || !amended) {
+    return decisionFailed(c, error);
+  }
+
+  await recordAudit(c, { action: "UPDATE", entityType: "VALIDATION_REQUEST", entityId: id, before: validation, after: amended });
+
+  await notifyApprovers(
+    amended,
+    "Demande de validation modifiee",
+    `${user.name} a modifie sa demande de type "${amended.type}" pour le projet "${project.name}"`
+  );
+
+  return c.json({ data: formatValidationRequest(amended) });
+});
+
+// PUT /api/validations/:id/withdraw - Cancel a request that is still open (requester only)
+validationsRouter.put("/:id/withdraw", requireAuth, async (c) => {
+  const user = c.get("user");
+
   const { id } = c.req.param();
-  const body = c.req.valid("json");
 
-  // Fetch validation
-  const { data: validation, error: fetchError } = await supabase
-    .from("validation_requests")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const { data: validation, error: fetchError } = await repositories.validationRequests.findById(id);
 
   if (fetchError || !validation) {
     return c.json({ error: { message: "Demande de validation non trouvee", code: "NOT_FOUND" } }, 404);
   }
 
-  if (validation.status !== "PENDING") {
-    return c.json({ error: { message: "Cette demande a deja ete traitee", code: "ALREADY_PROCESSED" } }, 400);
+  if (validation.requester_id !== user.id) {
+    return c.json({ error: { message: "Seul le demandeur peut retirer la demande", code: "FORBIDDEN" } }, 403);
   }
 
-  const now = new Date().toISOString();
+  if (validation.status !== "PENDING" && validation.status !== "NEEDS_CHANGES") {
+    return c.json({ error: { message: "Cette demande a deja ete traitee", code: "ALREADY_PROCESSED" } }, 409);
+  }
 
-  // Update validation request
-  const { data: updatedValidation, error: updateError } = await supabase
-    .from("validation_requests")
-    .update({
-      status: "REJECTED",
-      approver_id: user.id,
-      response_comment: body.responseComment,
-      responded_at: now,
-      updated_at: now,
-    })
-    .eq("id", id)
-    .select(`
-      *,
-      projects (
-        id,
-        name,
-        status,
-        departments (id, name, code)
-      ),
-      requester:users!validation_requests_requester_id_fkey (id, name, email, role),
-      approver:users!validation_requests_approver_id_fkey (id, name, email, role)
-    `)
-    .single();
-
-  if (updateError || !updatedValidation) {
-    console.error("Error updating validation:", updateError);
-    return c.json({ error: { message: "Erreur lors de la mise a jour de la demande", code: "DATABASE_ERROR" } }, 500);
+  const { data: withdrawn, error } = await repositories.validationRequests.updateIfStatus(id, ["PENDING", "NEEDS_CHANGES"], {
+    status: "WITHDRAWN",
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error || !withdrawn) {
+    return decisionFailed(c, error);
   }
 
-  // Notify requester
-  await notifyRequester(updatedValidation, updatedValidation.projects?.name || "", user.name, false);
+  await recordAudit(c, { action: "UPDATE", entityType: "VALIDATION_REQUEST", entityId: id, before: validation, after: withdrawn });
+
+  // Approvers waiting on it no longer need to
+  if (validation.status === "PENDING") {
+    await notifyApprovers(
+      validation,
+      "Demande de validation retiree",
+      `${user.name} a retire sa demande de type "${validation.type}" pour le projet "${validation.project?.name || ""}"`
+    );
+  }
+
+  return c.json({ data: formatValidationRequest(withdrawn) });
+});
+
+// POST /api/validations/:id/resubmit - New attempt after a rejection or withdrawal (requester only)
+validationsRouter.post("/:id/resubmit", requirePermission("validation:request"), requireDepartmentScope(), zValidator("json", ResubmitValidationRequestSchema), async (c) => {
+  const user = c.get("user");
+
+  const { id } = c.req.param();
+  const body = c.req.valid("json");
+
+  const { data: previous, error: fetchError } = await repositories.validationRequests.findById(id);
+
+  if (fetchError || !previous) {
+    return c.json({ error: { message: "Demande de validation non trouvee", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (previous.requester_id !== user.id) {
+    return c.json({ error: { message: "Seul le demandeur peut resoumettre la demande", code: "FORBIDDEN" } }, 403);
+  }
 
-  return c.json({ data: formatValidationRequest(updatedValidation) });
+  if (previous.status !== "REJECTED" && previous.status !== "WITHDRAWN") {
+    return c.json({
+      error: { message: "Seule une demande rejetee ou retiree peut etre resoumise", code: "INVALID_STATUS" },
+    }, 409);
+  }
+
+  // Each attempt is resubmitted at most once, so the thread stays linear
+  const { data: resubmissions } = await repositories.validationRequests.list({ previousRequestId: id });
+  if (resubmissions && resubmissions.length > 0) {
+    return c.json({
+      error: { message: "Cette demande a deja ete resoumise", code: "ALREADY_RESUBMITTED" },
+    }, 409);
+  }
+
+  const { data: project, error: projectError } = await repositories.projects.findById(previous.project_id);
+
+  if (projectError || !project) {
+    return c.json({ error: { message: "Projet non trouve", code: "NOT_FOUND" } }, 404);
+  }
+
+  if (!inDepartmentScope(c, project.department_id)) {
+    return c.json({ error: { message: "Acces non autorise", code: "FORBIDDEN" } }, 403);
+  }
+
+  const metadata =
+    body.metadata !== undefined ? body.metadata : previous.metadata ? JSON.parse(previous.metadata) : null;
+
+  const metadataError = checkMetadata(c, previous.type, metadata);
+  if (metadataError) {
+    return metadataError;
+  }
+
+  const transitionError = checkRequestedStatus(c, previous.type, metadata, project);
+  if (transitionError) {
+    return transitionError;
+  }
+
+  const validation = await submitRequest(c, project, {
+    type: previous.type as ValidationRequestWithRelations["type"],
+    comment: body.comment,
+    metadata,
+    previous,
+  });
+
+  if (!validation) {
+    return c.json({ error: { message: "Erreur lors de la creation de la demande", code: "DATABASE_ERROR" } }, 500);
+  }
+
+  return c.json({ data: formatValidationRequest(validation) }, 201);
 });
 
 export { validationsRouter };
@@ -0,0 +1,154 @@
+import { normalizeSearchText, type SearchHitRow } from "./repositories";
+import type { Highlight, SearchEntityType, SearchResult } from "./types";
+
+/**
+ * Ranking and highlighting of global search results. Terms are compared with
+ * text in normalized form, so "Segou" matches "Ségou", and matches are mapped
+ * back onto the original text for clients to highlight what users read.
+ */
+const LINKS: Record<SearchEntityType, string> = {
+  PROJECT: "/projects",
+  BENEFICIARY: "/beneficiaries",
+  DOCUMENT: "/documents",
+  NEWS: "/news",
+  MESSAGE: "/messages",
+};
+
+// Characters kept on each side of the first match of an excerpt
+const EXCERPT_RADIUS = 60;
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// Normalized words of a query, without duplicates or one-letter words
+export function searchTerms(query: string): string[] {
+  const words = normalizeSearchText(query)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1);
+  return [...new Set(words)];
+}
+
+// Normalized text, with the range of the original text each of its characters comes from
+function normalizeWithOffsets(original: string): { text: string; starts: number[]; ends: number[] } {
+  let text = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+
+  for (const char of original) {
+    const normalized = normalizeSearchText(char);
+    for (let i = 0; i < normalized.length; i++) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    text += normalized;
+    index += char.length;
+  }
+
+  return { text, starts, ends };
+}
+
+function mergeRanges(ranges: Highlight[]): Highlight[] {
+  const merged: Highlight[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// Ranges of the original text where any term matches
+export function matchRanges(original: string, terms: string[]): Highlight[] {
+  const { text, starts, ends } = normalizeWithOffsets(original);
+  const ranges: Highlight[] = [];
+
+  for (const term of terms) {
+    for (let from = text.indexOf(term); from !== -1; from = text.indexOf(term, from + term.length)) {
+      ranges.push({ start: starts[from]!, end: ends[from + term.length - 1]! });
+    }
+  }
+
+  return mergeRanges(ranges);
+}
+
+// Part of a long text around its first match, cut on word boundaries
+export function excerpt(original: string, terms: string[]): SearchResult["excerpt"] {
+  const ranges = matchRanges(original, terms);
+  const first = ranges[0];
+  if (!first) return null;
+
+  let start = Math.max(0, first.start - EXCERPT_RADIUS);
+  let end = Math.min(original.length, first.end + EXCERPT_RADIUS);
+
+  if (start > 0) {
+    const space = original.indexOf(" ", start);
+    if (space !== -1 && space < first.start) start = space + 1;
+  }
+  if (end < original.length) {
+    const space = original.lastIndexOf(" ", end);
+    if (space >= first.end) end = space;
+  }
+
+  const prefix = start > 0 ? "..." : "";
+  const suffix = end < original.length ? "..." : "";
+  const shift = prefix.length - start;
+
+  return {
+    text: `${prefix}${original.slice(start, end)}${suffix}`,
+    highlights: ranges
+      .filter((range) => range.start >= start && range.end <= end)
+      .map((range) => ({ start: range.start + shift, end: range.end + shift })),
+  };
+}
+
+// 3 for a whole word, 2 for a word prefix, 1 inside a word, 0 when absent
+function termScore(text: string, term: string): number {
+  let best = 0;
+  for (let from = text.indexOf(term); from !== -1 && best < 3; from = text.indexOf(term, from + 1)) {
+    const startsWord = from === 0 || !WORD_CHAR.test(text.charAt(from - 1));
+    const endsWord = from + term.length === text.length || !WORD_CHAR.test(text.charAt(from + term.length));
+    best = Math.max(best, startsWord && endsWord ? 3 : startsWord ? 2 : 1);
+  }
+  return best;
+}
+
+// Title matches weigh twice body ones; the whole query in the title earns a bonus
+export function scoreHit(hit: SearchHitRow, terms: string[]): number {
+  const title = normalizeSearchText(hit.title);
+  const body = normalizeSearchText(hit.body ?? "");
+  const phrase = terms.join(" ");
+
+  let score = 0;
+  for (const term of terms) {
+    const inTitle = termScore(title, term);
+    score += inTitle ? inTitle * 2 : termScore(body, term);
+  }
+
+  if (terms.length > 1 && title.includes(phrase)) score += 3;
+  if (title.trim() === phrase) score += 3;
+
+  return score;
+}
+
+// Best results first, the most recent first among equals
+export function rankHits(hits: SearchHitRow[], terms: string[], limit: number): SearchResult[] {
+  return hits
+    .map((hit): SearchResult => {
+      const type = hit.entity_type as SearchEntityType;
+      return {
+        type,
+        id: hit.id,
+        title: hit.title,
+        titleHighlights: matchRanges(hit.title, terms),
+        excerpt: hit.body ? excerpt(hit.body, terms) : null,
+        link: `${LINKS[type]}/${hit.id}`,
+        score: scoreHit(hit, terms),
+        createdAt: hit.created_at,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
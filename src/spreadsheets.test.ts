@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { strToU8, zipSync } from "fflate";
+import { MAX_INFLATED_SIZE, parseCsv, parseXlsx, readSpreadsheet } from "./spreadsheets";
+
+const limits = { maxRows: 10, maxColumns: 5 };
+
+// Minimal workbook whose first sheet has the given <sheetData> content
+function workbook(sheetData: string, strings: string[] = []): Uint8Array {
+  return zipSync({
+    "xl/workbook.xml": strToU8('<workbook><sheets><sheet name="Feuil1" sheetId="1" r:id="rId1"/></sheets></workbook>'),
+    "xl/_rels/workbook.xml.rels": strToU8(
+      '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>'
+    ),
+    "xl/sharedStrings.xml": strToU8(`<sst>${strings.map((s) => `<si><t>${s}</t></si>`).join("")}</sst>`),
+    "xl/worksheets/sheet1.xml": strToU8(`<worksheet><sheetData>${sheetData}</sheetData></worksheet>`),
+  });
+}
+
+describe("parseCsv", () => {
+  test("detects the delimiter from the header line", () => {
+    expect(parseCsv("nom;prenom\nTraore;Awa\n", limits)).toEqual({ rows: [["nom", "prenom"], ["Traore", "Awa"]] });
+    expect(parseCsv("nom,prenom\r\nTraore,Awa", limits)).toEqual({ rows: [["nom", "prenom"], ["Traore", "Awa"]] });
+  });
+
+  test("keeps separators, line breaks and doubled quotes inside quoted fields", () => {
+    expect(parseCsv('nom;note\n"Diallo; Sow";"dit ""Ba""\nsuite"\n', limits)).toEqual({
+      rows: [["nom", "note"], ["Diallo; Sow", 'dit "Ba"\nsuite']],
+    });
+  });
+
+  test("keeps blank lines so rows match the file's line numbers", () => {
+    expect(parseCsv("nom\n\nKeita\n", limits)).toEqual({ rows: [["nom"], [""], ["Keita"]] });
+  });
+
+  test("refuses files past the limits", () => {
+    expect(parseCsv("a\n".repeat(11), limits).error).toBe("Le fichier depasse 10 lignes");
+    expect(parseCsv("a;b;c;d;e;f\n", limits).error).toBe("Le fichier depasse 5 colonnes");
+  });
+});
+
+describe("parseXlsx", () => {
+  test("reads shared, inline and numeric cells of the first sheet", () => {
+    const bytes = workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>age</t></is></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2"><v>24</v></c></row>',
+      ["nom", "Coulibaly &amp; fils"]
+    );
+
+    expect(parseXlsx(bytes, limits)).toEqual({ rows: [["nom", "age"], ["Coulibaly & fils", "24"]] });
+  });
+
+  test("fills the rows and cells a sheet leaves out", () => {
+    const bytes = workbook('<row r="1"><c r="A1"><v>1</v></c></row><row r="3"><c r="C3"><v>3</v></c></row>');
+
+    expect(parseXlsx(bytes, limits)).toEqual({ rows: [["1"], [], ["", "", "3"]] });
+  });
+
+  test("refuses row and column references past the limits instead of padding up to them", () => {
+    expect(parseXlsx(workbook('<row r="1000000000"><c r="A1000000000"><v>1</v></c></row>'), limits).error).toBe(
+      "Le fichier depasse 10 lignes"
+    );
+    expect(parseXlsx(workbook('<row r="1"><c r="XFD1"><v>1</v></c></row>'), limits).error).toBe(
+      "Le fichier depasse 5 colonnes"
+    );
+  });
+
+  test("refuses workbooks that inflate past MAX_INFLATED_SIZE", () => {
+    const bomb = zipSync({ "xl/worksheets/sheet1.xml": new Uint8Array(MAX_INFLATED_SIZE + 1) }, { level: 9 });
+
+    expect(parseXlsx(bomb, limits).error).toBe("Fichier XLSX trop volumineux une fois decompresse");
+  });
+
+  test("refuses files that are not workbooks", () => {
+    expect(parseXlsx(strToU8("PK\u0003\u0004 tronque"), limits).error).toBe("Fichier XLSX illisible");
+    expect(parseXlsx(zipSync({ "docProps/app.xml": strToU8("<Properties/>") }), limits).error).toBe(
+      "Fichier XLSX illisible"
+    );
+  });
+});
+
+describe("readSpreadsheet", () => {
+  test("picks the parser from the file's content", () => {
+    expect(readSpreadsheet(workbook('<row r="1"><c r="A1"><v>1</v></c></row>'), limits)).toEqual({ rows: [["1"]] });
+    expect(readSpreadsheet(strToU8("\uFEFFnom;age\n"), limits)).toEqual({ rows: [["nom", "age"]] });
+    expect(readSpreadsheet(new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0]), limits).error).toContain(".xls");
+  });
+});
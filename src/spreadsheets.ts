@@ -0,0 +1,275 @@
+import { strFromU8, unzipSync } from "fflate";
+
+/**
+ * Reading of uploaded CSV and XLSX files into rows of text cells. Row `i` of
+ * the result is line `i + 1` of the file, blank lines included, so errors can
+ * point at the line users see in their spreadsheet. Only the first worksheet
+ * of a workbook is read; cells are taken as displayed values, formulas by
+ * their cached result. Files past the caller's limits are refused rather than
+ * read, as are workbooks that inflate to more than MAX_INFLATED_SIZE.
+ */
+export type SheetRows = string[][];
+
+export type SpreadsheetResult = { rows: SheetRows; error?: never } | { rows?: never; error: string };
+
+export interface SpreadsheetLimits {
+  // Lines of the file, blank ones included
+  maxRows: number;
+  // Cells of a line
+  maxColumns: number;
+}
+
+// Uncompressed size of the workbook parts read, all together
+export const MAX_INFLATED_SIZE = 64 * 1024 * 1024;
+
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+// Legacy binary .xls, which is not supported
+const OLE_MAGIC = [0xd0, 0xcf, 0x11, 0xe0];
+
+function startsWith(bytes: Uint8Array, magic: number[]): boolean {
+  return magic.every((byte, i) => bytes[i] === byte);
+}
+
+// ==================== CSV ====================
+
+// UTF-8 when valid, else the Windows encoding Excel uses for French CSV exports
+function decodeText(bytes: Uint8Array): string {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    text = new TextDecoder("windows-1252").decode(bytes);
+  }
+  return text.replace(/^\uFEFF/, "");
+}
+
+// The separator found most often on the header line, outside quotes
+function detectDelimiter(text: string): string {
+  const counts: Record<string, number> = { ";": 0, ",": 0, "\t": 0 };
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === "\n" || char === "\r")) break;
+    else if (!quoted && char in counts) counts[char]!++;
+  }
+
+  return Object.entries(counts).sort((a, b) => b[1] - a[1])[0]![0];
+}
+
+function tooManyRows(limits: SpreadsheetLimits): SpreadsheetResult {
+  return { error: `Le fichier depasse ${limits.maxRows} lignes` };
+}
+
+function tooManyColumns(limits: SpreadsheetLimits): SpreadsheetResult {
+  return { error: `Le fichier depasse ${limits.maxColumns} colonnes` };
+}
+
+// RFC 4180: quoted fields may hold separators, line breaks and doubled quotes
+export function parseCsv(text: string, limits: SpreadsheetLimits): SpreadsheetResult {
+  const delimiter = detectDelimiter(text);
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+      if (row.length >= limits.maxColumns) return tooManyColumns(limits);
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+      if (rows.length > limits.maxRows) return tooManyRows(limits);
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+    if (rows.length > limits.maxRows) return tooManyRows(limits);
+  }
+
+  return { rows };
+}
+
+// ==================== XLSX ====================
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXml(match[1]!) : undefined;
+}
+
+// Text of the <t> elements of a string item, rich text runs joined
+function itemText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  let text = "";
+  for (const match of withoutPhonetics.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(match[1]!);
+  }
+  return text;
+}
+
+function sharedStrings(files: Record<string, Uint8Array>): string[] {
+  const file = files["xl/sharedStrings.xml"];
+  if (!file) return [];
+  return [...strFromU8(file).matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) => itemText(match[1]!));
+}
+
+// Path of the workbook's first sheet, through the workbook relationships
+function firstSheetPath(files: Record<string, Uint8Array>): string | null {
+  const workbook = files["xl/workbook.xml"];
+  const rels = files["xl/_rels/workbook.xml.rels"];
+
+  if (workbook && rels) {
+    const sheet = /<sheet\b([^>]*)\/?>/.exec(strFromU8(workbook));
+    const relationId = sheet ? attribute(sheet[1]!, "r:id") : undefined;
+
+    for (const match of strFromU8(rels).matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+      if (attribute(match[1]!, "Id") !== relationId) continue;
+      const target = attribute(match[1]!, "Target");
+      if (!target) break;
+      return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  return files["xl/worksheets/sheet1.xml"] ? "xl/worksheets/sheet1.xml" : null;
+}
+
+// Zero-based column of a cell reference, e.g. "AB12" -> 27
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/[0-9]+$/, "")) {
+    index = index * 26 + (char.toUpperCase().charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function cellValue(attributes: string, content: string, strings: string[]): string {
+  const type = attribute(attributes, "t");
+  if (type === "inlineStr") return itemText(content);
+
+  const value = /<v>([\s\S]*?)<\/v>/.exec(content);
+  if (!value) return "";
+
+  const raw = decodeXml(value[1]!);
+  switch (type) {
+    case "s":
+      return strings[Number(raw)] ?? "";
+    case "b":
+      return raw === "1" ? "TRUE" : "FALSE";
+    default:
+      return raw;
+  }
+}
+
+const UNREADABLE_XLSX: SpreadsheetResult = { error: "Fichier XLSX illisible" };
+
+export function parseXlsx(bytes: Uint8Array, limits: SpreadsheetLimits): SpreadsheetResult {
+  // Entries are inflated into buffers of their declared size, so checking
+  // that size before extracting bounds the memory used
+  let inflated = 0;
+  let tooLarge = false;
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, {
+      filter: (file) => {
+        if (tooLarge || !file.name.startsWith("xl/")) return false;
+        inflated += file.originalSize;
+        tooLarge = inflated > MAX_INFLATED_SIZE;
+        return !tooLarge;
+      },
+    });
+  } catch {
+    return UNREADABLE_XLSX;
+  }
+
+  if (tooLarge) {
+    return { error: "Fichier XLSX trop volumineux une fois decompresse" };
+  }
+
+  const path = firstSheetPath(files);
+  const sheet = path ? files[path] : undefined;
+  if (!sheet) return UNREADABLE_XLSX;
+
+  const strings = sharedStrings(files);
+  const rows: SheetRows = [];
+
+  for (const rowMatch of strFromU8(sheet).matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const number = Number(attribute(rowMatch[1]!, "r") ?? rows.length + 1);
+    if (!Number.isInteger(number) || number < 1) return UNREADABLE_XLSX;
+    if (number > limits.maxRows) return tooManyRows(limits);
+
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellMatch[1]!, "r");
+      const index = reference ? columnIndex(reference) : cells.length;
+      if (index < 0) return UNREADABLE_XLSX;
+      if (index >= limits.maxColumns) return tooManyColumns(limits);
+
+      while (cells.length < index) cells.push("");
+      cells[index] = cellValue(cellMatch[1]!, cellMatch[2] ?? "", strings);
+    }
+
+    // Rows without any value are not written in the sheet
+    while (rows.length < number - 1) rows.push([]);
+    rows[number - 1] = cells;
+  }
+
+  return { rows };
+}
+
+// ==================== FILES ====================
+
+export function readSpreadsheet(bytes: Uint8Array, limits: SpreadsheetLimits): SpreadsheetResult {
+  if (startsWith(bytes, OLE_MAGIC)) {
+    return { error: "Format .xls non supporte, enregistrez le fichier en .xlsx ou .csv" };
+  }
+
+  if (startsWith(bytes, ZIP_MAGIC)) {
+    return parseXlsx(bytes, limits);
+  }
+
+  return parseCsv(decodeText(bytes), limits);
+}
@@ -45,6 +45,9 @@ export type Gender = z.infer<typeof GenderEnum>;
 export const AccompanimentStatusEnum = z.enum(["ACTIVE", "COMPLETED", "SUSPENDED"]);
 export type AccompanimentStatus = z.infer<typeof AccompanimentStatusEnum>;
 
+export const EnrollmentOutcomeEnum = z.enum(["EMPLOYED", "SELF_EMPLOYED", "FURTHER_TRAINING", "DROPPED_OUT", "OTHER"]);
+export type EnrollmentOutcome = z.infer<typeof EnrollmentOutcomeEnum>;
+
 export const NewsTypeEnum = z.enum(["ACTIVITY", "TRAINING", "PROJECT", "EVENT"]);
 export type NewsType = z.infer<typeof NewsTypeEnum>;
 
@@ -56,6 +59,71 @@ export const AlertTypeEnum = z.enum([
 ]);
 export type AlertType = z.infer<typeof AlertTypeEnum>;
 
+// ==================== PAGINATION ====================
+
+// Query parameters shared by list endpoints, merged into each one's filters:
+// `limit` with either `offset` or the `cursor` returned with the previous page
+// (the cursor wins when both are given), `sort=field` or `sort=-field` among
+// the fields the endpoint allows, and `fields=id,name` to trim each item.
+export function listQuery(options: {
+  // API field -> column it sorts on
+  sortFields: Record<string, string>;
+  // Fields items may be trimmed to
+  fields: readonly string[];
+}) {
+  return {
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+    cursor: z.string().optional(),
+    sort: z
+      .string()
+      .default("-createdAt")
+      .transform((value, ctx) => {
+        const field = value.replace(/^-/, "");
+        const column = options.sortFields[field];
+        if (!column) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Tri impossible sur "${field}", champs autorises: ${Object.keys(options.sortFields).join(", ")}`,
+          });
+          return z.NEVER;
+        }
+        return { field, column, direction: value.startsWith("-") ? ("desc" as const) : ("asc" as const) };
+      }),
+    fields: z
+      .string()
+      .optional()
+      .transform((value, ctx) => {
+        if (!value) return undefined;
+        const fields = value.split(",").map((f) => f.trim()).filter(Boolean);
+        const unknown = fields.filter((f) => !options.fields.includes(f));
+        if (unknown.length > 0) {
+          ctx.addIssue({ code: "custom", message: `Champs inconnus: ${unknown.join(", ")}` });
+          return z.NEVER;
+        }
+        return fields;
+      }),
+  };
+}
+
+export interface ListQuery {
+  limit: number;
+  offset: number;
+  cursor?: string;
+  sort: { field: string; column: string; direction: "asc" | "desc" };
+  fields?: string[];
+}
+
+export const PaginationSchema = z.object({
+  total: z.number(),
+  limit: z.number(),
+  // null when paging with a cursor
+  offset: z.number().nullable(),
+  // null on the last page
+  nextCursor: z.string().nullable(),
+});
+export type Pagination = z.infer<typeof PaginationSchema>;
+
 // ==================== USER ====================
 
 export const UserSchema = z.object({
@@ -83,6 +151,19 @@ export const UserWithDepartmentSchema = UserSchema.extend({
 });
 export type UserWithDepartment = z.infer<typeof UserWithDepartmentSchema>;
 
+export const UserListQuerySchema = z.object(
+  listQuery({
+    sortFields: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+      name: "name",
+      email: "email",
+      role: "role",
+    },
+    fields: [...UserWithDepartmentSchema.keyof().options, "failedLoginAttempts", "lockedUntil"],
+  })
+);
+
 export const CreateUserSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
@@ -114,6 +195,12 @@ export const CreateAgentSchema = z.object({
 });
 export type CreateAgent = z.infer<typeof CreateAgentSchema>;
 
+// Replaces the full set of projects assigned to an agent
+export const AssignAgentProjectsSchema = z.object({
+  projectIds: z.array(z.string()),
+});
+export type AssignAgentProjects = z.infer<typeof AssignAgentProjectsSchema>;
+
 // Schema for phone login
 export const PhoneLoginSchema = z.object({
   phone: z.string().min(8),
@@ -302,6 +389,17 @@ export const UpdateProjectSchema = z.object({
 });
 export type UpdateProject = z.infer<typeof UpdateProjectSchema>;
 
+// Field reporting by agents on their assigned projects
+export const UpdateProjectProgressSchema = z.object({
+  progress: z.number().min(0, "La progression doit etre entre 0 et 100").max(100, "La progression doit etre entre 0 et 100"),
+});
+export type UpdateProjectProgress = z.infer<typeof UpdateProjectProgressSchema>;
+
+export const AddProjectPhotosSchema = z.object({
+  photos: z.array(z.string().min(1)).min(1, "Au moins une photo est requise"),
+});
+export type AddProjectPhotos = z.infer<typeof AddProjectPhotosSchema>;
+
 export const ProjectFiltersSchema = z.object({
   regionId: z.string().optional(),
   departmentId: z.string().optional(),
@@ -311,10 +409,25 @@ export const ProjectFiltersSchema = z.object({
 });
 export type ProjectFilters = z.infer<typeof ProjectFiltersSchema>;
 
+export const ProjectListQuerySchema = ProjectFiltersSchema.extend(
+  listQuery({
+    sortFields: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+      name: "name",
+      status: "status",
+      progress: "progress",
+    },
+    fields: ProjectWithRelationsSchema.keyof().options,
+  })
+);
+
 // ==================== BENEFICIARY ====================
 
+// Enrollment of a person in a project, with the details the project registered
 export const BeneficiarySchema = z.object({
   id: z.string(),
+  personId: z.string(),
   firstName: z.string(),
   lastName: z.string(),
   gender: GenderEnum,
@@ -324,6 +437,9 @@ export const BeneficiarySchema = z.object({
   sectorId: z.string(),
   projectId: z.string(),
   accompanimentStatus: AccompanimentStatusEnum,
+  startDate: z.string().nullable(),
+  endDate: z.string().nullable(),
+  outcome: EnrollmentOutcomeEnum.nullable(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -345,7 +461,16 @@ export const BeneficiaryWithRelationsSchema = BeneficiarySchema.extend({
 });
 export type BeneficiaryWithRelations = z.infer<typeof BeneficiaryWithRelationsSchema>;
 
-export const CreateBeneficiarySchema = z.object({
+function enrollmentDatesInOrder(data: { startDate?: string | null; endDate?: string | null }) {
+  if (data.startDate && data.endDate) {
+    return new Date(data.startDate) <= new Date(data.endDate);
+  }
+  return true;
+}
+
+const enrollmentDatesMessage = { message: "La date de debut doit etre anterieure a la date de fin" };
+
+const BeneficiaryInputSchema = z.object({
   firstName: z.string().min(1, "Le prenom est requis"),
   lastName: z.string().min(1, "Le nom est requis"),
   gender: GenderEnum,
@@ -355,32 +480,312 @@ export const CreateBeneficiarySchema = z.object({
   sectorId: z.string().uuid("ID de secteur invalide"),
   projectId: z.string().uuid("ID de projet invalide"),
   accompanimentStatus: AccompanimentStatusEnum.optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  outcome: EnrollmentOutcomeEnum.optional(),
 });
+
+// Registers a new person with their first enrollment; see
+// CreateEnrollmentSchema to enroll someone already registered
+export const CreateBeneficiarySchema = BeneficiaryInputSchema.refine(enrollmentDatesInOrder, enrollmentDatesMessage);
 export type CreateBeneficiary = z.infer<typeof CreateBeneficiarySchema>;
 
-export const UpdateBeneficiarySchema = z.object({
-  firstName: z.string().min(1).optional(),
-  lastName: z.string().min(1).optional(),
-  gender: GenderEnum.optional(),
-  age: z.number().optional(),
-  phone: z.string().optional(),
-  regionId: z.string().optional(),
-  sectorId: z.string().optional(),
-  projectId: z.string().optional(),
-  accompanimentStatus: AccompanimentStatusEnum.optional(),
-});
+export const UpdateBeneficiarySchema = z
+  .object({
+    firstName: z.string().min(1).optional(),
+    lastName: z.string().min(1).optional(),
+    gender: GenderEnum.optional(),
+    age: z.number().optional(),
+    phone: z.string().optional(),
+    regionId: z.string().optional(),
+    sectorId: z.string().optional(),
+    projectId: z.string().optional(),
+    accompanimentStatus: AccompanimentStatusEnum.optional(),
+    startDate: z.string().nullable().optional(),
+    endDate: z.string().nullable().optional(),
+    outcome: EnrollmentOutcomeEnum.nullable().optional(),
+  })
+  .refine(enrollmentDatesInOrder, enrollmentDatesMessage);
 export type UpdateBeneficiary = z.infer<typeof UpdateBeneficiarySchema>;
 
 export const BeneficiaryFiltersSchema = z.object({
   regionId: z.string().optional(),
   sectorId: z.string().optional(),
   projectId: z.string().optional(),
+  personId: z.string().optional(),
   gender: GenderEnum.optional(),
   accompanimentStatus: AccompanimentStatusEnum.optional(),
   search: z.string().optional(),
 });
 export type BeneficiaryFilters = z.infer<typeof BeneficiaryFiltersSchema>;
 
+export const BeneficiaryListQuerySchema = BeneficiaryFiltersSchema.extend(
+  listQuery({
+    sortFields: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+      lastName: "last_name",
+      firstName: "first_name",
+      startDate: "start_date",
+    },
+    fields: BeneficiaryWithRelationsSchema.keyof().options,
+  })
+);
+
+export const CreateBeneficiaryQuerySchema = z.object({
+  // Create even when the person looks already registered
+  ignoreDuplicates: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+// ==================== PERSON ====================
+
+// Someone enrolled in one or more projects, with their latest known details
+export const PersonSchema = z.object({
+  id: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  gender: GenderEnum,
+  age: z.number().nullable(),
+  phone: z.string().nullable(),
+  regionId: z.string(),
+  region: z.object({
+    id: z.string(),
+    name: z.string(),
+  }),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type Person = z.infer<typeof PersonSchema>;
+
+// The person with their enrollments, earliest first
+export const PersonDetailSchema = PersonSchema.extend({
+  enrollments: z.array(BeneficiaryWithRelationsSchema),
+});
+export type PersonDetail = z.infer<typeof PersonDetailSchema>;
+
+export const BeneficiaryDetailSchema = BeneficiaryWithRelationsSchema.extend({
+  person: PersonDetailSchema,
+});
+export type BeneficiaryDetail = z.infer<typeof BeneficiaryDetailSchema>;
+
+export const UpdatePersonSchema = z.object({
+  firstName: z.string().min(1).optional(),
+  lastName: z.string().min(1).optional(),
+  gender: GenderEnum.optional(),
+  age: z.number().min(0).max(150).optional(),
+  phone: z.string().optional(),
+  regionId: z.string().optional(),
+});
+export type UpdatePerson = z.infer<typeof UpdatePersonSchema>;
+
+// Enrollment of a registered person in another project; age, phone and region
+// default to the person's
+export const CreateEnrollmentSchema = z
+  .object({
+    age: z.number().min(0, "L'age doit etre positif").max(150, "L'age doit etre valide").optional(),
+    phone: z.string().min(8, "Le numero de telephone doit contenir au moins 8 caracteres").optional(),
+    regionId: z.string().optional(),
+    sectorId: z.string().min(1),
+    projectId: z.string().min(1),
+    accompanimentStatus: AccompanimentStatusEnum.optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    outcome: EnrollmentOutcomeEnum.optional(),
+  })
+  .refine(enrollmentDatesInOrder, enrollmentDatesMessage);
+export type CreateEnrollment = z.infer<typeof CreateEnrollmentSchema>;
+
+export const PersonFiltersSchema = z.object({
+  regionId: z.string().optional(),
+  gender: GenderEnum.optional(),
+  search: z.string().optional(),
+});
+export type PersonFilters = z.infer<typeof PersonFiltersSchema>;
+
+export const PersonListQuerySchema = PersonFiltersSchema.extend(
+  listQuery({
+    sortFields: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+      lastName: "last_name",
+      firstName: "first_name",
+    },
+    fields: PersonSchema.keyof().options,
+  })
+);
+
+// ==================== PERSON DUPLICATES ====================
+
+// What two people share: the same or a close spelling of the name, the phone,
+// the age give or take a year, the region
+export const DuplicateReasonEnum = z.enum(["NAME", "SIMILAR_NAME", "PHONE", "AGE", "REGION"]);
+export type DuplicateReason = z.infer<typeof DuplicateReasonEnum>;
+
+export const PersonMatchSchema = z.object({
+  person: PersonSchema,
+  // 0-100, see src/beneficiary-duplicates.ts
+  score: z.number(),
+  reasons: z.array(DuplicateReasonEnum),
+});
+export type PersonMatch = z.infer<typeof PersonMatchSchema>;
+
+export const DuplicatePairSchema = z.object({
+  score: z.number(),
+  reasons: z.array(DuplicateReasonEnum),
+  people: z.tuple([PersonDetailSchema, PersonDetailSchema]),
+});
+export type DuplicatePair = z.infer<typeof DuplicatePairSchema>;
+
+export const DuplicateQueueQuerySchema = z.object({
+  // Pairs with someone enrolled in the project, or living in the region
+  projectId: z.string().optional(),
+  regionId: z.string().optional(),
+  minScore: z.coerce.number().int().min(0).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type DuplicateQueueQuery = z.infer<typeof DuplicateQueueQuerySchema>;
+
+export const DismissDuplicateSchema = z
+  .object({
+    personIds: z.tuple([z.string().min(1), z.string().min(1)]),
+  })
+  .refine((body) => body.personIds[0] !== body.personIds[1], {
+    message: "Les deux personnes doivent etre differentes",
+    path: ["personIds"],
+  });
+export type DismissDuplicate = z.infer<typeof DismissDuplicateSchema>;
+
+// Same, naming an enrollment of each person (POST /api/beneficiaries/duplicates/dismiss)
+export const DismissBeneficiaryDuplicateSchema = z
+  .object({
+    beneficiaryIds: z.tuple([z.string().min(1), z.string().min(1)]),
+  })
+  .refine((body) => body.beneficiaryIds[0] !== body.beneficiaryIds[1], {
+    message: "Les deux beneficiaires doivent etre differents",
+    path: ["beneficiaryIds"],
+  });
+export type DismissBeneficiaryDuplicate = z.infer<typeof DismissBeneficiaryDuplicateSchema>;
+
+export const DuplicateDismissalSchema = z.object({
+  id: z.string(),
+  personIds: z.tuple([z.string(), z.string()]),
+  dismissedById: z.string().nullable(),
+  createdAt: z.string(),
+});
+export type DuplicateDismissal = z.infer<typeof DuplicateDismissalSchema>;
+
+// The duplicate is merged into the person of the URL, which is kept. Under
+// /api/beneficiaries both ids are enrollments, standing for their people.
+export const MergePersonSchema = z.object({
+  duplicateId: z.string().min(1),
+});
+export type MergePerson = z.infer<typeof MergePersonSchema>;
+
+// ==================== BENEFICIARY IMPORT ====================
+
+// Columns of an import file; region, sector and project are given by name,
+// code or id
+export const BeneficiaryImportFieldEnum = z.enum([
+  "firstName",
+  "lastName",
+  "gender",
+  "age",
+  "phone",
+  "region",
+  "sector",
+  "project",
+  "accompanimentStatus",
+]);
+export type BeneficiaryImportField = z.infer<typeof BeneficiaryImportFieldEnum>;
+
+// Header of the file column to read each field from, when not recognized
+export const BeneficiaryImportMappingSchema = z.partialRecord(BeneficiaryImportFieldEnum, z.string().min(1));
+export type BeneficiaryImportMapping = z.infer<typeof BeneficiaryImportMappingSchema>;
+
+// Multipart form of an import. Nothing is written unless dryRun is "false";
+// regionId, sectorId and projectId apply to rows that leave them blank.
+export const BeneficiaryImportFormSchema = z.object({
+  file: z.instanceof(File, { message: "Aucun fichier fourni" }),
+  dryRun: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+  // Also create the rows that look already registered
+  ignoreDuplicates: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  mapping: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return {};
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: "custom", message: "Correspondance de colonnes invalide" });
+        return z.NEVER;
+      }
+    })
+    .pipe(BeneficiaryImportMappingSchema),
+  regionId: z.string().optional(),
+  sectorId: z.string().optional(),
+  projectId: z.string().optional(),
+});
+export type BeneficiaryImportForm = z.infer<typeof BeneficiaryImportFormSchema>;
+
+// A file row as the create payload, references resolved to ids of either backend
+export const ImportedBeneficiarySchema = BeneficiaryInputSchema.extend({
+  regionId: z.string(),
+  sectorId: z.string(),
+  projectId: z.string(),
+});
+export type ImportedBeneficiary = z.infer<typeof ImportedBeneficiarySchema>;
+
+export const BeneficiaryImportErrorSchema = z.object({
+  // Line of the file, the header being line 1
+  row: z.number(),
+  field: BeneficiaryImportFieldEnum.nullable(),
+  message: z.string(),
+});
+export type BeneficiaryImportError = z.infer<typeof BeneficiaryImportErrorSchema>;
+
+export const BeneficiaryImportRowSchema = z.object({
+  row: z.number(),
+  firstName: z.string(),
+  lastName: z.string(),
+  gender: GenderEnum,
+  age: z.number().nullable(),
+  phone: z.string().nullable(),
+  accompanimentStatus: AccompanimentStatusEnum,
+  region: z.object({ id: z.string(), name: z.string() }),
+  sector: z.object({ id: z.string(), name: z.string() }),
+  project: z.object({ id: z.string(), name: z.string() }),
+});
+export type BeneficiaryImportRow = z.infer<typeof BeneficiaryImportRowSchema>;
+
+export const BeneficiaryImportReportSchema = z.object({
+  dryRun: z.boolean(),
+  // Header of the file column read for each field
+  columns: z.partialRecord(BeneficiaryImportFieldEnum, z.string()),
+  totalRows: z.number(),
+  validRows: z.number(),
+  invalidRows: z.number(),
+  // Valid rows that look already registered, held back unless ignoreDuplicates
+  duplicateRows: z.number(),
+  // People registered, each with one enrollment, 0 on a dry run
+  created: z.number(),
+  // Rows created, or to be created on commit
+  rows: z.array(BeneficiaryImportRowSchema),
+  errors: z.array(BeneficiaryImportErrorSchema),
+  duplicates: z.array(z.object({ row: z.number(), matches: z.array(PersonMatchSchema) })),
+});
+export type BeneficiaryImportReport = z.infer<typeof BeneficiaryImportReportSchema>;
+
 // ==================== NEWS ====================
 
 export const NewsSchema = z.object({
@@ -455,9 +860,13 @@ export type CreateAlert = z.infer<typeof CreateAlertSchema>;
 
 // ==================== STATS ====================
 
+// Beneficiary counts are enrollments, people counts each person once however
+// many projects they took part in
+
 export const OverviewStatsSchema = z.object({
   totalProjects: z.number(),
   totalBeneficiaries: z.number(),
+  totalPeople: z.number(),
   totalBudget: z.number(),
   projectsByStatus: z.object({
     PENDING_VALIDATION: z.number(),
@@ -471,6 +880,10 @@ export const OverviewStatsSchema = z.object({
     MALE: z.number(),
     FEMALE: z.number(),
   }),
+  peopleByGender: z.object({
+    MALE: z.number(),
+    FEMALE: z.number(),
+  }),
   averageProgress: z.number(),
 });
 export type OverviewStats = z.infer<typeof OverviewStatsSchema>;
@@ -481,6 +894,7 @@ export const RegionStatsSchema = z.object({
   regionCode: z.string(),
   projectCount: z.number(),
   beneficiaryCount: z.number(),
+  peopleCount: z.number(),
   totalBudget: z.number(),
   averageProgress: z.number(),
 });
@@ -492,6 +906,7 @@ export const DepartmentStatsSchema = z.object({
   departmentCode: z.string(),
   projectCount: z.number(),
   beneficiaryCount: z.number(),
+  peopleCount: z.number(),
   totalBudget: z.number(),
   averageProgress: z.number(),
 });
@@ -502,6 +917,7 @@ export const SectorStatsSchema = z.object({
   sectorName: z.string(),
   projectCount: z.number(),
   beneficiaryCount: z.number(),
+  peopleCount: z.number(),
   totalBudget: z.number(),
 });
 export type SectorStats = z.infer<typeof SectorStatsSchema>;
@@ -557,6 +973,18 @@ export const MessageWithRelationsSchema = MessageSchema.extend({
 });
 export type MessageWithRelations = z.infer<typeof MessageWithRelationsSchema>;
 
+export const MessageListQuerySchema = z.object({
+  isRead: z.string().optional(),
+  parentId: z.string().optional(),
+  ...listQuery({
+    sortFields: {
+      createdAt: "created_at",
+      subject: "subject",
+    },
+    fields: [...MessageWithRelationsSchema.keyof().options, "replyCount"],
+  }),
+});
+
 export const CreateMessageSchema = z.object({
   subject: z.string().min(1),
   content: z.string().min(1),
@@ -648,6 +1076,26 @@ export const DocumentFiltersSchema = z.object({
 });
 export type DocumentFilters = z.infer<typeof DocumentFiltersSchema>;
 
+export const DocumentListQuerySchema = DocumentFiltersSchema.extend(
+  listQuery({
+    sortFields: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+      title: "title",
+      type: "type",
+      fileSize: "file_size",
+    },
+    fields: [
+      ...DocumentWithRelationsSchema.keyof().options,
+      "validationStatus",
+      "validationRequestedTo",
+      "validationComment",
+      "validatedAt",
+      "validatedBy",
+    ],
+  })
+);
+
 // ==================== MILESTONE ====================
 
 export const MilestoneSchema = z.object({
@@ -762,6 +1210,8 @@ export const ValidationRequestStatusEnum = z.enum([
   "PENDING",
   "APPROVED",
   "REJECTED",
+  "NEEDS_CHANGES", // Sent back to the requester, who amends it
+  "WITHDRAWN", // Cancelled by the requester
 ]);
 export type ValidationRequestStatus = z.infer<typeof ValidationRequestStatusEnum>;
 
@@ -775,12 +1225,50 @@ export const ValidationRequestSchema = z.object({
   comment: z.string(),
   responseComment: z.string().nullable(),
   metadata: z.any().nullable(), // JSON field
+  approvalChain: z.array(UserRoleEnum).nullable(), // Roles approving in turn; null for single-step legacy requests
+  currentStep: z.number(),
+  dueAt: z.string().nullable(), // Deadline of the current step while pending
+  overdue: z.boolean(),
+  escalationCount: z.number(),
+  previousRequestId: z.string().nullable(), // Attempt this one resubmits
+  threadId: z.string(), // First attempt of the thread
+  revision: z.number(), // 1 for the first attempt
   createdAt: z.string(),
   updatedAt: z.string(),
   respondedAt: z.string().nullable(),
 });
 export type ValidationRequest = z.infer<typeof ValidationRequestSchema>;
 
+// ESCALATED: the deadline passed and the step moved up the hierarchy
+export const ValidationStepDecisionEnum = z.enum(["APPROVED", "REJECTED", "CHANGES_REQUESTED", "ESCALATED"]);
+export type ValidationStepDecision = z.infer<typeof ValidationStepDecisionEnum>;
+
+export const ValidationStepSchema = z.object({
+  id: z.string(),
+  step: z.number(),
+  role: UserRoleEnum,
+  decision: ValidationStepDecisionEnum,
+  comment: z.string().nullable(),
+  createdAt: z.string(),
+  approver: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      email: z.string(),
+      role: UserRoleEnum,
+    })
+    .nullable(),
+  // Set when the approver decided under a delegation
+  onBehalfOf: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      role: UserRoleEnum,
+    })
+    .nullable(),
+});
+export type ValidationStep = z.infer<typeof ValidationStepSchema>;
+
 export const ValidationRequestWithRelationsSchema = ValidationRequestSchema.extend({
   project: z.object({
     id: z.string(),
@@ -806,15 +1294,65 @@ export const ValidationRequestWithRelationsSchema = ValidationRequestSchema.exte
       role: UserRoleEnum,
     })
     .nullable(),
+  steps: z.array(ValidationStepSchema).optional(),
+  // Every attempt of the thread, oldest first
+  thread: z
+    .array(
+      z.object({
+        id: z.string(),
+        revision: z.number(),
+        status: ValidationRequestStatusEnum,
+        comment: z.string(),
+        responseComment: z.string().nullable(),
+        createdAt: z.string(),
+        respondedAt: z.string().nullable(),
+      })
+    )
+    .optional(),
 });
 export type ValidationRequestWithRelations = z.infer<typeof ValidationRequestWithRelationsSchema>;
 
-export const CreateValidationRequestSchema = z.object({
-  type: ValidationRequestTypeEnum,
+// What each type of request asks for, stored as the request's metadata
+export const BudgetIncreaseMetadataSchema = z.object({
+  newBudget: z.number().positive("Le nouveau budget doit etre positif"),
+});
+export type BudgetIncreaseMetadata = z.infer<typeof BudgetIncreaseMetadataSchema>;
+
+export const StatusChangeMetadataSchema = z.object({
+  currentStatus: ProjectStatusEnum.optional(),
+  newStatus: ProjectStatusEnum,
+});
+export type StatusChangeMetadata = z.infer<typeof StatusChangeMetadataSchema>;
+
+// Free-form details, e.g. the status change behind a PROJECT_APPROVAL
+const OtherValidationMetadataSchema = z.record(z.string(), z.unknown()).nullable().optional();
+
+export const ValidationMetadataSchemas = {
+  PROJECT_APPROVAL: OtherValidationMetadataSchema,
+  BUDGET_INCREASE: BudgetIncreaseMetadataSchema,
+  UNBLOCK_REQUEST: OtherValidationMetadataSchema,
+  STATUS_CHANGE: StatusChangeMetadataSchema,
+} satisfies Record<ValidationRequestType, z.ZodType>;
+
+const ValidationRequestBaseSchema = z.object({
   projectId: z.string(),
   comment: z.string().min(1),
-  metadata: z.any().optional(), // e.g., { newBudget: 50000 } or { newStatus: "IN_PROGRESS" }
 });
+
+export const CreateValidationRequestSchema = z.discriminatedUnion("type", [
+  ValidationRequestBaseSchema.extend({
+    type: z.literal("BUDGET_INCREASE"),
+    metadata: ValidationMetadataSchemas.BUDGET_INCREASE,
+  }),
+  ValidationRequestBaseSchema.extend({
+    type: z.literal("STATUS_CHANGE"),
+    metadata: ValidationMetadataSchemas.STATUS_CHANGE,
+  }),
+  ValidationRequestBaseSchema.extend({
+    type: z.enum(["PROJECT_APPROVAL", "UNBLOCK_REQUEST"]),
+    metadata: OtherValidationMetadataSchema,
+  }),
+]);
 export type CreateValidationRequest = z.infer<typeof CreateValidationRequestSchema>;
 
 export const ValidationRequestFiltersSchema = z.object({
@@ -825,11 +1363,154 @@ export const ValidationRequestFiltersSchema = z.object({
 });
 export type ValidationRequestFilters = z.infer<typeof ValidationRequestFiltersSchema>;
 
+export const SlaReportQuerySchema = z.object({
+  since: z.string().datetime({ message: "Date invalide" }).optional(),
+  until: z.string().datetime({ message: "Date invalide" }).optional(),
+});
+export type SlaReportQuery = z.infer<typeof SlaReportQuerySchema>;
+
 export const ApproveRejectValidationSchema = z.object({
   responseComment: z.string().optional(),
 });
 export type ApproveRejectValidation = z.infer<typeof ApproveRejectValidationSchema>;
 
+export const BulkValidationDecisionSchema = z.object({
+  ids: z.array(z.string()).min(1, "Aucune demande selectionnee").max(50, "50 demandes au plus par lot"),
+  decision: z.enum(["APPROVED", "REJECTED"]),
+  responseComment: z.string().optional(),
+});
+export type BulkValidationDecision = z.infer<typeof BulkValidationDecisionSchema>;
+
+export const RequestChangesSchema = z.object({
+  responseComment: z.string().min(1, "Precisez les modifications attendues"),
+});
+export type RequestChanges = z.infer<typeof RequestChangesSchema>;
+
+export const AmendValidationRequestSchema = z
+  .object({
+    comment: z.string().min(1).optional(),
+    metadata: z.any().optional(),
+  })
+  .refine((d) => d.comment !== undefined || d.metadata !== undefined, { message: "Aucune modification fournie" });
+export type AmendValidationRequest = z.infer<typeof AmendValidationRequestSchema>;
+
+export const ResubmitValidationRequestSchema = z.object({
+  comment: z.string().min(1),
+  metadata: z.any().optional(), // Defaults to the previous attempt's
+});
+export type ResubmitValidationRequest = z.infer<typeof ResubmitValidationRequestSchema>;
+
+// ==================== APPROVAL DELEGATION ====================
+
+// Validation request types, or DOCUMENT for document validations
+export const DelegationScopeEnum = z.enum([...ValidationRequestTypeEnum.options, "DOCUMENT"]);
+export type DelegationScope = z.infer<typeof DelegationScopeEnum>;
+
+export const ApprovalDelegationSchema = z.object({
+  id: z.string(),
+  delegatorId: z.string(),
+  delegateId: z.string(),
+  scopes: z.array(DelegationScopeEnum),
+  reason: z.string().nullable(),
+  startsAt: z.string(),
+  endsAt: z.string(),
+  revokedAt: z.string().nullable(),
+  active: z.boolean(),
+  createdAt: z.string(),
+  delegator: z.object({ id: z.string(), name: z.string(), email: z.string(), role: UserRoleEnum }).nullable(),
+  delegate: z.object({ id: z.string(), name: z.string(), email: z.string(), role: UserRoleEnum }).nullable(),
+});
+export type ApprovalDelegation = z.infer<typeof ApprovalDelegationSchema>;
+
+export const CreateApprovalDelegationSchema = z
+  .object({
+    delegatorId: z.string().optional(), // Defaults to the caller; others need delegation:manage
+    delegateId: z.string().min(1, "Delegataire requis"),
+    scopes: z.array(DelegationScopeEnum).min(1, "Au moins un type de demande requis"),
+    startsAt: z.string().datetime({ message: "Date invalide" }).optional(), // Defaults to now
+    endsAt: z.string().datetime({ message: "Date invalide" }),
+    reason: z.string().optional(),
+  })
+  .refine((d) => !d.startsAt || new Date(d.endsAt) > new Date(d.startsAt), {
+    message: "La fin doit etre posterieure au debut",
+    path: ["endsAt"],
+  });
+export type CreateApprovalDelegation = z.infer<typeof CreateApprovalDelegationSchema>;
+
+export const ApprovalDelegationFiltersSchema = z.object({
+  delegatorId: z.string().optional(),
+  delegateId: z.string().optional(),
+  active: z.enum(["true", "false"]).optional(),
+});
+export type ApprovalDelegationFilters = z.infer<typeof ApprovalDelegationFiltersSchema>;
+
+// ==================== COMMENT ====================
+
+export const CommentEntityTypeEnum = z.enum(["VALIDATION_REQUEST", "DOCUMENT"]);
+export type CommentEntityType = z.infer<typeof CommentEntityTypeEnum>;
+
+export const CommentSchema = z.object({
+  id: z.string(),
+  entityType: CommentEntityTypeEnum,
+  entityId: z.string(),
+  body: z.string(),
+  mentionIds: z.array(z.string()),
+  author: z.object({ id: z.string(), name: z.string(), role: UserRoleEnum }).nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type Comment = z.infer<typeof CommentSchema>;
+
+export const CreateCommentSchema = z.object({
+  body: z.string().trim().min(1, "Commentaire vide").max(5000),
+  mentionIds: z.array(z.string()).max(20).optional().default([]), // Users to notify
+});
+export type CreateComment = z.infer<typeof CreateCommentSchema>;
+
+// ==================== SEARCH ====================
+
+export const SearchEntityTypeEnum = z.enum(["PROJECT", "BENEFICIARY", "DOCUMENT", "NEWS", "MESSAGE"]);
+export type SearchEntityType = z.infer<typeof SearchEntityTypeEnum>;
+
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(2, "La recherche doit contenir au moins 2 caracteres").max(100),
+  // Comma-separated entity types, all by default
+  types: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return SearchEntityTypeEnum.options;
+      const parsed = z.array(SearchEntityTypeEnum).safeParse(value.split(",").map((t) => t.trim()));
+      if (!parsed.success) {
+        ctx.addIssue({ code: "custom", message: `Types autorises: ${SearchEntityTypeEnum.options.join(", ")}` });
+        return z.NEVER;
+      }
+      return parsed.data;
+    }),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
+
+// Offsets of a matched fragment in the text it belongs to, end excluded
+export const HighlightSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+});
+export type Highlight = z.infer<typeof HighlightSchema>;
+
+export const SearchResultSchema = z.object({
+  type: SearchEntityTypeEnum,
+  id: z.string(),
+  title: z.string(),
+  titleHighlights: z.array(HighlightSchema),
+  // Part of the secondary text around its first match, if the terms appear there
+  excerpt: z.object({ text: z.string(), highlights: z.array(HighlightSchema) }).nullable(),
+  link: z.string(),
+  score: z.number(),
+  createdAt: z.string(),
+});
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+
 // ==================== NOTIFICATION ====================
 
 export const NotificationTypeEnum = z.enum([
@@ -839,6 +1520,8 @@ export const NotificationTypeEnum = z.enum([
   "SYSTEM",
   "DOSSIER_REMINDER",
   "DOSSIER_ASSIGNED",
+  "COMMENT",
+  "MENTION",
 ]);
 export type NotificationType = z.infer<typeof NotificationTypeEnum>;
 
@@ -854,6 +1537,17 @@ export const NotificationSchema = z.object({
 });
 export type Notification = z.infer<typeof NotificationSchema>;
 
+export const NotificationListQuerySchema = z.object(
+  listQuery({
+    sortFields: {
+      createdAt: "created_at",
+      type: "type",
+      isRead: "is_read",
+    },
+    fields: NotificationSchema.keyof().options,
+  })
+);
+
 export const CreateNotificationSchema = z.object({
   type: NotificationTypeEnum,
   title: z.string().min(1),
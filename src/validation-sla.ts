@@ -0,0 +1,184 @@
+import { z } from "zod";
+import type { ValidationRequestWithRelationsRow, ValidationStepWithApproverRow } from "./repositories";
+import { ValidationRequestTypeEnum, type ValidationRequestType } from "./types";
+
+/**
+ * Time each level of a chain has to decide a request, in hours per type. The
+ * deadline restarts whenever the request reaches a new step or is escalated.
+ * Approvers are reminded VALIDATION_REMINDER_HOURS before it (at most half
+ * way through the step); past it, the jobs/validation-deadlines job escalates.
+ *
+ * Overridable with VALIDATION_SLA_HOURS, a JSON object of hours per type.
+ */
+const SlaHoursSchema = z.partialRecord(ValidationRequestTypeEnum, z.number().positive());
+
+const DEFAULT_SLA_HOURS: Record<ValidationRequestType, number> = {
+  PROJECT_APPROVAL: 120,
+  BUDGET_INCREASE: 72,
+  STATUS_CHANGE: 48,
+  UNBLOCK_REQUEST: 24,
+};
+
+const DEFAULT_REMINDER_HOURS = 12;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let configuredHours: Record<ValidationRequestType, number> | null = null;
+
+export function slaHoursByType(): Record<ValidationRequestType, number> {
+  if (configuredHours) return configuredHours;
+
+  configuredHours = DEFAULT_SLA_HOURS;
+  if (process.env.VALIDATION_SLA_HOURS) {
+    try {
+      configuredHours = {
+        ...DEFAULT_SLA_HOURS,
+        ...SlaHoursSchema.parse(JSON.parse(process.env.VALIDATION_SLA_HOURS)),
+      };
+    } catch (error) {
+      console.error("[ValidationSla] Invalid VALIDATION_SLA_HOURS, using the defaults:", error);
+    }
+  }
+  return configuredHours;
+}
+
+export function slaHours(type: string): number {
+  return slaHoursByType()[type as ValidationRequestType] ?? DEFAULT_SLA_HOURS.PROJECT_APPROVAL;
+}
+
+function reminderHours(type: string): number {
+  const configured = Number(process.env.VALIDATION_REMINDER_HOURS);
+  const lead = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_REMINDER_HOURS;
+  return Math.min(lead, slaHours(type) / 2);
+}
+
+// Deadline of a step of a `type` request reached at `from`
+export function stepDueAt(type: string, from: Date = new Date()): string {
+  return new Date(from.getTime() + slaHours(type) * HOUR_MS).toISOString();
+}
+
+// Requests created before deadlines existed are timed from their creation
+export function currentDueAt(validation: { type: string; due_at: string | null; created_at: string }): Date {
+  return new Date(validation.due_at ?? stepDueAt(validation.type, new Date(validation.created_at)));
+}
+
+export function reminderAt(validation: { type: string; due_at: string | null; created_at: string }): Date {
+  return new Date(currentDueAt(validation).getTime() - reminderHours(validation.type) * HOUR_MS);
+}
+
+export function isOverdue(
+  validation: { type: string; status: string; due_at: string | null; created_at: string },
+  now: Date = new Date()
+): boolean {
+  return validation.status === "PENDING" && currentDueAt(validation) <= now;
+}
+
+// ==================== REPORT ====================
+
+interface SlaTotals {
+  decisions: number;
+  totalHours: number;
+  overdueDecisions: number;
+  escalations: number;
+  pending: number;
+  pendingOverdue: number;
+}
+
+function emptyTotals(): SlaTotals {
+  return { decisions: 0, totalHours: 0, overdueDecisions: 0, escalations: 0, pending: 0, pendingOverdue: 0 };
+}
+
+function summarize({ totalHours, ...totals }: SlaTotals) {
+  return {
+    ...totals,
+    averageResponseHours: totals.decisions > 0 ? Math.round((totalHours / totals.decisions) * 10) / 10 : null,
+  };
+}
+
+/**
+ * Response times of the decisions taken on `validations`. Each step is timed
+ * from the moment the request reached it: its creation, the previous decision
+ * or an escalation. Escalations count against the department, not an approver.
+ */
+export function buildSlaReport(
+  validations: ValidationRequestWithRelationsRow[],
+  steps: ValidationStepWithApproverRow[],
+  now: Date = new Date()
+) {
+  const stepsByRequest = new Map<string, ValidationStepWithApproverRow[]>();
+  for (const step of steps) {
+    const list = stepsByRequest.get(step.validation_request_id) ?? [];
+    list.push(step);
+    stepsByRequest.set(step.validation_request_id, list);
+  }
+
+  const overall = emptyTotals();
+  const byApprover = new Map<string, { approver: NonNullable<ValidationStepWithApproverRow["approver"]>; totals: SlaTotals }>();
+  const byDepartment = new Map<string, { department: { id: string; name: string; code: string }; totals: SlaTotals }>();
+
+  for (const validation of validations) {
+    const buckets = [overall];
+    const department = validation.project?.department;
+    if (department) {
+      let entry = byDepartment.get(department.id);
+      if (!entry) {
+        entry = { department, totals: emptyTotals() };
+        byDepartment.set(department.id, entry);
+      }
+      buckets.push(entry.totals);
+    }
+
+    if (validation.status === "PENDING") {
+      const overdue = isOverdue(validation, now);
+      for (const totals of buckets) {
+        totals.pending++;
+        if (overdue) totals.pendingOverdue++;
+      }
+    }
+
+    const limit = slaHours(validation.type);
+    const ordered = (stepsByRequest.get(validation.id) ?? []).sort((a, b) => a.created_at.localeCompare(b.created_at));
+    let reachedAt = new Date(validation.created_at).getTime();
+
+    for (const step of ordered) {
+      const decidedAt = new Date(step.created_at).getTime();
+      const hours = Math.max(0, decidedAt - reachedAt) / HOUR_MS;
+      reachedAt = decidedAt;
+
+      if (step.decision === "ESCALATED") {
+        for (const totals of buckets) totals.escalations++;
+        continue;
+      }
+
+      const counted = [...buckets];
+      if (step.approver) {
+        let entry = byApprover.get(step.approver.id);
+        if (!entry) {
+          entry = { approver: step.approver, totals: emptyTotals() };
+          byApprover.set(step.approver.id, entry);
+        }
+        counted.push(entry.totals);
+      }
+
+      for (const totals of counted) {
+        totals.decisions++;
+        totals.totalHours += hours;
+        if (hours > limit) totals.overdueDecisions++;
+      }
+    }
+  }
+
+  return {
+    slaHours: slaHoursByType(),
+    overall: summarize(overall),
+    byApprover: [...byApprover.values()]
+      .map(({ approver, totals }) => {
+        const { decisions, overdueDecisions, averageResponseHours } = summarize(totals);
+        return { approver, decisions, overdueDecisions, averageResponseHours };
+      })
+      .sort((a, b) => (b.averageResponseHours ?? 0) - (a.averageResponseHours ?? 0)),
+    byDepartment: [...byDepartment.values()]
+      .map(({ department, totals }) => ({ department, ...summarize(totals) }))
+      .sort((a, b) => (b.averageResponseHours ?? 0) - (a.averageResponseHours ?? 0)),
+  };
+}
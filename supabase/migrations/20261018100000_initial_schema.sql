@@ -0,0 +1,387 @@
+-- Schema the API expects, before beneficiaries were split into people.
+-- Safe to run on a database created before migrations were versioned: tables
+-- that already exist are kept and only gain the columns they lack.
+-- Ids are text: the API generates cuids for some rows and lets the database
+-- generate the others.
+
+create extension if not exists pgcrypto;
+
+-- ==================== USERS & AUTH ====================
+
+create table if not exists departments (
+  id text primary key default gen_random_uuid()::text,
+  name text not null,
+  code text not null unique,
+  description text,
+  logo_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists users (
+  id text primary key default gen_random_uuid()::text,
+  email text not null unique,
+  password_hash text not null,
+  name text not null,
+  role text not null default 'ADMIN_DEPARTMENT',
+  department_id text references departments (id),
+  is_active boolean not null default false,
+  phone text unique,
+  must_change_password boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table users
+  add column if not exists failed_login_attempts integer not null default 0,
+  add column if not exists locked_until timestamptz,
+  add column if not exists password_changed_at timestamptz default now();
+
+create table if not exists sessions (
+  id text primary key default gen_random_uuid()::text,
+  user_id text not null references users (id) on delete cascade,
+  token text not null unique,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+alter table sessions
+  add column if not exists refresh_token text unique,
+  add column if not exists refresh_expires_at timestamptz,
+  add column if not exists ip_address text,
+  add column if not exists user_agent text,
+  add column if not exists last_used_at timestamptz not null default now();
+
+create index if not exists sessions_user_id_idx on sessions (user_id);
+
+create table if not exists login_attempts (
+  id text primary key default gen_random_uuid()::text,
+  identifier text not null,
+  user_id text references users (id) on delete set null,
+  ip_address text not null,
+  reason text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists login_attempts_ip_address_created_at_idx on login_attempts (ip_address, created_at);
+
+create table if not exists password_history (
+  id text primary key default gen_random_uuid()::text,
+  user_id text not null references users (id) on delete cascade,
+  password_hash text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists password_history_user_id_created_at_idx on password_history (user_id, created_at);
+
+create table if not exists otp_codes (
+  id text primary key default gen_random_uuid()::text,
+  user_id text not null references users (id) on delete cascade,
+  purpose text not null,
+  code_hash text not null,
+  attempts integer not null default 0,
+  expires_at timestamptz not null,
+  consumed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists otp_codes_user_id_purpose_created_at_idx on otp_codes (user_id, purpose, created_at);
+
+create table if not exists department_permissions (
+  id text primary key default gen_random_uuid()::text,
+  department_id text not null references departments (id) on delete cascade,
+  role text not null,
+  permission text not null,
+  granted boolean not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (department_id, role, permission)
+);
+
+-- ==================== REFERENCE DATA ====================
+
+create table if not exists regions (
+  id text primary key default gen_random_uuid()::text,
+  name text not null unique,
+  code text not null unique,
+  coordinates text
+);
+
+create table if not exists sectors (
+  id text primary key default gen_random_uuid()::text,
+  name text not null unique,
+  description text
+);
+
+-- ==================== PROJECTS ====================
+
+create table if not exists projects (
+  id text primary key default gen_random_uuid()::text,
+  name text not null,
+  description text,
+  department_id text not null references departments (id),
+  region_id text not null references regions (id),
+  sector_id text not null references sectors (id),
+  budget double precision,
+  planned_budget double precision,
+  start_date timestamptz,
+  end_date timestamptz,
+  progress integer not null default 0,
+  status text not null default 'IN_PROGRESS',
+  responsible_name text,
+  responsible_phone text,
+  documents text,
+  photos text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists project_revisions (
+  id text primary key default gen_random_uuid()::text,
+  project_id text not null references projects (id) on delete cascade,
+  changed_by_id text references users (id) on delete set null,
+  source text not null,
+  validation_request_id text,
+  changes text not null,
+  progress integer not null,
+  status text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists project_revisions_project_id_created_at_idx on project_revisions (project_id, created_at);
+
+create table if not exists project_assignments (
+  id text primary key default gen_random_uuid()::text,
+  project_id text not null references projects (id) on delete cascade,
+  user_id text not null references users (id) on delete cascade,
+  assigned_by_id text references users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (project_id, user_id)
+);
+
+create index if not exists project_assignments_user_id_idx on project_assignments (user_id);
+
+create table if not exists milestones (
+  id text primary key default gen_random_uuid()::text,
+  title text not null,
+  description text,
+  due_date timestamptz,
+  completed_date timestamptz,
+  status text not null default 'PENDING',
+  project_id text not null references projects (id) on delete cascade,
+  "order" integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists disbursements (
+  id text primary key default gen_random_uuid()::text,
+  amount double precision not null,
+  description text,
+  date timestamptz not null default now(),
+  category text not null default 'OTHER',
+  project_id text not null references projects (id) on delete cascade,
+  created_by_id text not null references users (id),
+  receipt_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- ==================== BENEFICIARIES ====================
+
+create table if not exists beneficiaries (
+  id text primary key default gen_random_uuid()::text,
+  first_name text not null,
+  last_name text not null,
+  gender text not null,
+  age integer,
+  phone text,
+  region_id text not null references regions (id),
+  sector_id text not null references sectors (id),
+  project_id text not null references projects (id),
+  accompaniment_status text not null default 'ACTIVE',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table beneficiaries
+  add column if not exists merged_into_id text references beneficiaries (id) on delete set null,
+  add column if not exists merged_at timestamptz;
+
+-- beneficiary_id is the smaller of the two ids
+create table if not exists beneficiary_duplicate_dismissals (
+  id text primary key default gen_random_uuid()::text,
+  beneficiary_id text not null references beneficiaries (id) on delete cascade,
+  other_id text not null references beneficiaries (id) on delete cascade,
+  dismissed_by_id text references users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (beneficiary_id, other_id)
+);
+
+-- ==================== COMMUNICATION ====================
+
+create table if not exists news (
+  id text primary key default gen_random_uuid()::text,
+  title text not null,
+  content text not null,
+  image_url text,
+  department_id text not null references departments (id),
+  type text not null default 'ACTIVITY',
+  published_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists alerts (
+  id text primary key default gen_random_uuid()::text,
+  title text not null,
+  message text not null,
+  from_user_id text not null references users (id),
+  to_department_id text references departments (id),
+  type text not null default 'REMINDER',
+  is_read boolean not null default false,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists messages (
+  id text primary key default gen_random_uuid()::text,
+  subject text not null,
+  content text not null,
+  from_user_id text not null references users (id),
+  to_user_id text references users (id),
+  to_department_id text references departments (id),
+  is_read boolean not null default false,
+  read_at timestamptz,
+  parent_id text references messages (id),
+  attachments jsonb,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists notifications (
+  id text primary key default gen_random_uuid()::text,
+  type text not null,
+  title text not null,
+  message text not null,
+  user_id text not null references users (id) on delete cascade,
+  is_read boolean not null default false,
+  link text,
+  created_at timestamptz not null default now()
+);
+
+-- ==================== DOCUMENTS ====================
+
+create table if not exists documents (
+  id text primary key default gen_random_uuid()::text,
+  title text not null,
+  description text,
+  file_url text not null,
+  file_type text not null,
+  file_size integer not null,
+  type text not null default 'REPORT',
+  department_id text not null references departments (id),
+  uploaded_by_id text not null references users (id),
+  project_id text references projects (id),
+  is_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table documents
+  add column if not exists validation_status text,
+  add column if not exists validation_requested_to text,
+  add column if not exists validation_comment text,
+  add column if not exists validated_by_id text references users (id),
+  add column if not exists validated_at timestamptz;
+
+-- ==================== VALIDATIONS ====================
+
+create table if not exists validation_requests (
+  id text primary key default gen_random_uuid()::text,
+  type text not null,
+  status text not null default 'PENDING',
+  project_id text not null references projects (id) on delete cascade,
+  requester_id text not null references users (id),
+  approver_id text references users (id),
+  comment text not null,
+  response_comment text,
+  metadata text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  responded_at timestamptz
+);
+
+alter table validation_requests
+  add column if not exists approval_chain text,
+  add column if not exists current_step integer not null default 0,
+  add column if not exists due_at timestamptz,
+  add column if not exists reminder_sent_at timestamptz,
+  add column if not exists escalation_count integer not null default 0,
+  add column if not exists previous_request_id text references validation_requests (id) on delete set null,
+  add column if not exists thread_id text,
+  add column if not exists revision integer not null default 1;
+
+create index if not exists validation_requests_status_due_at_idx on validation_requests (status, due_at);
+create index if not exists validation_requests_thread_id_idx on validation_requests (thread_id);
+
+create table if not exists validation_steps (
+  id text primary key default gen_random_uuid()::text,
+  validation_request_id text not null references validation_requests (id) on delete cascade,
+  step integer not null,
+  role text not null,
+  approver_id text references users (id) on delete set null,
+  on_behalf_of_id text references users (id) on delete set null,
+  decision text not null,
+  comment text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists validation_steps_validation_request_id_idx on validation_steps (validation_request_id);
+
+create table if not exists approval_delegations (
+  id text primary key default gen_random_uuid()::text,
+  delegator_id text not null references users (id) on delete cascade,
+  delegate_id text not null references users (id) on delete cascade,
+  scopes text not null,
+  reason text,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists approval_delegations_delegate_id_idx on approval_delegations (delegate_id);
+create index if not exists approval_delegations_delegator_id_idx on approval_delegations (delegator_id);
+
+-- entity_type: VALIDATION_REQUEST, DOCUMENT
+create table if not exists comments (
+  id text primary key default gen_random_uuid()::text,
+  entity_type text not null,
+  entity_id text not null,
+  author_id text references users (id) on delete set null,
+  body text not null,
+  mentions text not null default '[]',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists comments_entity_type_entity_id_idx on comments (entity_type, entity_id);
+
+-- ==================== AUDIT ====================
+
+create table if not exists audit_logs (
+  id text primary key default gen_random_uuid()::text,
+  actor_id text references users (id) on delete set null,
+  actor_name text,
+  on_behalf_of_id text,
+  on_behalf_of_name text,
+  action text not null,
+  entity_type text not null,
+  entity_id text not null,
+  changes text not null,
+  ip_address text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_logs_entity_type_entity_id_idx on audit_logs (entity_type, entity_id);
+create index if not exists audit_logs_actor_id_idx on audit_logs (actor_id);
+create index if not exists audit_logs_created_at_idx on audit_logs (created_at);
@@ -0,0 +1,74 @@
+-- Global search: visible rows of projects, beneficiaries, documents, news and
+-- messages whose text contains every term, case and accents ignored.
+-- Called by SearchRepository.search through supabase.rpc(); the terms arrive
+-- normalized (lowercase, unaccented). Ranking and highlighting happen in the
+-- API, this only returns the p_per_type most recent matches of each type.
+create extension if not exists unaccent;
+
+create or replace function search_entities(
+  p_terms text[],
+  p_types text[],
+  p_user_id text,
+  p_department_id text,
+  p_read_all_documents boolean,
+  p_read_all_messages boolean,
+  p_per_type integer
+) returns table (entity_type text, id text, title text, body text, created_at timestamptz)
+language sql
+stable
+as $$
+  with candidates as (
+    select 'PROJECT' as entity_type, p.id, p.name as title,
+           nullif(concat_ws(' ', p.description, p.responsible_name), '') as body, p.created_at
+    from projects p
+    where 'PROJECT' = any(p_types)
+
+    union all
+
+    select 'BENEFICIARY', b.id, b.first_name || ' ' || b.last_name, b.phone, b.created_at
+    from beneficiaries b
+    where 'BENEFICIARY' = any(p_types)
+
+    union all
+
+    select 'DOCUMENT', d.id, d.title, d.description, d.created_at
+    from documents d
+    where 'DOCUMENT' = any(p_types)
+      and (
+        p_read_all_documents
+        or d.is_public
+        or d.validation_requested_to = p_user_id
+        or (p_department_id is not null and d.department_id = p_department_id)
+      )
+
+    union all
+
+    select 'NEWS', n.id, n.title, n.content, n.created_at
+    from news n
+    where 'NEWS' = any(p_types)
+
+    union all
+
+    select 'MESSAGE', m.id, m.subject, m.content, m.created_at
+    from messages m
+    where 'MESSAGE' = any(p_types)
+      and (
+        p_read_all_messages
+        or m.from_user_id = p_user_id
+        or m.to_user_id = p_user_id
+        or (p_department_id is not null and m.to_department_id = p_department_id)
+      )
+  ),
+  matches as (
+    select c.*, row_number() over (partition by c.entity_type order by c.created_at desc) as position
+    from candidates c
+    where not exists (
+      select 1
+      from unnest(p_terms) as term
+      where strpos(lower(unaccent(c.title || ' ' || coalesce(c.body, ''))), term) = 0
+    )
+  )
+  select entity_type, id, title, body, created_at
+  from matches
+  where position <= p_per_type;
+$$;
@@ -0,0 +1,12 @@
+-- Adds one to a user's failed login counter in a single statement, so
+-- parallel failed logins are all counted, and returns the new value.
+-- Called by UsersRepository.incrementFailedLogins through supabase.rpc().
+create or replace function increment_failed_logins(p_user_id text)
+returns integer
+language sql
+as $$
+  update users
+  set failed_login_attempts = failed_login_attempts + 1
+  where id = p_user_id
+  returning failed_login_attempts;
+$$;
@@ -0,0 +1,59 @@
+-- Splits beneficiaries into people and their enrollments in projects.
+-- Every record that was not merged into another becomes a person, reusing its
+-- id; records merged as duplicates join the person of the record they were
+-- merged into. Dismissed duplicate pairs carry over to the people.
+
+create table people (
+  id text primary key,
+  first_name text not null,
+  last_name text not null,
+  gender text not null,
+  age integer,
+  phone text,
+  region_id text not null references regions (id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table beneficiaries
+  add column person_id text references people (id) on delete cascade,
+  add column start_date timestamptz,
+  add column end_date timestamptz,
+  add column outcome text;
+
+insert into people (id, first_name, last_name, gender, age, phone, region_id, created_at, updated_at)
+select id, first_name, last_name, gender, age, phone, region_id, created_at, updated_at
+from beneficiaries
+where merged_into_id is null;
+
+update beneficiaries set person_id = coalesce(merged_into_id, id);
+
+alter table beneficiaries alter column person_id set not null;
+
+create index beneficiaries_person_id_idx on beneficiaries (person_id);
+
+-- person_id is the smaller of the two ids
+create table person_duplicate_dismissals (
+  id text primary key,
+  person_id text not null references people (id) on delete cascade,
+  other_id text not null references people (id) on delete cascade,
+  dismissed_by_id text references users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (person_id, other_id)
+);
+
+insert into person_duplicate_dismissals (id, person_id, other_id, dismissed_by_id, created_at)
+select d.id, least(a.person_id, b.person_id), greatest(a.person_id, b.person_id), d.dismissed_by_id, d.created_at
+from beneficiary_duplicate_dismissals d
+join beneficiaries a on a.id = d.beneficiary_id
+join beneficiaries b on b.id = d.other_id
+where a.person_id <> b.person_id
+on conflict (person_id, other_id) do nothing;
+
+drop table beneficiary_duplicate_dismissals;
+
+drop function if exists merge_beneficiaries(text, text, jsonb, boolean);
+
+alter table beneficiaries
+  drop column merged_into_id,
+  drop column merged_at;
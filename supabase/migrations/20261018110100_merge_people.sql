@@ -0,0 +1,39 @@
+-- Merges a duplicate person into the one kept, atomically: all the
+-- duplicate's enrollments move to the survivor, the duplicate is deleted and
+-- the survivor gets the details it lacked.
+-- Called by PeopleRepository.merge through supabase.rpc().
+-- Fails with serialization_failure (40001) when either person no longer
+-- exists, e.g. after a concurrent merge.
+create or replace function merge_people(
+  p_survivor_id text,
+  p_duplicate_id text,
+  p_patch jsonb
+) returns void
+language plpgsql
+as $$
+declare
+  v_found integer;
+begin
+  select count(*) into v_found
+  from (
+    select id from people
+    where id in (p_survivor_id, p_duplicate_id)
+    for update
+  ) locked;
+
+  if v_found <> 2 then
+    raise exception 'Une des personnes a deja ete fusionnee' using errcode = '40001';
+  end if;
+
+  update beneficiaries set person_id = p_survivor_id, updated_at = now()
+  where person_id = p_duplicate_id;
+
+  delete from people where id = p_duplicate_id;
+
+  update people set
+    age = case when p_patch ? 'age' then (p_patch->>'age')::integer else age end,
+    phone = case when p_patch ? 'phone' then p_patch->>'phone' else phone end,
+    updated_at = coalesce((p_patch->>'updated_at')::timestamptz, now())
+  where id = p_survivor_id;
+end;
+$$;
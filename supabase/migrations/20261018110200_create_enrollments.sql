@@ -0,0 +1,23 @@
+-- Inserts people and their enrollments in one statement each, within the
+-- function's transaction, so either all the rows are created or none.
+-- Called by BeneficiariesRepository.create and createMany through
+-- supabase.rpc(); returns the enrollments inserted.
+create or replace function create_enrollments(p_people jsonb, p_enrollments jsonb)
+returns setof beneficiaries
+language sql
+as $$
+  insert into people (id, first_name, last_name, gender, age, phone, region_id, created_at, updated_at)
+  select id, first_name, last_name, gender, age, phone, region_id,
+         coalesce(created_at, now()), coalesce(updated_at, now())
+  from jsonb_populate_recordset(null::people, p_people);
+
+  insert into beneficiaries (
+    id, person_id, first_name, last_name, gender, age, phone, region_id, sector_id, project_id,
+    accompaniment_status, start_date, end_date, outcome, created_at, updated_at
+  )
+  select id, person_id, first_name, last_name, gender, age, phone, region_id, sector_id, project_id,
+         coalesce(accompaniment_status, 'ACTIVE'), start_date, end_date, outcome,
+         coalesce(created_at, now()), coalesce(updated_at, now())
+  from jsonb_populate_recordset(null::beneficiaries, p_enrollments)
+  returning *;
+$$;
@@ -0,0 +1,85 @@
+-- Keys duplicate candidates share, computed by the API (src/beneficiary-duplicates.ts):
+-- name_key is the gender and the first two letters of each name word,
+-- phone_key the normalized phone number. Existing people get theirs from
+-- scripts/backfill-identity-keys.ts.
+alter table people
+  add column name_key text,
+  add column phone_key text;
+
+create index people_name_key_idx on people (name_key);
+create index people_phone_key_idx on people (phone_key);
+
+-- People sharing a name or phone key with someone else, the only ones the
+-- duplicates queue compares.
+-- Called by PeopleRepository.listSharingIdentityKeys through supabase.rpc().
+create or replace function people_sharing_identity_keys()
+returns setof people
+language sql
+stable
+as $$
+  select p.*
+  from people p
+  where p.name_key in (
+      select name_key from people where name_key is not null group by name_key having count(*) > 1
+    )
+    or p.phone_key in (
+      select phone_key from people where phone_key is not null group by phone_key having count(*) > 1
+    );
+$$;
+
+-- Same as before, also inserting the keys
+create or replace function create_enrollments(p_people jsonb, p_enrollments jsonb)
+returns setof beneficiaries
+language sql
+as $$
+  insert into people (id, first_name, last_name, gender, age, phone, region_id, name_key, phone_key, created_at, updated_at)
+  select id, first_name, last_name, gender, age, phone, region_id, name_key, phone_key,
+         coalesce(created_at, now()), coalesce(updated_at, now())
+  from jsonb_populate_recordset(null::people, p_people);
+
+  insert into beneficiaries (
+    id, person_id, first_name, last_name, gender, age, phone, region_id, sector_id, project_id,
+    accompaniment_status, start_date, end_date, outcome, created_at, updated_at
+  )
+  select id, person_id, first_name, last_name, gender, age, phone, region_id, sector_id, project_id,
+         coalesce(accompaniment_status, 'ACTIVE'), start_date, end_date, outcome,
+         coalesce(created_at, now()), coalesce(updated_at, now())
+  from jsonb_populate_recordset(null::beneficiaries, p_enrollments)
+  returning *;
+$$;
+
+-- Same as before, the phone taken from the duplicate coming with its key
+create or replace function merge_people(
+  p_survivor_id text,
+  p_duplicate_id text,
+  p_patch jsonb
+) returns void
+language plpgsql
+as $$
+declare
+  v_found integer;
+begin
+  select count(*) into v_found
+  from (
+    select id from people
+    where id in (p_survivor_id, p_duplicate_id)
+    for update
+  ) locked;
+
+  if v_found <> 2 then
+    raise exception 'Une des personnes a deja ete fusionnee' using errcode = '40001';
+  end if;
+
+  update beneficiaries set person_id = p_survivor_id, updated_at = now()
+  where person_id = p_duplicate_id;
+
+  delete from people where id = p_duplicate_id;
+
+  update people set
+    age = case when p_patch ? 'age' then (p_patch->>'age')::integer else age end,
+    phone = case when p_patch ? 'phone' then p_patch->>'phone' else phone end,
+    phone_key = case when p_patch ? 'phone_key' then p_patch->>'phone_key' else phone_key end,
+    updated_at = coalesce((p_patch->>'updated_at')::timestamptz, now())
+  where id = p_survivor_id;
+end;
+$$;
@@ -0,0 +1,127 @@
+-- Indexes the global search. Each searched table gets a trigram index on its
+-- searched text in normalized form, and search_entities now matches against
+-- that same expression, using the index for the longest term and reading at
+-- most p_per_type rows of each type.
+create extension if not exists unaccent;
+create extension if not exists pg_trgm;
+
+-- lower(unaccent()) usable in an index: unaccent itself is only stable since
+-- it reads its dictionary from the search path
+create or replace function search_text(p_text text)
+returns text
+language sql
+immutable
+strict
+parallel safe
+as $$
+  select lower(public.unaccent('public.unaccent'::regdictionary, p_text));
+$$;
+
+create index if not exists projects_search_idx on projects
+  using gin (search_text(concat_ws(' ', name, description, responsible_name)) gin_trgm_ops);
+
+create index if not exists beneficiaries_search_idx on beneficiaries
+  using gin (search_text(concat_ws(' ', first_name, last_name, phone)) gin_trgm_ops);
+
+create index if not exists documents_search_idx on documents
+  using gin (search_text(concat_ws(' ', title, description)) gin_trgm_ops);
+
+create index if not exists news_search_idx on news
+  using gin (search_text(concat_ws(' ', title, content)) gin_trgm_ops);
+
+create index if not exists messages_search_idx on messages
+  using gin (search_text(concat_ws(' ', subject, content)) gin_trgm_ops);
+
+-- Global search: visible rows of projects, beneficiaries, documents, news and
+-- messages whose text contains every term, case and accents ignored.
+-- Called by SearchRepository.search through supabase.rpc(); the terms arrive
+-- normalized (lowercase, unaccented, letters and digits only). Ranking and
+-- highlighting happen in the API, this only returns the p_per_type most
+-- recent matches of each type.
+create or replace function search_entities(
+  p_terms text[],
+  p_types text[],
+  p_user_id text,
+  p_department_id text,
+  p_read_all_documents boolean,
+  p_read_all_messages boolean,
+  p_per_type integer
+) returns table (entity_type text, id text, title text, body text, created_at timestamptz)
+language sql
+stable
+as $$
+  with patterns as (
+    select array_agg('%' || term || '%') as every_term,
+           (array_agg('%' || term || '%' order by length(term) desc))[1] as longest_term
+    from unnest(p_terms) as term
+  )
+  (
+    select 'PROJECT', p.id, p.name, nullif(concat_ws(' ', p.description, p.responsible_name), ''), p.created_at
+    from projects p
+    where 'PROJECT' = any(p_types)
+      and search_text(concat_ws(' ', p.name, p.description, p.responsible_name)) like (select longest_term from patterns)
+      and search_text(concat_ws(' ', p.name, p.description, p.responsible_name)) like all ((select every_term from patterns))
+    order by p.created_at desc
+    limit p_per_type
+  )
+
+  union all
+
+  (
+    select 'BENEFICIARY', b.id, b.first_name || ' ' || b.last_name, b.phone, b.created_at
+    from beneficiaries b
+    where 'BENEFICIARY' = any(p_types)
+      and search_text(concat_ws(' ', b.first_name, b.last_name, b.phone)) like (select longest_term from patterns)
+      and search_text(concat_ws(' ', b.first_name, b.last_name, b.phone)) like all ((select every_term from patterns))
+    order by b.created_at desc
+    limit p_per_type
+  )
+
+  union all
+
+  (
+    select 'DOCUMENT', d.id, d.title, d.description, d.created_at
+    from documents d
+    where 'DOCUMENT' = any(p_types)
+      and (
+        p_read_all_documents
+        or d.is_public
+        or d.validation_requested_to = p_user_id
+        or (p_department_id is not null and d.department_id = p_department_id)
+      )
+      and search_text(concat_ws(' ', d.title, d.description)) like (select longest_term from patterns)
+      and search_text(concat_ws(' ', d.title, d.description)) like all ((select every_term from patterns))
+    order by d.created_at desc
+    limit p_per_type
+  )
+
+  union all
+
+  (
+    select 'NEWS', n.id, n.title, n.content, n.created_at
+    from news n
+    where 'NEWS' = any(p_types)
+      and search_text(concat_ws(' ', n.title, n.content)) like (select longest_term from patterns)
+      and search_text(concat_ws(' ', n.title, n.content)) like all ((select every_term from patterns))
+    order by n.created_at desc
+    limit p_per_type
+  )
+
+  union all
+
+  (
+    select 'MESSAGE', m.id, m.subject, m.content, m.created_at
+    from messages m
+    where 'MESSAGE' = any(p_types)
+      and (
+        p_read_all_messages
+        or m.from_user_id = p_user_id
+        or m.to_user_id = p_user_id
+        or (p_department_id is not null and m.to_department_id = p_department_id)
+      )
+      and search_text(concat_ws(' ', m.subject, m.content)) like (select longest_term from patterns)
+      and search_text(concat_ws(' ', m.subject, m.content)) like all ((select every_term from patterns))
+    order by m.created_at desc
+    limit p_per_type
+  );
+$$;
@@ -0,0 +1,73 @@
+-- Claims the request on its updated_at as well as its step, so a decision made
+-- on a version of the request that was amended meanwhile (same step, new
+-- metadata or chain) fails with serialization_failure (40001) instead of
+-- applying the old changes.
+drop function if exists decide_validation_request(text, integer, jsonb, jsonb, jsonb);
+
+create or replace function decide_validation_request(
+  p_request_id text,
+  p_expected_step integer,
+  p_expected_updated_at timestamptz,
+  p_step jsonb,
+  p_patch jsonb,
+  p_project_changes jsonb default null
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_request validation_requests%rowtype;
+  v_before projects%rowtype;
+  v_after projects%rowtype;
+begin
+  select * into v_request from validation_requests where id = p_request_id for update;
+
+  if not found
+    or v_request.status <> 'PENDING'
+    or v_request.current_step <> p_expected_step
+    or v_request.updated_at <> p_expected_updated_at then
+    raise exception 'La demande de validation a deja ete traitee' using errcode = '40001';
+  end if;
+
+  insert into validation_steps (id, validation_request_id, step, role, approver_id, on_behalf_of_id, decision, comment, created_at)
+  values (
+    gen_random_uuid()::text,
+    p_request_id,
+    p_expected_step,
+    p_step->>'role',
+    p_step->>'approver_id',
+    p_step->>'on_behalf_of_id',
+    p_step->>'decision',
+    p_step->>'comment',
+    now()
+  );
+
+  if p_project_changes is not null then
+    select * into v_before from projects where id = v_request.project_id for update;
+
+    update projects set
+      status = coalesce(p_project_changes->>'status', status),
+      budget = coalesce((p_project_changes->>'budget')::double precision, budget),
+      updated_at = coalesce((p_project_changes->>'updated_at')::timestamptz, now())
+    where id = v_request.project_id
+    returning * into v_after;
+  end if;
+
+  update validation_requests set
+    status = coalesce(p_patch->>'status', status),
+    current_step = coalesce((p_patch->>'current_step')::integer, current_step),
+    approval_chain = coalesce(p_patch->>'approval_chain', approval_chain),
+    due_at = case when p_patch ? 'due_at' then (p_patch->>'due_at')::timestamptz else due_at end,
+    reminder_sent_at = case when p_patch ? 'reminder_sent_at' then (p_patch->>'reminder_sent_at')::timestamptz else reminder_sent_at end,
+    escalation_count = coalesce((p_patch->>'escalation_count')::integer, escalation_count),
+    approver_id = coalesce(p_patch->>'approver_id', approver_id),
+    response_comment = coalesce(p_patch->>'response_comment', response_comment),
+    responded_at = coalesce((p_patch->>'responded_at')::timestamptz, responded_at),
+    updated_at = coalesce((p_patch->>'updated_at')::timestamptz, now())
+  where id = p_request_id;
+
+  return jsonb_build_object(
+    'project_before', case when p_project_changes is null then null else to_jsonb(v_before) end,
+    'project_after', case when p_project_changes is null then null else to_jsonb(v_after) end
+  );
+end;
+$$;